@@ -4,6 +4,23 @@
  * 
  * @author CHOUABBIA Amine
  * @created 12-22-2025
+ * @updated 10-19-2026 - Added Volume balance report route
+ * @updated 10-19-2026 - Added Forecast planning route
+ * @updated 10-19-2026 - Added Forecast analytics route
+ * @updated 10-19-2026 - Added Pipeline coverage report route
+ * @updated 10-19-2026 - Added Validator workload dashboard route
+ * @updated 10-19-2026 - Added Slot heatmap route
+ * @updated 10-19-2026 - Added Validation queue route
+ * @updated 10-19-2026 - Added Reading import route
+ * @updated 10-19-2026 - Added Reading slot administration routes
+ * @updated 10-19-2026 - Added Maintenance planning route
+ * @updated 10-19-2026 - Added Equipment register routes
+ * @updated 10-19-2026 - Added Active sessions route
+ * @updated 10-19-2026 - Added Audit log route
+ * @updated 10-19-2026 - Added Data quality issue tracker route
+ * @updated 10-19-2026 - Added Anomaly review workspace route
+ * @updated 10-19-2026 - Added Flow Alerts inbox route
+ * @updated 10-19-2026 - Added Flow Event routes
  * @updated 02-14-2026 18:08 - Added Pipeline Intelligence Dashboard route
  * @updated 02-14-2026 01:57 - Added PipelineSegmentEdit routes
  * @updated 02-07-2026 15:10 - Removed /flow/readings route - SlotMonitoring is now the primary flow interface
@@ -45,8 +62,9 @@ import PublicRoute from './shared/components/PublicRoute';
 import { Layout } from './shared/components/Layout';
 import { Dashboard } from './shared/components/Dashboard';
 import { Profile } from './shared/pages';
-import { Login } from './modules/system/auth/pages';
+import { Login, SessionList } from './modules/system/auth/pages';
 import { UserList, UserEdit, RoleList, RoleEdit, GroupList, GroupEdit } from './modules/system/security/pages';
+import { AuditLogList } from './modules/system/audit/pages';
 import { 
   StationList, 
   StationEdit, 
@@ -60,7 +78,10 @@ import {
   PipelineEdit,
   PipelineSegmentEdit,
   PipelineSystemList,
-  PipelineSystemEdit
+  PipelineSystemEdit,
+  EquipmentList,
+  EquipmentEdit,
+  MaintenancePlanning
 } from './modules/network/core/pages';
 import { NetworkMapPage, GeoDebugPage, PipelineMapPage } from './modules/network/geo/pages';
 import { StructureList, StructureEdit, EmployeeList, EmployeeEdit } from './modules/general/organization';
@@ -86,13 +107,23 @@ import {
   ThresholdEdit,
   ForecastList,
   ForecastEdit,
+  ForecastAnalytics,
+  ForecastPlanning,
   OperationList,
   OperationEdit,
-  OperationValidation
+  OperationValidation,
+  EventList,
+  EventEdit,
+  AlertList,
+  ReadingSlotList,
+  ReadingSlotEdit,
+  ReadingImport,
+  ValidationQueue,
+  SlotHeatmap
 } from './modules/flow/core/pages';
 
 // Flow Intelligence Module
-import { PipelineDashboardPage } from './modules/flow/intelligence/pages';
+import { PipelineDashboardPage, AnomalyWorkspace, DataQualityIssueList, ValidatorWorkloadDashboard, PipelineCoverageReport, VolumeBalanceReport } from './modules/flow/intelligence/pages';
 
 function App() {
   const { i18n } = useTranslation();
@@ -181,6 +212,55 @@ function App() {
                           </ProtectedRoute>
                         }
                       />
+
+                      {/* Anomaly Review Workspace */}
+                      <Route
+                        path="anomalies"
+                        element={
+                          <ProtectedRoute>
+                            <AnomalyWorkspace />
+                          </ProtectedRoute>
+                        }
+                      />
+
+                      {/* Data Quality Issue Tracker */}
+                      <Route
+                        path="data-quality"
+                        element={
+                          <ProtectedRoute>
+                            <DataQualityIssueList />
+                          </ProtectedRoute>
+                        }
+                      />
+
+                      {/* Validator Workload Dashboard */}
+                      <Route
+                        path="validator-workload"
+                        element={
+                          <ProtectedRoute>
+                            <ValidatorWorkloadDashboard />
+                          </ProtectedRoute>
+                        }
+                      />
+
+                      {/* Pipeline Coverage Report */}
+                      <Route
+                        path="coverage-report"
+                        element={
+                          <ProtectedRoute>
+                            <PipelineCoverageReport />
+                          </ProtectedRoute>
+                        }
+                      />
+                      {/* Volume Balance Report */}
+                      <Route
+                        path="volume-balance"
+                        element={
+                          <ProtectedRoute>
+                            <VolumeBalanceReport />
+                          </ProtectedRoute>
+                        }
+                      />
                     </Route>
 
                     {/* Slot Monitoring - PRIMARY INTERFACE */}
@@ -193,6 +273,36 @@ function App() {
                       }
                     />
 
+                    {/* Daily slot heatmap (pipelines × slots / days) */}
+                    <Route
+                      path="slot-heatmap"
+                      element={
+                        <ProtectedRoute>
+                          <SlotHeatmap />
+                        </ProtectedRoute>
+                      }
+                    />
+
+                    {/* Historical Reading Import (Excel/CSV) */}
+                    <Route
+                      path="readings/import"
+                      element={
+                        <ProtectedRoute>
+                          <ReadingImport />
+                        </ProtectedRoute>
+                      }
+                    />
+
+                    {/* Validator queue - batch approve/reject */}
+                    <Route
+                      path="validation-queue"
+                      element={
+                        <ProtectedRoute>
+                          <ValidationQueue />
+                        </ProtectedRoute>
+                      }
+                    />
+
                     {/* Reading Edit/Create/Validate - Accessed from SlotMonitoring */}
                     <Route
                       path="readings/new"
@@ -264,6 +374,22 @@ function App() {
                         </ProtectedRoute>
                       }
                     />
+                    <Route
+                      path="forecasts/analytics"
+                      element={
+                        <ProtectedRoute>
+                          <ForecastAnalytics />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="forecasts/planning"
+                      element={
+                        <ProtectedRoute>
+                          <ForecastPlanning />
+                        </ProtectedRoute>
+                      }
+                    />
                     <Route
                       path="forecasts/new"
                       element={
@@ -314,6 +440,66 @@ function App() {
                         </ProtectedRoute>
                       }
                     />
+
+                    {/* Flow Events */}
+                    <Route
+                      path="events"
+                      element={
+                        <ProtectedRoute>
+                          <EventList />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="events/new"
+                      element={
+                        <ProtectedRoute>
+                          <EventEdit />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="events/:id/edit"
+                      element={
+                        <ProtectedRoute>
+                          <EventEdit />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="alerts"
+                      element={
+                        <ProtectedRoute>
+                          <AlertList />
+                        </ProtectedRoute>
+                      }
+                    />
+
+                    {/* Reading Slots */}
+                    <Route
+                      path="reading-slots"
+                      element={
+                        <ProtectedRoute>
+                          <ReadingSlotList />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="reading-slots/new"
+                      element={
+                        <ProtectedRoute>
+                          <ReadingSlotEdit />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="reading-slots/:id/edit"
+                      element={
+                        <ProtectedRoute>
+                          <ReadingSlotEdit />
+                        </ProtectedRoute>
+                      }
+                    />
                   </Route>
 
                   {/* Security Module - Protected */}
@@ -397,6 +583,30 @@ function App() {
                     />
                   </Route>
 
+                  {/* Auth Module - Protected */}
+                  <Route path="auth">
+                    <Route
+                      path="sessions"
+                      element={
+                        <ProtectedRoute>
+                          <SessionList />
+                        </ProtectedRoute>
+                      }
+                    />
+                  </Route>
+
+                  {/* Audit Module - Protected */}
+                  <Route path="audit">
+                    <Route
+                      path="logs"
+                      element={
+                        <ProtectedRoute>
+                          <AuditLogList />
+                        </ProtectedRoute>
+                      }
+                    />
+                  </Route>
+
                   {/* Administration Module - Protected */}
                   <Route path="administration">
                     {/* Structures */}
@@ -661,6 +871,42 @@ function App() {
                         }
                       />
 
+                      {/* Equipment */}
+                      <Route
+                        path="equipment"
+                        element={
+                          <ProtectedRoute>
+                            <EquipmentList />
+                          </ProtectedRoute>
+                        }
+                      />
+                      <Route
+                        path="equipment/create"
+                        element={
+                          <ProtectedRoute>
+                            <EquipmentEdit />
+                          </ProtectedRoute>
+                        }
+                      />
+                      <Route
+                        path="equipment/:equipmentId/edit"
+                        element={
+                          <ProtectedRoute>
+                            <EquipmentEdit />
+                          </ProtectedRoute>
+                        }
+                      />
+
+                      {/* Maintenance Planning */}
+                      <Route
+                        path="maintenance"
+                        element={
+                          <ProtectedRoute>
+                            <MaintenancePlanning />
+                          </ProtectedRoute>
+                        }
+                      />
+
                       {/* Production Fields (formerly Hydrocarbon Fields) */}
                       <Route
                         path="production-fields"
@@ -3,8 +3,10 @@
  * 
  * @author CHOUABBIA Amine
  * @created 01-25-2026
+ * @updated 10-19-2026 - Added readingSlotUtils
  */
 
 export * from './constants';
 export * from './localizationUtils';
+export * from './readingSlotUtils';
 export * from './validationUtils';
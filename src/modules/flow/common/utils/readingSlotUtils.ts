@@ -0,0 +1,119 @@
+/**
+ * Reading Slot Utilities
+ *
+ * Day schedule checks for reading slots: overlaps between slots and
+ * uncovered periods of the 24h day. Times are handled as minutes since
+ * midnight; an end time of 00:00:00 means midnight at the end of the day.
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import type { ReadingSlotDTO } from '../dto/ReadingSlotDTO';
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+export interface SlotRange {
+  start: number;
+  end: number;
+}
+
+export interface SlotOverlap {
+  first: ReadingSlotDTO;
+  second: ReadingSlotDTO;
+  range: SlotRange;
+}
+
+/**
+ * Convert HH:mm[:ss] to minutes since midnight
+ */
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+/**
+ * Convert minutes since midnight to HH:mm (1440 renders as 24:00)
+ */
+export function minutesToTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}`;
+}
+
+/**
+ * Minute range covered by a slot within the day
+ */
+export function getSlotRange(slot: Pick<ReadingSlotDTO, 'startTime' | 'endTime'>): SlotRange {
+  const start = timeToMinutes(slot.startTime);
+  const end = timeToMinutes(slot.endTime);
+  return { start, end: end === 0 ? MINUTES_PER_DAY : end };
+}
+
+/**
+ * Whether a slot has a usable time range (both times set, end after start)
+ */
+export function hasValidSlotRange(slot: Partial<ReadingSlotDTO>): boolean {
+  if (!slot.startTime || !slot.endTime) return false;
+  const { start, end } = getSlotRange(slot as ReadingSlotDTO);
+  return end > start;
+}
+
+/**
+ * All pairs of slots whose time ranges overlap
+ */
+export function findSlotOverlaps(slots: ReadingSlotDTO[]): SlotOverlap[] {
+  const valid = slots.filter(hasValidSlotRange);
+  const overlaps: SlotOverlap[] = [];
+
+  for (let i = 0; i < valid.length; i++) {
+    for (let j = i + 1; j < valid.length; j++) {
+      const a = getSlotRange(valid[i]);
+      const b = getSlotRange(valid[j]);
+      const start = Math.max(a.start, b.start);
+      const end = Math.min(a.end, b.end);
+      if (start < end) {
+        overlaps.push({ first: valid[i], second: valid[j], range: { start, end } });
+      }
+    }
+  }
+
+  return overlaps;
+}
+
+/**
+ * Periods of the day not covered by any slot
+ */
+export function findCoverageGaps(slots: ReadingSlotDTO[]): SlotRange[] {
+  const ranges = slots
+    .filter(hasValidSlotRange)
+    .map(getSlotRange)
+    .sort((a, b) => a.start - b.start);
+
+  const gaps: SlotRange[] = [];
+  let cursor = 0;
+
+  ranges.forEach(({ start, end }) => {
+    if (start > cursor) {
+      gaps.push({ start: cursor, end: start });
+    }
+    cursor = Math.max(cursor, end);
+  });
+
+  if (cursor < MINUTES_PER_DAY) {
+    gaps.push({ start: cursor, end: MINUTES_PER_DAY });
+  }
+
+  return gaps;
+}
+
+/**
+ * Slots sorted by display order, then start time
+ */
+export function sortSlotsByDisplayOrder(slots: ReadingSlotDTO[]): ReadingSlotDTO[] {
+  return [...slots].sort(
+    (a, b) =>
+      (a.displayOrder ?? Number.MAX_SAFE_INTEGER) - (b.displayOrder ?? Number.MAX_SAFE_INTEGER) ||
+      a.startTime.localeCompare(b.startTime)
+  );
+}
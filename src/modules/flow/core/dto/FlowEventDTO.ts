@@ -3,6 +3,7 @@
  * @Name: FlowEventDTO
  * @CreatedOn: 01-23-2026
  * @UpdatedOn: 02-13-2026 - Complete backend alignment audit
+ * @UpdatedOn: 10-19-2026 - Added validateFlowEventDTO
  * @Type: Interface
  * @Layer: DTO
  * @Package: Flow / Core
@@ -145,3 +146,58 @@ export interface FlowEventDTO {
    */
   status?: EventStatusDTO;
 }
+
+/**
+ * Validates FlowEventDTO according to backend constraints
+ * @param data - Partial flow event data to validate
+ * @returns Array of validation error messages
+ */
+export const validateFlowEventDTO = (data: Partial<FlowEventDTO>): string[] => {
+  const errors: string[] = [];
+
+  // Event timestamp validation
+  if (!data.eventTimestamp) {
+    errors.push('Event timestamp is required');
+  } else if (new Date(data.eventTimestamp) > new Date()) {
+    errors.push('Event timestamp cannot be in the future');
+  }
+
+  // Title validation
+  if (!data.title || !data.title.trim()) {
+    errors.push('Event title is required');
+  } else if (data.title.length < 3 || data.title.length > 100) {
+    errors.push('Event title must be between 3 and 100 characters');
+  }
+
+  // Description validation
+  if (data.description && data.description.length > 2000) {
+    errors.push('Description must not exceed 2000 characters');
+  }
+
+  // Action taken validation
+  if (data.actionTaken && data.actionTaken.length > 2000) {
+    errors.push('Action taken must not exceed 2000 characters');
+  }
+
+  // Start/end time validation
+  if (data.startTime && data.endTime && new Date(data.endTime) < new Date(data.startTime)) {
+    errors.push('End time must be after start time');
+  }
+
+  // Impact on flow validation
+  if (data.impactOnFlow === undefined || data.impactOnFlow === null) {
+    errors.push('Impact on flow flag is required');
+  }
+
+  // Infrastructure validation
+  if (!data.infrastructureId) {
+    errors.push('Infrastructure is required');
+  }
+
+  // Reporter validation
+  if (!data.reportedById) {
+    errors.push('Reporter is required');
+  }
+
+  return errors;
+};
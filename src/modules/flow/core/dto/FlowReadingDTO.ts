@@ -6,6 +6,8 @@
  * 
  * @author MEDJERAB Abir (Backend), CHOUABBIA Amine (Frontend)
  * @created 2026-01-23
+ * @updated 2026-10-19 - Added assigned validator (workload balancing, proposed)
+ * @updated 2026-10-19 - Added revision fields (correction workflow, proposed)
  * @updated 2026-02-04 - Frontend alignment
  * @package flow/core/dto
  */
@@ -60,6 +62,25 @@ export interface FlowReadingDTO {
   /** Reading slot ID */
   readingSlotId: number;
   
+  // Revision (correction workflow)
+  // PROPOSED - not yet returned by the backend; absent until it implements revisions
+  /** Revision number, 1 for the original reading */
+  revisionNumber?: number;
+  
+  /** Reading this revision corrects, null for the original reading */
+  previousRevisionId?: number | null;
+  
+  /** True once a later revision of this reading has been validated */
+  superseded?: boolean;
+  
+  /** Reason given when the correction was requested */
+  correctionReason?: string | null;
+  
+  // Validation assignment
+  // PROPOSED - not yet returned by the backend (reassignment workflow)
+  /** Validator in charge of a submitted reading */
+  assignedValidatorId?: number | null;
+  
   // Nested DTOs
   /** Recording employee details */
   recordedBy?: EmployeeDTO;
@@ -67,6 +88,9 @@ export interface FlowReadingDTO {
   /** Validating employee details */
   validatedBy?: EmployeeDTO;
   
+  /** Assigned validator details */
+  assignedValidator?: EmployeeDTO;
+  
   /** Validation status details */
   validationStatus?: ValidationStatusDTO;
   
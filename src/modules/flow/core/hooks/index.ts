@@ -0,0 +1,12 @@
+/**
+ * Flow Core Hooks
+ * 
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ * @updated 10-19-2026 - Added useSlotDeadline
+ */
+
+export { useOfflineReadingQueue } from './useOfflineReadingQueue';
+export type { UseOfflineReadingQueueOptions } from './useOfflineReadingQueue';
+export { useSlotDeadline } from './useSlotDeadline';
+export type { UseSlotDeadlineOptions, SlotDeadlineReminder } from './useSlotDeadline';
@@ -0,0 +1,122 @@
+/**
+ * useOfflineReadingQueue Hook
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ *
+ * @description Exposes the offline reading queue to pages. The queue is
+ *              reloaded whenever it changes (from any component), and pending
+ *              readings are replayed automatically when the connection
+ *              returns. While online, the server slot context is cached for
+ *              the next offline capture.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useOnlineStatus } from '@/shared/hooks/useOnlineStatus';
+import {
+  OfflineReadingQueueService,
+  OFFLINE_QUEUE_CHANGED_EVENT,
+} from '../services/OfflineReadingQueueService';
+import type {
+  QueuedReading,
+  OfflineSyncResult,
+} from '../services/OfflineReadingQueueService';
+
+export interface UseOfflineReadingQueueOptions {
+  /**
+   * Replay pending readings when the connection returns
+   * @default true
+   */
+  autoSync?: boolean;
+
+  /**
+   * Called after each replay
+   */
+  onSynced?: (result: OfflineSyncResult) => void;
+}
+
+export const useOfflineReadingQueue = (options: UseOfflineReadingQueueOptions = {}) => {
+  const { autoSync = true, onSynced } = options;
+  const isOnline = useOnlineStatus();
+  const [entries, setEntries] = useState<QueuedReading[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const syncingRef = useRef(false);
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const reload = useCallback(async () => {
+    try {
+      setEntries(await OfflineReadingQueueService.getAll());
+    } catch (err) {
+      console.error('Error loading offline reading queue:', err);
+    }
+  }, []);
+
+  const sync = useCallback(async (): Promise<OfflineSyncResult | null> => {
+    if (syncingRef.current || !navigator.onLine) return null;
+
+    try {
+      syncingRef.current = true;
+      setSyncing(true);
+      const result = await OfflineReadingQueueService.sync();
+      onSyncedRef.current?.(result);
+      return result;
+    } catch (err) {
+      console.error('Error syncing offline readings:', err);
+      return null;
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+  }, []);
+
+  const discard = useCallback(async (localId: number) => {
+    await OfflineReadingQueueService.remove(localId);
+  }, []);
+
+  /**
+   * Put a conflicting/failed reading back in the replay queue
+   */
+  const retry = useCallback(async (entry: QueuedReading) => {
+    await OfflineReadingQueueService.update({
+      ...entry,
+      status: 'PENDING',
+      serverReading: undefined,
+      error: undefined,
+    });
+  }, []);
+
+  const overwrite = useCallback(async (entry: QueuedReading) => {
+    await OfflineReadingQueueService.overwriteServerReading(entry);
+  }, []);
+
+  useEffect(() => {
+    reload();
+    window.addEventListener(OFFLINE_QUEUE_CHANGED_EVENT, reload);
+    return () => window.removeEventListener(OFFLINE_QUEUE_CHANGED_EVENT, reload);
+  }, [reload]);
+
+  useEffect(() => {
+    if (!isOnline) return;
+
+    OfflineReadingQueueService.refreshSlotContext().catch((err) =>
+      console.warn('Could not cache current slot context:', err)
+    );
+
+    if (autoSync) {
+      sync();
+    }
+  }, [isOnline, autoSync, sync]);
+
+  return {
+    entries,
+    pendingCount: entries.filter((entry) => entry.status === 'PENDING').length,
+    isOnline,
+    syncing,
+    sync,
+    discard,
+    retry,
+    overwrite,
+    refetch: reload,
+  };
+};
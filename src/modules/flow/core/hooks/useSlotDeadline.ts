@@ -0,0 +1,100 @@
+/**
+ * useSlotDeadline Hook
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ *
+ * @description Tracks the deadline of the displayed slot and raises
+ *              reminders when the deadline comes within one of the
+ *              configured offsets while pipelines are still not recorded
+ *              or in draft. Each offset fires at most once per slot; when
+ *              the page opens late, only the closest passed offset fires.
+ *              Reminders are raised in-app (onReminder) and as a browser
+ *              notification when the user has allowed them.
+ *              The hook only re-renders at reminder offsets and at the
+ *              deadline; the per-second countdown is left to the display.
+ */
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { getPendingRecordings, getSlotDeadline } from '../utils/slotDeadlineUtils';
+import type { SlotCoverageDTO } from '../dto/SlotCoverageDTO';
+
+export interface SlotDeadlineReminder {
+  /** Offset that triggered the reminder (minutes before the deadline) */
+  offset: number;
+  /** Minutes actually left */
+  minutesLeft: number;
+  /** Pipelines not recorded or in draft */
+  pendingCount: number;
+}
+
+export interface UseSlotDeadlineOptions {
+  /** Minutes before the deadline at which to remind */
+  offsets: number[];
+  onReminder?: (reminder: SlotDeadlineReminder) => void;
+  /** Browser notification title/body for a reminder */
+  formatNotification?: (reminder: SlotDeadlineReminder) => { title: string; body: string };
+}
+
+/** Margin after a boundary so that it is reliably crossed when the timer fires */
+const BOUNDARY_MARGIN = 50;
+
+export const useSlotDeadline = (coverage: SlotCoverageDTO | null, options: UseSlotDeadlineOptions) => {
+  const { offsets, onReminder, formatNotification } = options;
+  const [now, setNow] = useState(() => Date.now());
+  const firedRef = useRef<Set<string>>(new Set());
+  const onReminderRef = useRef(onReminder);
+  onReminderRef.current = onReminder;
+  const formatNotificationRef = useRef(formatNotification);
+  formatNotificationRef.current = formatNotification;
+
+  const deadline = useMemo(() => (coverage ? getSlotDeadline(coverage) : null), [coverage]);
+  const pendingCount = coverage ? getPendingRecordings(coverage).length : 0;
+
+  // Reloaded coverage (e.g. on window focus): start from the current time
+  useEffect(() => {
+    setNow(Date.now());
+  }, [coverage]);
+
+  // Wake up at the next reminder offset or at the deadline
+  useEffect(() => {
+    if (!deadline) return;
+    const boundaries = [...offsets.map((offset) => deadline.getTime() - offset * 60000), deadline.getTime()]
+      .filter((time) => time > now);
+    if (boundaries.length === 0) return;
+    const timer = window.setTimeout(() => setNow(Date.now()), Math.min(...boundaries) - now + BOUNDARY_MARGIN);
+    return () => window.clearTimeout(timer);
+  }, [deadline, offsets, now]);
+
+  const remainingMs = deadline ? deadline.getTime() - now : null;
+
+  useEffect(() => {
+    if (!coverage || remainingMs === null || remainingMs <= 0 || pendingCount === 0) return;
+
+    const slotKey = `${coverage.date}|${coverage.slotId ?? coverage.slot?.id}`;
+    const due = offsets.filter(
+      (offset) => remainingMs <= offset * 60000 && !firedRef.current.has(`${slotKey}|${offset}`)
+    );
+    if (due.length === 0) return;
+
+    due.forEach((offset) => firedRef.current.add(`${slotKey}|${offset}`));
+
+    const reminder: SlotDeadlineReminder = {
+      offset: Math.min(...due),
+      minutesLeft: Math.ceil(remainingMs / 60000),
+      pendingCount,
+    };
+    onReminderRef.current?.(reminder);
+
+    if ('Notification' in window && Notification.permission === 'granted' && formatNotificationRef.current) {
+      const { title, body } = formatNotificationRef.current(reminder);
+      new Notification(title, { body, tag: `slot-deadline-${slotKey}` });
+    }
+  }, [coverage, remainingMs, offsets, pendingCount]);
+
+  return {
+    deadline,
+    isOverdue: remainingMs !== null && remainingMs <= 0,
+    pendingCount,
+  };
+};
@@ -0,0 +1,40 @@
+/**
+ * AlertList Page - Flow Alerts Inbox
+ *
+ * Operator inbox for threshold breach alerts with:
+ * - Quick views: unacknowledged, active (not resolved), all
+ * - Alert count by status summary
+ * - Bulk actions: Acknowledge, Resolve (with notes), Dismiss
+ * - Raise a flow event from an alert
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Box, Typography, Paper } from '@mui/material';
+
+import { AlertInbox } from './components/AlertInbox';
+
+export const AlertList: React.FC = () => {
+  const { t } = useTranslation();
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* HEADER SECTION - Containerized */}
+      <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+        <Box sx={{ p: 2.5 }}>
+          <Typography variant="h4" fontWeight={700} color="text.primary" sx={{ mb: 0.5 }}>
+            {t('flow.alert.title')}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {t('flow.alert.subtitle')}
+          </Typography>
+        </Box>
+      </Paper>
+
+      <AlertInbox />
+    </Box>
+  );
+};
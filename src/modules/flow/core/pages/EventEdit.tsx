@@ -0,0 +1,560 @@
+/**
+ * EventEdit Page - Flow Event Create/Edit
+ *
+ * Form for logging and updating flow events (shutdowns, leaks, maintenance) with:
+ * - Infrastructure, severity and status selection
+ * - Event timestamp and start/end time window
+ * - Impact on flow flag and corrective action
+ * - Optional links to the related flow reading and alert
+ *
+ * Accepts navigation state to prefill the form (e.g. when raised from an alert).
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useParams, useLocation } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useForm, Controller } from 'react-hook-form';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Grid,
+  MenuItem,
+  CircularProgress,
+  Alert,
+  Divider,
+  FormControlLabel,
+  Switch,
+  Paper,
+  Stack,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import {
+  Save as SaveIcon,
+  Close as CloseIcon,
+  ReportProblem as ReportProblemIcon,
+} from '@mui/icons-material';
+
+import { FlowEventService } from '../services/FlowEventService';
+import { SeverityService } from '@/modules/flow/common/services/SeverityService';
+import { EventStatusService } from '@/modules/flow/common/services/EventStatusService';
+import { InfrastructureService } from '@/modules/network/core/services/InfrastructureService';
+import { useAuth } from '@/shared/context/AuthContext';
+import { getUserEmployeeId } from '../utils/userHelpers';
+import { getCurrentLocalDateTime } from '@/shared/utils/dateTimeLocal';
+import { validateFlowEventDTO } from '../dto/FlowEventDTO';
+import { EventStatusCode } from '@/modules/flow/common/dto/EventStatusDTO';
+
+import type { FlowEventDTO } from '../dto/FlowEventDTO';
+import type { SeverityDTO } from '@/modules/flow/common/dto/SeverityDTO';
+import type { EventStatusDTO } from '@/modules/flow/common/dto/EventStatusDTO';
+import type { InfrastructureDTO } from '@/modules/network/core/dto/InfrastructureDTO';
+
+interface EventFormData {
+  title: string;
+  description: string;
+  eventTimestamp: string;
+  startTime: string;
+  endTime: string;
+  actionTaken: string;
+  impactOnFlow: boolean;
+  infrastructureId: number | '';
+  severityId: number | '';
+  statusId: number | '';
+  relatedReadingId: number | '';
+  relatedAlertId: number | '';
+}
+
+/**
+ * Navigation state used to prefill a new event
+ */
+interface NavigationState {
+  title?: string;
+  infrastructureId?: number;
+  relatedReadingId?: number;
+  relatedAlertId?: number;
+  returnTo?: string;
+}
+
+/**
+ * Backend LocalDateTime (YYYY-MM-DDTHH:mm:ss) to datetime-local input value
+ */
+const toInputValue = (value?: string): string => (value ? value.slice(0, 16) : '');
+
+/**
+ * datetime-local input value to backend LocalDateTime
+ */
+const toBackendValue = (value: string): string | undefined => {
+  if (!value) return undefined;
+  return value.length === 16 ? `${value}:00` : value;
+};
+
+export const EventEdit: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { t } = useTranslation();
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const isEditMode = Boolean(id);
+
+  const navigationState = location.state as NavigationState | undefined;
+  const returnTo = navigationState?.returnTo || '/flow/events';
+
+  const { control, handleSubmit, watch, reset } = useForm<EventFormData>({
+    defaultValues: {
+      title: navigationState?.title || '',
+      description: '',
+      eventTimestamp: getCurrentLocalDateTime(),
+      startTime: '',
+      endTime: '',
+      actionTaken: '',
+      impactOnFlow: false,
+      infrastructureId: navigationState?.infrastructureId || '',
+      severityId: '',
+      statusId: '',
+      relatedReadingId: navigationState?.relatedReadingId || '',
+      relatedAlertId: navigationState?.relatedAlertId || '',
+    },
+  });
+
+  const [loading, setLoading] = useState(false);
+  const [loadingData, setLoadingData] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [existingEvent, setExistingEvent] = useState<FlowEventDTO | null>(null);
+  const [infrastructures, setInfrastructures] = useState<InfrastructureDTO[]>([]);
+  const [severities, setSeverities] = useState<SeverityDTO[]>([]);
+  const [statuses, setStatuses] = useState<EventStatusDTO[]>([]);
+
+  const employeeId = useMemo(() => getUserEmployeeId(user), [user]);
+
+  const toDTO = (data: EventFormData): FlowEventDTO => ({
+    id: isEditMode && id ? Number(id) : undefined,
+    title: data.title?.trim(),
+    description: data.description?.trim() || undefined,
+    eventTimestamp: toBackendValue(data.eventTimestamp) as string,
+    startTime: toBackendValue(data.startTime),
+    endTime: toBackendValue(data.endTime),
+    actionTaken: data.actionTaken?.trim() || undefined,
+    impactOnFlow: data.impactOnFlow,
+    infrastructureId: Number(data.infrastructureId),
+    severityId: data.severityId ? Number(data.severityId) : undefined,
+    statusId: data.statusId ? Number(data.statusId) : undefined,
+    relatedReadingId: data.relatedReadingId ? Number(data.relatedReadingId) : undefined,
+    relatedAlertId: data.relatedAlertId ? Number(data.relatedAlertId) : undefined,
+    reportedById: existingEvent?.reportedById ?? (employeeId as number),
+  });
+
+  const formValues = watch();
+
+  const validationErrors = useMemo(
+    () => validateFlowEventDTO(toDTO(formValues)),
+    [JSON.stringify(formValues), employeeId]
+  );
+
+  useEffect(() => {
+    loadInitialData();
+  }, [id]);
+
+  const loadInitialData = async () => {
+    try {
+      setLoadingData(true);
+
+      const [infras, sevs, stats] = await Promise.all([
+        InfrastructureService.getAllNoPagination(),
+        SeverityService.getAllNoPagination(),
+        EventStatusService.getAllNoPagination(),
+      ]);
+      setInfrastructures(infras);
+      setSeverities(sevs);
+      setStatuses(stats);
+
+      if (isEditMode && id) {
+        const event = await FlowEventService.getById(Number(id));
+        setExistingEvent(event);
+        reset({
+          title: event.title,
+          description: event.description || '',
+          eventTimestamp: toInputValue(event.eventTimestamp),
+          startTime: toInputValue(event.startTime),
+          endTime: toInputValue(event.endTime),
+          actionTaken: event.actionTaken || '',
+          impactOnFlow: event.impactOnFlow,
+          infrastructureId: event.infrastructureId,
+          severityId: event.severityId ?? '',
+          statusId: event.statusId ?? '',
+          relatedReadingId: event.relatedReadingId ?? '',
+          relatedAlertId: event.relatedAlertId ?? '',
+        });
+      } else {
+        // New events default to PLANNED
+        const planned = stats.find(s => s.code === EventStatusCode.PLANNED);
+        if (planned?.id) {
+          reset({ ...formValues, statusId: planned.id });
+        }
+      }
+    } catch (err: any) {
+      console.error('Error loading event data:', err);
+      setError(err.message || t('flow.event.alerts.loadError'));
+    } finally {
+      setLoadingData(false);
+    }
+  };
+
+  const onSubmit = async (data: EventFormData) => {
+    if (!employeeId && !existingEvent) {
+      setError(t('flow.event.alerts.noEmployee'));
+      return;
+    }
+
+    const dto = toDTO(data);
+    const errors = validateFlowEventDTO(dto);
+    if (errors.length > 0) {
+      setError(t('flow.event.alerts.fixErrors'));
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (isEditMode && id) {
+        await FlowEventService.update(Number(id), dto);
+      } else {
+        await FlowEventService.create(dto);
+      }
+
+      navigate(returnTo);
+    } catch (err: any) {
+      console.error('Error saving event:', err);
+      if (err.response?.status === 400) {
+        setError(err.response.data?.message || t('flow.event.alerts.saveError'));
+      } else {
+        setError(err.message || t('flow.event.alerts.saveError'));
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loadingData) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '400px' }}>
+        <CircularProgress size={60} />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* HEADER SECTION - Containerized */}
+      <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+        <Box sx={{ p: 2.5 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <ReportProblemIcon color="primary" sx={{ fontSize: 32 }} />
+              <Box>
+                <Typography variant="h4" fontWeight={700} color="text.primary">
+                  {isEditMode ? `${t('flow.event.edit')} #${id}` : t('flow.event.create')}
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5 }}>
+                  {t('flow.event.editSubtitle')}
+                </Typography>
+              </Box>
+            </Box>
+            <Stack direction="row" spacing={1.5}>
+              <Tooltip title={t('flow.event.actions.cancel')}>
+                <IconButton onClick={() => navigate(returnTo)} disabled={loading} size="medium" color="default">
+                  <CloseIcon />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title={t('flow.event.actions.save')}>
+                <span>
+                  <IconButton
+                    onClick={handleSubmit(onSubmit)}
+                    disabled={loading || validationErrors.length > 0}
+                    size="medium"
+                    color="primary"
+                  >
+                    {loading ? <CircularProgress size={24} /> : <SaveIcon />}
+                  </IconButton>
+                </span>
+              </Tooltip>
+            </Stack>
+          </Box>
+        </Box>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {validationErrors.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 3 }}>
+          <ul style={{ margin: 0, paddingLeft: 20 }}>
+            {validationErrors.map((err, idx) => (
+              <li key={idx}>{err}</li>
+            ))}
+          </ul>
+        </Alert>
+      )}
+
+      <Grid container spacing={3}>
+        {/* General information */}
+        <Grid item xs={12}>
+          <Card>
+            <CardContent>
+              <Typography variant="h6" fontWeight={600} gutterBottom>
+                {t('flow.event.sections.general')}
+              </Typography>
+              <Divider sx={{ mb: 2 }} />
+              <Grid container spacing={2}>
+                <Grid item xs={12} md={6}>
+                  <Controller
+                    name="title"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        fullWidth
+                        label={`${t('flow.event.fields.title')} *`}
+                        inputProps={{ maxLength: 100 }}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid item xs={12} md={6}>
+                  <Controller
+                    name="infrastructureId"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField {...field} fullWidth select label={`${t('flow.event.fields.infrastructure')} *`}>
+                        <MenuItem value="">{t('flow.event.fields.selectInfrastructure')}</MenuItem>
+                        {infrastructures.map((infra) => (
+                          <MenuItem key={infra.id} value={infra.id}>
+                            {infra.code} - {infra.name}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    )}
+                  />
+                </Grid>
+                <Grid item xs={12} md={6}>
+                  <Controller
+                    name="severityId"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField {...field} fullWidth select label={t('flow.event.fields.severity')}>
+                        <MenuItem value="">{t('flow.event.fields.none')}</MenuItem>
+                        {severities.map((severity) => (
+                          <MenuItem key={severity.id} value={severity.id}>
+                            {severity.code} - {severity.designationFr}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    )}
+                  />
+                </Grid>
+                <Grid item xs={12} md={6}>
+                  <Controller
+                    name="statusId"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        fullWidth
+                        select
+                        label={t('flow.event.fields.status')}
+                        helperText={t('flow.event.fields.statusHelper')}
+                      >
+                        <MenuItem value="">{t('flow.event.fields.none')}</MenuItem>
+                        {statuses.map((status) => (
+                          <MenuItem key={status.id} value={status.id}>
+                            {status.code} - {status.designationFr}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    )}
+                  />
+                </Grid>
+                <Grid item xs={12}>
+                  <Controller
+                    name="description"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        fullWidth
+                        multiline
+                        rows={4}
+                        label={t('flow.event.fields.description')}
+                        inputProps={{ maxLength: 2000 }}
+                        helperText={`${field.value?.length || 0}/2000`}
+                      />
+                    )}
+                  />
+                </Grid>
+              </Grid>
+            </CardContent>
+          </Card>
+        </Grid>
+
+        {/* Timing */}
+        <Grid item xs={12} md={6}>
+          <Card sx={{ height: '100%' }}>
+            <CardContent>
+              <Typography variant="h6" fontWeight={600} gutterBottom>
+                {t('flow.event.sections.timing')}
+              </Typography>
+              <Divider sx={{ mb: 2 }} />
+              <Grid container spacing={2}>
+                <Grid item xs={12}>
+                  <Controller
+                    name="eventTimestamp"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        fullWidth
+                        type="datetime-local"
+                        label={`${t('flow.event.fields.eventTimestamp')} *`}
+                        InputLabelProps={{ shrink: true }}
+                        inputProps={{ max: getCurrentLocalDateTime() }}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <Controller
+                    name="startTime"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        fullWidth
+                        type="datetime-local"
+                        label={t('flow.event.fields.startTime')}
+                        InputLabelProps={{ shrink: true }}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <Controller
+                    name="endTime"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        fullWidth
+                        type="datetime-local"
+                        label={t('flow.event.fields.endTime')}
+                        InputLabelProps={{ shrink: true }}
+                      />
+                    )}
+                  />
+                </Grid>
+              </Grid>
+            </CardContent>
+          </Card>
+        </Grid>
+
+        {/* Impact and links */}
+        <Grid item xs={12} md={6}>
+          <Card sx={{ height: '100%' }}>
+            <CardContent>
+              <Typography variant="h6" fontWeight={600} gutterBottom>
+                {t('flow.event.sections.links')}
+              </Typography>
+              <Divider sx={{ mb: 2 }} />
+              <Grid container spacing={2}>
+                <Grid item xs={12}>
+                  <Controller
+                    name="impactOnFlow"
+                    control={control}
+                    render={({ field }) => (
+                      <FormControlLabel
+                        control={
+                          <Switch
+                            checked={!!field.value}
+                            onChange={(e) => field.onChange(e.target.checked)}
+                            color="error"
+                          />
+                        }
+                        label={t('flow.event.fields.impactOnFlow')}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <Controller
+                    name="relatedReadingId"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        fullWidth
+                        type="number"
+                        label={t('flow.event.fields.relatedReading')}
+                        helperText={
+                          existingEvent?.relatedReading
+                            ? `${existingEvent.relatedReading.readingDate} - ${existingEvent.relatedReading.pipeline?.code || ''}`
+                            : t('flow.event.fields.relatedReadingHelper')
+                        }
+                        inputProps={{ min: 1 }}
+                        onChange={(e) => field.onChange(e.target.value === '' ? '' : Number(e.target.value))}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <Controller
+                    name="relatedAlertId"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        fullWidth
+                        type="number"
+                        label={t('flow.event.fields.relatedAlert')}
+                        helperText={
+                          existingEvent?.relatedAlert?.message || t('flow.event.fields.relatedAlertHelper')
+                        }
+                        inputProps={{ min: 1 }}
+                        onChange={(e) => field.onChange(e.target.value === '' ? '' : Number(e.target.value))}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid item xs={12}>
+                  <Controller
+                    name="actionTaken"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        fullWidth
+                        multiline
+                        rows={3}
+                        label={t('flow.event.fields.actionTaken')}
+                        inputProps={{ maxLength: 2000 }}
+                        helperText={`${field.value?.length || 0}/2000`}
+                      />
+                    )}
+                  />
+                </Grid>
+              </Grid>
+            </CardContent>
+          </Card>
+        </Grid>
+      </Grid>
+    </Box>
+  );
+};
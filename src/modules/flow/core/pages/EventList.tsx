@@ -0,0 +1,685 @@
+/**
+ * EventList Page - Flow Event Console
+ *
+ * Displays paginated list of flow events (shutdowns, leaks, maintenance) with:
+ * - Quick views: all, ongoing (IN_PROGRESS), critical (HIGH/CRITICAL)
+ * - Filtering by search term, severity, status, infrastructure and date range
+ * - Event count by severity summary
+ * - Actions: Create, Edit, Complete (with resolution), Cancel, Delete
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Button,
+  TextField,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  Chip,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  CircularProgress,
+  Alert,
+  InputAdornment,
+  MenuItem,
+  Grid,
+  Paper,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Search as SearchIcon,
+  Refresh as RefreshIcon,
+  TaskAlt as CompleteIcon,
+  Block as CancelEventIcon,
+  ReportProblem as ImpactIcon,
+} from '@mui/icons-material';
+
+import { FlowEventService } from '../services/FlowEventService';
+import { SeverityService } from '@/modules/flow/common/services/SeverityService';
+import { EventStatusService } from '@/modules/flow/common/services/EventStatusService';
+import { InfrastructureService } from '@/modules/network/core/services/InfrastructureService';
+import { ConfirmDialog } from '@/shared/components/ConfirmDialog';
+import { useAuth } from '@/shared/context/AuthContext';
+import { getUserEmployeeId } from '../utils/userHelpers';
+import { formatDateTime } from '@/shared/utils/dateTimeLocal';
+import { getSeverityColor } from '@/modules/flow/common/dto/SeverityDTO';
+import { EventStatusCode, getEventStatusColor } from '@/modules/flow/common/dto/EventStatusDTO';
+
+import type { FlowEventDTO } from '../dto/FlowEventDTO';
+import type { SeverityDTO } from '@/modules/flow/common/dto/SeverityDTO';
+import type { EventStatusDTO } from '@/modules/flow/common/dto/EventStatusDTO';
+import type { InfrastructureDTO } from '@/modules/network/core/dto/InfrastructureDTO';
+import type { Page, Pageable } from '@/types/pagination';
+
+type EventView = 'all' | 'ongoing' | 'critical';
+
+/**
+ * Events in a terminal state can no longer be edited, completed or cancelled
+ */
+const isClosed = (event: FlowEventDTO): boolean =>
+  event.status?.code === EventStatusCode.COMPLETED || event.status?.code === EventStatusCode.CANCELLED;
+
+export const EventList: React.FC = () => {
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+  const { user } = useAuth();
+
+  // State
+  const [events, setEvents] = useState<FlowEventDTO[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(10);
+  const [totalElements, setTotalElements] = useState(0);
+  const [severityCounts, setSeverityCounts] = useState<Record<string, number>>({});
+
+  // Filters
+  const [view, setView] = useState<EventView>('all');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [severities, setSeverities] = useState<SeverityDTO[]>([]);
+  const [statuses, setStatuses] = useState<EventStatusDTO[]>([]);
+  const [infrastructures, setInfrastructures] = useState<InfrastructureDTO[]>([]);
+  const [selectedSeverity, setSelectedSeverity] = useState<number | ''>('');
+  const [selectedStatus, setSelectedStatus] = useState<number | ''>('');
+  const [selectedInfrastructure, setSelectedInfrastructure] = useState<number | ''>('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+
+  // Dialogs
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
+  const [completeDialogOpen, setCompleteDialogOpen] = useState(false);
+  const [selectedEvent, setSelectedEvent] = useState<FlowEventDTO | null>(null);
+  const [resolution, setResolution] = useState('');
+  const [actionLoading, setActionLoading] = useState(false);
+
+  useEffect(() => {
+    loadEvents();
+  }, [page, rowsPerPage, view, searchTerm, selectedSeverity, selectedStatus, selectedInfrastructure, startDate, endDate]);
+
+  useEffect(() => {
+    loadFilterOptions();
+    loadSeverityCounts();
+  }, []);
+
+  const loadFilterOptions = async () => {
+    try {
+      const [sevs, stats, infras] = await Promise.all([
+        SeverityService.getAllNoPagination(),
+        EventStatusService.getAllNoPagination(),
+        InfrastructureService.getAllNoPagination(),
+      ]);
+      setSeverities(sevs);
+      setStatuses(stats);
+      setInfrastructures(infras);
+    } catch (err: any) {
+      console.error('Error loading filter options:', err);
+    }
+  };
+
+  const loadSeverityCounts = async () => {
+    try {
+      const counts = await FlowEventService.getCountBySeverity();
+      setSeverityCounts(counts);
+    } catch (err: any) {
+      console.error('Error loading event counts:', err);
+    }
+  };
+
+  const loadEvents = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const pageable: Pageable = {
+        page,
+        size: rowsPerPage,
+        sort: 'eventTimestamp,desc',
+      };
+
+      let result: Page<FlowEventDTO>;
+
+      // Quick views take precedence, then filters in priority order
+      if (view === 'ongoing') {
+        result = await FlowEventService.getOngoing(pageable);
+      } else if (view === 'critical') {
+        result = await FlowEventService.getCritical(pageable);
+      } else if (startDate && endDate) {
+        result = await FlowEventService.getByDateRange(`${startDate}T00:00:00`, `${endDate}T23:59:59`, pageable);
+      } else if (selectedSeverity) {
+        result = await FlowEventService.getBySeverity(Number(selectedSeverity), pageable);
+      } else if (selectedStatus) {
+        result = await FlowEventService.getByStatus(Number(selectedStatus), pageable);
+      } else if (selectedInfrastructure) {
+        result = await FlowEventService.getByInfrastructure(Number(selectedInfrastructure), pageable);
+      } else if (searchTerm) {
+        result = await FlowEventService.globalSearch(searchTerm, pageable);
+      } else {
+        result = await FlowEventService.getAll(pageable);
+      }
+
+      setEvents(result.content);
+      setTotalElements(result.totalElements);
+    } catch (err: any) {
+      console.error('Error loading events:', err);
+      setError(err.message || t('flow.event.alerts.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRefresh = () => {
+    loadEvents();
+    loadSeverityCounts();
+  };
+
+  const handleViewChange = (_event: React.MouseEvent<HTMLElement>, newView: EventView | null) => {
+    if (newView) {
+      setView(newView);
+      setPage(0);
+    }
+  };
+
+  const handleClearFilters = () => {
+    setView('all');
+    setSearchTerm('');
+    setSelectedSeverity('');
+    setSelectedStatus('');
+    setSelectedInfrastructure('');
+    setStartDate('');
+    setEndDate('');
+    setPage(0);
+  };
+
+  const closeDialogs = () => {
+    setDeleteDialogOpen(false);
+    setCancelDialogOpen(false);
+    setCompleteDialogOpen(false);
+    setSelectedEvent(null);
+    setResolution('');
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!selectedEvent?.id) return;
+
+    try {
+      setActionLoading(true);
+      await FlowEventService.delete(selectedEvent.id);
+      closeDialogs();
+      setSuccess(t('flow.event.alerts.deleteSuccess'));
+      handleRefresh();
+    } catch (err: any) {
+      console.error('Error deleting event:', err);
+      setError(err.message || t('flow.event.alerts.deleteError'));
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleCancelConfirm = async () => {
+    if (!selectedEvent?.id) return;
+
+    try {
+      setActionLoading(true);
+      await FlowEventService.cancel(selectedEvent.id);
+      closeDialogs();
+      setSuccess(t('flow.event.alerts.cancelSuccess'));
+      loadEvents();
+    } catch (err: any) {
+      console.error('Error cancelling event:', err);
+      setError(err.response?.data?.message || err.message || t('flow.event.alerts.cancelError'));
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleCompleteConfirm = async () => {
+    if (!selectedEvent?.id) return;
+
+    const employeeId = getUserEmployeeId(user);
+    if (!employeeId) {
+      setError(t('flow.event.alerts.noEmployee'));
+      return;
+    }
+
+    try {
+      setActionLoading(true);
+      await FlowEventService.complete(selectedEvent.id, employeeId, resolution.trim());
+      closeDialogs();
+      setSuccess(t('flow.event.alerts.completeSuccess'));
+      loadEvents();
+    } catch (err: any) {
+      console.error('Error completing event:', err);
+      setError(err.response?.data?.message || err.message || t('flow.event.alerts.completeError'));
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const formatDuration = (event: FlowEventDTO): string => {
+    if (!event.startTime) return '-';
+    const end = event.endTime ? new Date(event.endTime) : new Date();
+    const minutes = Math.max(0, Math.round((end.getTime() - new Date(event.startTime).getTime()) / 60000));
+    const hours = Math.floor(minutes / 60);
+    return hours > 0 ? `${hours}h ${minutes % 60}min` : `${minutes}min`;
+  };
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* HEADER SECTION - Containerized */}
+      <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+        <Box sx={{ p: 2.5 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Box>
+              <Typography variant="h4" fontWeight={700} color="text.primary" sx={{ mb: 0.5 }}>
+                {t('flow.event.title')}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {t('flow.event.subtitle')}
+              </Typography>
+            </Box>
+            <Stack direction="row" spacing={1.5}>
+              <Tooltip title={t('action.refresh', 'Refresh')}>
+                <IconButton onClick={handleRefresh} size="medium" color="primary">
+                  <RefreshIcon />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title={t('flow.event.new')}>
+                <IconButton onClick={() => navigate('/flow/events/new')} size="medium" color="primary">
+                  <AddIcon />
+                </IconButton>
+              </Tooltip>
+            </Stack>
+          </Box>
+
+          {/* Severity summary */}
+          {Object.keys(severityCounts).length > 0 && (
+            <Stack direction="row" spacing={1} sx={{ mt: 2 }} flexWrap="wrap" useFlexGap>
+              {Object.entries(severityCounts).map(([code, count]) => (
+                <Chip
+                  key={code}
+                  label={`${code}: ${count}`}
+                  size="small"
+                  color={getSeverityColor(code)}
+                  variant="outlined"
+                />
+              ))}
+            </Stack>
+          )}
+        </Box>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <Grid container spacing={2}>
+            <Grid item xs={12}>
+              <ToggleButtonGroup value={view} exclusive onChange={handleViewChange} size="small">
+                <ToggleButton value="all">{t('flow.event.filters.viewAll')}</ToggleButton>
+                <ToggleButton value="ongoing">{t('flow.event.filters.viewOngoing')}</ToggleButton>
+                <ToggleButton value="critical">{t('flow.event.filters.viewCritical')}</ToggleButton>
+              </ToggleButtonGroup>
+            </Grid>
+
+            <Grid item xs={12} md={3}>
+              <TextField
+                fullWidth
+                label={t('flow.event.filters.search')}
+                value={searchTerm}
+                onChange={(e) => {
+                  setSearchTerm(e.target.value);
+                  setPage(0);
+                }}
+                disabled={view !== 'all'}
+                InputProps={{
+                  startAdornment: (
+                    <InputAdornment position="start">
+                      <SearchIcon />
+                    </InputAdornment>
+                  ),
+                }}
+              />
+            </Grid>
+
+            <Grid item xs={12} md={2}>
+              <TextField
+                fullWidth
+                select
+                label={t('flow.event.filters.severity')}
+                value={selectedSeverity}
+                onChange={(e) => {
+                  setSelectedSeverity(e.target.value as number | '');
+                  setPage(0);
+                }}
+                disabled={view !== 'all'}
+              >
+                <MenuItem value="">{t('flow.event.filters.all')}</MenuItem>
+                {severities.map((severity) => (
+                  <MenuItem key={severity.id} value={severity.id}>
+                    {severity.code}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+
+            <Grid item xs={12} md={2}>
+              <TextField
+                fullWidth
+                select
+                label={t('flow.event.filters.status')}
+                value={selectedStatus}
+                onChange={(e) => {
+                  setSelectedStatus(e.target.value as number | '');
+                  setPage(0);
+                }}
+                disabled={view !== 'all'}
+              >
+                <MenuItem value="">{t('flow.event.filters.all')}</MenuItem>
+                {statuses.map((status) => (
+                  <MenuItem key={status.id} value={status.id}>
+                    {status.code}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+
+            <Grid item xs={12} md={2}>
+              <TextField
+                fullWidth
+                select
+                label={t('flow.event.filters.infrastructure')}
+                value={selectedInfrastructure}
+                onChange={(e) => {
+                  setSelectedInfrastructure(e.target.value as number | '');
+                  setPage(0);
+                }}
+                disabled={view !== 'all'}
+              >
+                <MenuItem value="">{t('flow.event.filters.all')}</MenuItem>
+                {infrastructures.map((infra) => (
+                  <MenuItem key={infra.id} value={infra.id}>
+                    {infra.code}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+
+            <Grid item xs={12} md={1.5}>
+              <TextField
+                fullWidth
+                type="date"
+                label={t('flow.event.filters.from')}
+                value={startDate}
+                onChange={(e) => {
+                  setStartDate(e.target.value);
+                  setPage(0);
+                }}
+                disabled={view !== 'all'}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Grid>
+
+            <Grid item xs={12} md={1.5}>
+              <TextField
+                fullWidth
+                type="date"
+                label={t('flow.event.filters.to')}
+                value={endDate}
+                onChange={(e) => {
+                  setEndDate(e.target.value);
+                  setPage(0);
+                }}
+                disabled={view !== 'all'}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Grid>
+
+            <Grid item xs={12}>
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                <Button variant="outlined" onClick={handleClearFilters}>
+                  {t('flow.event.filters.clearFilters')}
+                </Button>
+              </Box>
+            </Grid>
+          </Grid>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <TableContainer>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('flow.event.fields.eventTimestamp')}</TableCell>
+                <TableCell>{t('flow.event.fields.title')}</TableCell>
+                <TableCell>{t('flow.event.fields.infrastructure')}</TableCell>
+                <TableCell>{t('flow.event.fields.severity')}</TableCell>
+                <TableCell>{t('flow.event.fields.status')}</TableCell>
+                <TableCell>{t('flow.event.fields.duration')}</TableCell>
+                <TableCell>{t('flow.event.fields.reportedBy')}</TableCell>
+                <TableCell align="center">{t('flow.event.fields.actions')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={8} align="center" sx={{ py: 4 }}>
+                    <CircularProgress />
+                  </TableCell>
+                </TableRow>
+              ) : events.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} align="center" sx={{ py: 4 }}>
+                    <Typography color="text.secondary">{t('flow.event.noEvents')}</Typography>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                events.map((event) => (
+                  <TableRow key={event.id} hover>
+                    <TableCell>{formatDateTime(event.eventTimestamp)}</TableCell>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        {event.impactOnFlow && (
+                          <Tooltip title={t('flow.event.fields.impactOnFlow')}>
+                            <ImpactIcon color="error" fontSize="small" />
+                          </Tooltip>
+                        )}
+                        <Box>
+                          <Typography variant="body2" fontWeight="bold">
+                            {event.title}
+                          </Typography>
+                          {event.relatedAlertId && (
+                            <Typography variant="caption" color="text.secondary">
+                              {t('flow.event.fields.relatedAlert')} #{event.relatedAlertId}
+                            </Typography>
+                          )}
+                        </Box>
+                      </Box>
+                    </TableCell>
+                    <TableCell>{event.infrastructure?.code || 'N/A'}</TableCell>
+                    <TableCell>
+                      <Chip
+                        label={event.severity?.code || 'N/A'}
+                        size="small"
+                        color={getSeverityColor(event.severity?.code)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Chip
+                        label={event.status?.code || 'N/A'}
+                        size="small"
+                        variant="outlined"
+                        color={getEventStatusColor(event.status?.code)}
+                      />
+                    </TableCell>
+                    <TableCell>{formatDuration(event)}</TableCell>
+                    <TableCell>
+                      {event.reportedBy
+                        ? `${event.reportedBy.firstNameLt} ${event.reportedBy.lastNameLt}`
+                        : 'N/A'}
+                    </TableCell>
+                    <TableCell align="center">
+                      <Tooltip title={isClosed(event) ? t('flow.event.tooltips.cannotEditClosed') : t('flow.event.tooltips.edit')}>
+                        <span>
+                          <IconButton
+                            size="small"
+                            color="primary"
+                            onClick={() => navigate(`/flow/events/${event.id}/edit`)}
+                            disabled={isClosed(event)}
+                          >
+                            <EditIcon fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                      <Tooltip title={t('flow.event.tooltips.complete')}>
+                        <span>
+                          <IconButton
+                            size="small"
+                            color="success"
+                            onClick={() => {
+                              setSelectedEvent(event);
+                              setCompleteDialogOpen(true);
+                            }}
+                            disabled={isClosed(event)}
+                          >
+                            <CompleteIcon fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                      <Tooltip title={t('flow.event.tooltips.cancel')}>
+                        <span>
+                          <IconButton
+                            size="small"
+                            color="warning"
+                            onClick={() => {
+                              setSelectedEvent(event);
+                              setCancelDialogOpen(true);
+                            }}
+                            disabled={isClosed(event)}
+                          >
+                            <CancelEventIcon fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                      <Tooltip title={t('flow.event.tooltips.delete')}>
+                        <IconButton
+                          size="small"
+                          color="error"
+                          onClick={() => {
+                            setSelectedEvent(event);
+                            setDeleteDialogOpen(true);
+                          }}
+                        >
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        <TablePagination
+          component="div"
+          count={totalElements}
+          page={page}
+          onPageChange={(_, newPage) => setPage(newPage)}
+          rowsPerPage={rowsPerPage}
+          onRowsPerPageChange={(e) => {
+            setRowsPerPage(parseInt(e.target.value, 10));
+            setPage(0);
+          }}
+          rowsPerPageOptions={[5, 10, 25, 50]}
+        />
+      </Card>
+
+      {/* Complete Event Dialog */}
+      <Dialog open={completeDialogOpen} onClose={closeDialogs} maxWidth="sm" fullWidth>
+        <DialogTitle>{t('flow.event.complete.title')}</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            {t('flow.event.complete.message', { title: selectedEvent?.title || '' })}
+          </DialogContentText>
+          <TextField
+            fullWidth
+            multiline
+            rows={4}
+            label={t('flow.event.complete.resolution')}
+            placeholder={t('flow.event.complete.resolutionPlaceholder')}
+            value={resolution}
+            onChange={(e) => setResolution(e.target.value)}
+            inputProps={{ maxLength: 2000 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeDialogs} disabled={actionLoading}>
+            {t('flow.event.actions.cancel')}
+          </Button>
+          <Button
+            onClick={handleCompleteConfirm}
+            color="success"
+            variant="contained"
+            disabled={actionLoading || !resolution.trim()}
+          >
+            {t('flow.event.complete.confirm')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Cancel Event Confirmation */}
+      <ConfirmDialog
+        open={cancelDialogOpen}
+        title={t('flow.event.actions.cancelEvent')}
+        message={t('flow.event.cancelConfirm', { title: selectedEvent?.title || '' })}
+        onConfirm={handleCancelConfirm}
+        onCancel={closeDialogs}
+        loading={actionLoading}
+      />
+
+      {/* Delete Confirmation */}
+      <ConfirmDialog
+        open={deleteDialogOpen}
+        title={t('flow.event.delete')}
+        message={t('flow.event.deleteConfirm', { title: selectedEvent?.title || '' })}
+        onConfirm={handleDeleteConfirm}
+        onCancel={closeDialogs}
+        loading={actionLoading}
+      />
+    </Box>
+  );
+};
@@ -0,0 +1,587 @@
+/**
+ * ForecastAnalytics Page - Forecast vs Actual Analytics
+ *
+ * Forecast accuracy of an infrastructure (optionally one product and one
+ * operation type) over a period:
+ * - Predicted vs adjusted vs actual volumes over time, with the daily error
+ * - MAPE and bias per supervisor and per operation type
+ * - Groups with systematic over/under-forecasting highlighted
+ * - Accuracy calculation of forecasts whose actual volume is known
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Card,
+  CardContent,
+  CardHeader,
+  Typography,
+  Button,
+  TextField,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Tooltip,
+  CircularProgress,
+  Alert,
+  MenuItem,
+  Grid,
+  Paper,
+  Stack,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  Calculate as CalculateIcon,
+  Refresh as RefreshIcon,
+} from '@mui/icons-material';
+import {
+  BarChart,
+  Bar,
+  Cell,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as ChartTooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+
+import { FlowForecastService } from '../services/FlowForecastService';
+import { InfrastructureService } from '@/modules/network/core/services/InfrastructureService';
+import { ProductService } from '@/modules/network/common/services/ProductService';
+import {
+  buildForecastSeries,
+  computeAccuracyStats,
+  groupAccuracyStats,
+  MIN_BIAS_SAMPLES,
+  SYSTEMATIC_BIAS_THRESHOLD,
+} from '../utils/forecastAccuracyUtils';
+import { getMultiLangDesignation } from '@/shared/utils/exportUtils';
+import { formatDate, getToday } from '@/shared/utils/dateTimeLocal';
+import { fetchAllPages } from '@/types/pagination';
+import type { FlowForecastDTO } from '../dto/FlowForecastDTO';
+import type { ForecastGroupStats } from '../utils/forecastAccuracyUtils';
+import type { InfrastructureDTO } from '@/modules/network/core/dto/InfrastructureDTO';
+import type { ProductDTO } from '@/modules/network/common/dto/ProductDTO';
+
+/** Forecasts loaded per request; every page of the infrastructure is loaded (filtered client-side) */
+const FORECASTS_PAGE_SIZE = 1000;
+
+const shiftDate = (isoDate: string, days: number): string => {
+  const date = new Date(`${isoDate}T00:00:00`);
+  date.setDate(date.getDate() + days);
+  return formatDate(date, 'yyyy-MM-dd');
+};
+
+const formatPercent = (value: number | null): string => (value === null ? '-' : `${value.toFixed(1)}%`);
+
+const formatSignedPercent = (value: number | null): string =>
+  value === null ? '-' : `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+export const ForecastAnalytics: React.FC = () => {
+  const navigate = useNavigate();
+  const { t, i18n } = useTranslation();
+  const today = getToday();
+
+  // Filters
+  const [infrastructures, setInfrastructures] = useState<InfrastructureDTO[]>([]);
+  const [products, setProducts] = useState<ProductDTO[]>([]);
+  const [selectedInfrastructure, setSelectedInfrastructure] = useState<number | ''>('');
+  const [selectedProduct, setSelectedProduct] = useState<number | ''>('');
+  const [selectedOperationType, setSelectedOperationType] = useState<number | ''>('');
+  const [startDate, setStartDate] = useState(shiftDate(today, -90));
+  const [endDate, setEndDate] = useState(today);
+
+  // Data
+  const [forecasts, setForecasts] = useState<FlowForecastDTO[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [calculating, setCalculating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadFilterOptions();
+  }, []);
+
+  useEffect(() => {
+    if (selectedInfrastructure) {
+      loadForecasts();
+    }
+  }, [selectedInfrastructure]);
+
+  const loadFilterOptions = async () => {
+    try {
+      const [infras, prods] = await Promise.all([
+        InfrastructureService.getAllNoPagination(),
+        ProductService.getAllNoPagination(),
+      ]);
+      setInfrastructures(infras);
+      setProducts(prods);
+    } catch (err: any) {
+      console.error('Error loading filter options:', err);
+    }
+  };
+
+  const loadForecasts = async () => {
+    if (!selectedInfrastructure) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await fetchAllPages(
+        (pageable) => FlowForecastService.getByInfrastructure(Number(selectedInfrastructure), pageable),
+        FORECASTS_PAGE_SIZE,
+        'id,asc'
+      );
+      setForecasts(result);
+    } catch (err: any) {
+      console.error('Error loading forecasts:', err);
+      setError(err.message || t('flow.forecast.alerts.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Operation types present in the loaded forecasts
+  const operationTypes = useMemo(() => {
+    const types = new Map<number, FlowForecastDTO['operationType']>();
+    forecasts.forEach((forecast) => types.set(forecast.operationTypeId, forecast.operationType));
+    return Array.from(types.entries());
+  }, [forecasts]);
+
+  const filteredForecasts = useMemo(
+    () =>
+      forecasts.filter(
+        (forecast) =>
+          forecast.forecastDate >= startDate &&
+          forecast.forecastDate <= endDate &&
+          (!selectedProduct || forecast.productId === selectedProduct) &&
+          (!selectedOperationType || forecast.operationTypeId === selectedOperationType)
+      ),
+    [forecasts, startDate, endDate, selectedProduct, selectedOperationType]
+  );
+
+  const overall = useMemo(() => computeAccuracyStats(filteredForecasts), [filteredForecasts]);
+
+  const series = useMemo(
+    () => buildForecastSeries(filteredForecasts).map((point) => ({ ...point, label: formatDate(point.date).substring(0, 5) })),
+    [filteredForecasts]
+  );
+
+  const bySupervisor = useMemo(
+    () =>
+      groupAccuracyStats(filteredForecasts, (forecast) =>
+        forecast.supervisor
+          ? {
+              key: String(forecast.supervisorId ?? forecast.supervisor.id),
+              label: `${forecast.supervisor.firstNameLt} ${forecast.supervisor.lastNameLt}`,
+            }
+          : { key: 'none', label: t('flow.forecastAnalytics.groups.noSupervisor') }
+      ),
+    [filteredForecasts, t]
+  );
+
+  const byOperationType = useMemo(
+    () =>
+      groupAccuracyStats(filteredForecasts, (forecast) => ({
+        key: String(forecast.operationTypeId),
+        label: getMultiLangDesignation(forecast.operationType, i18n.language) || forecast.operationType?.code || String(forecast.operationTypeId),
+      })),
+    [filteredForecasts, i18n.language]
+  );
+
+  // Actual volume known but accuracy never calculated
+  const unscoredForecasts = useMemo(
+    () =>
+      filteredForecasts.filter(
+        (forecast) =>
+          forecast.actualVolume !== undefined &&
+          forecast.actualVolume !== null &&
+          (forecast.accuracy === undefined || forecast.accuracy === null)
+      ),
+    [filteredForecasts]
+  );
+
+  const handleCalculateAccuracy = async () => {
+    setCalculating(true);
+    setError(null);
+    setSuccess(null);
+
+    const results = await Promise.allSettled(
+      unscoredForecasts.map((forecast) => FlowForecastService.calculateAccuracy(forecast.id as number))
+    );
+    const updated = new Map<number, FlowForecastDTO>();
+    results.forEach((result) => {
+      if (result.status === 'fulfilled' && result.value.id) updated.set(result.value.id, result.value);
+    });
+    setForecasts((prev) => prev.map((forecast) => updated.get(forecast.id as number) || forecast));
+
+    const failed = results.length - updated.size;
+    if (failed > 0) {
+      setError(t('flow.forecastAnalytics.alerts.calculatePartial', { count: failed }));
+    } else {
+      setSuccess(t('flow.forecastAnalytics.alerts.calculateSuccess', { count: updated.size }));
+    }
+    setCalculating(false);
+  };
+
+  const biasedGroups = [...bySupervisor, ...byOperationType].filter((group) => group.direction !== 'NONE');
+
+  const renderDirection = (group: ForecastGroupStats) => {
+    if (group.direction === 'NONE') {
+      return group.scoredCount < MIN_BIAS_SAMPLES ? (
+        <Typography variant="caption" color="text.secondary">
+          {t('flow.forecastAnalytics.direction.insufficient')}
+        </Typography>
+      ) : (
+        <Chip label={t('flow.forecastAnalytics.direction.NONE')} size="small" color="success" variant="outlined" />
+      );
+    }
+    return (
+      <Chip
+        label={t(`flow.forecastAnalytics.direction.${group.direction}`)}
+        size="small"
+        color={group.direction === 'OVER' ? 'warning' : 'error'}
+      />
+    );
+  };
+
+  const renderGroupTable = (title: string, groups: ForecastGroupStats[]) => (
+    <Card sx={{ height: '100%' }}>
+      <CardHeader title={title} />
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{t('flow.forecastAnalytics.columns.group')}</TableCell>
+              <TableCell align="right">{t('flow.forecastAnalytics.columns.scored')}</TableCell>
+              <TableCell align="right">{t('flow.forecastAnalytics.columns.mape')}</TableCell>
+              <TableCell align="right">{t('flow.forecastAnalytics.columns.predictedMape')}</TableCell>
+              <TableCell align="right">{t('flow.forecastAnalytics.columns.bias')}</TableCell>
+              <TableCell>{t('flow.forecastAnalytics.columns.tendency')}</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {groups.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} align="center">
+                  <Typography color="text.secondary">{t('flow.forecast.noForecasts')}</Typography>
+                </TableCell>
+              </TableRow>
+            ) : (
+              groups.map((group) => (
+                <TableRow
+                  key={group.key}
+                  hover
+                  sx={group.direction !== 'NONE' ? { bgcolor: 'warning.lighter' } : undefined}
+                >
+                  <TableCell>{group.label}</TableCell>
+                  <TableCell align="right">
+                    {group.scoredCount}/{group.count}
+                  </TableCell>
+                  <TableCell align="right">{formatPercent(group.mape)}</TableCell>
+                  <TableCell align="right">{formatPercent(group.predictedMape)}</TableCell>
+                  <TableCell align="right">{formatSignedPercent(group.bias)}</TableCell>
+                  <TableCell>{renderDirection(group)}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Card>
+  );
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* HEADER SECTION - Containerized */}
+      <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+        <Box sx={{ p: 2.5 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Box>
+              <Typography variant="h4" fontWeight={700} color="text.primary" sx={{ mb: 0.5 }}>
+                {t('flow.forecastAnalytics.title')}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {t('flow.forecastAnalytics.subtitle')}
+              </Typography>
+            </Box>
+            <Stack direction="row" spacing={1.5}>
+              <Button
+                variant="outlined"
+                startIcon={calculating ? <CircularProgress size={16} /> : <CalculateIcon />}
+                onClick={handleCalculateAccuracy}
+                disabled={calculating || unscoredForecasts.length === 0}
+              >
+                {t('flow.forecastAnalytics.calculateAccuracy', { count: unscoredForecasts.length })}
+              </Button>
+              <Tooltip title={t('action.refresh', 'Refresh')}>
+                <span>
+                  <IconButton onClick={loadForecasts} size="medium" color="primary" disabled={!selectedInfrastructure}>
+                    <RefreshIcon />
+                  </IconButton>
+                </span>
+              </Tooltip>
+              <Tooltip title={t('flow.forecast.actions.back')}>
+                <IconButton onClick={() => navigate('/flow/forecasts')} size="medium" color="primary">
+                  <ArrowBackIcon />
+                </IconButton>
+              </Tooltip>
+            </Stack>
+          </Box>
+        </Box>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      {/* Filters */}
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <Grid container spacing={2}>
+            <Grid item xs={12} md={3}>
+              <TextField
+                fullWidth
+                select
+                label={t('flow.forecast.filters.infrastructure')}
+                value={selectedInfrastructure}
+                onChange={(e) => {
+                  setSelectedInfrastructure(e.target.value as number | '');
+                  setSelectedOperationType('');
+                }}
+              >
+                {infrastructures.map((infra) => (
+                  <MenuItem key={infra.id} value={infra.id}>
+                    {infra.code}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid item xs={12} md={3}>
+              <TextField
+                fullWidth
+                select
+                label={t('flow.forecast.filters.product')}
+                value={selectedProduct}
+                onChange={(e) => setSelectedProduct(e.target.value as number | '')}
+              >
+                <MenuItem value="">{t('flow.forecast.filters.all')}</MenuItem>
+                {products.map((product) => (
+                  <MenuItem key={product.id} value={product.id}>
+                    {getMultiLangDesignation(product, i18n.language) || product.code}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid item xs={12} md={2}>
+              <TextField
+                fullWidth
+                select
+                label={t('flow.forecast.filters.type')}
+                value={selectedOperationType}
+                onChange={(e) => setSelectedOperationType(e.target.value as number | '')}
+              >
+                <MenuItem value="">{t('flow.forecast.filters.all')}</MenuItem>
+                {operationTypes.map(([id, type]) => (
+                  <MenuItem key={id} value={id}>
+                    {getMultiLangDesignation(type, i18n.language) || type?.code || id}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid item xs={6} md={2}>
+              <TextField
+                fullWidth
+                type="date"
+                label={t('flow.forecast.filters.from')}
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+                inputProps={{ max: endDate }}
+              />
+            </Grid>
+            <Grid item xs={6} md={2}>
+              <TextField
+                fullWidth
+                type="date"
+                label={t('flow.forecast.filters.to')}
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+                inputProps={{ min: startDate }}
+              />
+            </Grid>
+          </Grid>
+        </CardContent>
+      </Card>
+
+      {!selectedInfrastructure ? (
+        <Alert severity="info">{t('flow.forecastAnalytics.selectInfrastructure')}</Alert>
+      ) : loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <>
+          {/* Key figures */}
+          <Grid container spacing={2} sx={{ mb: 3 }}>
+            {[
+              {
+                label: t('flow.forecastAnalytics.kpi.scored'),
+                value: `${overall.scoredCount}/${overall.count}`,
+              },
+              { label: t('flow.forecastAnalytics.kpi.mape'), value: formatPercent(overall.mape) },
+              {
+                label: t('flow.forecastAnalytics.kpi.predictedMape'),
+                value: formatPercent(overall.predictedMape),
+                hint: t('flow.forecastAnalytics.kpi.predictedMapeHint'),
+              },
+              {
+                label: t('flow.forecastAnalytics.kpi.bias'),
+                value: formatSignedPercent(overall.bias),
+                hint: t('flow.forecastAnalytics.kpi.biasHint'),
+              },
+            ].map((kpi) => (
+              <Grid item xs={12} sm={6} md={3} key={kpi.label}>
+                <Card>
+                  <CardContent>
+                    <Typography variant="body2" color="text.secondary">
+                      {kpi.label}
+                    </Typography>
+                    <Typography variant="h4" fontWeight={700}>
+                      {kpi.value}
+                    </Typography>
+                    {kpi.hint && (
+                      <Typography variant="caption" color="text.secondary">
+                        {kpi.hint}
+                      </Typography>
+                    )}
+                  </CardContent>
+                </Card>
+              </Grid>
+            ))}
+          </Grid>
+
+          {biasedGroups.length > 0 && (
+            <Alert severity="warning" sx={{ mb: 3 }}>
+              {t('flow.forecastAnalytics.alerts.systematic', {
+                groups: biasedGroups
+                  .map((group) => `${group.label} (${t(`flow.forecastAnalytics.direction.${group.direction}`)}, ${formatSignedPercent(group.bias)})`)
+                  .join(', '),
+              })}
+            </Alert>
+          )}
+
+          {/* Volumes over time */}
+          <Grid container spacing={2} sx={{ mb: 3 }}>
+            <Grid item xs={12} lg={8}>
+              <Card>
+                <CardHeader title={t('flow.forecastAnalytics.charts.volumes')} />
+                <CardContent>
+                  {series.length === 0 ? (
+                    <Typography color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+                      {t('flow.forecast.noForecasts')}
+                    </Typography>
+                  ) : (
+                    <ResponsiveContainer width="100%" height={320}>
+                      <LineChart data={series}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                        <YAxis tickFormatter={(value: number) => value.toLocaleString()} />
+                        <ChartTooltip formatter={(value: number) => `${value.toLocaleString()} m³`} />
+                        <Legend />
+                        <Line
+                          type="monotone"
+                          dataKey="predicted"
+                          name={t('flow.forecastAnalytics.series.predicted')}
+                          stroke="#94a3b8"
+                          strokeDasharray="5 5"
+                          dot={false}
+                        />
+                        <Line
+                          type="monotone"
+                          dataKey="adjusted"
+                          name={t('flow.forecastAnalytics.series.adjusted')}
+                          stroke="#2563eb"
+                          strokeWidth={2}
+                          dot={{ r: 2 }}
+                        />
+                        <Line
+                          type="monotone"
+                          dataKey="actual"
+                          name={t('flow.forecastAnalytics.series.actual')}
+                          stroke="#16a34a"
+                          strokeWidth={2}
+                          dot={{ r: 2 }}
+                          connectNulls={false}
+                        />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  )}
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid item xs={12} lg={4}>
+              <Card sx={{ height: '100%' }}>
+                <CardHeader
+                  title={t('flow.forecastAnalytics.charts.error')}
+                  subheader={t('flow.forecastAnalytics.charts.errorHint')}
+                />
+                <CardContent>
+                  <ResponsiveContainer width="100%" height={280}>
+                    <BarChart data={series.filter((point) => point.error !== null)}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                      <YAxis unit="%" />
+                      <ChartTooltip formatter={(value: number) => formatSignedPercent(value)} />
+                      <ReferenceLine y={SYSTEMATIC_BIAS_THRESHOLD} stroke="#f59e0b" strokeDasharray="3 3" />
+                      <ReferenceLine y={0} stroke="#64748b" />
+                      <ReferenceLine y={-SYSTEMATIC_BIAS_THRESHOLD} stroke="#f59e0b" strokeDasharray="3 3" />
+                      <Bar dataKey="error" name={t('flow.forecastAnalytics.series.error')}>
+                        {series
+                          .filter((point) => point.error !== null)
+                          .map((point) => (
+                            <Cell key={point.date} fill={(point.error as number) > 0 ? '#f59e0b' : '#dc2626'} />
+                          ))}
+                      </Bar>
+                    </BarChart>
+                  </ResponsiveContainer>
+                </CardContent>
+              </Card>
+            </Grid>
+          </Grid>
+
+          {/* Accuracy per group */}
+          <Grid container spacing={2}>
+            <Grid item xs={12} lg={6}>
+              {renderGroupTable(t('flow.forecastAnalytics.groups.bySupervisor'), bySupervisor)}
+            </Grid>
+            <Grid item xs={12} lg={6}>
+              {renderGroupTable(t('flow.forecastAnalytics.groups.byOperationType'), byOperationType)}
+            </Grid>
+          </Grid>
+        </>
+      )}
+    </Box>
+  );
+};
@@ -10,9 +10,11 @@
  * - Adjusted volume (optional)
  * - Adjustment notes (optional)
  * - Supervisor selection (optional)
+ * - Baseline suggestion from past operations, over several dates at once
  * 
  * @author CHOUABBIA Amine
  * @created 01-29-2026
+ * @updated 10-19-2026 - Added baseline forecast suggestion
  * @updated 01-31-2026 - Added i18n translations
  * @updated 01-30-2026 - Fixed EmployeeDTO property access
  * @updated 02-13-2026 - UI: Containerized header and updated buttons to IconButton style
@@ -40,11 +42,19 @@ import {
   Stack,
   IconButton,
   Tooltip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  CardHeader,
 } from '@mui/material';
 import {
   Save as SaveIcon,
   Close as CloseIcon,
   TrendingUp as TrendingUpIcon,
+  AutoGraph as AutoGraphIcon,
+  Delete as DeleteIcon,
 } from '@mui/icons-material';
 
 import { FlowForecastService } from '../services/FlowForecastService';
@@ -52,12 +62,15 @@ import { InfrastructureService } from '@/modules/network/core/services/Infrastru
 import { ProductService } from '@/modules/network/common/services/ProductService';
 import { OperationTypeService } from '@/modules/flow/type/services/OperationTypeService';
 import { EmployeeService } from '@/modules/general/organization/services/EmployeeService';
+import { ForecastSuggestionDialog } from './components/ForecastSuggestionDialog';
+import { formatDate } from '@/shared/utils/dateTimeLocal';
 
 import type { FlowForecastDTO } from '../dto/FlowForecastDTO';
 import type { InfrastructureDTO } from '@/modules/network/core/dto/InfrastructureDTO';
 import type { ProductDTO } from '@/modules/network/common/dto/ProductDTO';
 import type { OperationTypeDTO } from '@/modules/flow/type/dto/OperationTypeDTO';
 import type { EmployeeDTO } from '@/modules/general/organization/dto/EmployeeDTO';
+import type { BaselineMethod, BaselinePoint } from '../utils/forecastBaselineUtils';
 
 interface ForecastFormData {
   infrastructureId: number | '';
@@ -108,6 +121,23 @@ export const ForecastEdit: React.FC = () => {
     message: '',
     severity: 'info',
   });
+  const [suggestionOpen, setSuggestionOpen] = useState(false);
+  const [suggestedForecasts, setSuggestedForecasts] = useState<BaselinePoint[]>([]);
+  const [baselineMethod, setBaselineMethod] = useState<BaselineMethod | null>(null);
+
+  const [infrastructureId, productId, operationTypeId, forecastDate] = watch([
+    'infrastructureId',
+    'productId',
+    'operationTypeId',
+    'forecastDate',
+  ]);
+  const canSuggest = Boolean(infrastructureId && productId && operationTypeId && forecastDate);
+
+  // A suggestion only holds for the infrastructure/product/type it was built for
+  useEffect(() => {
+    setSuggestedForecasts([]);
+    setBaselineMethod(null);
+  }, [infrastructureId, productId, operationTypeId]);
 
   useEffect(() => {
     loadInitialData();
@@ -159,6 +189,50 @@ export const ForecastEdit: React.FC = () => {
     setNotification({ open: true, message, severity });
   };
 
+  const handleApplySuggestion = (points: BaselinePoint[], method: BaselineMethod) => {
+    setSuggestionOpen(false);
+    setBaselineMethod(method);
+    setValue('forecastDate', points[0].date);
+    setValue('predictedVolume', points[0].value);
+    setSuggestedForecasts(!isEditMode && points.length > 1 ? points : []);
+  };
+
+  const updateSuggestedVolume = (date: string, value: string) => {
+    setSuggestedForecasts((prev) =>
+      prev.map((point) => (point.date === date ? { ...point, value: Number(value) } : point))
+    );
+  };
+
+  /**
+   * Creates one forecast per suggested date. Failed dates (e.g. an existing
+   * forecast) stay in the list for another attempt.
+   */
+  const createSuggestedForecasts = async (base: Omit<FlowForecastDTO, 'forecastDate' | 'predictedVolume'>) => {
+    const results = await Promise.allSettled(
+      suggestedForecasts.map((point) =>
+        FlowForecastService.create({ ...base, forecastDate: point.date, predictedVolume: point.value })
+      )
+    );
+    const failed = suggestedForecasts.filter((_, i) => results[i].status === 'rejected');
+
+    if (failed.length === 0) {
+      showNotification(t('flow.forecastSuggestion.alerts.createSuccess', { count: results.length }), 'success');
+      setTimeout(() => {
+        navigate('/flow/forecasts');
+      }, 1000);
+      return;
+    }
+
+    setSuggestedForecasts(failed);
+    showNotification(
+      t('flow.forecastSuggestion.alerts.createPartial', {
+        created: results.length - failed.length,
+        failed: failed.length,
+      }),
+      'warning'
+    );
+  };
+
   const onSubmit = async (data: ForecastFormData) => {
     try {
       setLoading(true);
@@ -191,6 +265,23 @@ export const ForecastEdit: React.FC = () => {
         return;
       }
 
+      if (suggestedForecasts.some((point) => !(point.value > 0))) {
+        showNotification(t('flow.forecast.fields.volume'), 'warning');
+        return;
+      }
+
+      if (suggestedForecasts.length > 0) {
+        await createSuggestedForecasts({
+          infrastructureId: Number(data.infrastructureId),
+          productId: Number(data.productId),
+          operationTypeId: Number(data.operationTypeId),
+          accuracy: data.accuracy,
+          adjustmentNotes: data.adjustmentNotes || undefined,
+          supervisorId: data.supervisorId ? Number(data.supervisorId) : undefined,
+        });
+        return;
+      }
+
       if (!data.predictedVolume || data.predictedVolume <= 0) {
         showNotification(t('flow.forecast.fields.volume'), 'warning');
         return;
@@ -277,6 +368,18 @@ export const ForecastEdit: React.FC = () => {
               </Box>
             </Box>
             <Stack direction="row" spacing={1.5}>
+              <Tooltip title={canSuggest ? t('flow.forecastSuggestion.title') : t('flow.forecastSuggestion.selectFirst')}>
+                <span>
+                  <IconButton
+                    onClick={() => setSuggestionOpen(true)}
+                    disabled={loading || !canSuggest}
+                    size="medium"
+                    color="primary"
+                  >
+                    <AutoGraphIcon />
+                  </IconButton>
+                </span>
+              </Tooltip>
               <Tooltip title={t('flow.forecast.actions.cancel')}>
                 <IconButton 
                   onClick={handleCancel} 
@@ -393,7 +496,11 @@ export const ForecastEdit: React.FC = () => {
                     label={t('flow.forecast.fields.date') + ' *'}
                     InputLabelProps={{ shrink: true }}
                     error={!!errors.forecastDate}
-                    helperText={errors.forecastDate?.message || 'Date must be in the future'}
+                    disabled={suggestedForecasts.length > 0}
+                    helperText={
+                      errors.forecastDate?.message ||
+                      (suggestedForecasts.length > 0 ? t('flow.forecastSuggestion.setBelow') : 'Date must be in the future')
+                    }
                     inputProps={{
                       min: new Date(Date.now() + 86400000).toISOString().split('T')[0],
                     }}
@@ -417,7 +524,15 @@ export const ForecastEdit: React.FC = () => {
                     type="number"
                     label={t('flow.forecast.fields.volume') + ' *'}
                     error={!!errors.predictedVolume}
-                    helperText={errors.predictedVolume?.message}
+                    disabled={suggestedForecasts.length > 0}
+                    helperText={
+                      errors.predictedVolume?.message ||
+                      (suggestedForecasts.length > 0
+                        ? t('flow.forecastSuggestion.setBelow')
+                        : baselineMethod && t('flow.forecastSuggestion.suggestedWith', {
+                            method: t(`flow.forecastSuggestion.methods.${baselineMethod}`),
+                          }))
+                    }
                     InputProps={{
                       endAdornment: <InputAdornment position="end">m³</InputAdornment>,
                     }}
@@ -521,6 +636,72 @@ export const ForecastEdit: React.FC = () => {
         </CardContent>
       </Card>
 
+      {suggestedForecasts.length > 0 && (
+        <Card sx={{ mt: 3 }}>
+          <CardHeader
+            title={t('flow.forecastSuggestion.suggested', { count: suggestedForecasts.length })}
+            subheader={baselineMethod && t(`flow.forecastSuggestion.methods.${baselineMethod}`)}
+          />
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('flow.forecast.fields.date')}</TableCell>
+                <TableCell>{t('flow.forecast.fields.volume')}</TableCell>
+                <TableCell align="right">{t('flow.forecastSuggestion.band')}</TableCell>
+                <TableCell align="center">{t('flow.forecast.fields.actions')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {suggestedForecasts.map((point) => (
+                <TableRow key={point.date}>
+                  <TableCell>{formatDate(point.date)}</TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      type="number"
+                      value={point.value}
+                      onChange={(e) => updateSuggestedVolume(point.date, e.target.value)}
+                      error={!(point.value > 0)}
+                      InputProps={{
+                        endAdornment: <InputAdornment position="end">m³</InputAdornment>,
+                      }}
+                      inputProps={{ min: 0, step: 0.01 }}
+                    />
+                  </TableCell>
+                  <TableCell align="right">
+                    {point.lower.toLocaleString()} - {point.upper.toLocaleString()} m³
+                  </TableCell>
+                  <TableCell align="center">
+                    <Tooltip title={t('flow.forecast.tooltips.delete')}>
+                      <IconButton
+                        size="small"
+                        color="error"
+                        onClick={() => setSuggestedForecasts((prev) => prev.filter((item) => item.date !== point.date))}
+                      >
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      {canSuggest && (
+        <ForecastSuggestionDialog
+          open={suggestionOpen}
+          infrastructureId={Number(infrastructureId)}
+          productId={Number(productId)}
+          operationTypeId={Number(operationTypeId)}
+          startDate={forecastDate}
+          singleDate={isEditMode}
+          onClose={() => setSuggestionOpen(false)}
+          onApply={handleApplySuggestion}
+        />
+      )}
+
       <Snackbar
         open={notification.open}
         autoHideDuration={6000}
@@ -9,6 +9,8 @@
  * 
  * @author CHOUABBIA Amine
  * @created 01-29-2026
+ * @updated 10-19-2026 - Added link to monthly forecast planning
+ * @updated 10-19-2026 - Added link to forecast analytics
  * @updated 02-04-2026 - Fixed delete dialog to use nameFr (not designationFr)
  * @updated 02-04-2026 - Fixed delete dialog to use correct DTO fields
  * @updated 02-01-2026 - Fixed operationType property reference in delete dialog
@@ -57,6 +59,8 @@ import {
   Search as SearchIcon,
   Refresh as RefreshIcon,
   TrendingUp as TrendingUpIcon,
+  Insights as InsightsIcon,
+  CalendarMonth as CalendarMonthIcon,
 } from '@mui/icons-material';
 
 import { FlowForecastService } from '../services/FlowForecastService';
@@ -210,6 +214,16 @@ export const ForecastList: React.FC = () => {
                   <RefreshIcon />
                 </IconButton>
               </Tooltip>
+              <Tooltip title={t('flow.forecastAnalytics.title')}>
+                <IconButton onClick={() => navigate('/flow/forecasts/analytics')} size="medium" color="primary">
+                  <InsightsIcon />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title={t('flow.forecastPlanning.title')}>
+                <IconButton onClick={() => navigate('/flow/forecasts/planning')} size="medium" color="primary">
+                  <CalendarMonthIcon />
+                </IconButton>
+              </Tooltip>
               <Tooltip title={t('flow.forecast.new')}>
                 <IconButton onClick={() => navigate('/flow/forecasts/new')} size="medium" color="primary">
                   <AddIcon />
@@ -0,0 +1,668 @@
+/**
+ * ForecastPlanning Page - Monthly Forecast Planning Grid
+ *
+ * Plans the forecasts of one product and operation type for a month:
+ * - Days × infrastructures grid with predicted and adjusted volumes
+ * - Existing forecasts loaded and edited inline (future days only)
+ * - Previous month's plan copied into the empty cells as a starting point
+ * - Keyboard navigation and paste of blocks copied from Excel
+ * - Changed cells validated and saved in batch, with a state per cell
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Grid,
+  IconButton,
+  InputBase,
+  MenuItem,
+  Paper,
+  Snackbar,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  ContentCopy as CopyIcon,
+  Save as SaveIcon,
+  Undo as UndoIcon,
+  Refresh as RefreshIcon,
+  CheckCircle as SavedIcon,
+  Error as ErrorIcon,
+} from '@mui/icons-material';
+
+import { FlowForecastService } from '../services/FlowForecastService';
+import { InfrastructureService } from '@/modules/network/core/services/InfrastructureService';
+import { ProductService } from '@/modules/network/common/services/ProductService';
+import { OperationTypeService } from '@/modules/flow/type/services/OperationTypeService';
+import { validateFlowForecastDTO } from '../dto/FlowForecastDTO';
+import {
+  buildCellForecast,
+  buildPlanningCells,
+  copyPreviousMonthPlan,
+  getCellKey,
+  getMonthDates,
+  getPreviousMonth,
+  parseVolume,
+} from '../utils/forecastPlanningUtils';
+import { getMultiLangDesignation } from '@/shared/utils/exportUtils';
+import { formatDate, getToday } from '@/shared/utils/dateTimeLocal';
+import { fetchAllPages } from '@/types/pagination';
+import { useAuth } from '@/shared/context/AuthContext';
+
+import type { FlowForecastDTO } from '../dto/FlowForecastDTO';
+import type { PlanningCell, PlanningCells } from '../utils/forecastPlanningUtils';
+import type { InfrastructureDTO } from '@/modules/network/core/dto/InfrastructureDTO';
+import type { ProductDTO } from '@/modules/network/common/dto/ProductDTO';
+import type { OperationTypeDTO } from '@/modules/flow/type/dto/OperationTypeDTO';
+
+type VolumeField = 'predicted' | 'adjusted';
+type CellState = { status: 'saved' } | { status: 'error'; message: string };
+
+interface NotificationState {
+  open: boolean;
+  message: string;
+  severity: 'success' | 'error' | 'warning' | 'info';
+}
+
+const VOLUME_FIELDS: VolumeField[] = ['predicted', 'adjusted'];
+
+/** Forecasts loaded per request; every page of the month is loaded (filtered client-side) */
+const FORECASTS_PAGE_SIZE = 1000;
+
+const EMPTY_CELL: PlanningCell = { predicted: '', adjusted: '' };
+
+const getNextMonth = (): string => {
+  const date = new Date(`${getToday()}T00:00:00`);
+  date.setDate(1);
+  date.setMonth(date.getMonth() + 1);
+  return formatDate(date, 'yyyy-MM-dd').substring(0, 7);
+};
+
+export const ForecastPlanning: React.FC = () => {
+  const navigate = useNavigate();
+  const { t, i18n } = useTranslation();
+  const { user } = useAuth();
+  const today = getToday();
+
+  // Filters
+  const [month, setMonth] = useState(getNextMonth);
+  const [products, setProducts] = useState<ProductDTO[]>([]);
+  const [operationTypes, setOperationTypes] = useState<OperationTypeDTO[]>([]);
+  const [infrastructures, setInfrastructures] = useState<InfrastructureDTO[]>([]);
+  const [productId, setProductId] = useState<number | ''>('');
+  const [operationTypeId, setOperationTypeId] = useState<number | ''>('');
+  const [columns, setColumns] = useState<InfrastructureDTO[]>([]);
+
+  // Grid
+  const [cells, setCells] = useState<PlanningCells>({});
+  const [dirty, setDirty] = useState<Set<string>>(new Set());
+  const [cellStates, setCellStates] = useState<Record<string, CellState>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [copying, setCopying] = useState(false);
+  const [notification, setNotification] = useState<NotificationState>({
+    open: false,
+    message: '',
+    severity: 'info',
+  });
+  const inputRefs = useRef<Record<string, HTMLInputElement | null>>({});
+
+  const dates = useMemo(() => getMonthDates(month), [month]);
+  // Forecasts must be in the future (backend @Future)
+  const editableDates = useMemo(() => dates.filter((date) => date > today), [dates, today]);
+  const editableIndex = useMemo(() => new Map(editableDates.map((date, index) => [date, index])), [editableDates]);
+
+  useEffect(() => {
+    loadFilterOptions();
+  }, []);
+
+  useEffect(() => {
+    if (productId && operationTypeId && month) {
+      loadPlan();
+    }
+  }, [productId, operationTypeId, month, infrastructures]);
+
+  const showNotification = (message: string, severity: NotificationState['severity']) => {
+    setNotification({ open: true, message, severity });
+  };
+
+  const loadFilterOptions = async () => {
+    try {
+      const [infras, prods, types] = await Promise.all([
+        InfrastructureService.getAllNoPagination(),
+        ProductService.getAllNoPagination(),
+        OperationTypeService.getAllNoPagination(),
+      ]);
+      setInfrastructures(infras);
+      setProducts(prods);
+      setOperationTypes(types);
+    } catch (err: any) {
+      console.error('Error loading filter options:', err);
+      showNotification(err.message || t('flow.forecast.alerts.loadError'), 'error');
+    }
+  };
+
+  /**
+   * Forecasts of the product and operation type for a month
+   */
+  const loadMonthForecasts = async (targetMonth: string): Promise<FlowForecastDTO[]> => {
+    const monthDates = getMonthDates(targetMonth);
+    const result = await fetchAllPages(
+      (pageable) => FlowForecastService.getByDateRange(monthDates[0], monthDates[monthDates.length - 1], pageable),
+      FORECASTS_PAGE_SIZE,
+      'id,asc'
+    );
+    return result.filter(
+      (forecast) => forecast.productId === productId && forecast.operationTypeId === operationTypeId
+    );
+  };
+
+  /**
+   * Add the infrastructures of the given forecasts to the grid columns
+   */
+  const addColumns = (forecasts: FlowForecastDTO[]) => {
+    const ids = new Set(forecasts.map((forecast) => forecast.infrastructureId));
+    setColumns((prev) => {
+      const present = new Set(prev.map((infra) => infra.id));
+      const added = infrastructures.filter((infra) => ids.has(infra.id as number) && !present.has(infra.id));
+      return added.length > 0 ? [...prev, ...added] : prev;
+    });
+  };
+
+  const loadPlan = async () => {
+    try {
+      setLoading(true);
+      const forecasts = await loadMonthForecasts(month);
+      setCells(buildPlanningCells(forecasts));
+      setDirty(new Set());
+      setCellStates({});
+      addColumns(forecasts);
+    } catch (err: any) {
+      console.error('Error loading forecast plan:', err);
+      showNotification(err.message || t('flow.forecast.alerts.loadError'), 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopyPreviousMonth = async () => {
+    try {
+      setCopying(true);
+      const previous = await loadMonthForecasts(getPreviousMonth(month));
+      const copied = copyPreviousMonthPlan(previous, month);
+
+      // Only empty future cells are filled
+      const keys = Object.keys(copied).filter((key) => {
+        const cell = cells[key];
+        return editableIndex.has(key.split('|')[0]) && !cell?.forecast && !cell?.predicted && !cell?.adjusted;
+      });
+
+      if (keys.length === 0) {
+        showNotification(t('flow.forecastPlanning.alerts.nothingToCopy'), 'info');
+        return;
+      }
+
+      setCells((prev) => ({
+        ...prev,
+        ...Object.fromEntries(keys.map((key) => [key, { ...prev[key], ...copied[key] }])),
+      }));
+      setDirty((prev) => new Set([...prev, ...keys]));
+      addColumns(previous);
+      showNotification(t('flow.forecastPlanning.alerts.copied', { count: keys.length }), 'success');
+    } catch (err: any) {
+      console.error('Error copying previous month:', err);
+      showNotification(err.message || t('flow.forecast.alerts.loadError'), 'error');
+    } finally {
+      setCopying(false);
+    }
+  };
+
+  const setCell = (key: string, field: VolumeField, value: string) => {
+    setCells((prev) => ({ ...prev, [key]: { ...(prev[key] || EMPTY_CELL), [field]: value } }));
+    setDirty((prev) => new Set(prev).add(key));
+    setCellStates((prev) => {
+      const { [key]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const focusCell = (row: number, col: number) => {
+    inputRefs.current[`${row}:${col}`]?.focus();
+    inputRefs.current[`${row}:${col}`]?.select();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, row: number, col: number) => {
+    const input = e.currentTarget;
+    const atStart = input.selectionStart === 0 && input.selectionEnd === 0;
+    const atEnd = input.selectionStart === input.value.length;
+    const lastCol = columns.length * VOLUME_FIELDS.length - 1;
+
+    if (e.key === 'ArrowDown' || e.key === 'Enter') {
+      e.preventDefault();
+      focusCell(Math.min(row + 1, editableDates.length - 1), col);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      focusCell(Math.max(row - 1, 0), col);
+    } else if (e.key === 'ArrowRight' && atEnd && col < lastCol) {
+      e.preventDefault();
+      focusCell(row, col + 1);
+    } else if (e.key === 'ArrowLeft' && atStart && col > 0) {
+      e.preventDefault();
+      focusCell(row, col - 1);
+    }
+  };
+
+  /**
+   * Paste a block copied from Excel starting at the focused cell
+   * Single values fall back to the browser's default paste
+   */
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>, row: number, col: number) => {
+    const lines = e.clipboardData.getData('text').replace(/\r/g, '').split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+    if (lines.length <= 1 && !lines[0]?.includes('\t')) return;
+
+    e.preventDefault();
+    lines.forEach((line, rowOffset) => {
+      const date = editableDates[row + rowOffset];
+      if (!date) return;
+      line.split('\t').forEach((value, colOffset) => {
+        const target = col + colOffset;
+        const infra = columns[Math.floor(target / VOLUME_FIELDS.length)];
+        if (infra) setCell(getCellKey(date, infra.id as number), VOLUME_FIELDS[target % VOLUME_FIELDS.length], value.trim());
+      });
+    });
+  };
+
+  /**
+   * Check an edited cell before saving; returns an error message or null
+   */
+  const validateCell = (cell: PlanningCell, forecast: FlowForecastDTO): string | null => {
+    const predicted = parseVolume(cell.predicted);
+    const adjusted = parseVolume(cell.adjusted);
+    if ((predicted !== undefined && Number.isNaN(predicted)) || (adjusted !== undefined && Number.isNaN(adjusted))) {
+      return t('flow.forecastPlanning.errors.notANumber');
+    }
+    return validateFlowForecastDTO(forecast)[0] || null;
+  };
+
+  /**
+   * Save every changed cell, one after the other
+   */
+  const handleSave = async () => {
+    if (!productId || !operationTypeId) return;
+    setSaving(true);
+    let saved = 0;
+    let failed = 0;
+    const states: Record<string, CellState> = {};
+    const updatedCells: PlanningCells = {};
+    const cleared: string[] = [];
+
+    for (const key of dirty) {
+      const [date, infraId] = key.split('|');
+      const cell = cells[key] || EMPTY_CELL;
+
+      // A cell emptied before ever being saved has nothing to save
+      if (!cell.forecast && !cell.predicted.trim() && !cell.adjusted.trim()) {
+        cleared.push(key);
+        continue;
+      }
+
+      const forecast = buildCellForecast(
+        cell,
+        date,
+        Number(infraId),
+        Number(productId),
+        Number(operationTypeId),
+        user?.employee?.id
+      );
+      const validationError = validateCell(cell, forecast);
+      if (validationError) {
+        states[key] = { status: 'error', message: validationError };
+        failed++;
+        continue;
+      }
+
+      try {
+        const result = forecast.id
+          ? await FlowForecastService.update(forecast.id, forecast)
+          : await FlowForecastService.create(forecast);
+        updatedCells[key] = { ...cell, forecast: result };
+        states[key] = { status: 'saved' };
+        saved++;
+      } catch (err: any) {
+        states[key] = {
+          status: 'error',
+          message: err.response?.status === 409 ? t('flow.forecastPlanning.errors.duplicate') : err.response?.data?.message || err.message,
+        };
+        failed++;
+      }
+    }
+
+    setCells((prev) => ({ ...prev, ...updatedCells }));
+    setCellStates(states);
+    setDirty((prev) => new Set([...prev].filter((key) => states[key]?.status === 'error')));
+    if (cleared.length > 0 && saved === 0 && failed === 0) {
+      showNotification(t('flow.forecastPlanning.alerts.nothingToSave'), 'info');
+    } else {
+      showNotification(
+        t('flow.forecastPlanning.alerts.saveResult', { saved, failed }),
+        failed > 0 ? 'warning' : 'success'
+      );
+    }
+    setSaving(false);
+  };
+
+  const handleReset = () => {
+    loadPlan();
+  };
+
+  const getEffectiveVolume = (cell?: PlanningCell): number => {
+    const value = parseVolume(cell?.adjusted || '') ?? parseVolume(cell?.predicted || '');
+    return value === undefined || Number.isNaN(value) ? 0 : value;
+  };
+
+  const renderCellState = (key: string) => {
+    const state = cellStates[key];
+    if (!state) return null;
+    return state.status === 'saved' ? (
+      <SavedIcon sx={{ fontSize: 14 }} color="success" />
+    ) : (
+      <Tooltip title={state.message}>
+        <ErrorIcon sx={{ fontSize: 14 }} color="error" />
+      </Tooltip>
+    );
+  };
+
+  const renderVolumeCell = (date: string, infra: InfrastructureDTO, field: VolumeField, infraIndex: number) => {
+    const key = getCellKey(date, infra.id as number);
+    const raw = cells[key]?.[field] ?? '';
+    const parsed = parseVolume(raw);
+    const invalid = parsed !== undefined && Number.isNaN(parsed);
+    const row = editableIndex.get(date);
+    const col = infraIndex * VOLUME_FIELDS.length + VOLUME_FIELDS.indexOf(field);
+    const error = cellStates[key]?.status === 'error';
+
+    if (row === undefined) {
+      return (
+        <TableCell key={field} align="right" sx={{ color: 'text.secondary', bgcolor: 'action.hover' }}>
+          {raw || '-'}
+        </TableCell>
+      );
+    }
+
+    return (
+      <TableCell
+        key={field}
+        padding="none"
+        sx={{
+          bgcolor: invalid || error ? 'error.lighter' : undefined,
+          outline: dirty.has(key) ? '1px dashed' : undefined,
+          outlineColor: 'primary.light',
+          outlineOffset: -2,
+          borderRight: field === 'adjusted' ? 1 : undefined,
+          borderRightColor: 'divider',
+        }}
+      >
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <InputBase
+            value={raw}
+            onChange={(e) => setCell(key, field, e.target.value)}
+            onKeyDown={(e) => handleKeyDown(e as React.KeyboardEvent<HTMLInputElement>, row, col)}
+            onPaste={(e) => handlePaste(e as React.ClipboardEvent<HTMLInputElement>, row, col)}
+            onFocus={(e) => e.target.select()}
+            inputRef={(el) => {
+              inputRefs.current[`${row}:${col}`] = el;
+            }}
+            disabled={saving}
+            inputProps={{ inputMode: 'decimal', style: { textAlign: 'right' } }}
+            sx={{ width: '100%', minWidth: 80, px: 1, py: 0.5, fontSize: 13 }}
+          />
+          {field === 'adjusted' && <Box sx={{ pr: 0.5 }}>{renderCellState(key)}</Box>}
+        </Box>
+      </TableCell>
+    );
+  };
+
+  const ready = Boolean(productId && operationTypeId);
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* HEADER SECTION - Containerized */}
+      <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+        <Box sx={{ p: 2.5 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Box>
+              <Typography variant="h4" fontWeight={700} color="text.primary" sx={{ mb: 0.5 }}>
+                {t('flow.forecastPlanning.title')}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {t('flow.forecastPlanning.subtitle')}
+              </Typography>
+            </Box>
+            <Stack direction="row" spacing={1.5}>
+              <Tooltip title={t('action.refresh', 'Refresh')}>
+                <span>
+                  <IconButton onClick={loadPlan} size="medium" color="primary" disabled={!ready || saving}>
+                    <RefreshIcon />
+                  </IconButton>
+                </span>
+              </Tooltip>
+              <Tooltip title={t('flow.forecast.actions.back')}>
+                <IconButton onClick={() => navigate('/flow/forecasts')} size="medium" color="primary">
+                  <ArrowBackIcon />
+                </IconButton>
+              </Tooltip>
+            </Stack>
+          </Box>
+        </Box>
+      </Paper>
+
+      {/* Filters */}
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <Grid container spacing={2}>
+            <Grid item xs={12} md={2}>
+              <TextField
+                fullWidth
+                type="month"
+                label={t('flow.forecastPlanning.month')}
+                value={month}
+                onChange={(e) => e.target.value && setMonth(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+                disabled={dirty.size > 0}
+              />
+            </Grid>
+            <Grid item xs={12} md={3}>
+              <TextField
+                fullWidth
+                select
+                label={t('flow.forecast.fields.product')}
+                value={productId}
+                onChange={(e) => setProductId(e.target.value as number | '')}
+                disabled={dirty.size > 0}
+              >
+                {products.map((product) => (
+                  <MenuItem key={product.id} value={product.id}>
+                    {getMultiLangDesignation(product, i18n.language) || product.code}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid item xs={12} md={2}>
+              <TextField
+                fullWidth
+                select
+                label={t('flow.forecast.fields.type')}
+                value={operationTypeId}
+                onChange={(e) => setOperationTypeId(e.target.value as number | '')}
+                disabled={dirty.size > 0}
+              >
+                {operationTypes.map((type) => (
+                  <MenuItem key={type.id} value={type.id}>
+                    {getMultiLangDesignation(type, i18n.language) || type.code}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid item xs={12} md={5}>
+              <Autocomplete
+                multiple
+                value={columns}
+                onChange={(_, value) => setColumns(value)}
+                options={infrastructures}
+                getOptionLabel={(option) => option.code}
+                isOptionEqualToValue={(option, value) => option.id === value.id}
+                disableCloseOnSelect
+                limitTags={4}
+                renderInput={(params) => (
+                  <TextField {...params} label={t('flow.forecastPlanning.infrastructures')} />
+                )}
+              />
+            </Grid>
+          </Grid>
+        </CardContent>
+      </Card>
+
+      {!ready ? (
+        <Alert severity="info">{t('flow.forecastPlanning.selectFilters')}</Alert>
+      ) : loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <Paper>
+          {/* Toolbar */}
+          <Box sx={{ p: 2, display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 2 }}>
+            <Box>
+              <Typography variant="body2" color="text.secondary">
+                {t('flow.forecastPlanning.hint')}
+              </Typography>
+              {dirty.size > 0 && (
+                <Chip
+                  size="small"
+                  color="primary"
+                  variant="outlined"
+                  sx={{ mt: 1 }}
+                  label={t('flow.forecastPlanning.modifiedCount', { count: dirty.size })}
+                />
+              )}
+            </Box>
+            <Stack direction="row" spacing={1}>
+              <Button
+                startIcon={copying ? <CircularProgress size={16} /> : <CopyIcon />}
+                onClick={handleCopyPreviousMonth}
+                disabled={saving || copying || editableDates.length === 0}
+              >
+                {t('flow.forecastPlanning.actions.copyPrevious')}
+              </Button>
+              <Button startIcon={<UndoIcon />} onClick={handleReset} disabled={saving || dirty.size === 0}>
+                {t('flow.forecastPlanning.actions.reset')}
+              </Button>
+              <Button
+                variant="contained"
+                startIcon={saving ? <CircularProgress size={16} color="inherit" /> : <SaveIcon />}
+                onClick={handleSave}
+                disabled={saving || dirty.size === 0}
+              >
+                {t('flow.forecastPlanning.actions.save')}
+              </Button>
+            </Stack>
+          </Box>
+
+          {columns.length === 0 ? (
+            <Alert severity="info" sx={{ m: 2 }}>
+              {t('flow.forecastPlanning.noColumns')}
+            </Alert>
+          ) : (
+            <TableContainer sx={{ maxHeight: 640 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell rowSpan={2} sx={{ minWidth: 110 }}>
+                      {t('flow.forecast.fields.date')}
+                    </TableCell>
+                    {columns.map((infra) => (
+                      <TableCell key={infra.id} colSpan={2} align="center" sx={{ fontWeight: 600 }}>
+                        <Tooltip title={infra.name || ''}>
+                          <span>{infra.code}</span>
+                        </Tooltip>
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                  <TableRow>
+                    {columns.map((infra) =>
+                      VOLUME_FIELDS.map((field) => (
+                        <TableCell key={`${infra.id}-${field}`} align="right" sx={{ top: 37 }}>
+                          {t(`flow.forecastPlanning.fields.${field}`)}
+                        </TableCell>
+                      ))
+                    )}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {dates.map((date) => (
+                    <TableRow key={date} hover>
+                      <TableCell sx={{ whiteSpace: 'nowrap', color: editableIndex.has(date) ? undefined : 'text.secondary' }}>
+                        {formatDate(date)}
+                      </TableCell>
+                      {columns.map((infra, infraIndex) =>
+                        VOLUME_FIELDS.map((field) => renderVolumeCell(date, infra, field, infraIndex))
+                      )}
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell sx={{ fontWeight: 600 }}>{t('flow.forecastPlanning.total')}</TableCell>
+                    {columns.map((infra) => (
+                      <TableCell key={infra.id} colSpan={2} align="right" sx={{ fontWeight: 600 }}>
+                        {dates
+                          .reduce((sum, date) => sum + getEffectiveVolume(cells[getCellKey(date, infra.id as number)]), 0)
+                          .toLocaleString()}{' '}
+                        m³
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Paper>
+      )}
+
+      <Snackbar
+        open={notification.open}
+        autoHideDuration={6000}
+        onClose={() => setNotification((prev) => ({ ...prev, open: false }))}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert
+          onClose={() => setNotification((prev) => ({ ...prev, open: false }))}
+          severity={notification.severity}
+          sx={{ width: '100%' }}
+        >
+          {notification.message}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+};
@@ -10,6 +10,10 @@
  * 
  * @author CHOUABBIA Amine
  * @created 01-25-2026
+ * @updated 10-19-2026 - Validated readings are read-only; reload after a correction request
+ * @updated 10-19-2026 - Correction requests for validated readings and revision timeline
+ * @updated 10-19-2026 - Offline capture: new readings are queued locally and synced later
+ * @updated 10-19-2026 - Added History drawer with version restore (edit mode)
  * @updated 02-14-2026 20:55 - Fixed: Skip pipeline selection when editing - start at measurement form
  * @updated 02-14-2026 00:38 - Fixed: Pass currentEmployeeId to ValidationReview for approval/rejection
  * @updated 02-07-2026 16:30 - Aligned form types with FlowReadingDTO for better type safety
@@ -28,6 +32,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useParams, useLocation } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
 import { useForm, Controller } from 'react-hook-form';
 import {
   Box,
@@ -54,18 +59,31 @@ import {
   ArrowBack as ArrowBackIcon,
   ArrowForward as ArrowForwardIcon,
   CheckCircle as CheckCircleIcon,
+  History as HistoryIcon,
+  CloudOff as CloudOffIcon,
+  EditNote as CorrectionIcon,
 } from '@mui/icons-material';
 
 import { PipelineSelection } from './components/PipelineSelection';
 import { MeasurementForm } from './components/MeasurementForm';
 import { ValidationReview } from './components/ValidationReview';
+import { ReadingRevisionTimeline } from './components/ReadingRevisionTimeline';
+import { ReadingCorrectionDialog } from './components/ReadingCorrectionDialog';
 
 import { FlowReadingService } from '@/modules/flow/core/services/FlowReadingService';
 import { FlowThresholdService } from '@/modules/flow/core/services/FlowThresholdService';
+import {
+  OfflineReadingQueueService,
+  isNetworkError,
+} from '@/modules/flow/core/services/OfflineReadingQueueService';
 import { ValidationStatusService } from '@/modules/flow/common/services/ValidationStatusService';
+import { canRequestCorrection, hasOpenCorrection } from '@/modules/flow/core/utils/readingRevisionUtils';
 import UserService from '@/modules/system/security/services/UserService';
 import { useAuth } from '@/shared/context/AuthContext';
+import { useOnlineStatus } from '@/shared/hooks/useOnlineStatus';
 import { getCurrentLocalDateTime, isoToLocalDateTimeString } from '@/shared/utils/dateTimeLocal';
+import { EntityHistoryDrawer } from '@/modules/system/audit/components';
+import { pickSnapshotFields } from '@/modules/system/audit/utils';
 
 import type { FlowReadingDTO } from '@/modules/flow/core/dto/FlowReadingDTO';
 import type { ValidationStatusDTO } from '@/modules/flow/common/dto/ValidationStatusDTO';
@@ -106,6 +124,8 @@ interface NavigationState {
   returnTo?: string;
 }
 
+const VALIDATION_STATUSES_CACHE_KEY = 'validationStatuses';
+
 const steps = [
   'Select Pipeline',
   'Enter Measurements',
@@ -117,13 +137,15 @@ export const ReadingEdit: React.FC<ReadingEditProps> = ({ mode }) => {
   const location = useLocation();
   const { id } = useParams<{ id: string }>();
   const { user } = useAuth(); // Use AuthContext to get current user
+  const isOnline = useOnlineStatus();
+  const { t } = useTranslation();
   
   // Get navigation state from SlotMonitoring
   const navigationState = location.state as NavigationState | undefined;
   const isFromSlotMonitoring = !!navigationState?.pipelineId;
   
   // Form state with DTO-aligned default values
-  const { control, handleSubmit, watch, setValue, formState: { errors, isDirty } } = useForm<ReadingFormData>({
+  const { control, handleSubmit, watch, setValue, getValues, formState: { errors, isDirty } } = useForm<ReadingFormData>({
     defaultValues: {
       pipelineId: undefined as any, // Will be set from navigation or selection
       readingDate: new Date().toISOString().split('T')[0], // Today's date in YYYY-MM-DD
@@ -150,12 +172,19 @@ export const ReadingEdit: React.FC<ReadingEditProps> = ({ mode }) => {
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [showCancelDialog, setShowCancelDialog] = useState(false);
   const [authError, setAuthError] = useState<string | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [correctionOpen, setCorrectionOpen] = useState(false);
+  const [revisionsKey, setRevisionsKey] = useState(0);
+  const [revisions, setRevisions] = useState<FlowReadingDTO[]>([]);
   const [notification, setNotification] = useState<NotificationState>({
     open: false,
     message: '',
     severity: 'info',
   });
   
+  // Validated readings are read-only: their values change through a correction request
+  const isLocked = mode === 'edit' && existingReading?.validationStatus?.code === 'VALIDATED';
+  
   // Watch form changes
   const watchedPipelineId = watch('pipelineId');
   const watchedReadingSlotId = watch('readingSlotId');
@@ -241,7 +270,7 @@ export const ReadingEdit: React.FC<ReadingEditProps> = ({ mode }) => {
       
       // Load validation statuses
       console.log('🔄 Loading validation statuses...');
-      const statuses = await ValidationStatusService.getAllNoPagination();
+      const statuses = await loadValidationStatuses();
       console.log('✅ Validation statuses loaded:', statuses);
       setValidationStatuses(statuses);
       
@@ -265,6 +294,7 @@ export const ReadingEdit: React.FC<ReadingEditProps> = ({ mode }) => {
       if ((mode === 'edit' || mode === 'validate') && id) {
         const reading = await FlowReadingService.getById(Number(id));
         setExistingReading(reading);
+        loadRevisions(Number(id));
         
         // Populate form with existing data (DTO fields match form fields)
         setValue('pipelineId', reading.pipelineId);
@@ -304,6 +334,43 @@ export const ReadingEdit: React.FC<ReadingEditProps> = ({ mode }) => {
     }
   };
   
+  /**
+   * Load validation statuses, cached locally so that new readings
+   * can still be captured (and queued) without network
+   */
+  const loadValidationStatuses = async (): Promise<ValidationStatusDTO[]> => {
+    try {
+      const statuses = await ValidationStatusService.getAllNoPagination();
+      OfflineReadingQueueService.cache(VALIDATION_STATUSES_CACHE_KEY, statuses).catch((err) =>
+        console.warn('Could not cache validation statuses:', err)
+      );
+      return statuses;
+    } catch (error: any) {
+      if (mode === 'create' && isNetworkError(error)) {
+        const cached = await OfflineReadingQueueService.getCached<ValidationStatusDTO[]>(
+          VALIDATION_STATUSES_CACHE_KEY
+        ).catch(() => undefined);
+        if (cached?.length) {
+          console.warn('⚠️ Offline: using cached validation statuses');
+          return cached;
+        }
+      }
+      throw error;
+    }
+  };
+  
+  /**
+   * Queue a new reading locally when the server cannot be reached
+   */
+  const queueOfflineReading = async (readingDTO: FlowReadingDTO) => {
+    await OfflineReadingQueueService.enqueue(readingDTO, {
+      pipelineCode: navigationState?.pipelineCode,
+      pipelineName: navigationState?.pipelineName,
+      structureId: navigationState?.structureId,
+    });
+    showNotification('You are offline: reading saved on this device and pending sync', 'warning');
+  };
+  
   /**
    * Load threshold configuration for a pipeline
    * Called when pipeline is auto-populated from SlotMonitoring
@@ -331,6 +398,44 @@ export const ReadingEdit: React.FC<ReadingEditProps> = ({ mode }) => {
     }
   };
   
+  const handleRestoreVersion = (snapshot: Record<string, unknown>) => {
+    const restored = pickSnapshotFields(getValues(), snapshot);
+    (Object.keys(restored) as Array<keyof ReadingFormData>).forEach((key) => {
+      setValue(key, restored[key] as any, { shouldDirty: true });
+    });
+    showNotification('Previous version loaded into the form. Review and save to apply it.', 'info');
+  };
+  
+  /**
+   * Load the revisions of the reading (to detect a pending correction)
+   */
+  const loadRevisions = async (readingId: number) => {
+    try {
+      setRevisions(await FlowReadingService.getRevisions(readingId));
+    } catch (error) {
+      console.error('Error loading reading revisions:', error);
+      setRevisions([]);
+    }
+  };
+  
+  const handleCorrected = async (revision: FlowReadingDTO) => {
+    setCorrectionOpen(false);
+    setRevisions((prev) => [...prev, revision]);
+    setRevisionsKey((key) => key + 1);
+    showNotification(
+      t('flow.readingRevision.edit.submitted', { number: revision.revisionNumber ?? '' }),
+      'success'
+    );
+    
+    if (!id) return;
+    try {
+      setExistingReading(await FlowReadingService.getById(Number(id)));
+      await loadRevisions(Number(id));
+    } catch (error) {
+      console.error('Error reloading corrected reading:', error);
+    }
+  };
+  
   const showNotification = (message: string, severity: NotificationState['severity']) => {
     setNotification({ open: true, message, severity });
   };
@@ -361,6 +466,9 @@ export const ReadingEdit: React.FC<ReadingEditProps> = ({ mode }) => {
   };
   
   const onSubmit = async (data: ReadingFormData, submitForValidation: boolean = false) => {
+    // Validated readings only change through a correction request
+    if (isLocked) return;
+    
     try {
       setLoading(true);
       
@@ -431,14 +539,24 @@ export const ReadingEdit: React.FC<ReadingEditProps> = ({ mode }) => {
       if (mode === 'edit' && id) {
         savedReading = await FlowReadingService.update(Number(id), readingDTO);
         showNotification('Flow reading has been successfully updated', 'success');
+      } else if (!navigator.onLine) {
+        await queueOfflineReading(readingDTO);
+        savedReading = readingDTO;
       } else {
-        savedReading = await FlowReadingService.create(readingDTO);
-        showNotification(
-          submitForValidation 
-            ? 'Reading saved and submitted for validation'
-            : 'Reading saved as draft',
-          'success'
-        );
+        try {
+          savedReading = await FlowReadingService.create(readingDTO);
+          showNotification(
+            submitForValidation 
+              ? 'Reading saved and submitted for validation'
+              : 'Reading saved as draft',
+            'success'
+          );
+        } catch (createError: any) {
+          // Connection lost while saving: keep the reading for later sync
+          if (!isNetworkError(createError)) throw createError;
+          await queueOfflineReading(readingDTO);
+          savedReading = readingDTO;
+        }
       }
       
       console.log('✅ Reading saved:', savedReading);
@@ -590,10 +708,52 @@ export const ReadingEdit: React.FC<ReadingEditProps> = ({ mode }) => {
             variant="outlined"
           />
         )}
+        
+        {mode === 'create' && !isOnline && (
+          <Chip
+            icon={<CloudOffIcon />}
+            label="Offline - reading will be synced later"
+            color="warning"
+          />
+        )}
+        
+        {mode !== 'create' && (
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            {existingReading && canRequestCorrection(existingReading, revisions) && (
+              <Button variant="outlined" color="warning" startIcon={<CorrectionIcon />} onClick={() => setCorrectionOpen(true)}>
+                {t('flow.readingRevision.edit.requestCorrection')}
+              </Button>
+            )}
+            {existingReading && hasOpenCorrection(existingReading, revisions) && (
+              <Chip icon={<CorrectionIcon />} label={t('flow.readingRevision.edit.correctionPending')} color="warning" variant="outlined" />
+            )}
+            <Button variant="outlined" startIcon={<HistoryIcon />} onClick={() => setHistoryOpen(true)}>
+              History
+            </Button>
+          </Box>
+        )}
       </Box>
       
+      {existingReading?.id && (
+        <ReadingRevisionTimeline
+          readingId={existingReading.id}
+          refreshKey={revisionsKey}
+          onOpenRevision={(revisionId) => navigate(`/flow/readings/${revisionId}/edit`, { state: navigationState })}
+        />
+      )}
+      
       <Card>
         <CardContent>
+          {isLocked && existingReading && (
+            <Alert severity="info" sx={{ mb: 3 }}>
+              {existingReading.superseded
+                ? t('flow.readingRevision.edit.lockedSuperseded')
+                : hasOpenCorrection(existingReading, revisions)
+                  ? t('flow.readingRevision.edit.lockedPending')
+                  : t('flow.readingRevision.edit.locked')}
+            </Alert>
+          )}
+          
           {mode !== 'validate' && (
             <>
               <Stepper activeStep={currentStep} sx={{ mb: 4 }}>
@@ -624,6 +784,7 @@ export const ReadingEdit: React.FC<ReadingEditProps> = ({ mode }) => {
                     pipelineId={watchedPipelineId}
                     threshold={selectedThreshold}
                     isFromMonitoring={isFromSlotMonitoring || mode === 'edit'}
+                    disabled={isLocked}
                   />
                 )}
                 
@@ -654,7 +815,7 @@ export const ReadingEdit: React.FC<ReadingEditProps> = ({ mode }) => {
                       <Button
                         startIcon={<SaveIcon />}
                         onClick={handleSaveDraft}
-                        disabled={loading}
+                        disabled={loading || isLocked}
                         variant="outlined"
                       >
                         Save as Draft
@@ -662,7 +823,7 @@ export const ReadingEdit: React.FC<ReadingEditProps> = ({ mode }) => {
                       <Button
                         startIcon={<SendIcon />}
                         onClick={handleSubmitForValidation}
-                        disabled={loading}
+                        disabled={loading || isLocked}
                         variant="contained"
                         color="primary"
                       >
@@ -735,6 +896,24 @@ export const ReadingEdit: React.FC<ReadingEditProps> = ({ mode }) => {
           {notification.message}
         </Alert>
       </Snackbar>
+      
+      {existingReading && currentEmployee.id && (
+        <ReadingCorrectionDialog
+          open={correctionOpen}
+          reading={existingReading}
+          employeeId={currentEmployee.id}
+          onClose={() => setCorrectionOpen(false)}
+          onCorrected={handleCorrected}
+        />
+      )}
+      
+      <EntityHistoryDrawer
+        open={historyOpen}
+        onClose={() => setHistoryOpen(false)}
+        entityName="FlowReading"
+        entityId={id ? Number(id) : undefined}
+        onRestore={mode === 'edit' ? handleRestoreVersion : undefined}
+      />
     </Box>
   );
 };
\ No newline at end of file
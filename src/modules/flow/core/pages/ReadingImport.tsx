@@ -0,0 +1,591 @@
+/**
+ * ReadingImport Page - Historical Reading Import
+ *
+ * Wizard importing flow readings from legacy Excel/CSV logbooks:
+ * 1. Upload a workbook (first row = column headers)
+ * 2. Map columns to reading fields
+ * 3. Preview with row-level errors and threshold warnings
+ * 4. Create the valid readings in batches, with a downloadable error report
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  FormControlLabel,
+  Grid,
+  IconButton,
+  LinearProgress,
+  MenuItem,
+  Paper,
+  Stack,
+  Step,
+  StepLabel,
+  Stepper,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+  Alert,
+  alpha,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  UploadFile as UploadFileIcon,
+  ArrowBack as ArrowBackIcon,
+  ArrowForward as ArrowForwardIcon,
+  CloudUpload as ImportIcon,
+  Download as DownloadIcon,
+} from '@mui/icons-material';
+
+import { FlowReadingService } from '../services/FlowReadingService';
+import { FlowThresholdService } from '../services/FlowThresholdService';
+import { ReadingSlotService } from '@/modules/flow/common/services/ReadingSlotService';
+import { ValidationStatusService } from '@/modules/flow/common/services/ValidationStatusService';
+import { PipelineService } from '@/modules/network/core/services/PipelineService';
+import { useAuth } from '@/shared/context/AuthContext';
+import { exportToExcel } from '@/shared/utils/exportUtils';
+import {
+  READING_IMPORT_FIELDS,
+  buildImportRows,
+  guessColumnMapping,
+} from '../utils/readingImportUtils';
+
+import type {
+  ReadingImportMapping,
+  ReadingImportMessage,
+  ReadingImportRawRow,
+  ReadingImportRow,
+} from '../utils/readingImportUtils';
+import type { FlowThresholdDTO } from '../dto/FlowThresholdDTO';
+import type { ReadingSlotDTO } from '@/modules/flow/common/dto/ReadingSlotDTO';
+import type { ValidationStatusDTO } from '@/modules/flow/common/dto/ValidationStatusDTO';
+import type { PipelineDTO } from '@/modules/network/core/dto/PipelineDTO';
+
+/** Readings created in parallel per request batch */
+const IMPORT_BATCH_SIZE = 20;
+
+interface ImportFailure {
+  rowNumber: number;
+  pipelineCode: string;
+  readingDate: string;
+  slotCode: string;
+  error: string;
+}
+
+export const ReadingImport: React.FC = () => {
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+  const { user } = useAuth();
+
+  const [activeStep, setActiveStep] = useState(0);
+  const [loadingReferences, setLoadingReferences] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reference data
+  const [pipelines, setPipelines] = useState<PipelineDTO[]>([]);
+  const [slots, setSlots] = useState<ReadingSlotDTO[]>([]);
+  const [thresholds, setThresholds] = useState<FlowThresholdDTO[]>([]);
+  const [statuses, setStatuses] = useState<ValidationStatusDTO[]>([]);
+
+  // Source file
+  const [fileName, setFileName] = useState('');
+  const [workbookSheets, setWorkbookSheets] = useState<Record<string, ReadingImportRawRow[]>>({});
+  const [sheetName, setSheetName] = useState('');
+  const [mapping, setMapping] = useState<ReadingImportMapping>({});
+  const [statusId, setStatusId] = useState<number | ''>('');
+
+  // Preview
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+
+  // Import
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0, created: 0 });
+  const [failures, setFailures] = useState<ImportFailure[]>([]);
+  const [finished, setFinished] = useState(false);
+
+  const steps = [
+    t('flow.readingImport.steps.upload'),
+    t('flow.readingImport.steps.mapping'),
+    t('flow.readingImport.steps.preview'),
+    t('flow.readingImport.steps.import'),
+  ];
+
+  useEffect(() => {
+    loadReferences();
+  }, []);
+
+  const loadReferences = async () => {
+    try {
+      setLoadingReferences(true);
+      const [pipelineList, slotList, thresholdList, statusList] = await Promise.all([
+        PipelineService.getAllNoPagination(),
+        ReadingSlotService.getAll(),
+        FlowThresholdService.getAllNoPagination(),
+        ValidationStatusService.getAllNoPagination(),
+      ]);
+      setPipelines(pipelineList);
+      setSlots(slotList);
+      setThresholds(thresholdList.filter((threshold) => threshold.active));
+      setStatuses(statusList);
+      setStatusId(statusList.find((status) => status.code === 'DRAFT')?.id ?? '');
+    } catch (err: any) {
+      console.error('Error loading import reference data:', err);
+      setError(err.message || t('flow.readingImport.errors.loadReferences'));
+    } finally {
+      setLoadingReferences(false);
+    }
+  };
+
+  const rawRows = workbookSheets[sheetName] || [];
+  const headers = useMemo(
+    () => Array.from(new Set(rawRows.flatMap((row) => Object.keys(row)))),
+    [rawRows]
+  );
+
+  const rows: ReadingImportRow[] = useMemo(() => {
+    if (activeStep < 2 || !user?.employee?.id || !statusId) return [];
+    return buildImportRows(rawRows, mapping, {
+      pipelinesByCode: new Map(pipelines.map((pipeline) => [pipeline.code.toUpperCase(), pipeline])),
+      slotsByCode: new Map(slots.map((slot) => [slot.code.toUpperCase(), slot])),
+      thresholdsByPipeline: new Map(thresholds.map((threshold) => [threshold.pipelineId, threshold])),
+      recordedById: user.employee.id,
+      validationStatusId: statusId,
+    });
+  }, [activeStep, rawRows, mapping, pipelines, slots, thresholds, user, statusId]);
+
+  const validRows = rows.filter((row) => row.reading);
+  const invalidRows = rows.filter((row) => !row.reading);
+  const warningRows = validRows.filter((row) => row.warnings.length > 0);
+  const displayedRows = errorsOnly ? rows.filter((row) => row.errors.length > 0 || row.warnings.length > 0) : rows;
+  const missingRequired = READING_IMPORT_FIELDS.filter((field) => field.required && !mapping[field.key]);
+
+  const formatMessage = ({ key, params }: ReadingImportMessage): string =>
+    t(`flow.readingImport.messages.${key}`, {
+      ...params,
+      field: params?.field ? t(`flow.readingImport.fields.${params.field}`) : undefined,
+    });
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setError(null);
+      const XLSX = await import('xlsx');
+      const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+      const sheets = Object.fromEntries(
+        workbook.SheetNames.map((name) => [
+          name,
+          XLSX.utils.sheet_to_json<ReadingImportRawRow>(workbook.Sheets[name], { defval: '', raw: true }),
+        ])
+      );
+      const firstSheet = workbook.SheetNames.find((name) => sheets[name].length > 0);
+
+      if (!firstSheet) {
+        setError(t('flow.readingImport.errors.emptyFile'));
+        return;
+      }
+
+      setFileName(file.name);
+      setWorkbookSheets(sheets);
+      selectSheet(firstSheet, sheets);
+    } catch (err: any) {
+      console.error('Error reading import file:', err);
+      setError(t('flow.readingImport.errors.unreadableFile'));
+    }
+  };
+
+  const selectSheet = (name: string, sheets = workbookSheets) => {
+    setSheetName(name);
+    setMapping(guessColumnMapping(Array.from(new Set((sheets[name] || []).flatMap((row) => Object.keys(row))))));
+  };
+
+  const handleImport = async () => {
+    const toImport = validRows;
+    const failed: ImportFailure[] = invalidRows.map((row) => ({
+      rowNumber: row.rowNumber,
+      pipelineCode: row.pipelineCode,
+      readingDate: row.readingDate,
+      slotCode: row.slotCode,
+      error: row.errors.map(formatMessage).join('; '),
+    }));
+
+    setActiveStep(3);
+    setImporting(true);
+    setFinished(false);
+    setProgress({ done: 0, total: toImport.length, created: 0 });
+
+    let created = 0;
+    for (let start = 0; start < toImport.length; start += IMPORT_BATCH_SIZE) {
+      const batch = toImport.slice(start, start + IMPORT_BATCH_SIZE);
+      const results = await Promise.allSettled(
+        batch.map((row) => FlowReadingService.create(row.reading!))
+      );
+
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          created++;
+          return;
+        }
+        const row = batch[index];
+        const reason: any = result.reason;
+        failed.push({
+          rowNumber: row.rowNumber,
+          pipelineCode: row.pipelineCode,
+          readingDate: row.readingDate,
+          slotCode: row.slotCode,
+          error: reason?.response?.status === 409
+            ? t('flow.readingImport.errors.alreadyExists')
+            : reason?.response?.data?.message || reason?.message || t('flow.readingImport.errors.createFailed'),
+        });
+      });
+
+      setProgress({ done: Math.min(start + batch.length, toImport.length), total: toImport.length, created });
+    }
+
+    setFailures(failed.sort((a, b) => a.rowNumber - b.rowNumber));
+    setImporting(false);
+    setFinished(true);
+  };
+
+  const handleDownloadErrorReport = () => {
+    exportToExcel(failures, {
+      filename: `reading_import_errors_${fileName.replace(/\.[^.]+$/, '')}`,
+      title: t('flow.readingImport.report.sheet'),
+      columns: [
+        { header: t('flow.readingImport.columns.row'), key: 'rowNumber', width: 8 },
+        { header: t('flow.readingImport.columns.pipeline'), key: 'pipelineCode', width: 16 },
+        { header: t('flow.readingImport.columns.date'), key: 'readingDate', width: 14 },
+        { header: t('flow.readingImport.columns.slot'), key: 'slotCode', width: 10 },
+        { header: t('flow.readingImport.columns.issues'), key: 'error', width: 80 },
+      ],
+    });
+  };
+
+  const handleRestart = () => {
+    setActiveStep(0);
+    setFileName('');
+    setWorkbookSheets({});
+    setSheetName('');
+    setMapping({});
+    setFailures([]);
+    setFinished(false);
+    setPage(0);
+  };
+
+  const renderUploadStep = () => (
+    <Stack spacing={3}>
+      <Alert severity="info">
+        {t('flow.readingImport.upload.hint', {
+          required: READING_IMPORT_FIELDS.filter((field) => field.required)
+            .map((field) => t(`flow.readingImport.fields.${field.key}`))
+            .join(', '),
+        })}
+      </Alert>
+      <Box>
+        <Button
+          variant="contained"
+          component="label"
+          startIcon={<UploadFileIcon />}
+          disabled={loadingReferences}
+        >
+          {t('flow.readingImport.upload.choose')}
+          <input hidden type="file" accept=".xlsx,.xls,.csv" onChange={handleFileChange} />
+        </Button>
+        {fileName && (
+          <Typography variant="body2" sx={{ mt: 1 }}>
+            {t('flow.readingImport.upload.loaded', { file: fileName, count: rawRows.length })}
+          </Typography>
+        )}
+      </Box>
+      {Object.keys(workbookSheets).length > 1 && (
+        <TextField
+          select
+          label={t('flow.readingImport.upload.sheet')}
+          value={sheetName}
+          onChange={(e) => selectSheet(e.target.value)}
+          sx={{ maxWidth: 320 }}
+        >
+          {Object.keys(workbookSheets).map((name) => (
+            <MenuItem key={name} value={name}>
+              {name} ({workbookSheets[name].length})
+            </MenuItem>
+          ))}
+        </TextField>
+      )}
+    </Stack>
+  );
+
+  const renderMappingStep = () => (
+    <Stack spacing={3}>
+      <Grid container spacing={2}>
+        {READING_IMPORT_FIELDS.map((field) => (
+          <Grid item xs={12} sm={6} md={4} key={field.key}>
+            <TextField
+              select
+              fullWidth
+              required={field.required}
+              label={t(`flow.readingImport.fields.${field.key}`)}
+              value={mapping[field.key] ?? ''}
+              onChange={(e) => setMapping((prev) => ({ ...prev, [field.key]: e.target.value || undefined }))}
+              error={field.required && !mapping[field.key]}
+            >
+              <MenuItem value="">
+                <em>{t('flow.readingImport.mapping.none')}</em>
+              </MenuItem>
+              {headers.map((header) => (
+                <MenuItem key={header} value={header}>
+                  {header}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+        ))}
+      </Grid>
+      <TextField
+        select
+        label={t('flow.readingImport.mapping.status')}
+        value={statusId}
+        onChange={(e) => setStatusId(Number(e.target.value))}
+        helperText={t('flow.readingImport.mapping.statusHelper')}
+        sx={{ maxWidth: 320 }}
+      >
+        {statuses.map((status) => (
+          <MenuItem key={status.id} value={status.id}>
+            {status.code}
+          </MenuItem>
+        ))}
+      </TextField>
+      {missingRequired.length > 0 && (
+        <Alert severity="warning">{t('flow.readingImport.mapping.missingRequired')}</Alert>
+      )}
+    </Stack>
+  );
+
+  const renderPreviewStep = () => (
+    <Stack spacing={2}>
+      <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap">
+        <Chip color="success" label={t('flow.readingImport.preview.valid', { count: validRows.length })} />
+        <Chip color="warning" label={t('flow.readingImport.preview.warnings', { count: warningRows.length })} />
+        <Chip color="error" label={t('flow.readingImport.preview.invalid', { count: invalidRows.length })} />
+        <Box sx={{ flexGrow: 1 }} />
+        <FormControlLabel
+          control={<Switch checked={errorsOnly} onChange={(e) => { setErrorsOnly(e.target.checked); setPage(0); }} />}
+          label={t('flow.readingImport.preview.issuesOnly')}
+        />
+      </Stack>
+      <TableContainer component={Paper} variant="outlined">
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{t('flow.readingImport.columns.row')}</TableCell>
+              <TableCell>{t('flow.readingImport.columns.pipeline')}</TableCell>
+              <TableCell>{t('flow.readingImport.columns.date')}</TableCell>
+              <TableCell>{t('flow.readingImport.columns.slot')}</TableCell>
+              <TableCell align="right">{t('flow.readingImport.fields.pressure')}</TableCell>
+              <TableCell align="right">{t('flow.readingImport.fields.temperature')}</TableCell>
+              <TableCell align="right">{t('flow.readingImport.fields.flowRate')}</TableCell>
+              <TableCell align="right">{t('flow.readingImport.fields.containedVolume')}</TableCell>
+              <TableCell>{t('flow.readingImport.columns.issues')}</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {displayedRows.slice(page * rowsPerPage, (page + 1) * rowsPerPage).map((row) => (
+              <TableRow
+                key={row.rowNumber}
+                sx={(theme) => ({
+                  bgcolor: row.errors.length > 0
+                    ? alpha(theme.palette.error.main, 0.06)
+                    : row.warnings.length > 0 ? alpha(theme.palette.warning.main, 0.08) : undefined,
+                })}
+              >
+                <TableCell>{row.rowNumber}</TableCell>
+                <TableCell>{row.pipelineCode || '-'}</TableCell>
+                <TableCell>{row.readingDate || '-'}</TableCell>
+                <TableCell>{row.slotCode || '-'}</TableCell>
+                <TableCell align="right">{row.reading?.pressure ?? '-'}</TableCell>
+                <TableCell align="right">{row.reading?.temperature ?? '-'}</TableCell>
+                <TableCell align="right">{row.reading?.flowRate ?? '-'}</TableCell>
+                <TableCell align="right">{row.reading?.containedVolume ?? '-'}</TableCell>
+                <TableCell>
+                  {row.errors.map((message, index) => (
+                    <Typography key={`error-${index}`} variant="caption" color="error" display="block">
+                      {formatMessage(message)}
+                    </Typography>
+                  ))}
+                  {row.warnings.map((message, index) => (
+                    <Typography key={`warning-${index}`} variant="caption" color="warning.main" display="block">
+                      {formatMessage(message)}
+                    </Typography>
+                  ))}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <TablePagination
+          component="div"
+          count={displayedRows.length}
+          page={page}
+          onPageChange={(_, newPage) => setPage(newPage)}
+          rowsPerPage={rowsPerPage}
+          onRowsPerPageChange={(e) => { setRowsPerPage(Number(e.target.value)); setPage(0); }}
+          rowsPerPageOptions={[25, 50, 100]}
+        />
+      </TableContainer>
+    </Stack>
+  );
+
+  const renderImportStep = () => (
+    <Stack spacing={3}>
+      <Box>
+        <Typography variant="body2" gutterBottom>
+          {t('flow.readingImport.import.progress', { done: progress.done, total: progress.total })}
+        </Typography>
+        <LinearProgress
+          variant="determinate"
+          value={progress.total ? (progress.done / progress.total) * 100 : 100}
+        />
+      </Box>
+      {finished && (
+        <Alert severity={failures.length > 0 ? 'warning' : 'success'}>
+          {t('flow.readingImport.import.result', { created: progress.created, failed: failures.length })}
+        </Alert>
+      )}
+      {finished && (
+        <Stack direction="row" spacing={1.5}>
+          {failures.length > 0 && (
+            <Button variant="outlined" startIcon={<DownloadIcon />} onClick={handleDownloadErrorReport}>
+              {t('flow.readingImport.import.downloadReport')}
+            </Button>
+          )}
+          <Button variant="outlined" onClick={handleRestart}>
+            {t('flow.readingImport.import.restart')}
+          </Button>
+          <Button variant="contained" onClick={() => navigate('/flow/monitoring')}>
+            {t('flow.readingImport.import.done')}
+          </Button>
+        </Stack>
+      )}
+    </Stack>
+  );
+
+  const canGoNext =
+    (activeStep === 0 && rawRows.length > 0) ||
+    (activeStep === 1 && missingRequired.length === 0 && !!statusId);
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* HEADER SECTION - Containerized */}
+      <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+        <Box sx={{ p: 2.5 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Box>
+              <Typography variant="h4" fontWeight={700} color="text.primary" sx={{ mb: 0.5 }}>
+                {t('flow.readingImport.title')}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {t('flow.readingImport.subtitle')}
+              </Typography>
+            </Box>
+            <Tooltip title={t('common.cancel')}>
+              <span>
+                <IconButton onClick={() => navigate('/flow/monitoring')} disabled={importing} color="default">
+                  <CloseIcon />
+                </IconButton>
+              </span>
+            </Tooltip>
+          </Box>
+        </Box>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {!user?.employee?.id && (
+        <Alert severity="warning" sx={{ mb: 3 }}>
+          {t('flow.readingImport.errors.noEmployee')}
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent>
+          <Stepper activeStep={activeStep} sx={{ mb: 4 }}>
+            {steps.map((label) => (
+              <Step key={label}>
+                <StepLabel>{label}</StepLabel>
+              </Step>
+            ))}
+          </Stepper>
+
+          {loadingReferences ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+              <CircularProgress />
+            </Box>
+          ) : (
+            <>
+              {activeStep === 0 && renderUploadStep()}
+              {activeStep === 1 && renderMappingStep()}
+              {activeStep === 2 && renderPreviewStep()}
+              {activeStep === 3 && renderImportStep()}
+            </>
+          )}
+
+          {activeStep < 3 && (
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 4 }}>
+              <Button
+                startIcon={<ArrowBackIcon />}
+                onClick={() => setActiveStep((prev) => prev - 1)}
+                disabled={activeStep === 0}
+              >
+                {t('flow.readingImport.actions.back')}
+              </Button>
+              {activeStep < 2 ? (
+                <Button
+                  variant="contained"
+                  endIcon={<ArrowForwardIcon />}
+                  onClick={() => { setActiveStep((prev) => prev + 1); setPage(0); }}
+                  disabled={!canGoNext || !user?.employee?.id}
+                >
+                  {t('flow.readingImport.actions.next')}
+                </Button>
+              ) : (
+                <Button
+                  variant="contained"
+                  startIcon={<ImportIcon />}
+                  onClick={handleImport}
+                  disabled={validRows.length === 0}
+                >
+                  {t('flow.readingImport.actions.import', { count: validRows.length })}
+                </Button>
+              )}
+            </Box>
+          )}
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
@@ -0,0 +1,432 @@
+/**
+ * ReadingSlotEdit Page - Reading Slot Create/Edit
+ *
+ * Form for creating and editing reading slots with:
+ * - Backend constraints (validateReadingSlotDTO)
+ * - Overlap check against the other slots of the day (blocking)
+ * - 24h coverage check of the resulting schedule (warning only, the day
+ *   is usually completed over several edits)
+ * - Live timeline preview of the day with the edited slot highlighted
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useForm, Controller } from 'react-hook-form';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Grid,
+  CircularProgress,
+  Alert,
+  Divider,
+  Paper,
+  Stack,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import {
+  Save as SaveIcon,
+  Close as CloseIcon,
+  Schedule as ScheduleIcon,
+} from '@mui/icons-material';
+
+import { ReadingSlotService } from '@/modules/flow/common/services/ReadingSlotService';
+import {
+  validateReadingSlotDTO,
+  ReadingSlotConstraints,
+} from '@/modules/flow/common/dto/ReadingSlotDTO';
+import {
+  findCoverageGaps,
+  findSlotOverlaps,
+  minutesToTime,
+} from '@/modules/flow/common/utils/readingSlotUtils';
+import { ReadingSlotTimeline } from './components/ReadingSlotTimeline';
+
+import type { ReadingSlotDTO } from '@/modules/flow/common/dto/ReadingSlotDTO';
+
+interface ReadingSlotFormData {
+  code: string;
+  startTime: string;
+  endTime: string;
+  designationFr: string;
+  designationEn: string;
+  designationAr: string;
+  displayOrder: number | '';
+}
+
+/**
+ * Backend LocalTime (HH:mm:ss) to time input value
+ */
+const toInputTime = (value?: string): string => (value ? value.slice(0, 5) : '');
+
+/**
+ * Time input value to backend LocalTime
+ */
+const toBackendTime = (value: string): string => (value && value.length === 5 ? `${value}:00` : value);
+
+export const ReadingSlotEdit: React.FC = () => {
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+  const { id } = useParams<{ id: string }>();
+  const isEditMode = Boolean(id);
+
+  const { control, handleSubmit, watch, reset } = useForm<ReadingSlotFormData>({
+    defaultValues: {
+      code: '',
+      startTime: '',
+      endTime: '',
+      designationFr: '',
+      designationEn: '',
+      designationAr: '',
+      displayOrder: '',
+    },
+  });
+
+  const [loading, setLoading] = useState(false);
+  const [loadingData, setLoadingData] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [otherSlots, setOtherSlots] = useState<ReadingSlotDTO[]>([]);
+
+  const toDTO = (data: ReadingSlotFormData): ReadingSlotDTO => ({
+    id: isEditMode && id ? Number(id) : undefined,
+    code: data.code?.trim(),
+    startTime: toBackendTime(data.startTime),
+    endTime: toBackendTime(data.endTime),
+    designationFr: data.designationFr?.trim(),
+    designationEn: data.designationEn?.trim() || undefined,
+    designationAr: data.designationAr?.trim() || undefined,
+    displayOrder: data.displayOrder === '' ? undefined : Number(data.displayOrder),
+  });
+
+  const formValues = watch();
+  const draft = useMemo(() => toDTO(formValues), [JSON.stringify(formValues)]);
+
+  const overlaps = useMemo(
+    () => findSlotOverlaps([...otherSlots, draft]).filter((o) => o.first === draft || o.second === draft),
+    [otherSlots, draft]
+  );
+
+  const gaps = useMemo(() => findCoverageGaps([...otherSlots, draft]), [otherSlots, draft]);
+
+  const validationErrors = useMemo(() => {
+    const errors = validateReadingSlotDTO(draft);
+
+    const duplicate = otherSlots.find((slot) => slot.code.toLowerCase() === draft.code?.toLowerCase());
+    if (duplicate) {
+      errors.push(t('flow.readingSlot.validation.duplicateCode', { code: duplicate.code }));
+    }
+
+    overlaps.forEach((overlap) => {
+      const other = overlap.first === draft ? overlap.second : overlap.first;
+      errors.push(t('flow.readingSlot.validation.overlapWith', {
+        code: other.code,
+        start: minutesToTime(overlap.range.start),
+        end: minutesToTime(overlap.range.end),
+      }));
+    });
+
+    return errors;
+  }, [draft, otherSlots, overlaps, t]);
+
+  useEffect(() => {
+    loadInitialData();
+  }, [id]);
+
+  const loadInitialData = async () => {
+    try {
+      setLoadingData(true);
+
+      const slots = await ReadingSlotService.getAll();
+      const others = slots.filter((slot) => !isEditMode || slot.id !== Number(id));
+      setOtherSlots(others);
+
+      if (isEditMode && id) {
+        const slot = await ReadingSlotService.getById(Number(id));
+        reset({
+          code: slot.code,
+          startTime: toInputTime(slot.startTime),
+          endTime: toInputTime(slot.endTime),
+          designationFr: slot.designationFr || '',
+          designationEn: slot.designationEn || '',
+          designationAr: slot.designationAr || '',
+          displayOrder: slot.displayOrder ?? '',
+        });
+      } else {
+        // New slots go last and start where the latest slot ends
+        const maxOrder = Math.max(0, ...others.map((slot) => slot.displayOrder || 0));
+        const latestEnd = others.map((slot) => slot.endTime).sort().pop();
+        reset({
+          code: '',
+          startTime: toInputTime(latestEnd),
+          endTime: '',
+          designationFr: '',
+          designationEn: '',
+          designationAr: '',
+          displayOrder: maxOrder + 1,
+        });
+      }
+    } catch (err: any) {
+      console.error('Error loading reading slot data:', err);
+      setError(err.message || t('flow.readingSlot.alerts.loadError'));
+    } finally {
+      setLoadingData(false);
+    }
+  };
+
+  const onSubmit = async (data: ReadingSlotFormData) => {
+    const dto = toDTO(data);
+    if (validationErrors.length > 0) {
+      setError(t('flow.readingSlot.alerts.fixErrors'));
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (isEditMode && id) {
+        await ReadingSlotService.update(Number(id), dto);
+      } else {
+        await ReadingSlotService.create(dto);
+      }
+
+      navigate('/flow/reading-slots');
+    } catch (err: any) {
+      console.error('Error saving reading slot:', err);
+      if (err.response?.status === 400) {
+        setError(err.response.data?.message || t('flow.readingSlot.alerts.saveError'));
+      } else {
+        setError(err.message || t('flow.readingSlot.alerts.saveError'));
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loadingData) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '400px' }}>
+        <CircularProgress size={60} />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* HEADER SECTION - Containerized */}
+      <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+        <Box sx={{ p: 2.5 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <ScheduleIcon color="primary" sx={{ fontSize: 32 }} />
+              <Box>
+                <Typography variant="h4" fontWeight={700} color="text.primary">
+                  {isEditMode ? `${t('flow.readingSlot.edit')} ${formValues.code}` : t('flow.readingSlot.create')}
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5 }}>
+                  {t('flow.readingSlot.editSubtitle')}
+                </Typography>
+              </Box>
+            </Box>
+            <Stack direction="row" spacing={1.5}>
+              <Tooltip title={t('flow.readingSlot.actions.cancel')}>
+                <IconButton onClick={() => navigate('/flow/reading-slots')} disabled={loading} size="medium" color="default">
+                  <CloseIcon />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title={t('flow.readingSlot.actions.save')}>
+                <span>
+                  <IconButton
+                    onClick={handleSubmit(onSubmit)}
+                    disabled={loading || validationErrors.length > 0}
+                    size="medium"
+                    color="primary"
+                  >
+                    {loading ? <CircularProgress size={24} /> : <SaveIcon />}
+                  </IconButton>
+                </span>
+              </Tooltip>
+            </Stack>
+          </Box>
+        </Box>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {validationErrors.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 3 }}>
+          <ul style={{ margin: 0, paddingLeft: 20 }}>
+            {validationErrors.map((err, idx) => (
+              <li key={idx}>{err}</li>
+            ))}
+          </ul>
+        </Alert>
+      )}
+
+      <Grid container spacing={3}>
+        {/* Slot definition */}
+        <Grid item xs={12}>
+          <Card>
+            <CardContent>
+              <Typography variant="h6" fontWeight={600} gutterBottom>
+                {t('flow.readingSlot.sections.general')}
+              </Typography>
+              <Divider sx={{ mb: 2 }} />
+              <Grid container spacing={2}>
+                <Grid item xs={12} md={4}>
+                  <Controller
+                    name="code"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        fullWidth
+                        label={`${t('flow.readingSlot.fields.code')} *`}
+                        inputProps={{ maxLength: ReadingSlotConstraints.code.maxLength }}
+                        helperText={t('flow.readingSlot.fields.codeHelper')}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid item xs={12} md={3}>
+                  <Controller
+                    name="startTime"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        fullWidth
+                        type="time"
+                        label={`${t('flow.readingSlot.fields.startTime')} *`}
+                        InputLabelProps={{ shrink: true }}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid item xs={12} md={3}>
+                  <Controller
+                    name="endTime"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        fullWidth
+                        type="time"
+                        label={`${t('flow.readingSlot.fields.endTime')} *`}
+                        InputLabelProps={{ shrink: true }}
+                        helperText={t('flow.readingSlot.fields.endTimeHelper')}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid item xs={12} md={2}>
+                  <Controller
+                    name="displayOrder"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        fullWidth
+                        type="number"
+                        label={t('flow.readingSlot.fields.displayOrder')}
+                        inputProps={{ min: 1 }}
+                        onChange={(e) => field.onChange(e.target.value === '' ? '' : Number(e.target.value))}
+                      />
+                    )}
+                  />
+                </Grid>
+              </Grid>
+            </CardContent>
+          </Card>
+        </Grid>
+
+        {/* Designations */}
+        <Grid item xs={12}>
+          <Card>
+            <CardContent>
+              <Typography variant="h6" fontWeight={600} gutterBottom>
+                {t('flow.readingSlot.sections.designations')}
+              </Typography>
+              <Divider sx={{ mb: 2 }} />
+              <Grid container spacing={2}>
+                <Grid item xs={12} md={4}>
+                  <Controller
+                    name="designationFr"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        fullWidth
+                        label={`${t('common.fields.designationFr')} *`}
+                        inputProps={{ maxLength: ReadingSlotConstraints.designationFr.maxLength }}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid item xs={12} md={4}>
+                  <Controller
+                    name="designationEn"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        fullWidth
+                        label={t('common.fields.designationEn')}
+                        inputProps={{ maxLength: ReadingSlotConstraints.designationEn.maxLength }}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid item xs={12} md={4}>
+                  <Controller
+                    name="designationAr"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        fullWidth
+                        label={t('common.fields.designationAr')}
+                        inputProps={{ maxLength: ReadingSlotConstraints.designationAr.maxLength, dir: 'rtl' }}
+                      />
+                    )}
+                  />
+                </Grid>
+              </Grid>
+            </CardContent>
+          </Card>
+        </Grid>
+
+        {/* Day preview */}
+        <Grid item xs={12}>
+          <Card>
+            <CardContent>
+              <Typography variant="h6" fontWeight={600} gutterBottom>
+                {t('flow.readingSlot.timeline.preview')}
+              </Typography>
+              <Divider sx={{ mb: 2 }} />
+              <ReadingSlotTimeline slots={otherSlots} highlightedSlot={draft} />
+              {gaps.length > 0 && (
+                <Alert severity="info" sx={{ mt: 2 }}>
+                  {t('flow.readingSlot.validation.gaps', {
+                    periods: gaps.map((gap) => `${minutesToTime(gap.start)}-${minutesToTime(gap.end)}`).join(', '),
+                  })}
+                </Alert>
+              )}
+            </CardContent>
+          </Card>
+        </Grid>
+      </Grid>
+    </Box>
+  );
+};
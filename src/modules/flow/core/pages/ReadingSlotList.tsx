@@ -0,0 +1,316 @@
+/**
+ * ReadingSlotList Page - Reading Slot Administration
+ *
+ * Manages the daily reading slots shared by all pipelines:
+ * - Day timeline preview with coverage gaps and overlaps
+ * - Reordering (displayOrder) with up/down actions
+ * - Create/edit/delete slots
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Card,
+  CardContent,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Typography,
+  Tooltip,
+  Alert,
+  CircularProgress,
+  Paper,
+  Stack,
+  Divider,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Refresh as RefreshIcon,
+  ArrowUpward as ArrowUpIcon,
+  ArrowDownward as ArrowDownIcon,
+} from '@mui/icons-material';
+
+import { ReadingSlotService } from '@/modules/flow/common/services/ReadingSlotService';
+import {
+  formatTimeRange,
+  getLocalizedDesignation,
+} from '@/modules/flow/common/dto/ReadingSlotDTO';
+import {
+  findCoverageGaps,
+  findSlotOverlaps,
+  getSlotRange,
+  minutesToTime,
+  sortSlotsByDisplayOrder,
+} from '@/modules/flow/common/utils/readingSlotUtils';
+import { ConfirmDialog } from '@/shared/components/ConfirmDialog';
+import { ReadingSlotTimeline } from './components/ReadingSlotTimeline';
+
+import type { ReadingSlotDTO } from '@/modules/flow/common/dto/ReadingSlotDTO';
+
+export const ReadingSlotList: React.FC = () => {
+  const navigate = useNavigate();
+  const { t, i18n } = useTranslation();
+  const currentLang = i18n.language as 'ar' | 'en' | 'fr';
+
+  const [slots, setSlots] = useState<ReadingSlotDTO[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reordering, setReordering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [slotToDelete, setSlotToDelete] = useState<ReadingSlotDTO | null>(null);
+
+  useEffect(() => {
+    loadSlots();
+  }, []);
+
+  const loadSlots = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await ReadingSlotService.getAll();
+      setSlots(sortSlotsByDisplayOrder(data));
+    } catch (err: any) {
+      console.error('Error loading reading slots:', err);
+      setError(err.message || t('flow.readingSlot.alerts.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const gaps = useMemo(() => findCoverageGaps(slots), [slots]);
+  const overlaps = useMemo(() => findSlotOverlaps(slots), [slots]);
+
+  /**
+   * Move a slot one position and renumber displayOrder 1..n
+   * Only slots whose order actually changed are saved
+   */
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= slots.length) return;
+
+    const reordered = [...slots];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    const renumbered = reordered.map((slot, i) => ({ ...slot, displayOrder: i + 1 }));
+    const changed = renumbered.filter(
+      (slot) => slot.id && slots.find((s) => s.id === slot.id)?.displayOrder !== slot.displayOrder
+    );
+
+    try {
+      setReordering(true);
+      setError(null);
+      setSlots(renumbered);
+      await Promise.all(changed.map((slot) => ReadingSlotService.update(slot.id as number, slot)));
+    } catch (err: any) {
+      console.error('Error reordering reading slots:', err);
+      setError(err.response?.data?.message || err.message || t('flow.readingSlot.alerts.reorderError'));
+      loadSlots();
+    } finally {
+      setReordering(false);
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!slotToDelete?.id) return;
+
+    try {
+      await ReadingSlotService.delete(slotToDelete.id);
+      setSlotToDelete(null);
+      setSuccess(t('flow.readingSlot.alerts.deleteSuccess'));
+      loadSlots();
+    } catch (err: any) {
+      setSlotToDelete(null);
+      setError(err.response?.data?.message || err.message || t('flow.readingSlot.alerts.deleteError'));
+    }
+  };
+
+  const formatDuration = (slot: ReadingSlotDTO): string => {
+    const { start, end } = getSlotRange(slot);
+    return end > start ? minutesToTime(end - start) : '-';
+  };
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* HEADER SECTION - Containerized */}
+      <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+        <Box sx={{ p: 2.5 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Box>
+              <Typography variant="h4" fontWeight={700} color="text.primary" sx={{ mb: 0.5 }}>
+                {t('flow.readingSlot.title')}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {t('flow.readingSlot.subtitle')}
+              </Typography>
+            </Box>
+            <Stack direction="row" spacing={1.5}>
+              <Tooltip title={t('action.refresh', 'Refresh')}>
+                <IconButton onClick={loadSlots} size="medium" color="primary">
+                  <RefreshIcon />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title={t('flow.readingSlot.new')}>
+                <IconButton onClick={() => navigate('/flow/reading-slots/new')} size="medium" color="primary">
+                  <AddIcon />
+                </IconButton>
+              </Tooltip>
+            </Stack>
+          </Box>
+        </Box>
+      </Paper>
+
+      {/* Success/Error Alerts */}
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 3 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      {/* Day Coverage */}
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <Typography variant="h6" fontWeight={600} gutterBottom>
+            {t('flow.readingSlot.timeline.title')}
+          </Typography>
+          <Divider sx={{ mb: 2 }} />
+
+          <ReadingSlotTimeline slots={slots} />
+
+          {!loading && (
+            <Stack spacing={1} sx={{ mt: 2 }}>
+              {overlaps.map((overlap) => (
+                <Alert key={`${overlap.first.code}-${overlap.second.code}`} severity="error">
+                  {t('flow.readingSlot.validation.overlap', {
+                    first: overlap.first.code,
+                    second: overlap.second.code,
+                    start: minutesToTime(overlap.range.start),
+                    end: minutesToTime(overlap.range.end),
+                  })}
+                </Alert>
+              ))}
+              {gaps.length > 0 ? (
+                <Alert severity="warning">
+                  {t('flow.readingSlot.validation.gaps', {
+                    periods: gaps.map((gap) => `${minutesToTime(gap.start)}-${minutesToTime(gap.end)}`).join(', '),
+                  })}
+                </Alert>
+              ) : overlaps.length === 0 && slots.length > 0 && (
+                <Alert severity="success">{t('flow.readingSlot.validation.fullCoverage')}</Alert>
+              )}
+            </Stack>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Slots Table */}
+      <Card>
+        <TableContainer>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell width={90}>{t('flow.readingSlot.fields.displayOrder')}</TableCell>
+                <TableCell>{t('flow.readingSlot.fields.code')}</TableCell>
+                <TableCell>{t('flow.readingSlot.fields.timeRange')}</TableCell>
+                <TableCell>{t('flow.readingSlot.fields.duration')}</TableCell>
+                <TableCell>{t('flow.readingSlot.fields.designation')}</TableCell>
+                <TableCell align="right">{t('flow.readingSlot.fields.actions')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={6} align="center" sx={{ py: 4 }}>
+                    <CircularProgress />
+                  </TableCell>
+                </TableRow>
+              ) : slots.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} align="center" sx={{ py: 4 }}>
+                    <Typography color="text.secondary">
+                      {t('flow.readingSlot.noSlots')}
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                slots.map((slot, index) => (
+                  <TableRow key={slot.id} hover>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                        <Typography variant="body2" fontWeight={600} sx={{ minWidth: 20 }}>
+                          {slot.displayOrder ?? '-'}
+                        </Typography>
+                        <IconButton
+                          size="small"
+                          onClick={() => handleMove(index, -1)}
+                          disabled={reordering || index === 0}
+                        >
+                          <ArrowUpIcon fontSize="small" />
+                        </IconButton>
+                        <IconButton
+                          size="small"
+                          onClick={() => handleMove(index, 1)}
+                          disabled={reordering || index === slots.length - 1}
+                        >
+                          <ArrowDownIcon fontSize="small" />
+                        </IconButton>
+                      </Box>
+                    </TableCell>
+                    <TableCell>
+                      <Chip label={slot.code} size="small" variant="outlined" sx={{ fontFamily: 'monospace', fontWeight: 600 }} />
+                    </TableCell>
+                    <TableCell>{formatTimeRange(slot)}</TableCell>
+                    <TableCell>{formatDuration(slot)}</TableCell>
+                    <TableCell>{getLocalizedDesignation(slot, currentLang)}</TableCell>
+                    <TableCell align="right">
+                      <Box sx={{ display: 'flex', gap: 0.5, justifyContent: 'flex-end' }}>
+                        <Tooltip title={t('flow.readingSlot.tooltips.edit')}>
+                          <IconButton
+                            size="small"
+                            color="primary"
+                            onClick={() => navigate(`/flow/reading-slots/${slot.id}/edit`)}
+                          >
+                            <EditIcon />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title={t('flow.readingSlot.tooltips.delete')}>
+                          <IconButton size="small" color="error" onClick={() => setSlotToDelete(slot)}>
+                            <DeleteIcon />
+                          </IconButton>
+                        </Tooltip>
+                      </Box>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Card>
+
+      {/* Delete Confirmation Dialog */}
+      <ConfirmDialog
+        open={!!slotToDelete}
+        title={t('flow.readingSlot.delete')}
+        message={t('flow.readingSlot.deleteConfirm', { code: slotToDelete?.code })}
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setSlotToDelete(null)}
+      />
+    </Box>
+  );
+};
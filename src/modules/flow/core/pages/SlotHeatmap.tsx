@@ -0,0 +1,569 @@
+/**
+ * SlotHeatmap Page - Daily Slot Coverage Heatmap
+ *
+ * Coverage of the user's structure at a glance:
+ * - Day mode: pipelines × configured slots, cells coloured by reading status and
+ *   clickable to open (or record) the reading
+ * - Range mode: pipelines × days, cells coloured by the share of slots
+ *   recorded, late recordings counted, chronically late pipelines first
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ * @updated 10-19-2026 - Load the configured reading slots instead of assuming slots 1-12
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import {
+  Alert,
+  Box,
+  Card,
+  Chip,
+  CircularProgress,
+  IconButton,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import {
+  Refresh as RefreshIcon,
+  WarningAmber as LateIcon,
+} from '@mui/icons-material';
+
+import { SlotCoverageService } from '../services/SlotCoverageService';
+import { ReadingSlotService } from '@/modules/flow/common/services';
+import { FlowReadingService } from '../services/FlowReadingService';
+import { useAuth } from '@/shared/context/AuthContext';
+import { getUserStructure } from '../utils/userHelpers';
+import { getEmployeeDisplayName, getStatusLabel } from '../utils/monitoringHelpers';
+import {
+  MAX_RANGE_DAYS,
+  buildDayHeatmap,
+  buildRangeHeatmap,
+  getDatesInRange,
+} from '../utils/slotHeatmapUtils';
+import { formatDate, formatDateTime, getToday } from '@/shared/utils/dateTimeLocal';
+
+import type {
+  DailyCoverageSummaryDTO,
+  PipelineCoverageItemDTO,
+  ReadingStatus,
+  SlotCoverageDTO,
+} from '../dto/SlotCoverageDTO';
+import type { FlowReadingDTO } from '../dto/FlowReadingDTO';
+import type { ReadingSlotDTO } from '@/modules/flow/common/dto/ReadingSlotDTO';
+
+type HeatmapMode = 'day' | 'range';
+
+const STATUS_ORDER: ReadingStatus[] = ['NOT_RECORDED', 'DRAFT', 'SUBMITTED', 'APPROVED', 'REJECTED'];
+
+const STATUS_PALETTE: Record<ReadingStatus, 'grey' | 'info' | 'warning' | 'success' | 'error'> = {
+  NOT_RECORDED: 'grey',
+  DRAFT: 'info',
+  SUBMITTED: 'warning',
+  APPROVED: 'success',
+  REJECTED: 'error',
+};
+
+const shiftDate = (isoDate: string, days: number): string => {
+  const date = new Date(`${isoDate}T00:00:00`);
+  date.setDate(date.getDate() + days);
+  return formatDate(date, 'yyyy-MM-dd');
+};
+
+export const SlotHeatmap: React.FC = () => {
+  const navigate = useNavigate();
+  const theme = useTheme();
+  const { t, i18n } = useTranslation();
+  const { user } = useAuth();
+  const currentLang = i18n.language as 'ar' | 'en' | 'fr';
+
+  const today = getToday();
+  // Range mode stops at yesterday: today's later slots are not due yet
+  const yesterday = shiftDate(today, -1);
+
+  const structureId = useMemo(() => getUserStructure(user).structureId, [user]);
+  const userRoles = user?.roles || [];
+  const isOperator = userRoles.includes('MONITORING_ADMIN') || userRoles.includes('MONITORING_OPERATOR');
+  const isValidator = userRoles.includes('MONITORING_ADMIN') || userRoles.includes('MONITORING_VALIDATOR');
+
+  const [mode, setMode] = useState<HeatmapMode>('day');
+  const [date, setDate] = useState(today);
+  const [startDate, setStartDate] = useState(shiftDate(yesterday, -6));
+  const [endDate, setEndDate] = useState(yesterday);
+
+  const [slots, setSlots] = useState<ReadingSlotDTO[]>([]);
+  const [coverages, setCoverages] = useState<Record<number, SlotCoverageDTO>>({});
+  const [dailySummary, setDailySummary] = useState<DailyCoverageSummaryDTO | null>(null);
+  const [rangePipelines, setRangePipelines] = useState<PipelineCoverageItemDTO[]>([]);
+  const [rangeReadings, setRangeReadings] = useState<Record<number, FlowReadingDTO[]>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const rangeDates = useMemo(() => getDatesInRange(startDate, endDate), [startDate, endDate]);
+  const rangeInvalid = rangeDates.length === 0 || rangeDates.length > MAX_RANGE_DAYS;
+
+  const slotIds = useMemo(() => slots.map((slot) => slot.id as number), [slots]);
+
+  useEffect(() => {
+    loadSlots();
+  }, []);
+
+  useEffect(() => {
+    if (!structureId || slotIds.length === 0) return;
+    if (mode === 'day') {
+      loadDay();
+    } else if (!rangeInvalid) {
+      loadRange();
+    }
+  }, [mode, date, startDate, endDate, structureId, slotIds]);
+
+  const loadSlots = async () => {
+    try {
+      setSlots((await ReadingSlotService.getAllOrdered()).filter((slot) => slot.id));
+    } catch (err: any) {
+      console.error('Error loading reading slots:', err);
+      setError(err.message || t('flow.slotHeatmap.errors.loadFailed'));
+    }
+  };
+
+  const loadDay = async () => {
+    if (!structureId) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const [summary, ...slotResults] = await Promise.allSettled([
+        SlotCoverageService.getDailyCoverageSummary(date, structureId),
+        ...slotIds.map((slotId) => SlotCoverageService.getSlotCoverage(date, slotId, structureId)),
+      ]);
+
+      const loaded: Record<number, SlotCoverageDTO> = {};
+      slotResults.forEach((result, index) => {
+        if (result.status === 'fulfilled') loaded[slotIds[index]] = result.value as SlotCoverageDTO;
+      });
+      setCoverages(loaded);
+      setDailySummary(summary.status === 'fulfilled' ? (summary.value as DailyCoverageSummaryDTO) : null);
+
+      const failed = slotResults.filter((result) => result.status === 'rejected').length;
+      if (failed > 0) {
+        setError(t('flow.slotHeatmap.errors.partialSlots', { count: failed }));
+      }
+    } catch (err: any) {
+      console.error('Error loading slot heatmap:', err);
+      setError(err.message || t('flow.slotHeatmap.errors.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadRange = async () => {
+    if (!structureId) return;
+    try {
+      setLoading(true);
+      setError(null);
+      // Pipelines of the structure, from the first configured slot of the last day
+      const coverage = await SlotCoverageService.getSlotCoverage(endDate, slotIds[0], structureId);
+      const pipelines = coverage.pipelineCoverage;
+
+      const results = await Promise.allSettled(
+        pipelines.map((item) => FlowReadingService.getByPipelineAndDateRange(item.pipelineId, startDate, endDate))
+      );
+
+      const readings: Record<number, FlowReadingDTO[]> = {};
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') readings[pipelines[index].pipelineId] = result.value;
+      });
+      setRangePipelines(pipelines.filter((item) => readings[item.pipelineId]));
+      setRangeReadings(readings);
+
+      const failed = results.filter((result) => result.status === 'rejected').length;
+      if (failed > 0) {
+        setError(t('flow.slotHeatmap.errors.partialPipelines', { count: failed }));
+      }
+    } catch (err: any) {
+      console.error('Error loading range heatmap:', err);
+      setError(err.message || t('flow.slotHeatmap.errors.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const dayRows = useMemo(() => buildDayHeatmap(coverages), [coverages]);
+
+  const rangeRows = useMemo(
+    () => buildRangeHeatmap(rangePipelines, rangeReadings, rangeDates, slots.length),
+    [rangePipelines, rangeReadings, rangeDates, slots.length]
+  );
+
+  const chronicCount = rangeRows.filter((row) => row.chronicallyLate).length;
+
+  const getSlotHeader = (slotId: number) => {
+    const slot = slots.find((s) => s.id === slotId) || coverages[slotId]?.slot;
+    const completion = dailySummary?.slots.find((s) => (s.slot?.id ?? s.slotNumber) === slotId)?.completionPercentage;
+    return {
+      code: slot?.code || t('flow.slotHeatmap.slot', { number: slotId }),
+      time: slot ? `${slot.startTime.substring(0, 5)}-${slot.endTime.substring(0, 5)}` : '',
+      completion,
+    };
+  };
+
+  const getStatusBackground = (status: ReadingStatus): string => {
+    const key = STATUS_PALETTE[status];
+    return key === 'grey' ? theme.palette.grey[300] : theme.palette[key].light;
+  };
+
+  /**
+   * Cell click: record a missing reading, validate a submitted one, open the others
+   */
+  const canOpenCell = (item: PipelineCoverageItemDTO): boolean =>
+    item.status === 'NOT_RECORDED' ? isOperator : !!item.readingId;
+
+  const handleCellClick = (item: PipelineCoverageItemDTO, slotId: number) => {
+    const state = {
+      pipelineId: item.pipeline?.id ?? item.pipelineId,
+      pipelineCode: item.pipeline?.code,
+      pipelineName: item.pipeline?.name,
+      readingDate: date,
+      slotId,
+      structureId,
+      returnTo: '/flow/slot-heatmap',
+    };
+
+    if (item.status === 'NOT_RECORDED') {
+      if (isOperator) navigate('/flow/readings/new', { state });
+    } else if (item.readingId) {
+      if (item.status === 'SUBMITTED' && isValidator) {
+        navigate(`/flow/readings/${item.readingId}/validate`, { state: { ...state, isValidation: true } });
+      } else {
+        navigate(`/flow/readings/${item.readingId}/edit`, { state });
+      }
+    }
+  };
+
+  const handleDayClick = (day: string) => {
+    setDate(day);
+    setMode('day');
+  };
+
+  const renderDayHeatmap = () => (
+    <TableContainer>
+      <Table size="small" stickyHeader>
+        <TableHead>
+          <TableRow>
+            <TableCell sx={{ minWidth: 160 }}>{t('flow.slotHeatmap.columns.pipeline')}</TableCell>
+            {slotIds.map((slotId) => {
+              const header = getSlotHeader(slotId);
+              return (
+                <TableCell key={slotId} align="center" sx={{ px: 0.5, minWidth: 64 }}>
+                  <Typography variant="caption" fontWeight={600} display="block">
+                    {header.code}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary" display="block">
+                    {header.time}
+                  </Typography>
+                  {header.completion !== undefined && (
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      {Math.round(header.completion)}%
+                    </Typography>
+                  )}
+                </TableCell>
+              );
+            })}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {dayRows.map((row) => (
+            <TableRow key={row.pipelineId}>
+              <TableCell>
+                <Typography variant="body2" fontWeight={600}>
+                  {row.pipeline?.code || row.pipelineId}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {row.pipeline?.name}
+                </Typography>
+              </TableCell>
+              {slotIds.map((slotId) => {
+                const item = row.cells[slotId];
+                if (!item) {
+                  return <TableCell key={slotId} sx={{ p: 0.5 }} />;
+                }
+                const clickable = canOpenCell(item);
+                return (
+                  <TableCell key={slotId} sx={{ p: 0.5 }}>
+                    <Tooltip
+                      title={
+                        <>
+                          {getStatusLabel(item, currentLang)}
+                          {item.recordedBy && <div>{getEmployeeDisplayName(item.recordedBy)}</div>}
+                          {item.recordedAt && <div>{formatDateTime(item.recordedAt)}</div>}
+                        </>
+                      }
+                    >
+                      <Box
+                        role={clickable ? 'button' : undefined}
+                        onClick={clickable ? () => handleCellClick(item, slotId) : undefined}
+                        sx={{
+                          height: 28,
+                          borderRadius: 0.5,
+                          bgcolor: getStatusBackground(item.status),
+                          cursor: clickable ? 'pointer' : 'default',
+                          '&:hover': clickable ? { outline: 2, outlineColor: 'primary.main' } : undefined,
+                        }}
+                      />
+                    </Tooltip>
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+
+  const renderRangeHeatmap = () => (
+    <TableContainer>
+      <Table size="small" stickyHeader>
+        <TableHead>
+          <TableRow>
+            <TableCell sx={{ minWidth: 160 }}>{t('flow.slotHeatmap.columns.pipeline')}</TableCell>
+            {rangeDates.map((day) => (
+              <TableCell key={day} align="center" sx={{ px: 0.5, minWidth: 48 }}>
+                <Typography variant="caption" fontWeight={600}>
+                  {formatDate(day).substring(0, 5)}
+                </Typography>
+              </TableCell>
+            ))}
+            <TableCell align="right">{t('flow.slotHeatmap.columns.completion')}</TableCell>
+            <TableCell align="right">{t('flow.slotHeatmap.columns.lateOrMissing')}</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rangeRows.map((row) => (
+            <TableRow
+              key={row.pipelineId}
+              sx={row.chronicallyLate ? { bgcolor: alpha(theme.palette.error.main, 0.05) } : undefined}
+            >
+              <TableCell>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                  <Typography variant="body2" fontWeight={600}>
+                    {row.pipeline?.code || row.pipelineId}
+                  </Typography>
+                  {row.chronicallyLate && (
+                    <Tooltip title={t('flow.slotHeatmap.chronicallyLate')}>
+                      <LateIcon color="error" fontSize="small" />
+                    </Tooltip>
+                  )}
+                </Box>
+                <Typography variant="caption" color="text.secondary">
+                  {row.pipeline?.name}
+                </Typography>
+              </TableCell>
+              {rangeDates.map((day) => {
+                const completion = row.days[day];
+                const ratio = slots.length > 0 ? completion.recorded / slots.length : 0;
+                return (
+                  <TableCell key={day} sx={{ p: 0.5 }}>
+                    <Tooltip
+                      title={t('flow.slotHeatmap.dayTooltip', {
+                        date: formatDate(day),
+                        recorded: completion.recorded,
+                        total: slots.length,
+                        validated: completion.validated,
+                        late: completion.late,
+                      })}
+                    >
+                      <Box
+                        role="button"
+                        onClick={() => handleDayClick(day)}
+                        sx={{
+                          height: 28,
+                          borderRadius: 0.5,
+                          display: 'flex',
+                          alignItems: 'center',
+                          justifyContent: 'center',
+                          cursor: 'pointer',
+                          bgcolor: ratio === 0
+                            ? theme.palette.grey[300]
+                            : alpha(theme.palette.success.main, 0.2 + 0.8 * ratio),
+                          border: completion.late > 0 ? 2 : 0,
+                          borderColor: 'error.main',
+                          '&:hover': { outline: 2, outlineColor: 'primary.main' },
+                        }}
+                      >
+                        <Typography variant="caption" fontWeight={600}>
+                          {completion.recorded}
+                        </Typography>
+                      </Box>
+                    </Tooltip>
+                  </TableCell>
+                );
+              })}
+              <TableCell align="right">{row.completionRate.toFixed(0)}%</TableCell>
+              <TableCell align="right">
+                <Chip
+                  size="small"
+                  color={row.chronicallyLate ? 'error' : 'default'}
+                  label={`${(row.lateRatio * 100).toFixed(0)}%`}
+                />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+
+  const renderLegend = () => (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap', mb: 2 }}>
+      {mode === 'day' ? (
+        STATUS_ORDER.map((status) => (
+          <Box key={status} sx={{ display: 'flex', alignItems: 'center', gap: 0.75 }}>
+            <Box sx={{ width: 14, height: 14, borderRadius: 0.5, bgcolor: getStatusBackground(status) }} />
+            <Typography variant="caption">{getStatusLabel({ pipelineId: 0, status }, currentLang)}</Typography>
+          </Box>
+        ))
+      ) : (
+        <>
+          <Typography variant="caption" color="text.secondary">
+            {t('flow.slotHeatmap.legend.recorded', { total: slots.length })}
+          </Typography>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75 }}>
+            <Box sx={{ width: 14, height: 14, borderRadius: 0.5, border: 2, borderColor: 'error.main' }} />
+            <Typography variant="caption">{t('flow.slotHeatmap.legend.late')}</Typography>
+          </Box>
+          {chronicCount > 0 && (
+            <Chip
+              size="small"
+              color="error"
+              icon={<LateIcon />}
+              label={t('flow.slotHeatmap.chronicCount', { count: chronicCount })}
+            />
+          )}
+        </>
+      )}
+    </Box>
+  );
+
+  const rows = mode === 'day' ? dayRows.length : rangeRows.length;
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* HEADER SECTION - Containerized */}
+      <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+        <Box sx={{ p: 2.5 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+            <Box>
+              <Typography variant="h4" fontWeight={700} color="text.primary" sx={{ mb: 0.5 }}>
+                {t('flow.slotHeatmap.title')}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {mode === 'day' ? t('flow.slotHeatmap.subtitleDay') : t('flow.slotHeatmap.subtitleRange')}
+              </Typography>
+            </Box>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, flexWrap: 'wrap' }}>
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={mode}
+                onChange={(_, value) => value && setMode(value)}
+              >
+                <ToggleButton value="day">{t('flow.slotHeatmap.modes.day')}</ToggleButton>
+                <ToggleButton value="range">{t('flow.slotHeatmap.modes.range')}</ToggleButton>
+              </ToggleButtonGroup>
+              {mode === 'day' ? (
+                <TextField
+                  type="date"
+                  size="small"
+                  label={t('flow.slotHeatmap.date')}
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  InputLabelProps={{ shrink: true }}
+                  inputProps={{ max: today }}
+                />
+              ) : (
+                <>
+                  <TextField
+                    type="date"
+                    size="small"
+                    label={t('flow.slotHeatmap.startDate')}
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                    InputLabelProps={{ shrink: true }}
+                    inputProps={{ max: endDate }}
+                  />
+                  <TextField
+                    type="date"
+                    size="small"
+                    label={t('flow.slotHeatmap.endDate')}
+                    value={endDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                    InputLabelProps={{ shrink: true }}
+                    inputProps={{ min: startDate, max: yesterday }}
+                  />
+                </>
+              )}
+              <Tooltip title={t('action.refresh', 'Refresh')}>
+                <span>
+                  <IconButton
+                    onClick={mode === 'day' ? loadDay : loadRange}
+                    size="medium"
+                    color="primary"
+                    disabled={loading || (mode === 'range' && rangeInvalid)}
+                  >
+                    <RefreshIcon />
+                  </IconButton>
+                </span>
+              </Tooltip>
+            </Box>
+          </Box>
+        </Box>
+      </Paper>
+
+      {!structureId && (
+        <Alert severity="warning" sx={{ mb: 3 }}>
+          {t('flow.slotHeatmap.errors.noStructure')}
+        </Alert>
+      )}
+      {mode === 'range' && rangeInvalid && (
+        <Alert severity="warning" sx={{ mb: 3 }}>
+          {t('flow.slotHeatmap.errors.invalidRange', { max: MAX_RANGE_DAYS })}
+        </Alert>
+      )}
+      {error && (
+        <Alert severity="warning" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Card sx={{ p: 2 }}>
+        {renderLegend()}
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+            <CircularProgress />
+          </Box>
+        ) : rows === 0 ? (
+          <Typography color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+            {t('flow.slotHeatmap.empty')}
+          </Typography>
+        ) : mode === 'day' ? (
+          renderDayHeatmap()
+        ) : (
+          renderRangeHeatmap()
+        )}
+      </Card>
+    </Box>
+  );
+};
@@ -10,6 +10,10 @@
  * 
  * @author CHOUABBIA Amine
  * @created 2026-02-04
+ * @updated 2026-10-19 - Keep bulk grid edits on focus refresh and reload the grid in place
+ * @updated 2026-10-19 - Slot deadline countdown, reminders and supervisor escalation list
+ * @updated 2026-10-19 - Grid mode for bulk reading entry of the slot
+ * @updated 2026-10-19 - Offline reading queue: pending sync panel and row badges
  * @updated 2026-02-14 00:35 - Fixed: Use readingId instead of reading.id for validation navigation
  * @updated 2026-02-13 23:46 - Fixed: Force refresh after recording to update pipeline status
  * @updated 2026-02-13 - Fixed: TypeScript errors (null safety, draft→drafts, optional chaining)
@@ -34,7 +38,7 @@
  * @module flow/core/pages
  */
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   Box,
@@ -63,6 +67,8 @@ import {
   DialogContent,
   DialogActions,
   Snackbar,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
 import {
   Edit as EditIcon,
@@ -73,6 +79,9 @@ import {
   Download as DownloadIcon,
   Warning as WarningIcon,
   Lock as LockIcon,
+  CloudUpload as PendingSyncIcon,
+  ViewList as ListViewIcon,
+  GridOn as GridViewIcon,
 } from '@mui/icons-material';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '@/shared/context/AuthContext';
@@ -80,6 +89,13 @@ import { useAuth } from '@/shared/context/AuthContext';
 // ✅ FIXED: Use SlotCoverageService (not removed FlowMonitoringService)
 import { SlotCoverageService } from '../services';
 import { ReadingWorkflowService } from '@/modules/flow/workflow/services';
+import { useOfflineReadingQueue, useSlotDeadline } from '../hooks';
+import { OfflineQueuePanel } from './components/OfflineQueuePanel';
+import { BulkReadingGrid } from './components/BulkReadingGrid';
+import { SlotDeadlineCountdown } from './components/SlotDeadlineCountdown';
+import { DeadlineEscalationPanel } from './components/DeadlineEscalationPanel';
+import { loadReminderOffsets, saveReminderOffsets } from '../utils/slotDeadlineUtils';
+import type { OfflineSyncResult } from '../services/OfflineReadingQueueService';
 
 // ✅ FIXED: Import correct DTOs from SlotCoverageDTO
 import type {
@@ -154,6 +170,15 @@ const SlotMonitoring: React.FC = () => {
   );
   const [selectedSlotId, setSelectedSlotId] = useState<number>(1);
 
+  // List (one reading at a time) or grid (bulk entry) view
+  const [viewMode, setViewMode] = useState<'list' | 'grid'>('list');
+
+  // Unsaved edits in the bulk grid (the focus refresh must not discard them)
+  const gridDirtyRef = useRef(false);
+
+  // Minutes before the slot deadline at which operators are reminded
+  const [reminderOffsets, setReminderOffsets] = useState<number[]>(loadReminderOffsets);
+
   // Rejection dialog state
   const [rejectDialog, setRejectDialog] = useState<RejectDialogState>({
     open: false,
@@ -348,8 +373,9 @@ const SlotMonitoring: React.FC = () => {
   /**
    * Load slot coverage from backend using SlotCoverageService
    * ✅ FIXED: Clear coverage state before reload to force refresh
+   * @param silent - Reload in place, keeping the displayed coverage (bulk grid)
    */
-  const loadSlotCoverage = useCallback(async (forceRefresh: boolean = false) => {
+  const loadSlotCoverage = useCallback(async (forceRefresh: boolean = false, silent: boolean = false) => {
     if (!userStructureInfo.structureId) {
       setError(
         userStructureInfo.source === 'none'
@@ -359,11 +385,11 @@ const SlotMonitoring: React.FC = () => {
       return;
     }
 
-    setLoading(true);
+    if (!silent) setLoading(true);
     setError(null);
     
     // ✅ Clear coverage to show loading state
-    if (forceRefresh) {
+    if (forceRefresh && !silent) {
       console.log('🔄 Force refresh - clearing coverage state');
       setCoverage(null);
     }
@@ -409,7 +435,7 @@ const SlotMonitoring: React.FC = () => {
   useEffect(() => {
     const handleFocus = () => {
       console.log('🔄 Window focused - reloading slot coverage');
-      if (userStructureInfo.structureId) {
+      if (userStructureInfo.structureId && !gridDirtyRef.current) {
         loadSlotCoverage(true);
       }
     };
@@ -418,6 +444,69 @@ const SlotMonitoring: React.FC = () => {
     return () => window.removeEventListener('focus', handleFocus);
   }, [userStructureInfo.structureId, loadSlotCoverage]);
 
+  // ==================== OFFLINE QUEUE ====================
+
+  /**
+   * Refresh coverage and report once queued readings have been replayed
+   */
+  const handleOfflineSynced = (result: OfflineSyncResult) => {
+    if (result.synced === 0 && result.conflicts === 0 && result.failed === 0) return;
+
+    if (result.synced > 0) {
+      loadSlotCoverage(true);
+    }
+    showNotification(
+      t('flow.offline.alerts.syncResult', {
+        synced: result.synced,
+        conflicts: result.conflicts,
+        failed: result.failed,
+      }),
+      result.conflicts > 0 || result.failed > 0 ? 'warning' : 'success'
+    );
+  };
+
+  const offlineQueue = useOfflineReadingQueue({ onSynced: handleOfflineSynced });
+
+  /**
+   * Pipelines with a reading queued on this device for the selected date/slot
+   */
+  const queuedPipelineIds = useMemo(
+    () =>
+      new Set(
+        offlineQueue.entries
+          .filter(
+            (entry) =>
+              entry.reading.readingDate?.substring(0, 10) === selectedDate &&
+              entry.reading.readingSlotId === selectedSlotId
+          )
+          .map((entry) => entry.reading.pipelineId)
+      ),
+    [offlineQueue.entries, selectedDate, selectedSlotId]
+  );
+
+  // ==================== SLOT DEADLINE ====================
+
+  // Reminders are for operators, who record the readings
+  const activeReminderOffsets = useMemo(() => (isOperator ? reminderOffsets : []), [isOperator, reminderOffsets]);
+
+  const slotDeadline = useSlotDeadline(coverage, {
+    offsets: activeReminderOffsets,
+    onReminder: (reminder) =>
+      showNotification(
+        t('flow.slotDeadline.reminder', { minutes: reminder.minutesLeft, count: reminder.pendingCount }),
+        'warning'
+      ),
+    formatNotification: (reminder) => ({
+      title: t('flow.slotDeadline.notificationTitle'),
+      body: t('flow.slotDeadline.reminder', { minutes: reminder.minutesLeft, count: reminder.pendingCount }),
+    }),
+  });
+
+  const handleReminderOffsetsChange = (offsets: number[]) => {
+    saveReminderOffsets(offsets);
+    setReminderOffsets(offsets);
+  };
+
   // ==================== EVENT HANDLERS ====================
 
   /**
@@ -762,11 +851,24 @@ const SlotMonitoring: React.FC = () => {
                   </TableCell>
 
                   <TableCell>
-                    <Chip
-                      label={getStatusLabel(pipeline, currentLang)}
-                      color={getStatusColor(pipeline)}
-                      size="small"
-                    />
+                    <Box display="flex" gap={0.5} alignItems="center">
+                      <Chip
+                        label={getStatusLabel(pipeline, currentLang)}
+                        color={getStatusColor(pipeline)}
+                        size="small"
+                      />
+                      {queuedPipelineIds.has(pipeline.pipeline?.id || pipeline.pipelineId) && (
+                        <Tooltip title={t('flow.offline.pendingSyncHint', 'Saved on this device, will be sent when back online')}>
+                          <Chip
+                            icon={<PendingSyncIcon />}
+                            label={t('flow.offline.pendingSync', 'Pending sync')}
+                            color="warning"
+                            variant="outlined"
+                            size="small"
+                          />
+                        </Tooltip>
+                      )}
+                    </Box>
                   </TableCell>
 
                   <TableCell>
@@ -938,7 +1040,27 @@ const SlotMonitoring: React.FC = () => {
             )}
 
             <Grid item xs={12} md={3}>
-              <Box display="flex" gap={1} justifyContent="flex-end">
+              <Box display="flex" gap={1} justifyContent="flex-end" alignItems="center">
+                {isOperator && (
+                  <ToggleButtonGroup
+                    size="small"
+                    exclusive
+                    value={viewMode}
+                    onChange={(_, value) => value && setViewMode(value)}
+                  >
+                    <ToggleButton value="list">
+                      <Tooltip title={t('flow.monitoring.view.list', 'List view')}>
+                        <ListViewIcon fontSize="small" />
+                      </Tooltip>
+                    </ToggleButton>
+                    <ToggleButton value="grid">
+                      <Tooltip title={t('flow.monitoring.view.grid', 'Bulk entry grid')}>
+                        <GridViewIcon fontSize="small" />
+                      </Tooltip>
+                    </ToggleButton>
+                  </ToggleButtonGroup>
+                )}
+
                 <Tooltip title={t('flow.monitoring.actions.refresh', 'Refresh')}>
                   <span>
                     <IconButton 
@@ -964,6 +1086,20 @@ const SlotMonitoring: React.FC = () => {
         </CardContent>
       </Card>
 
+      <OfflineQueuePanel
+        entries={offlineQueue.entries}
+        isOnline={offlineQueue.isOnline}
+        syncing={offlineQueue.syncing}
+        onSync={offlineQueue.sync}
+        onDiscard={offlineQueue.discard}
+        onRetry={offlineQueue.retry}
+        onOverwrite={async (entry) => {
+          await offlineQueue.overwrite(entry);
+          loadSlotCoverage(true);
+        }}
+        onError={(message) => showNotification(message, 'error')}
+      />
+
       {error && (
         <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
           {error}
@@ -979,8 +1115,33 @@ const SlotMonitoring: React.FC = () => {
       {!loading && coverage && (
         <>
           {renderSlotHeader()}
+          {slotDeadline.deadline && (
+            <SlotDeadlineCountdown
+              deadline={slotDeadline.deadline}
+              pendingCount={slotDeadline.pendingCount}
+              offsets={reminderOffsets}
+              onOffsetsChange={handleReminderOffsetsChange}
+            />
+          )}
+          {isValidator && (
+            <DeadlineEscalationPanel coverage={coverage} deadlinePassed={slotDeadline.isOverdue} />
+          )}
           {renderSummaryCards()}
-          {renderPipelineTable()}
+          {viewMode === 'grid' && isOperator ? (
+            <BulkReadingGrid
+              items={coverage.pipelineCoverage}
+              readingDate={selectedDate}
+              readingSlotId={selectedSlotId}
+              employeeId={userEmployeeId}
+              onNotify={showNotification}
+              onCompleted={() => loadSlotCoverage(false, true)}
+              onDirtyChange={(dirty) => {
+                gridDirtyRef.current = dirty;
+              }}
+            />
+          ) : (
+            renderPipelineTable()
+          )}
         </>
       )}
 
@@ -6,6 +6,7 @@
  * 
  * @author CHOUABBIA Amine
  * @created 01-28-2026
+ * @updated 10-19-2026 - Added History drawer with version restore
  * @updated 02-06-2026 - Fixed infinite render loop blocking navigation
  * @updated 02-06-2026 - Aligned cancel button with ForecastEdit/OperationEdit pattern
  * @updated 01-31-2026 - Added i18n translations
@@ -48,6 +49,7 @@ import {
   Warning as WarningIcon,
   Storage as StorageIcon,
   Settings as SettingsIcon,
+  History as HistoryIcon,
 } from '@mui/icons-material';
 
 import { FlowThresholdService } from '../services/FlowThresholdService';
@@ -57,6 +59,8 @@ import {
   FlowThresholdConstraints,
   createDefaultFlowThreshold 
 } from '../dto/FlowThresholdDTO';
+import { EntityHistoryDrawer } from '@/modules/system/audit/components';
+import { pickSnapshotFields } from '@/modules/system/audit/utils';
 
 import type { FlowThresholdDTO } from '../dto/FlowThresholdDTO';
 import type { PipelineDTO } from '@/modules/network/core/dto/PipelineDTO';
@@ -82,7 +86,7 @@ export const ThresholdEdit: React.FC = () => {
   
   const mode = id ? 'edit' : 'create';
   
-  const { control, handleSubmit, watch, reset, formState: { errors: formErrors } } = useForm<ThresholdFormData>({
+  const { control, handleSubmit, watch, reset, getValues, formState: { errors: formErrors } } = useForm<ThresholdFormData>({
     defaultValues: {
       ...createDefaultFlowThreshold(),
       pipelineId: 0,
@@ -96,6 +100,8 @@ export const ThresholdEdit: React.FC = () => {
   const [existingThreshold, setExistingThreshold] = useState<FlowThresholdDTO | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [versionRestored, setVersionRestored] = useState(false);
   
   const pipelineId = watch('pipelineId');
   const pressureMin = watch('pressureMin');
@@ -188,6 +194,12 @@ export const ThresholdEdit: React.FC = () => {
     }
   };
   
+  const handleRestoreVersion = (snapshot: Record<string, unknown>) => {
+    const current = getValues();
+    reset({ ...current, ...pickSnapshotFields(current, snapshot) });
+    setVersionRestored(true);
+  };
+  
   const onSubmit = async (data: ThresholdFormData) => {
     try {
       setLoading(true);
@@ -261,6 +273,13 @@ export const ThresholdEdit: React.FC = () => {
               </Box>
             </Box>
             <Stack direction="row" spacing={1.5}>
+              {mode === 'edit' && (
+                <Tooltip title={t('audit.history.title', 'History')}>
+                  <IconButton onClick={() => setHistoryOpen(true)} size="medium" color="default">
+                    <HistoryIcon />
+                  </IconButton>
+                </Tooltip>
+              )}
               <Tooltip title={t('flow.threshold.actions.cancel')}>
                 <IconButton 
                   onClick={handleCancel} 
@@ -286,6 +305,12 @@ export const ThresholdEdit: React.FC = () => {
         </Box>
       </Paper>
       
+      {versionRestored && (
+        <Alert severity="info" sx={{ mb: 3 }} onClose={() => setVersionRestored(false)}>
+          {t('audit.history.restored', 'Previous version loaded into the form. Review and save to apply it.')}
+        </Alert>
+      )}
+      
       {mode === 'edit' && existingThreshold && (
         <Alert severity="info" sx={{ mb: 3 }}>
           <Typography variant="body2">
@@ -729,6 +754,14 @@ export const ThresholdEdit: React.FC = () => {
           </Grid>
         </Grid>
       </form>
+      
+      <EntityHistoryDrawer
+        open={historyOpen}
+        onClose={() => setHistoryOpen(false)}
+        entityName="FlowThreshold"
+        entityId={id ? Number(id) : undefined}
+        onRestore={handleRestoreVersion}
+      />
     </Box>
   );
 };
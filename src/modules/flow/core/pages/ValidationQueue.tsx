@@ -0,0 +1,574 @@
+/**
+ * ValidationQueue Page - Batch Reading Validation
+ *
+ * Validator queue of SUBMITTED readings, oldest first:
+ * - Multi-select with batch approve/reject (parallel, concurrency-limited)
+ * - Progress bar and per-row failure reasons
+ * - Retry of the failed readings with the last action
+ * - Keyboard shortcuts for high-volume processing
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Button,
+  Card,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  InputAdornment,
+  LinearProgress,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+  Alert,
+} from '@mui/material';
+import {
+  CheckCircle as ApproveIcon,
+  Cancel as RejectIcon,
+  Refresh as RefreshIcon,
+  Replay as RetryIcon,
+  Search as SearchIcon,
+  Visibility as VisibilityIcon,
+  Keyboard as KeyboardIcon,
+} from '@mui/icons-material';
+
+import { FlowReadingService } from '../services/FlowReadingService';
+import { ValidationStatusService } from '@/modules/flow/common/services/ValidationStatusService';
+import { ReadingWorkflowService } from '@/modules/flow/workflow/services';
+import { useAuth } from '@/shared/context/AuthContext';
+import { formatDateTime } from '../utils/formattingUtils';
+
+import type { FlowReadingDTO } from '../dto/FlowReadingDTO';
+
+/** Readings loaded in the queue at once */
+const QUEUE_SIZE = 500;
+
+type BatchAction = { type: 'approve' } | { type: 'reject'; reason: string };
+
+const MEASUREMENTS = ['pressure', 'temperature', 'flowRate', 'containedVolume'] as const;
+
+export const ValidationQueue: React.FC = () => {
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const validatorId = user?.employee?.id;
+
+  const [readings, setReadings] = useState<FlowReadingDTO[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [focusedIndex, setFocusedIndex] = useState(0);
+
+  // Batch execution
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [failures, setFailures] = useState<Map<number, string>>(new Map());
+  const [lastAction, setLastAction] = useState<BatchAction | null>(null);
+
+  // Rejection dialog (target IDs pending a reason)
+  const [rejectTargets, setRejectTargets] = useState<number[] | null>(null);
+  const [approveTargets, setApproveTargets] = useState<number[] | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+
+  const rowRefs = useRef<Record<number, HTMLTableRowElement | null>>({});
+
+  useEffect(() => {
+    loadQueue();
+  }, []);
+
+  const loadQueue = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const statuses = await ValidationStatusService.getAllNoPagination();
+      const submitted = statuses.find((status) => status.code === 'SUBMITTED');
+      if (!submitted?.id) {
+        throw new Error(t('flow.validationQueue.errors.noSubmittedStatus'));
+      }
+      const page = await FlowReadingService.getByValidationStatus(submitted.id, {
+        page: 0,
+        size: QUEUE_SIZE,
+        sort: 'recordedAt,asc',
+      });
+      setReadings(page.content);
+      setSelected(new Set());
+      setFailures(new Map());
+      setFocusedIndex(0);
+    } catch (err: any) {
+      console.error('Error loading validation queue:', err);
+      setError(err.message || t('flow.validationQueue.errors.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const visibleReadings = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return readings;
+    return readings.filter((reading) =>
+      [reading.pipeline?.code, reading.pipeline?.name, reading.readingSlot?.code, reading.readingDate]
+        .some((value) => value?.toLowerCase().includes(term))
+    );
+  }, [readings, search]);
+
+  const focusedReading = visibleReadings[focusedIndex];
+  // Readings hidden by the search stay selected but are never acted on
+  const visibleSelected = useMemo(
+    () => visibleReadings.map((reading) => reading.id as number).filter((id) => selected.has(id)),
+    [visibleReadings, selected]
+  );
+  const allSelected = visibleReadings.length > 0 && visibleReadings.every((reading) => selected.has(reading.id as number));
+
+  useEffect(() => {
+    if (focusedIndex >= visibleReadings.length && visibleReadings.length > 0) {
+      setFocusedIndex(visibleReadings.length - 1);
+    }
+  }, [visibleReadings.length, focusedIndex]);
+
+  useEffect(() => {
+    if (focusedReading?.id) {
+      rowRefs.current[focusedReading.id]?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [focusedReading]);
+
+  const toggleSelected = (id: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(visibleReadings.map((reading) => reading.id as number)));
+  };
+
+  /**
+   * Visible selected readings, or the focused one when nothing is selected
+   */
+  const getTargets = useCallback((): number[] => {
+    if (selected.size > 0) return visibleSelected;
+    return focusedReading?.id ? [focusedReading.id] : [];
+  }, [selected, visibleSelected, focusedReading]);
+
+  const runBatch = async (ids: number[], action: BatchAction) => {
+    if (!validatorId || ids.length === 0) return;
+
+    setRunning(true);
+    setError(null);
+    setSuccess(null);
+    setLastAction(action);
+    setProgress({ completed: 0, total: ids.length });
+
+    const options = { onProgress: (completed: number, total: number) => setProgress({ completed, total }) };
+    const result = action.type === 'approve'
+      ? await ReadingWorkflowService.batchValidate(ids, validatorId, options)
+      : await ReadingWorkflowService.batchReject(ids, validatorId, action.reason, options);
+
+    const processed = new Set(result.successful.map((reading) => reading.id));
+    setReadings((prev) => prev.filter((reading) => !processed.has(reading.id)));
+    setSelected((prev) => new Set([...prev].filter((id) => !processed.has(id))));
+    setFailures((prev) => {
+      const next = new Map(prev);
+      processed.forEach((id) => next.delete(id as number));
+      result.failed.forEach((failure) => next.set(failure.id, failure.error));
+      return next;
+    });
+
+    const message = t(
+      action.type === 'approve' ? 'flow.validationQueue.alerts.approved' : 'flow.validationQueue.alerts.rejected',
+      { count: result.successful.length }
+    );
+    if (result.failed.length > 0) {
+      setError(`${message} ${t('flow.validationQueue.alerts.failedCount', { count: result.failed.length })}`);
+    } else {
+      setSuccess(message);
+    }
+    setRunning(false);
+  };
+
+  /**
+   * Approve at once a single reading; several readings are confirmed first
+   */
+  const handleApprove = (ids = getTargets()) => {
+    if (ids.length > 1) {
+      setApproveTargets(ids);
+    } else {
+      runBatch(ids, { type: 'approve' });
+    }
+  };
+
+  const handleApproveConfirm = () => {
+    if (!approveTargets) return;
+    const ids = approveTargets;
+    setApproveTargets(null);
+    runBatch(ids, { type: 'approve' });
+  };
+
+  const handleReject = (ids = getTargets()) => {
+    if (ids.length === 0) return;
+    setRejectReason('');
+    setRejectTargets(ids);
+  };
+
+  const handleRejectConfirm = () => {
+    if (!rejectTargets) return;
+    const ids = rejectTargets;
+    setRejectTargets(null);
+    runBatch(ids, { type: 'reject', reason: rejectReason.trim() });
+  };
+
+  const handleRetryFailed = () => {
+    if (!lastAction) return;
+    runBatch(Array.from(failures.keys()), lastAction);
+  };
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (running || rejectTargets || approveTargets || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable) return;
+
+      switch (e.key.toLowerCase()) {
+        case 'j':
+        case 'arrowdown':
+          e.preventDefault();
+          setFocusedIndex((index) => Math.min(index + 1, visibleReadings.length - 1));
+          break;
+        case 'k':
+        case 'arrowup':
+          e.preventDefault();
+          setFocusedIndex((index) => Math.max(index - 1, 0));
+          break;
+        case ' ':
+        case 'x':
+          e.preventDefault();
+          if (focusedReading?.id) toggleSelected(focusedReading.id);
+          break;
+        case 'a':
+          e.preventDefault();
+          handleApprove();
+          break;
+        case 'r':
+          e.preventDefault();
+          handleReject();
+          break;
+        case 'enter':
+        case 'o':
+          if (e.key === 'Enter' && target.tagName === 'BUTTON') break;
+          if (focusedReading?.id) {
+            e.preventDefault();
+            navigate(`/flow/readings/${focusedReading.id}/validate`, { state: { returnTo: '/flow/validation-queue' } });
+          }
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const formatMeasurements = (reading: FlowReadingDTO) =>
+    MEASUREMENTS.map((field) => (reading[field] === undefined || reading[field] === null ? '-' : reading[field]));
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* HEADER SECTION - Containerized */}
+      <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+        <Box sx={{ p: 2.5 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Box>
+              <Typography variant="h4" fontWeight={700} color="text.primary" sx={{ mb: 0.5 }}>
+                {t('flow.validationQueue.title')}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {t('flow.validationQueue.subtitle', { count: readings.length })}
+              </Typography>
+            </Box>
+            <Tooltip title={t('action.refresh', 'Refresh')}>
+              <span>
+                <IconButton onClick={loadQueue} size="medium" color="primary" disabled={running}>
+                  <RefreshIcon />
+                </IconButton>
+              </span>
+            </Tooltip>
+          </Box>
+        </Box>
+      </Paper>
+
+      {!validatorId && (
+        <Alert severity="warning" sx={{ mb: 3 }}>
+          {t('flow.validationQueue.errors.noEmployee')}
+        </Alert>
+      )}
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 3 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      {/* Batch toolbar */}
+      <Card sx={{ mb: 2 }}>
+        <Box sx={{ p: 2, display: 'flex', alignItems: 'center', gap: 1.5, flexWrap: 'wrap' }}>
+          <TextField
+            size="small"
+            placeholder={t('flow.validationQueue.search')}
+            value={search}
+            onChange={(e) => { setSearch(e.target.value); setFocusedIndex(0); }}
+            InputProps={{
+              startAdornment: (
+                <InputAdornment position="start">
+                  <SearchIcon fontSize="small" />
+                </InputAdornment>
+              ),
+            }}
+            sx={{ minWidth: 260 }}
+          />
+          <Box sx={{ flexGrow: 1 }} />
+          {selected.size > 0 && (
+            <Chip
+              label={
+                visibleSelected.length < selected.size
+                  ? t('flow.validationQueue.selectedHiddenCount', {
+                      count: visibleSelected.length,
+                      hidden: selected.size - visibleSelected.length,
+                    })
+                  : t('flow.validationQueue.selectedCount', { count: selected.size })
+              }
+              onDelete={() => setSelected(new Set())}
+            />
+          )}
+          <Button
+            variant="contained"
+            color="success"
+            startIcon={<ApproveIcon />}
+            onClick={() => handleApprove()}
+            disabled={running || !validatorId || getTargets().length === 0}
+          >
+            {t('flow.validationQueue.actions.approve')}
+          </Button>
+          <Button
+            variant="outlined"
+            color="error"
+            startIcon={<RejectIcon />}
+            onClick={() => handleReject()}
+            disabled={running || !validatorId || getTargets().length === 0}
+          >
+            {t('flow.validationQueue.actions.reject')}
+          </Button>
+          <Button
+            startIcon={<RetryIcon />}
+            onClick={handleRetryFailed}
+            disabled={running || failures.size === 0 || !lastAction}
+          >
+            {t('flow.validationQueue.actions.retryFailed', { count: failures.size })}
+          </Button>
+        </Box>
+        {(running || progress.total > 0) && (
+          <Box sx={{ px: 2, pb: 2 }}>
+            <LinearProgress
+              variant="determinate"
+              value={progress.total ? (progress.completed / progress.total) * 100 : 0}
+            />
+            <Typography variant="caption" color="text.secondary">
+              {t('flow.validationQueue.progress', progress)}
+            </Typography>
+          </Box>
+        )}
+        <Stack direction="row" spacing={1} alignItems="center" sx={{ px: 2, pb: 1.5, color: 'text.secondary' }}>
+          <KeyboardIcon fontSize="small" />
+          <Typography variant="caption">{t('flow.validationQueue.shortcuts')}</Typography>
+        </Stack>
+      </Card>
+
+      {/* Queue */}
+      <Card>
+        <TableContainer sx={{ maxHeight: '60vh' }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    checked={allSelected}
+                    indeterminate={selected.size > 0 && !allSelected}
+                    onChange={toggleAll}
+                    disabled={running}
+                  />
+                </TableCell>
+                <TableCell>{t('flow.validationQueue.columns.pipeline')}</TableCell>
+                <TableCell>{t('flow.validationQueue.columns.date')}</TableCell>
+                <TableCell>{t('flow.validationQueue.columns.slot')}</TableCell>
+                <TableCell align="right">{t('flow.validationQueue.columns.pressure')}</TableCell>
+                <TableCell align="right">{t('flow.validationQueue.columns.temperature')}</TableCell>
+                <TableCell align="right">{t('flow.validationQueue.columns.flowRate')}</TableCell>
+                <TableCell align="right">{t('flow.validationQueue.columns.containedVolume')}</TableCell>
+                <TableCell>{t('flow.validationQueue.columns.recordedBy')}</TableCell>
+                <TableCell>{t('flow.validationQueue.columns.recordedAt')}</TableCell>
+                <TableCell>{t('flow.validationQueue.columns.result')}</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={12} align="center" sx={{ py: 4 }}>
+                    <CircularProgress />
+                  </TableCell>
+                </TableRow>
+              ) : visibleReadings.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={12} align="center" sx={{ py: 4 }}>
+                    <Typography color="text.secondary">{t('flow.validationQueue.empty')}</Typography>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visibleReadings.map((reading, index) => {
+                  const id = reading.id as number;
+                  const failure = failures.get(id);
+                  return (
+                    <TableRow
+                      key={id}
+                      ref={(el) => { rowRefs.current[id] = el; }}
+                      hover
+                      selected={selected.has(id)}
+                      onClick={() => setFocusedIndex(index)}
+                      sx={{
+                        cursor: 'pointer',
+                        outline: index === focusedIndex ? '2px solid' : undefined,
+                        outlineColor: 'primary.main',
+                        outlineOffset: -2,
+                      }}
+                    >
+                      <TableCell padding="checkbox">
+                        <Checkbox
+                          checked={selected.has(id)}
+                          onChange={() => toggleSelected(id)}
+                          onClick={(e) => e.stopPropagation()}
+                          disabled={running}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="body2" fontWeight={600}>
+                          {reading.pipeline?.code || reading.pipelineId}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>{reading.readingDate}</TableCell>
+                      <TableCell>{reading.readingSlot?.code || reading.readingSlotId}</TableCell>
+                      {formatMeasurements(reading).map((value, i) => (
+                        <TableCell key={MEASUREMENTS[i]} align="right">{value}</TableCell>
+                      ))}
+                      <TableCell>
+                        {reading.recordedBy
+                          ? `${reading.recordedBy.lastNameLt || ''} ${reading.recordedBy.firstNameLt || ''}`.trim()
+                          : '-'}
+                      </TableCell>
+                      <TableCell>{formatDateTime(reading.recordedAt)}</TableCell>
+                      <TableCell>
+                        {failure && (
+                          <Tooltip title={failure}>
+                            <Chip size="small" color="error" label={t('flow.validationQueue.failed')} />
+                          </Tooltip>
+                        )}
+                      </TableCell>
+                      <TableCell align="right">
+                        <Tooltip title={t('flow.validationQueue.actions.review')}>
+                          <IconButton
+                            size="small"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              navigate(`/flow/readings/${id}/validate`, { state: { returnTo: '/flow/validation-queue' } });
+                            }}
+                          >
+                            <VisibilityIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Card>
+
+      {/* Batch approval confirmation */}
+      <Dialog open={!!approveTargets} onClose={() => setApproveTargets(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>
+          {t('flow.validationQueue.approveDialog.title', { count: approveTargets?.length ?? 0 })}
+        </DialogTitle>
+        <DialogContent>
+          <Typography variant="body2">
+            {t('flow.validationQueue.approveDialog.message', { count: approveTargets?.length ?? 0 })}
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setApproveTargets(null)}>{t('common.cancel')}</Button>
+          <Button variant="contained" color="success" onClick={handleApproveConfirm} autoFocus>
+            {t('flow.validationQueue.actions.approve')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Rejection reason */}
+      <Dialog open={!!rejectTargets} onClose={() => setRejectTargets(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          {t('flow.validationQueue.rejectDialog.title', { count: rejectTargets?.length ?? 0 })}
+        </DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            multiline
+            rows={3}
+            label={t('flow.validationQueue.rejectDialog.reason')}
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+            helperText={t('flow.validationQueue.rejectDialog.helper')}
+            error={rejectReason.trim().length > 0 && rejectReason.trim().length < 5}
+            sx={{ mt: 1 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRejectTargets(null)}>{t('common.cancel')}</Button>
+          <Button
+            variant="contained"
+            color="error"
+            onClick={handleRejectConfirm}
+            disabled={rejectReason.trim().length < 5}
+          >
+            {t('flow.validationQueue.actions.reject')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
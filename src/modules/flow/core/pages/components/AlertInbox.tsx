@@ -0,0 +1,565 @@
+/**
+ * AlertInbox Component
+ *
+ * Threshold breach inbox with acknowledge / resolve / dismiss lifecycle.
+ * Used standalone by AlertList and embedded in the pipeline dashboard
+ * (scoped to a single pipeline through its thresholds).
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Card,
+  Typography,
+  Button,
+  TextField,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  Checkbox,
+  Chip,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  CircularProgress,
+  Alert,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import {
+  Refresh as RefreshIcon,
+  DoneAll as AcknowledgeIcon,
+  TaskAlt as ResolveIcon,
+  NotificationsOff as DismissIcon,
+  ReportProblem as RaiseEventIcon,
+} from '@mui/icons-material';
+
+import { FlowAlertService } from '../../services/FlowAlertService';
+import { FlowThresholdService } from '../../services/FlowThresholdService';
+import { ConfirmDialog } from '@/shared/components/ConfirmDialog';
+import { useAuth } from '@/shared/context/AuthContext';
+import { getUserEmployeeId } from '../../utils/userHelpers';
+import { formatDateTime } from '@/shared/utils/dateTimeLocal';
+import { getLocalizedDesignation, type Language } from '@/modules/flow/common/utils/localizationUtils';
+
+import type { FlowAlertDTO } from '../../dto/FlowAlertDTO';
+import type { Page, Pageable } from '@/types/pagination';
+
+type AlertView = 'unacknowledged' | 'active' | 'all';
+
+type BulkAction = 'acknowledge' | 'resolve' | 'dismiss';
+
+interface AlertInboxProps {
+  /** Restrict the inbox to alerts raised by thresholds of this pipeline */
+  pipelineId?: number;
+  /** Increment to force a reload from the parent */
+  refreshTrigger?: number;
+}
+
+/**
+ * Alerts per threshold fetched when the inbox is scoped to a pipeline
+ */
+const PIPELINE_ALERTS_SIZE = 200;
+
+const isResolved = (alert: FlowAlertDTO): boolean => !!alert.resolvedAt;
+
+const isAcknowledged = (alert: FlowAlertDTO): boolean => !!alert.acknowledgedAt;
+
+/**
+ * Signed deviation of the measured value from the breached threshold, in percent
+ */
+const getDeviation = (alert: FlowAlertDTO): number | null => {
+  if (alert.actualValue == null || !alert.thresholdValue) return null;
+  return ((alert.actualValue - alert.thresholdValue) / Math.abs(alert.thresholdValue)) * 100;
+};
+
+export const AlertInbox: React.FC<AlertInboxProps> = ({ pipelineId, refreshTrigger }) => {
+  const navigate = useNavigate();
+  const { t, i18n } = useTranslation();
+  const { user } = useAuth();
+  const language = (i18n.language?.split('-')[0] || 'fr') as Language;
+
+  // State
+  const [alerts, setAlerts] = useState<FlowAlertDTO[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(10);
+  const [totalElements, setTotalElements] = useState(0);
+  const [statusCounts, setStatusCounts] = useState<Record<string, number>>({});
+  const [view, setView] = useState<AlertView>('unacknowledged');
+  const [selected, setSelected] = useState<number[]>([]);
+
+  // Dialogs
+  const [resolveDialogOpen, setResolveDialogOpen] = useState(false);
+  const [dismissDialogOpen, setDismissDialogOpen] = useState(false);
+  const [resolutionNotes, setResolutionNotes] = useState('');
+  const [actionLoading, setActionLoading] = useState(false);
+
+  useEffect(() => {
+    loadAlerts();
+  }, [page, rowsPerPage, view, pipelineId, refreshTrigger]);
+
+  useEffect(() => {
+    if (!pipelineId) {
+      loadStatusCounts();
+    }
+  }, [pipelineId, refreshTrigger]);
+
+  const loadStatusCounts = async () => {
+    try {
+      const counts = await FlowAlertService.getCountByStatus();
+      setStatusCounts(counts);
+    } catch (err: any) {
+      console.error('Error loading alert counts:', err);
+    }
+  };
+
+  /**
+   * There is no pipeline endpoint for alerts: collect them through the
+   * pipeline thresholds, then filter and paginate client-side.
+   */
+  const loadPipelineAlerts = async (): Promise<Page<FlowAlertDTO>> => {
+    const thresholds = await FlowThresholdService.getByPipeline(pipelineId!);
+    const pages = await Promise.all(
+      thresholds
+        .filter((threshold) => threshold.id)
+        .map((threshold) =>
+          FlowAlertService.getByThreshold(threshold.id!, {
+            page: 0,
+            size: PIPELINE_ALERTS_SIZE,
+            sort: 'alertTimestamp,desc',
+          })
+        )
+    );
+
+    const all = pages
+      .flatMap((result) => result.content)
+      .filter((alert) => {
+        if (view === 'unacknowledged') return !isAcknowledged(alert) && !isResolved(alert);
+        if (view === 'active') return !isResolved(alert);
+        return true;
+      })
+      .sort((a, b) => new Date(b.alertTimestamp).getTime() - new Date(a.alertTimestamp).getTime());
+
+    const start = page * rowsPerPage;
+    return {
+      content: all.slice(start, start + rowsPerPage),
+      totalElements: all.length,
+    } as Page<FlowAlertDTO>;
+  };
+
+  const loadAlerts = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const pageable: Pageable = {
+        page,
+        size: rowsPerPage,
+        sort: 'alertTimestamp,desc',
+      };
+
+      let result: Page<FlowAlertDTO>;
+
+      if (pipelineId) {
+        result = await loadPipelineAlerts();
+      } else if (view === 'unacknowledged') {
+        result = await FlowAlertService.getUnacknowledged(pageable);
+      } else if (view === 'active') {
+        result = await FlowAlertService.getActive(pageable);
+      } else {
+        result = await FlowAlertService.getAll(pageable);
+      }
+
+      setAlerts(result.content);
+      setTotalElements(result.totalElements);
+      setSelected([]);
+    } catch (err: any) {
+      console.error('Error loading alerts:', err);
+      setError(err.message || t('flow.alert.alerts.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRefresh = () => {
+    loadAlerts();
+    if (!pipelineId) {
+      loadStatusCounts();
+    }
+  };
+
+  const handleViewChange = (_event: React.MouseEvent<HTMLElement>, newView: AlertView | null) => {
+    if (newView) {
+      setView(newView);
+      setPage(0);
+    }
+  };
+
+  // Selection
+  const selectableIds = alerts.filter((alert) => alert.id && !isResolved(alert)).map((alert) => alert.id!);
+
+  const handleSelectAll = (checked: boolean) => {
+    setSelected(checked ? selectableIds : []);
+  };
+
+  const handleSelect = (id: number) => {
+    setSelected((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+  };
+
+  const selectedAlerts = alerts.filter((alert) => alert.id && selected.includes(alert.id));
+
+  /**
+   * Apply an action to every selected alert; failures are counted, not fatal
+   */
+  const runBulkAction = async (action: BulkAction, targets: FlowAlertDTO[]) => {
+    const employeeId = getUserEmployeeId(user);
+    if (action !== 'dismiss' && !employeeId) {
+      setError(t('flow.alert.alerts.noEmployee'));
+      return;
+    }
+
+    try {
+      setActionLoading(true);
+      setError(null);
+
+      const results = await Promise.allSettled(
+        targets.map((alert) => {
+          if (action === 'acknowledge') {
+            return FlowAlertService.acknowledge(alert.id!, employeeId!);
+          }
+          if (action === 'resolve') {
+            return FlowAlertService.resolve(alert.id!, employeeId!, resolutionNotes.trim());
+          }
+          return FlowAlertService.dismiss(alert.id!);
+        })
+      );
+
+      const failed = results.filter((result) => result.status === 'rejected').length;
+      const succeeded = results.length - failed;
+
+      if (succeeded > 0) {
+        setSuccess(t(`flow.alert.alerts.${action}Success`, { count: succeeded }));
+      }
+      if (failed > 0) {
+        setError(t('flow.alert.alerts.bulkPartialError', { count: failed }));
+      }
+
+      setResolveDialogOpen(false);
+      setDismissDialogOpen(false);
+      setResolutionNotes('');
+      handleRefresh();
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleAcknowledge = () => {
+    runBulkAction(
+      'acknowledge',
+      selectedAlerts.filter((alert) => !isAcknowledged(alert))
+    );
+  };
+
+  const handleRaiseEvent = (alert: FlowAlertDTO) => {
+    navigate('/flow/events/new', {
+      state: {
+        title: alert.message?.slice(0, 100),
+        infrastructureId: alert.threshold?.pipelineId,
+        relatedAlertId: alert.id,
+        relatedReadingId: alert.flowReadingId,
+        returnTo: pipelineId ? `/flow/intelligence/pipeline/${pipelineId}/dashboard` : '/flow/alerts',
+      },
+    });
+  };
+
+  const getStatusLabel = (alert: FlowAlertDTO): string => {
+    if (alert.status) return getLocalizedDesignation(alert.status, language);
+    if (isResolved(alert)) return t('flow.alert.state.resolved');
+    if (isAcknowledged(alert)) return t('flow.alert.state.acknowledged');
+    return t('flow.alert.state.new');
+  };
+
+  const getStatusColor = (alert: FlowAlertDTO): 'error' | 'warning' | 'success' => {
+    if (isResolved(alert)) return 'success';
+    if (isAcknowledged(alert)) return 'warning';
+    return 'error';
+  };
+
+  const allSelected = selectableIds.length > 0 && selected.length === selectableIds.length;
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      {/* Toolbar: view selector, status summary and bulk actions */}
+      <Box
+        sx={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          gap: 2,
+          mb: 2,
+        }}
+      >
+        <Stack direction="row" spacing={2} alignItems="center" flexWrap="wrap" useFlexGap>
+          <ToggleButtonGroup value={view} exclusive onChange={handleViewChange} size="small">
+            <ToggleButton value="unacknowledged">{t('flow.alert.filters.viewUnacknowledged')}</ToggleButton>
+            <ToggleButton value="active">{t('flow.alert.filters.viewActive')}</ToggleButton>
+            <ToggleButton value="all">{t('flow.alert.filters.viewAll')}</ToggleButton>
+          </ToggleButtonGroup>
+
+          {Object.entries(statusCounts).map(([status, count]) => (
+            <Chip key={status} label={`${status}: ${count}`} size="small" variant="outlined" />
+          ))}
+        </Stack>
+
+        <Stack direction="row" spacing={1} alignItems="center">
+          {selected.length > 0 && (
+            <Typography variant="body2" color="text.secondary">
+              {t('flow.alert.selectedCount', { count: selected.length })}
+            </Typography>
+          )}
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<AcknowledgeIcon />}
+            onClick={handleAcknowledge}
+            disabled={actionLoading || !selectedAlerts.some((alert) => !isAcknowledged(alert))}
+          >
+            {t('flow.alert.actions.acknowledge')}
+          </Button>
+          <Button
+            size="small"
+            variant="outlined"
+            color="success"
+            startIcon={<ResolveIcon />}
+            onClick={() => setResolveDialogOpen(true)}
+            disabled={actionLoading || selected.length === 0}
+          >
+            {t('flow.alert.actions.resolve')}
+          </Button>
+          <Button
+            size="small"
+            variant="outlined"
+            color="warning"
+            startIcon={<DismissIcon />}
+            onClick={() => setDismissDialogOpen(true)}
+            disabled={actionLoading || selected.length === 0}
+          >
+            {t('flow.alert.actions.dismiss')}
+          </Button>
+          <Tooltip title={t('action.refresh', 'Refresh')}>
+            <IconButton onClick={handleRefresh} size="small" color="primary">
+              <RefreshIcon />
+            </IconButton>
+          </Tooltip>
+        </Stack>
+      </Box>
+
+      <Card>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    checked={allSelected}
+                    indeterminate={selected.length > 0 && !allSelected}
+                    onChange={(e) => handleSelectAll(e.target.checked)}
+                    disabled={selectableIds.length === 0}
+                  />
+                </TableCell>
+                <TableCell>{t('flow.alert.fields.alertTimestamp')}</TableCell>
+                {!pipelineId && <TableCell>{t('flow.alert.fields.pipeline')}</TableCell>}
+                <TableCell>{t('flow.alert.fields.reading')}</TableCell>
+                <TableCell align="right">{t('flow.alert.fields.actualValue')}</TableCell>
+                <TableCell align="right">{t('flow.alert.fields.thresholdValue')}</TableCell>
+                <TableCell align="right">{t('flow.alert.fields.deviation')}</TableCell>
+                <TableCell>{t('flow.alert.fields.message')}</TableCell>
+                <TableCell>{t('flow.alert.fields.status')}</TableCell>
+                <TableCell>{t('flow.alert.fields.handledBy')}</TableCell>
+                <TableCell align="center">{t('flow.alert.fields.actions')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={11} align="center" sx={{ py: 4 }}>
+                    <CircularProgress />
+                  </TableCell>
+                </TableRow>
+              ) : alerts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={11} align="center" sx={{ py: 4 }}>
+                    <Typography color="text.secondary">{t('flow.alert.noAlerts')}</Typography>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                alerts.map((alert) => {
+                  const deviation = getDeviation(alert);
+                  const handler = alert.resolvedBy || alert.acknowledgedBy;
+
+                  return (
+                    <TableRow key={alert.id} hover selected={!!alert.id && selected.includes(alert.id)}>
+                      <TableCell padding="checkbox">
+                        <Checkbox
+                          checked={!!alert.id && selected.includes(alert.id)}
+                          onChange={() => alert.id && handleSelect(alert.id)}
+                          disabled={isResolved(alert)}
+                        />
+                      </TableCell>
+                      <TableCell>{formatDateTime(alert.alertTimestamp)}</TableCell>
+                      {!pipelineId && <TableCell>{alert.threshold?.pipeline?.code || 'N/A'}</TableCell>}
+                      <TableCell>
+                        {alert.flowReading ? (
+                          <Box>
+                            <Typography variant="body2">{alert.flowReading.readingDate}</Typography>
+                            {alert.flowReading.readingSlot && (
+                              <Typography variant="caption" color="text.secondary">
+                                {getLocalizedDesignation(alert.flowReading.readingSlot, language)}
+                              </Typography>
+                            )}
+                          </Box>
+                        ) : (
+                          '-'
+                        )}
+                      </TableCell>
+                      <TableCell align="right">{alert.actualValue?.toFixed(2) ?? '-'}</TableCell>
+                      <TableCell align="right">{alert.thresholdValue?.toFixed(2) ?? '-'}</TableCell>
+                      <TableCell align="right">
+                        {deviation != null ? (
+                          <Typography
+                            variant="body2"
+                            fontWeight="bold"
+                            color={Math.abs(deviation) >= 10 ? 'error.main' : 'warning.main'}
+                          >
+                            {deviation > 0 ? '+' : ''}
+                            {deviation.toFixed(1)}%
+                          </Typography>
+                        ) : (
+                          '-'
+                        )}
+                      </TableCell>
+                      <TableCell sx={{ maxWidth: 280 }}>
+                        <Typography variant="body2" noWrap title={alert.message}>
+                          {alert.message || '-'}
+                        </Typography>
+                        {alert.resolutionNotes && (
+                          <Typography variant="caption" color="text.secondary" noWrap display="block">
+                            {alert.resolutionNotes}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Chip
+                          label={getStatusLabel(alert)}
+                          size="small"
+                          variant="outlined"
+                          color={getStatusColor(alert)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {handler ? `${handler.firstNameLt} ${handler.lastNameLt}` : '-'}
+                      </TableCell>
+                      <TableCell align="center">
+                        <Tooltip title={t('flow.alert.tooltips.raiseEvent')}>
+                          <IconButton size="small" color="error" onClick={() => handleRaiseEvent(alert)}>
+                            <RaiseEventIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        <TablePagination
+          rowsPerPageOptions={[5, 10, 25, 50]}
+          component="div"
+          count={totalElements}
+          rowsPerPage={rowsPerPage}
+          page={page}
+          onPageChange={(_, newPage) => setPage(newPage)}
+          onRowsPerPageChange={(e) => {
+            setRowsPerPage(parseInt(e.target.value, 10));
+            setPage(0);
+          }}
+        />
+      </Card>
+
+      {/* Resolve Dialog */}
+      <Dialog open={resolveDialogOpen} onClose={() => setResolveDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{t('flow.alert.resolve.title')}</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            {t('flow.alert.resolve.message', { count: selected.length })}
+          </DialogContentText>
+          <TextField
+            fullWidth
+            multiline
+            rows={4}
+            label={t('flow.alert.resolve.notes')}
+            value={resolutionNotes}
+            onChange={(e) => setResolutionNotes(e.target.value)}
+            inputProps={{ maxLength: 1000 }}
+            helperText={`${resolutionNotes.length}/1000`}
+            required
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setResolveDialogOpen(false)} disabled={actionLoading}>
+            {t('flow.alert.actions.cancel')}
+          </Button>
+          <Button
+            onClick={() => runBulkAction('resolve', selectedAlerts)}
+            variant="contained"
+            color="success"
+            disabled={actionLoading || !resolutionNotes.trim()}
+            startIcon={actionLoading ? <CircularProgress size={16} /> : <ResolveIcon />}
+          >
+            {t('flow.alert.actions.resolve')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Dismiss Confirmation */}
+      <ConfirmDialog
+        open={dismissDialogOpen}
+        title={t('flow.alert.dismiss.title')}
+        message={t('flow.alert.dismiss.message', { count: selected.length })}
+        onConfirm={() => runBulkAction('dismiss', selectedAlerts)}
+        onCancel={() => setDismissDialogOpen(false)}
+        loading={actionLoading}
+      />
+    </Box>
+  );
+};
@@ -0,0 +1,546 @@
+/**
+ * BulkReadingGrid Component
+ *
+ * Spreadsheet-style entry of the readings of one slot: one row per pipeline
+ * of the structure, one editable cell per measurement.
+ * - Cells coloured against the pipeline's active threshold
+ * - Keyboard navigation (arrows, Enter) between editable cells
+ * - Paste of a block of cells copied from Excel (tab/newline separated)
+ * - Save all modified rows as draft, or save and submit all drafts
+ *
+ * Only NOT_RECORDED, DRAFT and REJECTED readings are editable.
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ * @updated 10-19-2026 - Keep unsaved edits and row errors across coverage reloads
+ * @updated 10-19-2026 - Thresholds loaded once per pipeline
+ */
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  InputBase,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+  alpha,
+} from '@mui/material';
+import {
+  Save as SaveIcon,
+  Send as SendIcon,
+  Undo as UndoIcon,
+  CheckCircle as SavedIcon,
+  Error as ErrorIcon,
+} from '@mui/icons-material';
+
+import { FlowThresholdService } from '../../services/FlowThresholdService';
+import { SlotCoverageService } from '../../services/SlotCoverageService';
+import { ValidationStatusService } from '@/modules/flow/common/services/ValidationStatusService';
+import { getStatusColor, getStatusLabel, getPipelineDisplayName } from '../../utils/monitoringHelpers';
+import { getThresholdZone, validateFlowReading } from '../../utils/validationUtils';
+import { getCurrentLocalDateTime } from '@/shared/utils/dateTimeLocal';
+import { useOnlineStatus } from '@/shared/hooks/useOnlineStatus';
+
+import type { PipelineCoverageItemDTO } from '../../dto/SlotCoverageDTO';
+import type { FlowReadingDTO } from '../../dto/FlowReadingDTO';
+import type { FlowThresholdDTO } from '../../dto/FlowThresholdDTO';
+
+type MeasurementField = 'pressure' | 'temperature' | 'flowRate' | 'containedVolume';
+type RowValues = Record<MeasurementField, string>;
+type RowState = { status: 'saved' } | { status: 'error'; message: string };
+
+interface BulkReadingGridProps {
+  items: PipelineCoverageItemDTO[];
+  readingDate: string;
+  readingSlotId: number;
+  employeeId: number | null;
+  onNotify: (message: string, severity: 'success' | 'error' | 'warning' | 'info') => void;
+  /** Called after a save/submit run so that the coverage can be reloaded */
+  onCompleted: () => void;
+  /** Called when the grid gains or loses unsaved edits */
+  onDirtyChange?: (dirty: boolean) => void;
+}
+
+const FIELDS: Array<{ key: MeasurementField; unit: string }> = [
+  { key: 'pressure', unit: 'bar' },
+  { key: 'temperature', unit: '°C' },
+  { key: 'flowRate', unit: 'm³/h' },
+  { key: 'containedVolume', unit: 'm³' },
+];
+
+const EDITABLE_STATUSES = ['NOT_RECORDED', 'DRAFT', 'REJECTED'];
+
+const ZONE_COLORS = { OK: '#16a34a', WARNING: '#d97706', BREACH: '#dc2626' } as const;
+
+const getPipelineId = (item: PipelineCoverageItemDTO): number => item.pipeline?.id || item.pipelineId;
+
+const isEditable = (item: PipelineCoverageItemDTO): boolean =>
+  EDITABLE_STATUSES.includes(item.status || 'NOT_RECORDED');
+
+const toCellValue = (value?: number | null): string =>
+  value === null || value === undefined ? '' : String(value);
+
+/**
+ * Parse a cell, accepting a comma as decimal separator (French Excel)
+ * Returns undefined for an empty cell and NaN for an invalid one
+ */
+const parseCell = (value: string): number | undefined => {
+  const trimmed = value.trim().replace(/\s/g, '').replace(',', '.');
+  return trimmed === '' ? undefined : Number(trimmed);
+};
+
+const initialValues = (items: PipelineCoverageItemDTO[]): Record<number, RowValues> =>
+  Object.fromEntries(
+    items.map((item) => [
+      getPipelineId(item),
+      {
+        pressure: toCellValue(item.reading?.pressure),
+        temperature: toCellValue(item.reading?.temperature),
+        flowRate: toCellValue(item.reading?.flowRate),
+        containedVolume: toCellValue(item.reading?.containedVolume),
+      },
+    ])
+  );
+
+export const BulkReadingGrid: React.FC<BulkReadingGridProps> = ({
+  items,
+  readingDate,
+  readingSlotId,
+  employeeId,
+  onNotify,
+  onCompleted,
+  onDirtyChange,
+}) => {
+  const { t, i18n } = useTranslation();
+  const currentLang = i18n.language as 'ar' | 'en' | 'fr';
+  const isOnline = useOnlineStatus();
+
+  const [values, setValues] = useState<Record<number, RowValues>>(() => initialValues(items));
+  const [dirty, setDirty] = useState<Set<number>>(new Set());
+  const [rowStates, setRowStates] = useState<Record<number, RowState>>({});
+  const [thresholds, setThresholds] = useState<Map<number, FlowThresholdDTO>>(new Map());
+  const [draftStatusId, setDraftStatusId] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const inputRefs = useRef<Record<string, HTMLInputElement | null>>({});
+  // Pipelines whose threshold was already requested, kept across coverage reloads
+  const thresholdPipelineIds = useRef<Set<number>>(new Set());
+
+  const editableItems = useMemo(() => items.filter(isEditable), [items]);
+  const editableIndex = useMemo(
+    () => new Map(editableItems.map((item, index) => [getPipelineId(item), index])),
+    [editableItems]
+  );
+
+  // Take the reloaded coverage, keeping the rows with unsaved edits
+  useEffect(() => {
+    const reloaded = initialValues(items);
+    setValues((prev) =>
+      Object.fromEntries(
+        Object.entries(reloaded).map(([id, row]) => [id, dirty.has(Number(id)) ? prev[Number(id)] ?? row : row])
+      )
+    );
+  }, [items]);
+
+  useEffect(() => {
+    onDirtyChange?.(dirty.size > 0);
+  }, [dirty]);
+
+  useEffect(() => () => onDirtyChange?.(false), []);
+
+  const pipelineIdsKey = useMemo(
+    () => Array.from(new Set(items.map(getPipelineId))).sort((a, b) => a - b).join(','),
+    [items]
+  );
+
+  useEffect(() => {
+    loadThresholds();
+  }, [pipelineIdsKey]);
+
+  useEffect(() => {
+    ValidationStatusService.getAllNoPagination()
+      .then((statuses) => setDraftStatusId(statuses.find((s) => s.code === 'DRAFT')?.id ?? null))
+      .catch((err) => console.error('Error loading validation statuses:', err));
+  }, []);
+
+  /**
+   * Load the thresholds of pipelines not requested yet
+   */
+  const loadThresholds = async () => {
+    const pipelineIds = Array.from(new Set(items.map(getPipelineId))).filter(
+      (pipelineId) => !thresholdPipelineIds.current.has(pipelineId)
+    );
+    if (pipelineIds.length === 0) return;
+    pipelineIds.forEach((pipelineId) => thresholdPipelineIds.current.add(pipelineId));
+
+    const results = await Promise.all(
+      pipelineIds.map(async (pipelineId) => {
+        try {
+          const page = await FlowThresholdService.getActiveByPipeline(pipelineId, { page: 0, size: 1 });
+          return [pipelineId, page.content[0]] as const;
+        } catch (err) {
+          console.error('Error loading threshold for pipeline:', pipelineId, err);
+          thresholdPipelineIds.current.delete(pipelineId);
+          return [pipelineId, undefined] as const;
+        }
+      })
+    );
+    setThresholds((prev) => {
+      const next = new Map(prev);
+      results.forEach(([pipelineId, threshold]) => {
+        if (threshold) next.set(pipelineId, threshold);
+      });
+      return next;
+    });
+  };
+
+  const setCell = (pipelineId: number, field: MeasurementField, value: string) => {
+    setValues((prev) => ({ ...prev, [pipelineId]: { ...prev[pipelineId], [field]: value } }));
+    setDirty((prev) => new Set(prev).add(pipelineId));
+    setRowStates((prev) => {
+      const { [pipelineId]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const focusCell = (row: number, col: number) => {
+    inputRefs.current[`${row}:${col}`]?.focus();
+    inputRefs.current[`${row}:${col}`]?.select();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, row: number, col: number) => {
+    const input = e.currentTarget;
+    const atStart = input.selectionStart === 0 && input.selectionEnd === 0;
+    const atEnd = input.selectionStart === input.value.length;
+
+    if (e.key === 'ArrowDown' || e.key === 'Enter') {
+      e.preventDefault();
+      focusCell(Math.min(row + 1, editableItems.length - 1), col);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      focusCell(Math.max(row - 1, 0), col);
+    } else if (e.key === 'ArrowRight' && atEnd && col < FIELDS.length - 1) {
+      e.preventDefault();
+      focusCell(row, col + 1);
+    } else if (e.key === 'ArrowLeft' && atStart && col > 0) {
+      e.preventDefault();
+      focusCell(row, col - 1);
+    }
+  };
+
+  /**
+   * Paste a block copied from Excel starting at the focused cell
+   * Single values fall back to the browser's default paste
+   */
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>, row: number, col: number) => {
+    const lines = e.clipboardData.getData('text').replace(/\r/g, '').split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+    if (lines.length <= 1 && !lines[0]?.includes('\t')) return;
+
+    e.preventDefault();
+    lines.forEach((line, rowOffset) => {
+      const item = editableItems[row + rowOffset];
+      if (!item) return;
+      line.split('\t').forEach((cell, colOffset) => {
+        const field = FIELDS[col + colOffset];
+        if (field) setCell(getPipelineId(item), field.key, cell.trim());
+      });
+    });
+  };
+
+  const buildReading = (item: PipelineCoverageItemDTO): Partial<FlowReadingDTO> => {
+    const row = values[getPipelineId(item)];
+    return {
+      ...(item.readingId ? { id: item.readingId } : {}),
+      pipelineId: getPipelineId(item),
+      readingDate,
+      readingSlotId,
+      recordedAt: getCurrentLocalDateTime(),
+      recordedById: employeeId ?? undefined,
+      validationStatusId: draftStatusId ?? undefined,
+      notes: item.reading?.notes,
+      pressure: parseCell(row.pressure),
+      temperature: parseCell(row.temperature),
+      flowRate: parseCell(row.flowRate),
+      containedVolume: parseCell(row.containedVolume),
+    };
+  };
+
+  /**
+   * Check a modified row before saving; returns an error message or null
+   */
+  const validateRow = (reading: Partial<FlowReadingDTO>): string | null => {
+    const measurements = FIELDS.map((field) => reading[field.key] as number | undefined);
+    if (measurements.some((value) => value !== undefined && Number.isNaN(value))) {
+      return t('flow.bulkEntry.errors.notANumber');
+    }
+    if (measurements.every((value) => value === undefined)) {
+      return t('flow.bulkEntry.errors.noMeasurement');
+    }
+    return validateFlowReading(reading)[0] || null;
+  };
+
+  /**
+   * Save every modified row as draft, one after the other
+   * @returns IDs of the saved readings and the pipelines whose row failed
+   */
+  const saveModifiedRows = async (): Promise<{ savedIds: number[]; failedPipelineIds: Set<number> }> => {
+    const savedIds: number[] = [];
+    const failedPipelineIds = new Set<number>();
+    const states: Record<number, RowState> = {};
+
+    for (const item of editableItems.filter((entry) => dirty.has(getPipelineId(entry)))) {
+      const pipelineId = getPipelineId(item);
+      const reading = buildReading(item);
+      const validationError = validateRow(reading);
+
+      if (validationError) {
+        states[pipelineId] = { status: 'error', message: validationError };
+        failedPipelineIds.add(pipelineId);
+        continue;
+      }
+
+      try {
+        const saved = item.readingId
+          ? await SlotCoverageService.updateSlotReading(item.readingId, reading)
+          : await SlotCoverageService.createSlotReading(reading);
+        if (saved.id) savedIds.push(saved.id);
+        states[pipelineId] = { status: 'saved' };
+      } catch (err: any) {
+        states[pipelineId] = { status: 'error', message: err.message };
+        failedPipelineIds.add(pipelineId);
+      }
+    }
+
+    setRowStates(states);
+    setDirty((prev) => new Set([...prev].filter((id) => states[id]?.status !== 'saved')));
+    return { savedIds, failedPipelineIds };
+  };
+
+  const handleSaveAll = async () => {
+    try {
+      setSaving(true);
+      const { savedIds, failedPipelineIds } = await saveModifiedRows();
+      const failed = failedPipelineIds.size;
+      onNotify(
+        t('flow.bulkEntry.alerts.saveResult', { saved: savedIds.length, failed }),
+        failed > 0 ? 'warning' : 'success'
+      );
+      if (savedIds.length > 0) onCompleted();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmitAll = async () => {
+    try {
+      setSaving(true);
+      const { savedIds, failedPipelineIds } = await saveModifiedRows();
+      const failed = failedPipelineIds.size;
+      // Drafts whose changes could not be saved are left for the operator to fix
+      const draftIds = items
+        .filter((item) => item.status === 'DRAFT' && item.readingId && !failedPipelineIds.has(getPipelineId(item)))
+        .map((item) => item.readingId as number);
+      const readingIds = Array.from(new Set([...savedIds, ...draftIds]));
+
+      if (readingIds.length === 0) {
+        onNotify(t('flow.bulkEntry.alerts.nothingToSubmit'), 'info');
+        return;
+      }
+
+      const result = await SlotCoverageService.submitMultipleReadings(readingIds);
+      onNotify(
+        t('flow.bulkEntry.alerts.submitResult', {
+          submitted: result.success,
+          failed: result.failed + failed,
+        }),
+        result.failed + failed > 0 ? 'warning' : 'success'
+      );
+      onCompleted();
+    } catch (err: any) {
+      onNotify(err.message || t('flow.bulkEntry.alerts.submitError'), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    setValues(initialValues(items));
+    setDirty(new Set());
+    setRowStates({});
+  };
+
+  const renderCell = (item: PipelineCoverageItemDTO, field: MeasurementField, col: number) => {
+    const pipelineId = getPipelineId(item);
+    const raw = values[pipelineId]?.[field] ?? '';
+    const parsed = parseCell(raw);
+    const threshold = thresholds.get(pipelineId);
+    const min = threshold?.[`${field}Min` as keyof FlowThresholdDTO] as number | undefined;
+    const max = threshold?.[`${field}Max` as keyof FlowThresholdDTO] as number | undefined;
+    const invalid = parsed !== undefined && Number.isNaN(parsed);
+    const zone =
+      parsed !== undefined && !invalid && min !== undefined && max !== undefined
+        ? getThresholdZone(parsed, min, max, threshold?.alertTolerance ?? 0)
+        : null;
+    const color = invalid ? ZONE_COLORS.BREACH : zone && zone !== 'OK' ? ZONE_COLORS[zone] : null;
+    const row = editableIndex.get(pipelineId);
+
+    const tooltip = min !== undefined && max !== undefined
+      ? t('flow.bulkEntry.thresholdRange', { min, max })
+      : t('flow.bulkEntry.noThreshold');
+
+    if (row === undefined) {
+      return (
+        <TableCell key={field} align="right" sx={{ color: color || 'text.secondary' }}>
+          {raw || '-'}
+        </TableCell>
+      );
+    }
+
+    return (
+      <TableCell
+        key={field}
+        padding="none"
+        sx={{
+          bgcolor: color ? alpha(color, 0.12) : undefined,
+          outline: dirty.has(pipelineId) ? '1px dashed' : undefined,
+          outlineColor: 'primary.light',
+          outlineOffset: -2,
+        }}
+      >
+        <Tooltip title={tooltip} placement="top" enterDelay={600}>
+          <InputBase
+            value={raw}
+            onChange={(e) => setCell(pipelineId, field, e.target.value)}
+            onKeyDown={(e) => handleKeyDown(e as React.KeyboardEvent<HTMLInputElement>, row, col)}
+            onPaste={(e) => handlePaste(e as React.ClipboardEvent<HTMLInputElement>, row, col)}
+            onFocus={(e) => e.target.select()}
+            inputRef={(el) => {
+              inputRefs.current[`${row}:${col}`] = el;
+            }}
+            disabled={saving}
+            inputProps={{
+              inputMode: 'decimal',
+              style: { textAlign: 'right', color: color || undefined, fontWeight: color ? 600 : undefined },
+            }}
+            sx={{ width: '100%', px: 1.5, py: 0.75 }}
+          />
+        </Tooltip>
+      </TableCell>
+    );
+  };
+
+  const renderRowState = (pipelineId: number) => {
+    const state = rowStates[pipelineId];
+    if (!state) return null;
+    return state.status === 'saved' ? (
+      <SavedIcon fontSize="small" color="success" />
+    ) : (
+      <Tooltip title={state.message}>
+        <ErrorIcon fontSize="small" color="error" />
+      </Tooltip>
+    );
+  };
+
+  if (items.length === 0) {
+    return <Alert severity="info">{t('flow.bulkEntry.noPipelines')}</Alert>;
+  }
+
+  return (
+    <Paper>
+      {/* Toolbar */}
+      <Box sx={{ p: 2, display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 2 }}>
+        <Box>
+          <Typography variant="body2" color="text.secondary">
+            {t('flow.bulkEntry.hint')}
+          </Typography>
+          <Stack direction="row" spacing={1} sx={{ mt: 1 }}>
+            <Chip size="small" label={t('flow.bulkEntry.legend.warning')} sx={{ bgcolor: alpha(ZONE_COLORS.WARNING, 0.15) }} />
+            <Chip size="small" label={t('flow.bulkEntry.legend.breach')} sx={{ bgcolor: alpha(ZONE_COLORS.BREACH, 0.15) }} />
+            {dirty.size > 0 && (
+              <Chip size="small" color="primary" variant="outlined" label={t('flow.bulkEntry.modifiedCount', { count: dirty.size })} />
+            )}
+          </Stack>
+        </Box>
+        <Stack direction="row" spacing={1}>
+          <Button startIcon={<UndoIcon />} onClick={handleReset} disabled={saving || dirty.size === 0}>
+            {t('flow.bulkEntry.actions.reset')}
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={saving ? <CircularProgress size={16} /> : <SaveIcon />}
+            onClick={handleSaveAll}
+            disabled={saving || dirty.size === 0 || !isOnline || !draftStatusId}
+          >
+            {t('flow.bulkEntry.actions.saveAll')}
+          </Button>
+          <Button
+            variant="contained"
+            color="warning"
+            startIcon={saving ? <CircularProgress size={16} color="inherit" /> : <SendIcon />}
+            onClick={handleSubmitAll}
+            disabled={saving || !isOnline || !draftStatusId}
+          >
+            {t('flow.bulkEntry.actions.submitAll')}
+          </Button>
+        </Stack>
+      </Box>
+
+      {!isOnline && (
+        <Alert severity="warning" sx={{ mx: 2, mb: 2 }}>
+          {t('flow.bulkEntry.offline')}
+        </Alert>
+      )}
+
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{t('flow.bulkEntry.columns.pipeline')}</TableCell>
+              <TableCell>{t('flow.bulkEntry.columns.status')}</TableCell>
+              {FIELDS.map((field) => (
+                <TableCell key={field.key} align="right" sx={{ minWidth: 120 }}>
+                  {t(`flow.bulkEntry.columns.${field.key}`)} ({field.unit})
+                </TableCell>
+              ))}
+              <TableCell width={40} />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {items.map((item) => {
+              const pipelineId = getPipelineId(item);
+              return (
+                <TableRow key={pipelineId} hover>
+                  <TableCell>
+                    <Typography variant="body2" fontWeight="medium">
+                      {item.pipeline?.code || `Pipeline ${pipelineId}`}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {getPipelineDisplayName(item, currentLang)}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Chip label={getStatusLabel(item, currentLang)} color={getStatusColor(item)} size="small" />
+                  </TableCell>
+                  {FIELDS.map((field, col) => renderCell(item, field.key, col))}
+                  <TableCell>{renderRowState(pipelineId)}</TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Paper>
+  );
+};
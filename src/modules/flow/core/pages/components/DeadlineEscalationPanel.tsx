@@ -0,0 +1,236 @@
+/**
+ * DeadlineEscalationPanel Component
+ *
+ * Escalation list for supervisors, grouped by structure:
+ * - pipelines of the displayed slot still not recorded or in draft once
+ *   the slot deadline has passed
+ * - readings past their validation deadline (FlowMonitoringService.getOverdueReadings)
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Alert,
+  Box,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Refresh as RefreshIcon,
+  ReportProblem as EscalationIcon,
+} from '@mui/icons-material';
+
+import { FlowMonitoringService } from '@/modules/flow/intelligence/services';
+import { getPendingRecordings } from '../../utils/slotDeadlineUtils';
+import { formatDate } from '@/shared/utils/dateTimeLocal';
+
+import type { SlotCoverageDTO } from '../../dto/SlotCoverageDTO';
+import type { FlowReadingReadDTO } from '../../dto/FlowReadingReadDTO';
+import type { StructureDTO } from '@/modules/general/organization/dto/StructureDTO';
+
+interface DeadlineEscalationPanelProps {
+  coverage: SlotCoverageDTO;
+  /** Whether the displayed slot deadline has passed */
+  deadlinePassed: boolean;
+}
+
+type EscalationIssue = 'NOT_RECORDED' | 'DRAFT' | 'OVERDUE_VALIDATION';
+
+interface EscalationRow {
+  key: string;
+  structure?: StructureDTO;
+  pipeline: string;
+  date: string;
+  slot: string;
+  issue: EscalationIssue;
+  recordedBy?: string;
+}
+
+/** Overdue readings loaded per pipeline */
+const OVERDUE_PAGE_SIZE = 50;
+
+const ISSUE_COLORS: Record<EscalationIssue, 'error' | 'warning'> = {
+  NOT_RECORDED: 'error',
+  DRAFT: 'warning',
+  OVERDUE_VALIDATION: 'warning',
+};
+
+export const DeadlineEscalationPanel: React.FC<DeadlineEscalationPanelProps> = ({ coverage, deadlinePassed }) => {
+  const { t, i18n } = useTranslation();
+  const [overdue, setOverdue] = useState<FlowReadingReadDTO[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pipelineIds = useMemo(
+    () => coverage.pipelineCoverage.map((item) => item.pipelineId).filter(Boolean),
+    [coverage.pipelineCoverage]
+  );
+
+  useEffect(() => {
+    loadOverdue();
+  }, [coverage.date, pipelineIds.join(',')]);
+
+  const loadOverdue = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const results = await Promise.allSettled(
+        pipelineIds.map((pipelineId) =>
+          FlowMonitoringService.getOverdueReadings(pipelineId, coverage.date, { page: 0, size: OVERDUE_PAGE_SIZE })
+        )
+      );
+      const failed = results.filter((result) => result.status === 'rejected').length;
+      setOverdue(
+        results.flatMap((result) => (result.status === 'fulfilled' ? result.value.content : []))
+      );
+      if (failed > 0) {
+        setError(t('flow.slotDeadline.escalation.partialError', { count: failed }));
+      }
+    } catch (err: any) {
+      console.error('Error loading overdue readings:', err);
+      setError(err.message || t('flow.slotDeadline.escalation.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getStructureName = (structure?: StructureDTO): string => {
+    if (!structure) return '-';
+    switch (i18n.language) {
+      case 'ar':
+        return structure.designationAr || structure.designationFr || structure.code;
+      case 'fr':
+        return structure.designationFr || structure.code;
+      default:
+        return structure.designationEn || structure.designationFr || structure.code;
+    }
+  };
+
+  const rows = useMemo<EscalationRow[]>(() => {
+    const slotCode = coverage.slot?.code || String(coverage.slotId ?? '');
+
+    const missed: EscalationRow[] = deadlinePassed
+      ? getPendingRecordings(coverage).map((item) => ({
+          key: `slot-${item.pipelineId}`,
+          structure: item.pipeline?.manager || coverage.structure,
+          pipeline: item.pipeline?.code || String(item.pipelineId),
+          date: coverage.date,
+          slot: slotCode,
+          issue: item.status as EscalationIssue,
+          recordedBy: item.recordedBy ? `${item.recordedBy.firstNameLt} ${item.recordedBy.lastNameLt}` : undefined,
+        }))
+      : [];
+
+    const late: EscalationRow[] = overdue.map((reading) => ({
+      key: `overdue-${reading.id}`,
+      structure: reading.pipeline?.manager || coverage.structure,
+      pipeline: reading.pipeline?.code || '-',
+      date: reading.readingDate,
+      slot: reading.readingSlot?.code || '-',
+      issue: 'OVERDUE_VALIDATION',
+      recordedBy: reading.recordedBy ? `${reading.recordedBy.firstNameLt} ${reading.recordedBy.lastNameLt}` : undefined,
+    }));
+
+    return [...missed, ...late];
+  }, [coverage, deadlinePassed, overdue]);
+
+  const groups = useMemo(() => {
+    const byStructure = new Map<string, { structure?: StructureDTO; rows: EscalationRow[] }>();
+    rows.forEach((row) => {
+      const key = row.structure?.code || '-';
+      const group = byStructure.get(key) || { structure: row.structure, rows: [] };
+      group.rows.push(row);
+      byStructure.set(key, group);
+    });
+    return Array.from(byStructure.values()).sort((a, b) => b.rows.length - a.rows.length);
+  }, [rows]);
+
+  if (!loading && !error && rows.length === 0) return null;
+
+  return (
+    <Card sx={{ mb: 3, borderLeft: 4, borderColor: 'error.main' }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+          <EscalationIcon color="error" />
+          <Typography variant="h6" sx={{ flexGrow: 1 }}>
+            {t('flow.slotDeadline.escalation.title')}
+          </Typography>
+          <Chip size="small" color="error" label={t('flow.slotDeadline.escalation.count', { count: rows.length })} />
+          <Tooltip title={t('action.refresh')}>
+            <span>
+              <IconButton size="small" onClick={loadOverdue} disabled={loading}>
+                <RefreshIcon fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+        </Box>
+
+        {error && (
+          <Alert severity="warning" sx={{ mb: 1 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('flow.slotDeadline.escalation.columns.pipeline')}</TableCell>
+                <TableCell>{t('flow.slotDeadline.escalation.columns.date')}</TableCell>
+                <TableCell>{t('flow.slotDeadline.escalation.columns.slot')}</TableCell>
+                <TableCell>{t('flow.slotDeadline.escalation.columns.issue')}</TableCell>
+                <TableCell>{t('flow.slotDeadline.escalation.columns.recordedBy')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {groups.map((group) => (
+                <React.Fragment key={group.structure?.code || '-'}>
+                  <TableRow sx={{ bgcolor: 'action.hover' }}>
+                    <TableCell colSpan={5}>
+                      <Typography variant="subtitle2" component="span">
+                        {getStructureName(group.structure)}
+                      </Typography>
+                      <Chip size="small" label={group.rows.length} sx={{ ml: 1 }} />
+                    </TableCell>
+                  </TableRow>
+                  {group.rows.map((row) => (
+                    <TableRow key={row.key}>
+                      <TableCell>{row.pipeline}</TableCell>
+                      <TableCell>{formatDate(row.date)}</TableCell>
+                      <TableCell>{row.slot}</TableCell>
+                      <TableCell>
+                        <Chip
+                          size="small"
+                          color={ISSUE_COLORS[row.issue]}
+                          label={t(`flow.slotDeadline.escalation.issues.${row.issue}`)}
+                        />
+                      </TableCell>
+                      <TableCell>{row.recordedBy || '-'}</TableCell>
+                    </TableRow>
+                  ))}
+                </React.Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,297 @@
+/**
+ * ForecastSuggestionDialog Component
+ *
+ * Suggests predicted volumes from the past operations of the same
+ * infrastructure, product and operation type. The candidate baselines are
+ * drawn next to the recent history, the selected one with its confidence
+ * band, and applied to one or several consecutive forecast dates.
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Grid,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip as ChartTooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+
+import { FlowOperationService } from '../../services/FlowOperationService';
+import {
+  BASELINE_HISTORY_DAYS,
+  BASELINE_METHODS,
+  MIN_HISTORY_POINTS,
+  buildDailyHistory,
+  generateBaseline,
+  getForecastDates,
+} from '../../utils/forecastBaselineUtils';
+import { formatDate, getToday } from '@/shared/utils/dateTimeLocal';
+
+import type { FlowOperationDTO } from '../../dto/FlowOperationDTO';
+import type { BaselineMethod, BaselinePoint } from '../../utils/forecastBaselineUtils';
+
+interface ForecastSuggestionDialogProps {
+  open: boolean;
+  infrastructureId: number;
+  productId: number;
+  operationTypeId: number;
+  /** First forecast date (YYYY-MM-DD) */
+  startDate: string;
+  /** Single date only (editing an existing forecast) */
+  singleDate?: boolean;
+  onClose: () => void;
+  onApply: (points: BaselinePoint[], method: BaselineMethod) => void;
+}
+
+/** Operations loaded for the infrastructure (filtered client-side) */
+const MAX_OPERATIONS = 1000;
+
+/** Longest horizon suggested in one go */
+const MAX_HORIZON_DAYS = 31;
+
+/** History days drawn before the forecast dates */
+const CHART_HISTORY_DAYS = 30;
+
+const METHOD_COLORS: Record<BaselineMethod, string> = {
+  SEASONAL_NAIVE: '#7c3aed',
+  MOVING_AVERAGE: '#2563eb',
+  LINEAR_TREND: '#ea580c',
+};
+
+export const ForecastSuggestionDialog: React.FC<ForecastSuggestionDialogProps> = ({
+  open,
+  infrastructureId,
+  productId,
+  operationTypeId,
+  startDate,
+  singleDate = false,
+  onClose,
+  onApply,
+}) => {
+  const { t } = useTranslation();
+  const [operations, setOperations] = useState<FlowOperationDTO[]>([]);
+  const [method, setMethod] = useState<BaselineMethod>('SEASONAL_NAIVE');
+  const [horizon, setHorizon] = useState(7);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      loadOperations();
+    }
+  }, [open, infrastructureId]);
+
+  const loadOperations = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await FlowOperationService.getByInfrastructure(infrastructureId, {
+        page: 0,
+        size: MAX_OPERATIONS,
+        sort: 'operationDate,desc',
+      });
+      setOperations(result.content);
+    } catch (err: any) {
+      console.error('Error loading operation history:', err);
+      setError(err.message || t('flow.forecastSuggestion.alerts.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const history = useMemo(() => {
+    const since = new Date(`${getToday()}T00:00:00`);
+    since.setDate(since.getDate() - BASELINE_HISTORY_DAYS);
+    const sinceDate = formatDate(since, 'yyyy-MM-dd');
+    return buildDailyHistory(operations, productId, operationTypeId).filter((point) => point.date >= sinceDate);
+  }, [operations, productId, operationTypeId]);
+
+  const dates = useMemo(
+    () => getForecastDates(startDate, singleDate ? 1 : horizon),
+    [startDate, singleDate, horizon]
+  );
+
+  const candidates = useMemo(
+    () =>
+      Object.fromEntries(
+        BASELINE_METHODS.map((candidate) => [candidate, generateBaseline(history, candidate, dates)])
+      ) as Record<BaselineMethod, BaselinePoint[]>,
+    [history, dates]
+  );
+
+  const chartData = useMemo(() => {
+    const past = history.slice(-CHART_HISTORY_DAYS).map((point) => ({
+      label: formatDate(point.date).substring(0, 5),
+      history: point.volume,
+    }));
+    const future = dates.map((date, i) => ({
+      label: formatDate(date).substring(0, 5),
+      ...Object.fromEntries(BASELINE_METHODS.map((candidate) => [candidate, candidates[candidate][i]?.value])),
+      band: candidates[method][i] ? [candidates[method][i].lower, candidates[method][i].upper] : undefined,
+    }));
+    return [...past, ...future];
+  }, [history, dates, candidates, method]);
+
+  const selected = candidates[method];
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{t('flow.forecastSuggestion.title')}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {t('flow.forecastSuggestion.description', { days: BASELINE_HISTORY_DAYS, count: history.length })}
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          <Grid item xs={12} sm={6}>
+            <TextField
+              fullWidth
+              select
+              size="small"
+              label={t('flow.forecastSuggestion.method')}
+              value={method}
+              onChange={(e) => setMethod(e.target.value as BaselineMethod)}
+            >
+              {BASELINE_METHODS.map((candidate) => (
+                <MenuItem key={candidate} value={candidate} disabled={history.length < MIN_HISTORY_POINTS[candidate]}>
+                  {t(`flow.forecastSuggestion.methods.${candidate}`)}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid item xs={12} sm={6}>
+            <TextField
+              fullWidth
+              type="number"
+              size="small"
+              label={t('flow.forecastSuggestion.horizon')}
+              value={singleDate ? 1 : horizon}
+              onChange={(e) => setHorizon(Math.min(MAX_HORIZON_DAYS, Math.max(1, Number(e.target.value) || 1)))}
+              disabled={singleDate}
+              inputProps={{ min: 1, max: MAX_HORIZON_DAYS }}
+              helperText={t('flow.forecastSuggestion.horizonHint', { start: formatDate(startDate) })}
+            />
+          </Grid>
+        </Grid>
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+            <CircularProgress />
+          </Box>
+        ) : selected.length === 0 ? (
+          <Alert severity="info">
+            {t('flow.forecastSuggestion.insufficientHistory', { count: MIN_HISTORY_POINTS[method] })}
+          </Alert>
+        ) : (
+          <>
+            <ResponsiveContainer width="100%" height={280}>
+              <ComposedChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+                <YAxis tickFormatter={(value: number) => value.toLocaleString()} />
+                <ChartTooltip
+                  formatter={(value: number | number[]) =>
+                    Array.isArray(value)
+                      ? `${value[0].toLocaleString()} - ${value[1].toLocaleString()} m³`
+                      : `${value.toLocaleString()} m³`
+                  }
+                />
+                <Legend />
+                <Area
+                  dataKey="band"
+                  name={t('flow.forecastSuggestion.band')}
+                  stroke="none"
+                  fill={METHOD_COLORS[method]}
+                  fillOpacity={0.15}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="history"
+                  name={t('flow.forecastSuggestion.history')}
+                  stroke="#16a34a"
+                  strokeWidth={2}
+                  dot={false}
+                />
+                {BASELINE_METHODS.map((candidate) => (
+                  <Line
+                    key={candidate}
+                    type="monotone"
+                    dataKey={candidate}
+                    name={t(`flow.forecastSuggestion.methods.${candidate}`)}
+                    stroke={METHOD_COLORS[candidate]}
+                    strokeWidth={candidate === method ? 2.5 : 1}
+                    strokeDasharray={candidate === method ? undefined : '4 4'}
+                    dot={candidate === method ? { r: 2 } : false}
+                  />
+                ))}
+              </ComposedChart>
+            </ResponsiveContainer>
+
+            <TableContainer sx={{ mt: 2, maxHeight: 240 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{t('flow.forecast.fields.date')}</TableCell>
+                    <TableCell align="right">{t('flow.forecastSuggestion.value')}</TableCell>
+                    <TableCell align="right">{t('flow.forecastSuggestion.band')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {selected.map((point) => (
+                    <TableRow key={point.date}>
+                      <TableCell>{formatDate(point.date)}</TableCell>
+                      <TableCell align="right">{point.value.toLocaleString()} m³</TableCell>
+                      <TableCell align="right">
+                        {point.lower.toLocaleString()} - {point.upper.toLocaleString()} m³
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('common.cancel')}</Button>
+        <Button variant="contained" onClick={() => onApply(selected, method)} disabled={loading || selected.length === 0}>
+          {t('flow.forecastSuggestion.apply', { count: selected.length })}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
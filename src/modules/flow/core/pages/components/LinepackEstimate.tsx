@@ -0,0 +1,226 @@
+/**
+ * LinepackEstimate Component
+ *
+ * Linepack calculated from the pipeline's geometry and the pressure and
+ * temperature being entered, shown next to the reported contained volume.
+ * Gaps beyond LINEPACK_DISCREPANCY_THRESHOLD are flagged.
+ *
+ * Watches the form values itself so the measurement inputs are not
+ * re-rendered while typing.
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Control, useWatch } from 'react-hook-form';
+import {
+  Box,
+  Chip,
+  Collapse,
+  IconButton,
+  LinearProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Calculate as CalculateIcon,
+  ExpandMore as ExpandMoreIcon,
+  ExpandLess as ExpandLessIcon,
+} from '@mui/icons-material';
+
+import { PipelineService, PipelineSegmentService, PipelineSystemService } from '@/modules/network/core/services';
+import { ProductService } from '@/modules/network/common/services';
+import {
+  LINEPACK_DISCREPANCY_THRESHOLD,
+  calculateLinepack,
+  getCompressibilityModel,
+  getLinepackDiscrepancy,
+} from '../../utils/linepackUtils';
+
+import type { PipelineDTO } from '@/modules/network/core/dto/PipelineDTO';
+import type { PipelineSegmentDTO } from '@/modules/network/core/dto/PipelineSegmentDTO';
+import type { ProductDTO } from '@/modules/network/common/dto/ProductDTO';
+
+interface LinepackEstimateProps {
+  control: Control<any>;
+  pipelineId: number;
+}
+
+const formatVolume = (value: number): string =>
+  `${value.toLocaleString(undefined, { maximumFractionDigits: 1 })} m³`;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const LinepackEstimate: React.FC<LinepackEstimateProps> = ({ control, pipelineId }) => {
+  const { t } = useTranslation();
+  const [pipeline, setPipeline] = useState<PipelineDTO | null>(null);
+  const [segments, setSegments] = useState<PipelineSegmentDTO[]>([]);
+  const [product, setProduct] = useState<ProductDTO | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showSegments, setShowSegments] = useState(false);
+
+  const [pressure, temperature, containedVolume] = useWatch({
+    control,
+    name: ['pressure', 'temperature', 'containedVolume'],
+  });
+
+  useEffect(() => {
+    loadGeometry();
+  }, [pipelineId]);
+
+  const loadGeometry = async () => {
+    try {
+      setLoading(true);
+      const [pipelineData, segmentData] = await Promise.all([
+        PipelineService.getById(pipelineId),
+        PipelineSegmentService.getByPipelineId(pipelineId).catch(() => [] as PipelineSegmentDTO[]),
+      ]);
+      const productId =
+        pipelineData.pipelineSystem?.productId ??
+        (await PipelineSystemService.getById(pipelineData.pipelineSystemId)).productId;
+      setPipeline(pipelineData);
+      setSegments(segmentData);
+      setProduct(await ProductService.getById(productId));
+    } catch (error) {
+      console.error('Error loading pipeline geometry:', error);
+      setPipeline(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const calculation = useMemo(
+    () =>
+      pipeline && product && isNumber(pressure) && isNumber(temperature)
+        ? calculateLinepack(pipeline, segments, product, pressure, temperature)
+        : null,
+    [pipeline, segments, product, pressure, temperature]
+  );
+
+  const model = product ? getCompressibilityModel(product) : null;
+
+  const discrepancy =
+    calculation && isNumber(containedVolume) ? getLinepackDiscrepancy(containedVolume, calculation.linepack) : null;
+  const flagged = discrepancy !== null && Math.abs(discrepancy) > LINEPACK_DISCREPANCY_THRESHOLD;
+
+  if (loading) {
+    return <LinearProgress sx={{ mt: 1 }} />;
+  }
+
+  if (!pipeline || !product) {
+    return (
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+        {t('flow.linepack.unavailable')}
+      </Typography>
+    );
+  }
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{ mt: 1, p: 2, border: 1, borderColor: flagged ? 'error.main' : 'divider', borderLeftWidth: 3 }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <CalculateIcon fontSize="small" color={flagged ? 'error' : 'action'} />
+        <Typography variant="body2" fontWeight="medium" sx={{ flex: 1 }}>
+          {t('flow.linepack.title')}
+        </Typography>
+        <Chip
+          size="small"
+          variant="outlined"
+          color={model?.kind === 'UNKNOWN' ? 'warning' : 'default'}
+          label={t(`flow.linepack.models.${model?.kind}`, { product: product.code })}
+        />
+      </Box>
+
+      {!calculation ? (
+        <Typography variant="body2" color="text.secondary">
+          {model?.kind === 'UNKNOWN'
+            ? t('flow.linepack.unknownModel')
+            : isNumber(pressure) && isNumber(temperature)
+              ? t('flow.linepack.noGeometry')
+              : t('flow.linepack.enterConditions')}
+        </Typography>
+      ) : (
+        <>
+          <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap', alignItems: 'baseline' }}>
+            <Box>
+              <Typography variant="caption" color="text.secondary">
+                {t('flow.linepack.calculated')}
+              </Typography>
+              <Typography variant="h6">{formatVolume(calculation.linepack)}</Typography>
+            </Box>
+            <Box>
+              <Typography variant="caption" color="text.secondary">
+                {t('flow.linepack.reported')}
+              </Typography>
+              <Typography variant="h6">{isNumber(containedVolume) ? formatVolume(containedVolume) : '-'}</Typography>
+            </Box>
+            {discrepancy !== null && (
+              <Chip
+                size="small"
+                color={flagged ? 'error' : 'success'}
+                label={t('flow.linepack.discrepancy', {
+                  value: `${discrepancy > 0 ? '+' : ''}${discrepancy.toFixed(1)}`,
+                })}
+              />
+            )}
+          </Box>
+
+          {flagged && (
+            <Typography variant="body2" color="error.main" sx={{ mt: 1 }}>
+              {t('flow.linepack.flagged', { threshold: LINEPACK_DISCREPANCY_THRESHOLD })}
+            </Typography>
+          )}
+
+          <Box sx={{ display: 'flex', alignItems: 'center', mt: 1 }}>
+            <Typography variant="caption" color="text.secondary" sx={{ flex: 1 }}>
+              {t(`flow.linepack.sources.${calculation.source}`, {
+                volume: formatVolume(calculation.geometricVolume),
+                factor: calculation.conversionFactor.toFixed(4),
+              })}
+            </Typography>
+            {calculation.segments.length > 0 && (
+              <Tooltip title={t('flow.linepack.showSegments')}>
+                <IconButton size="small" onClick={() => setShowSegments(!showSegments)}>
+                  {showSegments ? <ExpandLessIcon fontSize="small" /> : <ExpandMoreIcon fontSize="small" />}
+                </IconButton>
+              </Tooltip>
+            )}
+          </Box>
+
+          <Collapse in={showSegments}>
+            <Table size="small" sx={{ mt: 1 }}>
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('flow.linepack.columns.segment')}</TableCell>
+                  <TableCell align="right">{t('flow.linepack.columns.length')}</TableCell>
+                  <TableCell align="right">{t('flow.linepack.columns.geometricVolume')}</TableCell>
+                  <TableCell align="right">{t('flow.linepack.columns.linepack')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {calculation.segments.map(({ segment, geometricVolume, linepack }) => (
+                  <TableRow key={segment.id}>
+                    <TableCell>{segment.code}</TableCell>
+                    <TableCell align="right">{segment.length} km</TableCell>
+                    <TableCell align="right">{formatVolume(geometricVolume)}</TableCell>
+                    <TableCell align="right">{formatVolume(linepack)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Collapse>
+        </>
+      )}
+    </Paper>
+  );
+};
@@ -7,6 +7,8 @@
  * 
  * @author CHOUABBIA Amine
  * @created 01-25-2026
+ * @updated 10-19-2026 - Added calculated linepack next to contained volume
+ * @updated 10-19-2026 - Added disabled mode (validated readings)
  * @updated 02-05-2026 - Made context fields read-only when pre-populated from monitoring
  * @updated 02-05-2026 - Show threshold limits immediately before typing
  * @updated 02-05-2026 - Fixed out-of-range slot value warning by handling timing
@@ -41,6 +43,7 @@ import {
   Lock as LockIcon,
 } from '@mui/icons-material';
 
+import { LinepackEstimate } from './LinepackEstimate';
 import { ReadingSlotService } from '@/modules/flow/common/services';
 import { formatTimeRange, getLocalizedDesignation } from '@/modules/flow/common/dto/ReadingSlotDTO';
 import type { FlowThresholdDTO } from '@/modules/flow/core/dto/FlowThresholdDTO';
@@ -52,6 +55,7 @@ interface MeasurementFormProps {
   pipelineId: number;
   threshold?: FlowThresholdDTO;
   isFromMonitoring?: boolean; // NEW: Indicates if context is pre-populated from monitoring
+  disabled?: boolean; // Measurements are read-only (validated reading)
 }
 
 interface ThresholdStatus {
@@ -67,6 +71,7 @@ export const MeasurementForm: React.FC<MeasurementFormProps> = ({
   pipelineId,
   threshold,
   isFromMonitoring = false,
+  disabled = false,
 }) => {
   const [slots, setSlots] = useState<ReadingSlotDTO[]>([]);
   const [loadingSlots, setLoadingSlots] = useState(true);
@@ -212,6 +217,7 @@ export const MeasurementForm: React.FC<MeasurementFormProps> = ({
                 label={`${label} (${unit})`}
                 type="number"
                 fullWidth
+                disabled={disabled}
                 error={!!error || status?.color === 'error'}
                 helperText={error?.message}
                 inputProps={{
@@ -490,6 +496,7 @@ export const MeasurementForm: React.FC<MeasurementFormProps> = ({
             thresholdMax={threshold?.containedVolumeMax}
             tolerance={threshold?.alertTolerance}
           />
+          <LinepackEstimate control={control} pipelineId={pipelineId} />
         </Grid>
         
         {/* Notes */}
@@ -506,6 +513,7 @@ export const MeasurementForm: React.FC<MeasurementFormProps> = ({
                 multiline
                 rows={4}
                 fullWidth
+                disabled={disabled}
                 error={!!error}
                 helperText={
                   error?.message || 
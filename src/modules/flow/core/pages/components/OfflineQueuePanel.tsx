@@ -0,0 +1,221 @@
+/**
+ * OfflineQueuePanel Component
+ *
+ * Readings captured on this device and waiting for synchronization.
+ * Pending readings are replayed automatically when back online; readings
+ * in conflict with a server reading (same pipeline/date/slot) or rejected
+ * by the server are listed for the operator to resolve.
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Alert,
+  AlertTitle,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  CloudOff as CloudOffIcon,
+  CloudSync as CloudSyncIcon,
+  Delete as DeleteIcon,
+  Replay as ReplayIcon,
+  Publish as OverwriteIcon,
+} from '@mui/icons-material';
+
+import { ConfirmDialog } from '@/shared/components/ConfirmDialog';
+
+import type { QueuedReading } from '../../services/OfflineReadingQueueService';
+
+interface OfflineQueuePanelProps {
+  entries: QueuedReading[];
+  isOnline: boolean;
+  syncing: boolean;
+  onSync: () => void;
+  onDiscard: (localId: number) => Promise<void>;
+  onRetry: (entry: QueuedReading) => Promise<void>;
+  onOverwrite: (entry: QueuedReading) => Promise<void>;
+  onError: (message: string) => void;
+}
+
+const formatMeasurements = (entry: QueuedReading): string =>
+  [
+    entry.reading.pressure != null ? `P ${entry.reading.pressure} bar` : null,
+    entry.reading.temperature != null ? `T ${entry.reading.temperature} °C` : null,
+    entry.reading.flowRate != null ? `Q ${entry.reading.flowRate} m³/h` : null,
+    entry.reading.containedVolume != null ? `V ${entry.reading.containedVolume} m³` : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+export const OfflineQueuePanel: React.FC<OfflineQueuePanelProps> = ({
+  entries,
+  isOnline,
+  syncing,
+  onSync,
+  onDiscard,
+  onRetry,
+  onOverwrite,
+  onError,
+}) => {
+  const { t, i18n } = useTranslation();
+  const [entryToDiscard, setEntryToDiscard] = useState<QueuedReading | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  if (entries.length === 0) return null;
+
+  const pending = entries.filter((entry) => entry.status === 'PENDING');
+  const unresolved = entries.filter((entry) => entry.status !== 'PENDING');
+
+  const runAction = async (entry: QueuedReading, action: () => Promise<void>) => {
+    try {
+      setBusyId(entry.localId as number);
+      await action();
+    } catch (err: any) {
+      onError(err.response?.data?.message || err.message || t('flow.offline.alerts.actionError'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscardConfirm = async () => {
+    if (!entryToDiscard?.localId) return;
+    const entry = entryToDiscard;
+    setEntryToDiscard(null);
+    await runAction(entry, () => onDiscard(entry.localId as number));
+  };
+
+  return (
+    <Alert
+      severity={unresolved.length > 0 ? 'error' : 'warning'}
+      icon={isOnline ? <CloudSyncIcon /> : <CloudOffIcon />}
+      sx={{ mb: 3, '& .MuiAlert-message': { width: '100%' } }}
+      action={
+        <Button
+          color="inherit"
+          size="small"
+          onClick={onSync}
+          disabled={!isOnline || syncing || pending.length === 0}
+          startIcon={syncing ? <CircularProgress size={14} color="inherit" /> : <CloudSyncIcon />}
+        >
+          {t('flow.offline.syncNow')}
+        </Button>
+      }
+    >
+      <AlertTitle>
+        {t('flow.offline.title', { count: entries.length })}
+      </AlertTitle>
+      <Typography variant="body2">
+        {isOnline ? t('flow.offline.onlineMessage') : t('flow.offline.offlineMessage')}
+      </Typography>
+
+      {unresolved.length > 0 && (
+        <List dense disablePadding sx={{ mt: 1 }}>
+          {unresolved.map((entry) => (
+            <ListItem
+              key={entry.localId}
+              disableGutters
+              secondaryAction={
+                busyId === entry.localId ? (
+                  <CircularProgress size={20} />
+                ) : (
+                  <Box sx={{ display: 'flex', gap: 0.5 }}>
+                    {entry.status === 'CONFLICT' && entry.serverReading?.id && (
+                      <Tooltip title={t('flow.offline.actions.overwrite')}>
+                        <span>
+                          <IconButton
+                            size="small"
+                            color="warning"
+                            disabled={!isOnline}
+                            onClick={() => runAction(entry, () => onOverwrite(entry))}
+                          >
+                            <OverwriteIcon fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    )}
+                    <Tooltip title={t('flow.offline.actions.retry')}>
+                      <IconButton size="small" onClick={() => runAction(entry, () => onRetry(entry))}>
+                        <ReplayIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title={t('flow.offline.actions.discard')}>
+                      <IconButton size="small" color="error" onClick={() => setEntryToDiscard(entry)}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </Box>
+                )
+              }
+            >
+              <ListItemText
+                primary={
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, pr: 14 }}>
+                    <Chip
+                      label={t(`flow.offline.status.${entry.status}`)}
+                      color={entry.status === 'CONFLICT' ? 'warning' : 'error'}
+                      size="small"
+                    />
+                    <Typography variant="body2" fontWeight={600}>
+                      {entry.context.pipelineCode || `#${entry.reading.pipelineId}`}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {t('flow.offline.slotOn', {
+                        slot: entry.reading.readingSlotId,
+                        date: entry.reading.readingDate,
+                      })}
+                    </Typography>
+                  </Box>
+                }
+                secondary={
+                  <>
+                    {formatMeasurements(entry)}
+                    {' — '}
+                    {t('flow.offline.queuedAt', {
+                      date: new Date(entry.queuedAt).toLocaleString(i18n.language),
+                    })}
+                    {entry.status === 'CONFLICT' && (
+                      <>
+                        <br />
+                        {t('flow.offline.conflictMessage', {
+                          status: entry.serverReading?.validationStatus?.code || '-',
+                        })}
+                      </>
+                    )}
+                    {entry.error && (
+                      <>
+                        <br />
+                        {entry.error}
+                      </>
+                    )}
+                  </>
+                }
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+
+      <ConfirmDialog
+        open={!!entryToDiscard}
+        title={t('flow.offline.actions.discard')}
+        message={t('flow.offline.discardConfirm', {
+          pipeline: entryToDiscard?.context.pipelineCode || entryToDiscard?.reading.pipelineId,
+        })}
+        onConfirm={handleDiscardConfirm}
+        onCancel={() => setEntryToDiscard(null)}
+      />
+    </Alert>
+  );
+};
@@ -0,0 +1,271 @@
+/**
+ * ReadingComparisonPanel Component
+ *
+ * Side-by-side context for a reading under validation: the pipeline's
+ * previous slot, the same slot the day before, the 7-day mean/stdDev and
+ * the active threshold. Large deltas, probable decimal shifts and high
+ * z-scores are highlighted.
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Alert,
+  Box,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Divider,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+
+import { FlowReadingService } from '../../services/FlowReadingService';
+import {
+  COMPARISON_MEASUREMENTS,
+  DELTA_WARNING_RATIO,
+  Z_SCORE_CRITICAL,
+  buildReadingComparison,
+  getRelativeChange,
+  getZScore,
+  getZScoreSeverity,
+  isLikelyDecimalShift,
+} from '../../utils/readingComparisonUtils';
+import { getThresholdZone } from '../../utils/validationUtils';
+import { formatDate } from '@/shared/utils/dateTimeLocal';
+
+import type { ComparisonMeasurement, ReadingComparisonContext } from '../../utils/readingComparisonUtils';
+import type { FlowReadingDTO } from '../../dto/FlowReadingDTO';
+import type { FlowThresholdDTO } from '../../dto/FlowThresholdDTO';
+
+interface ReadingComparisonPanelProps {
+  reading: FlowReadingDTO;
+  /** Values under review (may differ from the stored reading) */
+  values: Partial<FlowReadingDTO>;
+  threshold?: FlowThresholdDTO;
+}
+
+/** Days of history used for the statistics */
+const STATS_WINDOW_DAYS = 7;
+
+const UNITS: Record<ComparisonMeasurement, string> = {
+  pressure: 'bar',
+  temperature: '°C',
+  flowRate: 'm³/h',
+  containedVolume: 'm³',
+};
+
+const shiftDate = (isoDate: string, days: number): string => {
+  const date = new Date(`${isoDate}T00:00:00`);
+  date.setDate(date.getDate() + days);
+  return formatDate(date, 'yyyy-MM-dd');
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && !Number.isNaN(value);
+
+export const ReadingComparisonPanel: React.FC<ReadingComparisonPanelProps> = ({ reading, values, threshold }) => {
+  const { t } = useTranslation();
+  const [context, setContext] = useState<ReadingComparisonContext | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadContext();
+  }, [reading.id, reading.pipelineId, reading.readingDate]);
+
+  const loadContext = async () => {
+    if (!reading.pipelineId || !reading.readingDate) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const history = await FlowReadingService.getByPipelineAndDateRange(
+        reading.pipelineId,
+        shiftDate(reading.readingDate, -STATS_WINDOW_DAYS),
+        reading.readingDate
+      );
+      setContext(buildReadingComparison(reading, history, shiftDate(reading.readingDate, -1)));
+    } catch (err: any) {
+      console.error('Error loading reading comparison:', err);
+      setError(err.message || t('flow.readingComparison.errors.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderReference = (field: ComparisonMeasurement, reference?: FlowReadingDTO) => {
+    const current = values[field];
+    const referenceValue = reference?.[field];
+    if (!isNumber(referenceValue)) {
+      return <Typography variant="body2" color="text.disabled">—</Typography>;
+    }
+
+    let delta: React.ReactNode = null;
+    if (isNumber(current)) {
+      const change = getRelativeChange(current, referenceValue);
+      const decimalShift = isLikelyDecimalShift(current, referenceValue);
+      const color = decimalShift
+        ? 'error.main'
+        : change !== null && Math.abs(change) >= DELTA_WARNING_RATIO ? 'warning.main' : 'text.secondary';
+      const difference = current - referenceValue;
+      delta = (
+        <Tooltip title={decimalShift ? t('flow.readingComparison.decimalShift') : ''}>
+          <Typography variant="caption" sx={{ color, fontWeight: color === 'text.secondary' ? 400 : 700 }}>
+            {difference >= 0 ? '+' : ''}{difference.toFixed(2)}
+            {change !== null && ` (${difference >= 0 ? '+' : ''}${(change * 100).toFixed(0)}%)`}
+          </Typography>
+        </Tooltip>
+      );
+    }
+
+    return (
+      <Box>
+        <Typography variant="body2">{referenceValue.toFixed(2)}</Typography>
+        {delta}
+      </Box>
+    );
+  };
+
+  const renderThreshold = (field: ComparisonMeasurement) => {
+    const current = values[field];
+    const min = threshold?.[`${field}Min`];
+    const max = threshold?.[`${field}Max`];
+    if (!isNumber(min) || !isNumber(max)) {
+      return <Typography variant="body2" color="text.disabled">—</Typography>;
+    }
+    const zone = isNumber(current) ? getThresholdZone(current, min, max, threshold?.alertTolerance ?? 0) : null;
+    return (
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Typography variant="body2">{min} – {max}</Typography>
+        {zone && (
+          <Chip
+            size="small"
+            label={t(`flow.readingComparison.zone.${zone}`)}
+            color={zone === 'BREACH' ? 'error' : zone === 'WARNING' ? 'warning' : 'success'}
+          />
+        )}
+      </Box>
+    );
+  };
+
+  // Measurements most likely keyed wrong, summarized above the table
+  const suspicious = context
+    ? COMPARISON_MEASUREMENTS.filter((field) => {
+        const current = values[field];
+        if (!isNumber(current)) return false;
+        const statistics = context.statistics[field];
+        const zScore = statistics ? getZScore(current, statistics) : null;
+        const references = [context.previousSlot?.[field], context.sameSlotYesterday?.[field]].filter(isNumber);
+        return (zScore !== null && Math.abs(zScore) >= Z_SCORE_CRITICAL)
+          || references.some((reference) => isLikelyDecimalShift(current, reference));
+      })
+    : [];
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Typography variant="subtitle1" gutterBottom>
+          {t('flow.readingComparison.title')}
+        </Typography>
+        <Divider sx={{ my: 1 }} />
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+            <CircularProgress size={28} />
+          </Box>
+        ) : error ? (
+          <Alert severity="error">{error}</Alert>
+        ) : context && (
+          <>
+            {suspicious.length > 0 && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                {t('flow.readingComparison.suspicious', {
+                  fields: suspicious.map((field) => t(`flow.readingComparison.measurements.${field}`)).join(', '),
+                })}
+              </Alert>
+            )}
+            <Box sx={{ overflowX: 'auto' }}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{t('flow.readingComparison.columns.measurement')}</TableCell>
+                    <TableCell>{t('flow.readingComparison.columns.current')}</TableCell>
+                    <TableCell>
+                      {t('flow.readingComparison.columns.previousSlot')}
+                      {context.previousSlot && (
+                        <Typography variant="caption" color="text.secondary" display="block">
+                          {formatDate(context.previousSlot.readingDate)} · {context.previousSlot.readingSlot?.code}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{t('flow.readingComparison.columns.sameSlotYesterday')}</TableCell>
+                    <TableCell>{t('flow.readingComparison.columns.mean', { days: STATS_WINDOW_DAYS })}</TableCell>
+                    <TableCell>{t('flow.readingComparison.columns.zScore')}</TableCell>
+                    <TableCell>{t('flow.readingComparison.columns.threshold')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {COMPARISON_MEASUREMENTS.map((field) => {
+                    const current = values[field];
+                    const statistics = context.statistics[field];
+                    const zScore = statistics && isNumber(current) ? getZScore(current, statistics) : null;
+                    return (
+                      <TableRow key={field}>
+                        <TableCell>
+                          {t(`flow.readingComparison.measurements.${field}`)}
+                          <Typography variant="caption" color="text.secondary"> ({UNITS[field]})</Typography>
+                        </TableCell>
+                        <TableCell>
+                          <Typography variant="body2" fontWeight={600}>
+                            {isNumber(current) ? current.toFixed(2) : '—'}
+                          </Typography>
+                        </TableCell>
+                        <TableCell>{renderReference(field, context.previousSlot)}</TableCell>
+                        <TableCell>{renderReference(field, context.sameSlotYesterday)}</TableCell>
+                        <TableCell>
+                          {statistics ? (
+                            <Typography variant="body2">
+                              {statistics.avg.toFixed(2)} ± {statistics.stdDev.toFixed(2)}
+                            </Typography>
+                          ) : (
+                            <Typography variant="body2" color="text.disabled">—</Typography>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {zScore !== null ? (
+                            <Chip
+                              size="small"
+                              label={`z = ${zScore >= 0 ? '+' : ''}${zScore.toFixed(1)}`}
+                              color={getZScoreSeverity(zScore)}
+                              variant={getZScoreSeverity(zScore) === 'success' ? 'outlined' : 'filled'}
+                            />
+                          ) : (
+                            <Typography variant="body2" color="text.disabled">—</Typography>
+                          )}
+                        </TableCell>
+                        <TableCell>{renderThreshold(field)}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </Box>
+            {Object.keys(context.statistics).length === 0 && (
+              <Typography variant="caption" color="text.secondary">
+                {t('flow.readingComparison.noHistory', { days: STATS_WINDOW_DAYS })}
+              </Typography>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
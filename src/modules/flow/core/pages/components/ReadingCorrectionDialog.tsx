@@ -0,0 +1,205 @@
+/**
+ * ReadingCorrectionDialog Component
+ *
+ * Request a correction of a validated reading. The corrected values are
+ * submitted as a new revision that goes through validation again; the
+ * validated revision stays in effect until then.
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Alert,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  Grid,
+  TextField,
+} from '@mui/material';
+
+import { ReadingWorkflowService } from '@/modules/flow/workflow/services';
+import { getRevisionChanges } from '../../utils/readingRevisionUtils';
+import { validateFlowReading } from '../../utils/validationUtils';
+
+import type { FlowReadingDTO } from '../../dto/FlowReadingDTO';
+
+interface ReadingCorrectionDialogProps {
+  open: boolean;
+  reading: FlowReadingDTO;
+  employeeId: number;
+  onClose: () => void;
+  onCorrected: (revision: FlowReadingDTO) => void;
+}
+
+const MEASUREMENT_FIELDS = [
+  { key: 'pressure', unit: 'bar' },
+  { key: 'temperature', unit: '°C' },
+  { key: 'flowRate', unit: 'm³/h' },
+  { key: 'containedVolume', unit: 'm³' },
+] as const;
+
+type MeasurementKey = (typeof MEASUREMENT_FIELDS)[number]['key'];
+
+const toText = (value?: number): string => (value === undefined || value === null ? '' : String(value));
+
+const toNumber = (text: string): number | undefined => (text.trim() === '' ? undefined : Number(text));
+
+export const ReadingCorrectionDialog: React.FC<ReadingCorrectionDialogProps> = ({
+  open,
+  reading,
+  employeeId,
+  onClose,
+  onCorrected,
+}) => {
+  const { t } = useTranslation();
+  const [values, setValues] = useState<Record<MeasurementKey, string>>({
+    pressure: '',
+    temperature: '',
+    flowRate: '',
+    containedVolume: '',
+  });
+  const [notes, setNotes] = useState('');
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setValues({
+        pressure: toText(reading.pressure),
+        temperature: toText(reading.temperature),
+        flowRate: toText(reading.flowRate),
+        containedVolume: toText(reading.containedVolume),
+      });
+      setNotes(reading.notes || '');
+      setReason('');
+      setError(null);
+    }
+  }, [open, reading]);
+
+  const corrected: FlowReadingDTO = {
+    ...reading,
+    pressure: toNumber(values.pressure),
+    temperature: toNumber(values.temperature),
+    flowRate: toNumber(values.flowRate),
+    containedVolume: toNumber(values.containedVolume),
+    notes: notes.trim() || undefined,
+  };
+  const changes = getRevisionChanges(corrected, reading);
+  const validationErrors = validateFlowReading(corrected);
+  const reasonValid = reason.trim().length >= 5;
+  const canSubmit = changes.length > 0 && validationErrors.length === 0 && reasonValid && !submitting;
+
+  const handleSubmit = async () => {
+    if (!reading.id) return;
+    try {
+      setSubmitting(true);
+      setError(null);
+      const revision = await ReadingWorkflowService.requestCorrection(reading.id, {
+        requestedById: employeeId,
+        correctionReason: reason,
+        pressure: corrected.pressure,
+        temperature: corrected.temperature,
+        flowRate: corrected.flowRate,
+        containedVolume: corrected.containedVolume,
+        notes: corrected.notes,
+      });
+      onCorrected(revision);
+    } catch (err: any) {
+      setError(err.message || t('flow.readingRevision.errors.correctionFailed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={() => !submitting && onClose()} maxWidth="sm" fullWidth>
+      <DialogTitle>{t('flow.readingRevision.dialog.title')}</DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 2 }}>
+          {t('flow.readingRevision.dialog.description')}
+        </DialogContentText>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Grid container spacing={2}>
+          {MEASUREMENT_FIELDS.map(({ key, unit }) => (
+            <Grid item xs={6} key={key}>
+              <TextField
+                fullWidth
+                size="small"
+                type="number"
+                label={`${t(`flow.readingRevision.fields.${key}`)} (${unit})`}
+                value={values[key]}
+                onChange={(e) => setValues((prev) => ({ ...prev, [key]: e.target.value }))}
+                helperText={
+                  changes.includes(key)
+                    ? t('flow.readingRevision.dialog.was', { value: toText(reading[key]) || '—' })
+                    : ' '
+                }
+                FormHelperTextProps={{ sx: { color: changes.includes(key) ? 'warning.dark' : undefined } }}
+                disabled={submitting}
+              />
+            </Grid>
+          ))}
+          <Grid item xs={12}>
+            <TextField
+              fullWidth
+              size="small"
+              multiline
+              rows={2}
+              label={t('flow.readingRevision.fields.notes')}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              disabled={submitting}
+            />
+          </Grid>
+          <Grid item xs={12}>
+            <TextField
+              fullWidth
+              required
+              multiline
+              rows={2}
+              label={t('flow.readingRevision.reason')}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              error={reason.trim().length > 0 && !reasonValid}
+              helperText={t('flow.readingRevision.dialog.reasonHelper')}
+              disabled={submitting}
+            />
+          </Grid>
+        </Grid>
+
+        {validationErrors.length > 0 && (
+          <Alert severity="warning" sx={{ mt: 2 }}>
+            {validationErrors.join(' · ')}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={submitting}>
+          {t('common.cancel')}
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSubmit}
+          disabled={!canSubmit}
+          startIcon={submitting ? <CircularProgress size={16} color="inherit" /> : undefined}
+        >
+          {t('flow.readingRevision.dialog.submit')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
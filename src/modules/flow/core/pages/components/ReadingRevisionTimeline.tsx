@@ -0,0 +1,187 @@
+/**
+ * ReadingRevisionTimeline Component
+ *
+ * Revisions of a reading, from the original to the latest correction,
+ * with their validation status, correction reason and the values changed
+ * from the previous revision. Hidden while the reading has no correction.
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Alert,
+  Box,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Divider,
+  Link,
+  Step,
+  StepContent,
+  StepLabel,
+  Stepper,
+  Typography,
+} from '@mui/material';
+
+import { FlowReadingService } from '../../services/FlowReadingService';
+import { REVISED_FIELDS, getRevisionChanges, isEffectiveRevision } from '../../utils/readingRevisionUtils';
+import { formatDateTime } from '../../utils/formattingUtils';
+
+import type { FlowReadingDTO } from '../../dto/FlowReadingDTO';
+
+interface ReadingRevisionTimelineProps {
+  readingId: number;
+  /** Change to reload the revisions (e.g. after a correction request) */
+  refreshKey?: number;
+  onOpenRevision?: (id: number) => void;
+}
+
+const STATUS_COLORS: Record<string, 'success' | 'warning' | 'error' | 'default'> = {
+  VALIDATED: 'success',
+  SUBMITTED: 'warning',
+  REJECTED: 'error',
+};
+
+const getEmployeeName = (employee?: { firstNameLt: string; lastNameLt: string }): string =>
+  employee ? `${employee.firstNameLt} ${employee.lastNameLt}` : '-';
+
+export const ReadingRevisionTimeline: React.FC<ReadingRevisionTimelineProps> = ({
+  readingId,
+  refreshKey,
+  onOpenRevision,
+}) => {
+  const { t } = useTranslation();
+  const [revisions, setRevisions] = useState<FlowReadingDTO[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [readingId, refreshKey]);
+
+  const loadRevisions = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await FlowReadingService.getRevisions(readingId);
+      setRevisions([...result].sort((a, b) => (a.revisionNumber ?? 1) - (b.revisionNumber ?? 1)));
+    } catch (err: any) {
+      console.error('Error loading reading revisions:', err);
+      setError(err.message || t('flow.readingRevision.errors.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!loading && !error && revisions.length <= 1) return null;
+
+  const formatFieldValue = (reading: FlowReadingDTO, field: (typeof REVISED_FIELDS)[number]): string => {
+    const value = reading[field];
+    if (value === undefined || value === null || value === '') return '—';
+    return typeof value === 'number' ? value.toFixed(2) : value;
+  };
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Typography variant="subtitle1" gutterBottom>
+          {t('flow.readingRevision.title')}
+        </Typography>
+        <Divider sx={{ my: 1 }} />
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : error ? (
+          <Alert severity="error">{error}</Alert>
+        ) : (
+          <Stepper orientation="vertical" activeStep={revisions.findIndex((revision) => revision.id === readingId)}>
+            {revisions.map((revision, index) => {
+              const previous = index > 0 ? revisions[index - 1] : undefined;
+              const changes = getRevisionChanges(revision, previous);
+              const statusCode = revision.validationStatus?.code || '';
+              return (
+                <Step key={revision.id} expanded completed={false}>
+                  <StepLabel>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                      {revision.id !== readingId && onOpenRevision ? (
+                        <Link component="button" variant="body2" onClick={() => onOpenRevision(revision.id as number)}>
+                          {t('flow.readingRevision.revision', { number: revision.revisionNumber ?? index + 1 })}
+                        </Link>
+                      ) : (
+                        <Typography variant="body2" fontWeight={600}>
+                          {t('flow.readingRevision.revision', { number: revision.revisionNumber ?? index + 1 })}
+                        </Typography>
+                      )}
+                      <Chip
+                        size="small"
+                        label={revision.validationStatus?.designationEn || statusCode || '-'}
+                        color={STATUS_COLORS[statusCode] || 'default'}
+                      />
+                      {isEffectiveRevision(revision) && (
+                        <Chip size="small" variant="outlined" color="primary" label={t('flow.readingRevision.effective')} />
+                      )}
+                      {revision.superseded && (
+                        <Chip size="small" variant="outlined" label={t('flow.readingRevision.superseded')} />
+                      )}
+                    </Box>
+                  </StepLabel>
+                  <StepContent>
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      {t('flow.readingRevision.recorded', {
+                        name: getEmployeeName(revision.recordedBy),
+                        date: formatDateTime(revision.recordedAt),
+                      })}
+                      {revision.validatedAt && (
+                        <>
+                          {' · '}
+                          {t('flow.readingRevision.validated', {
+                            name: getEmployeeName(revision.validatedBy),
+                            date: formatDateTime(revision.validatedAt),
+                          })}
+                        </>
+                      )}
+                    </Typography>
+                    {revision.correctionReason && (
+                      <Typography variant="body2" sx={{ mt: 0.5 }}>
+                        <strong>{t('flow.readingRevision.reason')}:</strong> {revision.correctionReason}
+                      </Typography>
+                    )}
+                    <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mt: 1 }}>
+                      {REVISED_FIELDS.filter((field) => field !== 'notes').map((field) => {
+                        const changed = changes.includes(field);
+                        return (
+                          <Box key={field}>
+                            <Typography variant="caption" color="text.secondary" display="block">
+                              {t(`flow.readingRevision.fields.${field}`)}
+                            </Typography>
+                            <Typography
+                              variant="body2"
+                              sx={changed ? { fontWeight: 700, color: 'warning.dark' } : undefined}
+                            >
+                              {changed && previous && (
+                                <Box component="span" sx={{ textDecoration: 'line-through', color: 'text.disabled', mr: 0.5 }}>
+                                  {formatFieldValue(previous, field)}
+                                </Box>
+                              )}
+                              {formatFieldValue(revision, field)}
+                            </Typography>
+                          </Box>
+                        );
+                      })}
+                    </Box>
+                  </StepContent>
+                </Step>
+              );
+            })}
+          </Stepper>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
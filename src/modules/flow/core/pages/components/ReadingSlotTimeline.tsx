@@ -0,0 +1,157 @@
+/**
+ * ReadingSlotTimeline Component
+ *
+ * 24-hour preview of the reading slots of a day.
+ * Uncovered periods are hatched in red and overlapping periods outlined.
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Box, Tooltip, Typography, alpha } from '@mui/material';
+
+import {
+  getLocalizedDesignation,
+  formatTimeRange,
+} from '@/modules/flow/common/dto/ReadingSlotDTO';
+import {
+  MINUTES_PER_DAY,
+  findCoverageGaps,
+  findSlotOverlaps,
+  getSlotRange,
+  hasValidSlotRange,
+  minutesToTime,
+} from '@/modules/flow/common/utils/readingSlotUtils';
+
+import type { ReadingSlotDTO } from '@/modules/flow/common/dto/ReadingSlotDTO';
+
+interface ReadingSlotTimelineProps {
+  slots: ReadingSlotDTO[];
+  /** Slot drawn in the accent color (e.g. the slot being edited) */
+  highlightedSlot?: ReadingSlotDTO;
+}
+
+const SLOT_COLORS = ['#2563eb', '#0891b2', '#7c3aed', '#059669', '#d97706', '#db2777'];
+const HOUR_TICKS = [0, 3, 6, 9, 12, 15, 18, 21, 24];
+
+const toPercent = (minutes: number): string => `${(minutes / MINUTES_PER_DAY) * 100}%`;
+
+export const ReadingSlotTimeline: React.FC<ReadingSlotTimelineProps> = ({ slots, highlightedSlot }) => {
+  const { t, i18n } = useTranslation();
+  const currentLang = i18n.language as 'ar' | 'en' | 'fr';
+
+  const allSlots = highlightedSlot
+    ? [...slots.filter((slot) => slot.id === undefined || slot.id !== highlightedSlot.id), highlightedSlot]
+    : slots;
+  const drawnSlots = allSlots.filter(hasValidSlotRange);
+  const gaps = findCoverageGaps(allSlots);
+  const overlaps = findSlotOverlaps(allSlots);
+
+  return (
+    <Box>
+      <Box
+        sx={{
+          position: 'relative',
+          height: 56,
+          borderRadius: 1,
+          border: 1,
+          borderColor: 'divider',
+          bgcolor: 'grey.50',
+          overflow: 'hidden',
+          direction: 'ltr',
+        }}
+      >
+        {gaps.map((gap) => (
+          <Tooltip
+            key={`gap-${gap.start}`}
+            title={t('flow.readingSlot.timeline.gap', { start: minutesToTime(gap.start), end: minutesToTime(gap.end) })}
+          >
+            <Box
+              sx={{
+                position: 'absolute',
+                top: 0,
+                bottom: 0,
+                left: toPercent(gap.start),
+                width: toPercent(gap.end - gap.start),
+                background: `repeating-linear-gradient(45deg, ${alpha('#dc2626', 0.15)} 0 6px, transparent 6px 12px)`,
+              }}
+            />
+          </Tooltip>
+        ))}
+
+        {drawnSlots.map((slot, index) => {
+          const range = getSlotRange(slot);
+          const isHighlighted = slot === highlightedSlot;
+          const color = isHighlighted ? '#ea580c' : SLOT_COLORS[index % SLOT_COLORS.length];
+
+          return (
+            <Tooltip
+              key={slot.id ?? `draft-${index}`}
+              title={`${slot.code} · ${formatTimeRange(slot)} · ${getLocalizedDesignation(slot, currentLang)}`}
+            >
+              <Box
+                sx={{
+                  position: 'absolute',
+                  top: 8,
+                  bottom: 8,
+                  left: toPercent(range.start),
+                  width: toPercent(range.end - range.start),
+                  bgcolor: alpha(color, isHighlighted ? 0.85 : 0.7),
+                  border: '1px solid white',
+                  borderRadius: 0.5,
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  overflow: 'hidden',
+                }}
+              >
+                <Typography variant="caption" color="white" fontWeight={600} noWrap sx={{ px: 0.5 }}>
+                  {slot.code}
+                </Typography>
+              </Box>
+            </Tooltip>
+          );
+        })}
+
+        {overlaps.map((overlap) => (
+          <Tooltip
+            key={`overlap-${overlap.first.code}-${overlap.second.code}`}
+            title={t('flow.readingSlot.timeline.overlap', { first: overlap.first.code, second: overlap.second.code })}
+          >
+            <Box
+              sx={{
+                position: 'absolute',
+                top: 2,
+                bottom: 2,
+                left: toPercent(overlap.range.start),
+                width: toPercent(overlap.range.end - overlap.range.start),
+                border: '2px solid #dc2626',
+                borderRadius: 0.5,
+              }}
+            />
+          </Tooltip>
+        ))}
+      </Box>
+
+      {/* Hour scale */}
+      <Box sx={{ position: 'relative', height: 18, direction: 'ltr' }}>
+        {HOUR_TICKS.map((hour) => (
+          <Typography
+            key={hour}
+            variant="caption"
+            color="text.secondary"
+            sx={{
+              position: 'absolute',
+              left: toPercent(hour * 60),
+              transform: hour === 0 ? 'none' : hour === 24 ? 'translateX(-100%)' : 'translateX(-50%)',
+            }}
+          >
+            {minutesToTime(hour * 60)}
+          </Typography>
+        ))}
+      </Box>
+    </Box>
+  );
+};
@@ -0,0 +1,165 @@
+/**
+ * SlotDeadlineCountdown Component
+ *
+ * Live countdown to the slot deadline with the number of pipelines still
+ * to record, and the reminder settings (offsets before the deadline,
+ * browser notifications).
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  AlarmOn as AlarmIcon,
+  NotificationsActive as NotificationsIcon,
+  Settings as SettingsIcon,
+} from '@mui/icons-material';
+
+import { formatCountdown, parseReminderOffsets } from '../../utils/slotDeadlineUtils';
+import { formatTime } from '@/shared/utils/dateTimeLocal';
+
+interface SlotDeadlineCountdownProps {
+  deadline: Date;
+  pendingCount: number;
+  offsets: number[];
+  onOffsetsChange: (offsets: number[]) => void;
+}
+
+const TICK_INTERVAL = 1000;
+
+const notificationsSupported = typeof window !== 'undefined' && 'Notification' in window;
+
+export const SlotDeadlineCountdown: React.FC<SlotDeadlineCountdownProps> = ({
+  deadline,
+  pendingCount,
+  offsets,
+  onOffsetsChange,
+}) => {
+  const { t } = useTranslation();
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [offsetsText, setOffsetsText] = useState('');
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    notificationsSupported ? Notification.permission : 'unsupported'
+  );
+
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), TICK_INTERVAL);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const remainingMs = deadline.getTime() - now;
+  const isOverdue = remainingMs <= 0;
+  const largestOffset = offsets.length > 0 ? Math.max(...offsets) : 0;
+  const color = isOverdue
+    ? 'error'
+    : pendingCount > 0 && remainingMs <= largestOffset * 60000 ? 'warning' : 'success';
+  const parsedOffsets = parseReminderOffsets(offsetsText);
+
+  const openSettings = () => {
+    setOffsetsText(offsets.join(', '));
+    setSettingsOpen(true);
+  };
+
+  const handleSave = () => {
+    if (!parsedOffsets) return;
+    onOffsetsChange(parsedOffsets);
+    setSettingsOpen(false);
+  };
+
+  const handleEnableNotifications = async () => {
+    if (!notificationsSupported) return;
+    setPermission(await Notification.requestPermission());
+  };
+
+  return (
+    <Card sx={{ mb: 3, borderLeft: 4, borderColor: `${color}.main` }}>
+      <CardContent sx={{ display: 'flex', alignItems: 'center', gap: 3, flexWrap: 'wrap', py: 1.5, '&:last-child': { pb: 1.5 } }}>
+        <AlarmIcon color={color} fontSize="large" />
+        <Box>
+          <Typography variant="body2" color="text.secondary">
+            {isOverdue ? t('flow.slotDeadline.overdueSince') : t('flow.slotDeadline.timeLeft')}
+          </Typography>
+          <Typography variant="h5" color={`${color}.main`} fontWeight={700} sx={{ fontVariantNumeric: 'tabular-nums' }}>
+            {isOverdue && '-'}{formatCountdown(remainingMs)}
+          </Typography>
+        </Box>
+        <Box>
+          <Typography variant="body2" color="text.secondary">
+            {t('flow.slotDeadline.deadline')}
+          </Typography>
+          <Typography variant="h6">{formatTime(deadline)}</Typography>
+        </Box>
+        <Chip
+          color={pendingCount === 0 ? 'success' : color}
+          label={
+            pendingCount === 0
+              ? t('flow.slotDeadline.allRecorded')
+              : t('flow.slotDeadline.pending', { count: pendingCount })
+          }
+        />
+        <Box sx={{ flexGrow: 1 }} />
+        <Typography variant="caption" color="text.secondary">
+          {t('flow.slotDeadline.remindersAt', { offsets: offsets.join(', ') })}
+        </Typography>
+        <Tooltip title={t('flow.slotDeadline.settings.title')}>
+          <IconButton size="small" onClick={openSettings}>
+            <SettingsIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </CardContent>
+
+      <Dialog open={settingsOpen} onClose={() => setSettingsOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>{t('flow.slotDeadline.settings.title')}</DialogTitle>
+        <DialogContent>
+          <TextField
+            fullWidth
+            autoFocus
+            label={t('flow.slotDeadline.settings.offsets')}
+            value={offsetsText}
+            onChange={(e) => setOffsetsText(e.target.value)}
+            error={!parsedOffsets}
+            helperText={t('flow.slotDeadline.settings.offsetsHelper')}
+            sx={{ mt: 1, mb: 2 }}
+          />
+          {permission === 'unsupported' ? (
+            <Alert severity="info">{t('flow.slotDeadline.settings.notificationsUnsupported')}</Alert>
+          ) : permission === 'granted' ? (
+            <Alert severity="success">{t('flow.slotDeadline.settings.notificationsEnabled')}</Alert>
+          ) : permission === 'denied' ? (
+            <Alert severity="warning">{t('flow.slotDeadline.settings.notificationsDenied')}</Alert>
+          ) : (
+            <Button startIcon={<NotificationsIcon />} onClick={handleEnableNotifications}>
+              {t('flow.slotDeadline.settings.enableNotifications')}
+            </Button>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSettingsOpen(false)}>{t('common.cancel')}</Button>
+          <Button variant="contained" onClick={handleSave} disabled={!parsedOffsets}>
+            {t('common.save')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
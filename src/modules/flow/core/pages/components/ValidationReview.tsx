@@ -6,6 +6,7 @@
  * 
  * @author CHOUABBIA Amine
  * @created 01-25-2026
+ * @updated 10-19-2026 - Added side-by-side comparison with recent readings in validation mode
  * @updated 02-11-2026 13:10 - Fixed: validate() only accepts 2 parameters
  * @updated 02-11-2026 13:00 - Replace FlowMonitoringService with ReadingWorkflowService
  * @updated 02-11-2026 13:00 - Use centralized date/time formatting from shared/utils
@@ -45,6 +46,7 @@ import {
 } from '@mui/icons-material';
 
 import { ReadingWorkflowService } from '@/modules/flow/workflow/services';
+import { ReadingComparisonPanel } from './ReadingComparisonPanel';
 import { formatDateTime } from '@/shared/utils/dateTimeLocal';
 
 import type { FlowReadingDTO } from '@/modules/flow/core/dto/FlowReadingDTO';
@@ -285,6 +287,11 @@ export const ValidationReview: React.FC<ValidationReviewProps> = ({
         </Card>
       )}
       
+      {/* Comparison with recent readings (validation mode) */}
+      {isValidationMode && existingReading && (
+        <ReadingComparisonPanel reading={existingReading} values={formData} threshold={threshold} />
+      )}
+      
       {/* Measurement Values */}
       <Card sx={{ mb: 3 }}>
         <CardContent>
@@ -3,6 +3,14 @@
  * 
  * @author CHOUABBIA Amine
  * @created 01-25-2026
+ * @updated 10-19-2026 - Added ForecastPlanning
+ * @updated 10-19-2026 - Added ForecastAnalytics
+ * @updated 10-19-2026 - Added SlotHeatmap
+ * @updated 10-19-2026 - Added ValidationQueue
+ * @updated 10-19-2026 - Added ReadingImport
+ * @updated 10-19-2026 - Added ReadingSlotList and ReadingSlotEdit
+ * @updated 10-19-2026 - Added AlertList
+ * @updated 10-19-2026 - Added EventList and EventEdit
  * @updated 02-04-2026 - Added SlotMonitoring
  * @updated 01-31-2026 - Added OperationValidation
  * @updated 01-28-2026 - Added ThresholdList and ThresholdEdit
@@ -10,13 +18,23 @@
  */
 
 export { default as SlotMonitoring } from './SlotMonitoring';
+export { SlotHeatmap } from './SlotHeatmap';
 export { ReadingList } from './ReadingList';
 export { ReadingEdit } from './ReadingEdit';
+export { ReadingImport } from './ReadingImport';
 export { PendingReadingsList } from './PendingReadingsList';
+export { ValidationQueue } from './ValidationQueue';
 export { ThresholdList } from './ThresholdList';
 export { ThresholdEdit } from './ThresholdEdit';
 export { ForecastList } from './ForecastList';
 export { ForecastEdit } from './ForecastEdit';
+export { ForecastAnalytics } from './ForecastAnalytics';
+export { ForecastPlanning } from './ForecastPlanning';
 export { OperationList } from './OperationList';
 export { OperationEdit } from './OperationEdit';
 export { OperationValidation } from './OperationValidation';
+export { EventList } from './EventList';
+export { EventEdit } from './EventEdit';
+export { AlertList } from './AlertList';
+export { ReadingSlotList } from './ReadingSlotList';
+export { ReadingSlotEdit } from './ReadingSlotEdit';
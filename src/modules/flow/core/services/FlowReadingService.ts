@@ -12,6 +12,7 @@
  * @updated 01-28-2026 - Added slot-based query methods
  * @updated 01-28-2026 - Fixed getLatestByPipeline to handle wrapped responses
  * @updated 02-11-2026 - Removed workflow methods (moved to ReadingWorkflowService)
+ * @updated 10-19-2026 - Added getRevisions (correction workflow, proposed endpoint)
  */
 
 import axiosInstance from '@/shared/config/axios';
@@ -246,6 +247,19 @@ export class FlowReadingService {
     return response.data;
   }
 
+  /**
+   * Get all revisions of a reading (original and corrections)
+   * Backend: GET /flow/core/reading/{id}/revisions
+   * PROPOSED - the backend does not expose this endpoint yet
+   * 
+   * @param id - ID of any revision of the reading
+   * @returns Array of revisions ordered by revision number
+   */
+  static async getRevisions(id: number): Promise<FlowReadingDTO[]> {
+    const response = await axiosInstance.get<FlowReadingDTO[]>(`${BASE_URL}/${id}/revisions`);
+    return response.data;
+  }
+
   /**
    * Get readings for a pipeline within a date range
    * Backend: GET /flow/core/reading/pipeline/{pipelineId}/range?startDate={start}&endDate={end}
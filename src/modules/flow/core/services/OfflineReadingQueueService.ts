@@ -0,0 +1,268 @@
+/**
+ * OfflineReadingQueue Service - Flow Core Module
+ *
+ * Local IndexedDB queue for readings captured without network.
+ * Queued readings keep their slot/pipeline context and are replayed in
+ * capture order when the connection returns. Before each replay the server
+ * is checked for a reading already recorded on the same pipeline/date/slot;
+ * such entries are kept as CONFLICT for the operator to resolve.
+ *
+ * Reference data needed to capture offline (validation statuses, current
+ * slot context) is cached in the same database while online.
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ * @updated 10-19-2026 - Conflict check ignores superseded and pending revisions
+ */
+
+import { FlowReadingService } from './FlowReadingService';
+import { SlotCoverageService } from './SlotCoverageService';
+import { getEffectiveReadings } from '../utils/readingRevisionUtils';
+import type { FlowReadingDTO } from '../dto/FlowReadingDTO';
+
+const DB_NAME = 'hyflo-offline';
+const DB_VERSION = 1;
+const QUEUE_STORE = 'flowReadingQueue';
+const CACHE_STORE = 'referenceCache';
+
+/** Window event dispatched whenever the queue content changes */
+export const OFFLINE_QUEUE_CHANGED_EVENT = 'hyflo:offline-reading-queue-changed';
+
+export type QueuedReadingStatus = 'PENDING' | 'CONFLICT' | 'FAILED';
+
+export type CurrentSlotContext = Awaited<ReturnType<typeof SlotCoverageService.getCurrentSlotContext>>;
+
+/**
+ * Slot/pipeline context captured with an offline reading
+ */
+export interface QueuedReadingContext {
+  pipelineCode?: string;
+  pipelineName?: string;
+  structureId?: number;
+  /** Last known server slot context at capture time */
+  slotContext?: CurrentSlotContext;
+}
+
+export interface QueuedReading {
+  /** Local auto-increment key, also the replay order */
+  localId?: number;
+  reading: FlowReadingDTO;
+  context: QueuedReadingContext;
+  /** Capture timestamp (ISO 8601) */
+  queuedAt: string;
+  status: QueuedReadingStatus;
+  /** Reading found on the server for the same pipeline/date/slot */
+  serverReading?: FlowReadingDTO;
+  error?: string;
+}
+
+export interface OfflineSyncResult {
+  synced: number;
+  conflicts: number;
+  failed: number;
+  /** Replay stopped because the network dropped again */
+  interrupted: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'localId', autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE);
+        }
+      };
+      request.onsuccess = () => {
+        // Reopen on next use when the browser closes the connection
+        request.result.onclose = () => {
+          dbPromise = null;
+        };
+        resolve(request.result);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+};
+
+const notifyChange = () => {
+  window.dispatchEvent(new Event(OFFLINE_QUEUE_CHANGED_EVENT));
+};
+
+/**
+ * Network failure: the request never got a response
+ */
+export const isNetworkError = (error: any): boolean => !error?.response;
+
+const hasSameSlot = (a: FlowReadingDTO, b: FlowReadingDTO): boolean =>
+  a.pipelineId === b.pipelineId &&
+  a.readingSlotId === b.readingSlotId &&
+  a.readingDate?.substring(0, 10) === b.readingDate?.substring(0, 10);
+
+export class OfflineReadingQueueService {
+  /**
+   * Queue a reading captured offline
+   */
+  static async enqueue(reading: FlowReadingDTO, context: QueuedReadingContext): Promise<QueuedReading> {
+    const entry: QueuedReading = {
+      reading,
+      context: {
+        ...context,
+        slotContext: context.slotContext ?? (await this.getCachedSlotContext()),
+      },
+      queuedAt: new Date().toISOString(),
+      status: 'PENDING',
+    };
+    const localId = await runRequest<number>(QUEUE_STORE, 'readwrite', (store) => store.add(entry));
+    notifyChange();
+    return { ...entry, localId };
+  }
+
+  /**
+   * All queued readings in capture order
+   */
+  static async getAll(): Promise<QueuedReading[]> {
+    const entries = await runRequest<QueuedReading[]>(QUEUE_STORE, 'readonly', (store) => store.getAll());
+    return entries.sort((a, b) => (a.localId ?? 0) - (b.localId ?? 0));
+  }
+
+  /**
+   * Update a queued reading (e.g. reset a conflict to pending)
+   */
+  static async update(entry: QueuedReading): Promise<void> {
+    await runRequest(QUEUE_STORE, 'readwrite', (store) => store.put(entry));
+    notifyChange();
+  }
+
+  /**
+   * Remove a queued reading (synced or discarded)
+   */
+  static async remove(localId: number): Promise<void> {
+    await runRequest(QUEUE_STORE, 'readwrite', (store) => store.delete(localId));
+    notifyChange();
+  }
+
+  /**
+   * Replay pending readings in capture order.
+   * Stops at the first network failure so that later readings are not
+   * sent ahead of earlier ones.
+   */
+  static async sync(): Promise<OfflineSyncResult> {
+    const result: OfflineSyncResult = { synced: 0, conflicts: 0, failed: 0, interrupted: false };
+    const pending = (await this.getAll()).filter((entry) => entry.status === 'PENDING');
+
+    for (const entry of pending) {
+      try {
+        const existing = await FlowReadingService.getByPipelineAndDate(
+          entry.reading.pipelineId,
+          entry.reading.readingDate
+        );
+        const serverReading = getEffectiveReadings(existing).find((reading) => hasSameSlot(reading, entry.reading));
+
+        if (serverReading) {
+          await this.update({ ...entry, status: 'CONFLICT', serverReading, error: undefined });
+          result.conflicts++;
+          continue;
+        }
+
+        await FlowReadingService.create(entry.reading);
+        await this.remove(entry.localId as number);
+        result.synced++;
+      } catch (error: any) {
+        if (isNetworkError(error)) {
+          result.interrupted = true;
+          break;
+        }
+
+        const status: QueuedReadingStatus = error.response?.status === 409 ? 'CONFLICT' : 'FAILED';
+        await this.update({
+          ...entry,
+          status,
+          error: error.response?.data?.message || error.message,
+        });
+        if (status === 'CONFLICT') {
+          result.conflicts++;
+        } else {
+          result.failed++;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Resolve a conflict by overwriting the server reading with the queued values
+   */
+  static async overwriteServerReading(entry: QueuedReading): Promise<void> {
+    if (!entry.serverReading?.id) {
+      throw new Error('No server reading to overwrite');
+    }
+    await FlowReadingService.update(entry.serverReading.id, {
+      ...entry.reading,
+      id: entry.serverReading.id,
+    });
+    await this.remove(entry.localId as number);
+  }
+
+  // ========== REFERENCE CACHE ==========
+
+  /**
+   * Store reference data for offline use
+   */
+  static async cache<T>(key: string, value: T): Promise<void> {
+    await runRequest(CACHE_STORE, 'readwrite', (store) => store.put(value, key));
+  }
+
+  /**
+   * Read cached reference data (undefined when never cached)
+   */
+  static async getCached<T>(key: string): Promise<T | undefined> {
+    return runRequest<T | undefined>(CACHE_STORE, 'readonly', (store) => store.get(key));
+  }
+
+  /**
+   * Refresh the cached server slot context (call while online)
+   */
+  static async refreshSlotContext(): Promise<CurrentSlotContext> {
+    const context = await SlotCoverageService.getCurrentSlotContext();
+    await this.cache('currentSlotContext', context);
+    return context;
+  }
+
+  /**
+   * Last server slot context cached while online
+   */
+  static async getCachedSlotContext(): Promise<CurrentSlotContext | undefined> {
+    try {
+      return await this.getCached<CurrentSlotContext>('currentSlotContext');
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -7,6 +7,7 @@
  * @author CHOUABBIA Amine
  * @created 2026-02-04
  * @updated 2026-02-11 - Removed FlowMonitoringService (migrated to intelligence module)
+ * @updated 2026-10-19 - Added OfflineReadingQueueService
  */
 
 // Core CRUD services only
@@ -20,6 +21,9 @@ export * from './FlowThresholdService';
 // Slot coverage service (legacy, consider moving to intelligence)
 export * from './SlotCoverageService';
 
+// Offline capture queue (IndexedDB)
+export * from './OfflineReadingQueueService';
+
 /**
  * MIGRATION NOTICE:
  * 
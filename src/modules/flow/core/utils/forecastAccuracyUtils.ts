@@ -0,0 +1,163 @@
+/**
+ * Forecast Accuracy Utilities - Flow Core Module
+ *
+ * Compares forecast volumes with the actual volumes: percentage errors,
+ * MAPE and bias per group (supervisor, operation type) and detection of
+ * systematic over/under-forecasting.
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import type { FlowForecastDTO } from '../dto/FlowForecastDTO';
+
+/** Mean signed error (%) from which a group leans to one side */
+export const SYSTEMATIC_BIAS_THRESHOLD = 5;
+
+/** Share of errors of the same sign from which the lean is systematic */
+export const SYSTEMATIC_SIGN_RATIO = 0.7;
+
+/** Forecasts with actuals needed before a group can be flagged */
+export const MIN_BIAS_SAMPLES = 5;
+
+export type ForecastBiasDirection = 'OVER' | 'UNDER' | 'NONE';
+
+export interface ForecastAccuracyStats {
+  /** Forecasts in the group */
+  count: number;
+  /** Forecasts with an actual volume (scored) */
+  scoredCount: number;
+  /** Mean absolute percentage error of the final forecast (adjusted, else predicted) */
+  mape: number | null;
+  /** Mean absolute percentage error of the predicted volume alone */
+  predictedMape: number | null;
+  /** Mean signed percentage error; positive when forecasts exceed actuals */
+  bias: number | null;
+  /** Share of scored forecasts above the actual volume (0-1) */
+  overRatio: number;
+  direction: ForecastBiasDirection;
+}
+
+export interface ForecastGroupStats extends ForecastAccuracyStats {
+  key: string;
+  label: string;
+}
+
+export interface ForecastSeriesPoint {
+  date: string;
+  predicted: number;
+  adjusted: number;
+  actual: number | null;
+  /** Percentage error of the final forecast, null without actuals */
+  error: number | null;
+}
+
+/**
+ * Final forecast volume: the expert adjustment when there is one
+ */
+export function getForecastVolume(forecast: FlowForecastDTO): number {
+  return forecast.adjustedVolume ?? forecast.predictedVolume;
+}
+
+/**
+ * Signed percentage error of a forecast volume against the actual volume
+ * @returns null when the actual volume is unknown or zero
+ */
+export function getPercentageError(
+  forecast: FlowForecastDTO,
+  volume: number = getForecastVolume(forecast)
+): number | null {
+  if (forecast.actualVolume === undefined || forecast.actualVolume === null || forecast.actualVolume === 0) {
+    return null;
+  }
+  return ((volume - forecast.actualVolume) / forecast.actualVolume) * 100;
+}
+
+const mean = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+/**
+ * Accuracy statistics of a set of forecasts
+ */
+export function computeAccuracyStats(forecasts: FlowForecastDTO[]): ForecastAccuracyStats {
+  const errors: number[] = [];
+  const predictedErrors: number[] = [];
+
+  forecasts.forEach((forecast) => {
+    const error = getPercentageError(forecast);
+    if (error === null) return;
+    errors.push(error);
+    predictedErrors.push(getPercentageError(forecast, forecast.predictedVolume) as number);
+  });
+
+  const bias = mean(errors);
+  const overRatio = errors.length > 0 ? errors.filter((error) => error > 0).length / errors.length : 0;
+
+  let direction: ForecastBiasDirection = 'NONE';
+  if (bias !== null && errors.length >= MIN_BIAS_SAMPLES && Math.abs(bias) >= SYSTEMATIC_BIAS_THRESHOLD) {
+    if (bias > 0 && overRatio >= SYSTEMATIC_SIGN_RATIO) direction = 'OVER';
+    if (bias < 0 && 1 - overRatio >= SYSTEMATIC_SIGN_RATIO) direction = 'UNDER';
+  }
+
+  return {
+    count: forecasts.length,
+    scoredCount: errors.length,
+    mape: mean(errors.map(Math.abs)),
+    predictedMape: mean(predictedErrors.map(Math.abs)),
+    bias,
+    overRatio,
+    direction,
+  };
+}
+
+/**
+ * Accuracy statistics per group, worst MAPE first
+ * @param groupOf - Group key and label of a forecast, null to leave it out
+ */
+export function groupAccuracyStats(
+  forecasts: FlowForecastDTO[],
+  groupOf: (forecast: FlowForecastDTO) => { key: string; label: string } | null
+): ForecastGroupStats[] {
+  const groups = new Map<string, { label: string; forecasts: FlowForecastDTO[] }>();
+
+  forecasts.forEach((forecast) => {
+    const group = groupOf(forecast);
+    if (!group) return;
+    const entry = groups.get(group.key) || { label: group.label, forecasts: [] };
+    entry.forecasts.push(forecast);
+    groups.set(group.key, entry);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => ({ key, label: group.label, ...computeAccuracyStats(group.forecasts) }))
+    .sort((a, b) => (b.mape ?? -1) - (a.mape ?? -1));
+}
+
+/**
+ * Predicted, adjusted and actual volumes per date, summed over the forecasts
+ * of that date. The actual volume stays null until every forecast of the
+ * date has one.
+ */
+export function buildForecastSeries(forecasts: FlowForecastDTO[]): ForecastSeriesPoint[] {
+  const byDate = new Map<string, FlowForecastDTO[]>();
+  forecasts.forEach((forecast) => {
+    byDate.set(forecast.forecastDate, [...(byDate.get(forecast.forecastDate) || []), forecast]);
+  });
+
+  return Array.from(byDate.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, items]) => {
+      const predicted = items.reduce((sum, item) => sum + item.predictedVolume, 0);
+      const adjusted = items.reduce((sum, item) => sum + getForecastVolume(item), 0);
+      const complete = items.every((item) => item.actualVolume !== undefined && item.actualVolume !== null);
+      const actual = complete ? items.reduce((sum, item) => sum + (item.actualVolume as number), 0) : null;
+
+      return {
+        date,
+        predicted,
+        adjusted,
+        actual,
+        error: actual ? ((adjusted - actual) / actual) * 100 : null,
+      };
+    });
+}
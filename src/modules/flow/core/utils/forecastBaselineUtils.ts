@@ -0,0 +1,190 @@
+/**
+ * Forecast Baseline Utilities - Flow Core Module
+ *
+ * Builds baseline forecasts from the daily history of past operations of
+ * an infrastructure/product/operation type: seasonal naive (same weekday),
+ * moving average and linear trend, each with a confidence band.
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import { formatDate } from '@/shared/utils/dateTimeLocal';
+import type { FlowOperationDTO } from '../dto/FlowOperationDTO';
+
+export type BaselineMethod = 'SEASONAL_NAIVE' | 'MOVING_AVERAGE' | 'LINEAR_TREND';
+
+export const BASELINE_METHODS: BaselineMethod[] = ['SEASONAL_NAIVE', 'MOVING_AVERAGE', 'LINEAR_TREND'];
+
+/** Days of history used to build the baselines */
+export const BASELINE_HISTORY_DAYS = 90;
+
+/** Weekly seasonality of the seasonal naive method */
+export const SEASON_LENGTH = 7;
+
+/** Days averaged by the moving average method */
+export const MOVING_AVERAGE_WINDOW = 7;
+
+/** Normal quantile of the 95% confidence band */
+const CONFIDENCE_Z = 1.96;
+
+/** History points needed by each method */
+export const MIN_HISTORY_POINTS: Record<BaselineMethod, number> = {
+  SEASONAL_NAIVE: SEASON_LENGTH + 1,
+  MOVING_AVERAGE: 2,
+  LINEAR_TREND: 3,
+};
+
+export interface HistoryPoint {
+  date: string;
+  volume: number;
+}
+
+export interface BaselinePoint {
+  date: string;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+const DAY_MS = 86400000;
+
+const dayIndex = (isoDate: string): number => Math.round(new Date(`${isoDate}T00:00:00Z`).getTime() / DAY_MS);
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const standardDeviation = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1));
+};
+
+const toPoint = (date: string, value: number, margin: number): BaselinePoint => ({
+  date,
+  value: round(Math.max(0, value)),
+  lower: round(Math.max(0, value - margin)),
+  upper: round(Math.max(0, value + margin)),
+});
+
+/**
+ * Daily volume history of the operations matching the infrastructure,
+ * product and operation type. Rejected operations are left out and
+ * volumes of the same day are summed.
+ */
+export function buildDailyHistory(
+  operations: FlowOperationDTO[],
+  productId: number,
+  operationTypeId: number
+): HistoryPoint[] {
+  const byDate = new Map<string, number>();
+
+  operations
+    .filter(
+      (operation) =>
+        operation.productId === productId &&
+        operation.typeId === operationTypeId &&
+        operation.validationStatus?.code !== 'REJECTED'
+    )
+    .forEach((operation) => {
+      byDate.set(operation.operationDate, (byDate.get(operation.operationDate) || 0) + operation.volume);
+    });
+
+  return Array.from(byDate.entries())
+    .map(([date, volume]) => ({ date, volume }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Consecutive dates starting at the given date (YYYY-MM-DD)
+ */
+export function getForecastDates(startDate: string, count: number): string[] {
+  const start = new Date(`${startDate}T00:00:00`);
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date(start);
+    date.setDate(start.getDate() + i);
+    return formatDate(date, 'yyyy-MM-dd');
+  });
+}
+
+/**
+ * Same weekday as the last matching history day; the band widens with the
+ * number of weeks ahead.
+ */
+function seasonalNaive(history: HistoryPoint[], dates: string[]): BaselinePoint[] {
+  const byDay = new Map(history.map((point) => [dayIndex(point.date), point.volume]));
+  const lastDay = dayIndex(history[history.length - 1].date);
+
+  const seasonalDiffs = history
+    .filter((point) => byDay.has(dayIndex(point.date) - SEASON_LENGTH))
+    .map((point) => point.volume - (byDay.get(dayIndex(point.date) - SEASON_LENGTH) as number));
+  const sigma = standardDeviation(seasonalDiffs);
+
+  return dates.map((date) => {
+    const day = dayIndex(date);
+    let reference = day - SEASON_LENGTH * Math.max(1, Math.ceil((day - lastDay) / SEASON_LENGTH));
+    while (!byDay.has(reference) && reference > lastDay - BASELINE_HISTORY_DAYS) {
+      reference -= SEASON_LENGTH;
+    }
+    const seasonsAhead = Math.ceil((day - reference) / SEASON_LENGTH);
+    const value = byDay.get(reference) ?? history[history.length - 1].volume;
+    return toPoint(date, value, CONFIDENCE_Z * sigma * Math.sqrt(seasonsAhead));
+  });
+}
+
+/**
+ * Mean of the last days, flat over the horizon
+ */
+function movingAverage(history: HistoryPoint[], dates: string[]): BaselinePoint[] {
+  const window = history.slice(-MOVING_AVERAGE_WINDOW).map((point) => point.volume);
+  const mean = window.reduce((sum, value) => sum + value, 0) / window.length;
+  const sigma = standardDeviation(window);
+  const margin = CONFIDENCE_Z * sigma * Math.sqrt(1 + 1 / window.length);
+  return dates.map((date) => toPoint(date, mean, margin));
+}
+
+/**
+ * Least-squares line over the history, with the prediction interval of
+ * the regression.
+ */
+function linearTrend(history: HistoryPoint[], dates: string[]): BaselinePoint[] {
+  const xs = history.map((point) => dayIndex(point.date));
+  const ys = history.map((point) => point.volume);
+  const n = xs.length;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  const sxx = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  const slope = sxx > 0 ? xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0) / sxx : 0;
+  const intercept = meanY - slope * meanX;
+
+  const residuals = xs.map((x, i) => ys[i] - (intercept + slope * x));
+  const sigma = n > 2 ? Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / (n - 2)) : 0;
+
+  return dates.map((date) => {
+    const x = dayIndex(date);
+    const spread = Math.sqrt(1 + 1 / n + (sxx > 0 ? (x - meanX) ** 2 / sxx : 0));
+    return toPoint(date, intercept + slope * x, CONFIDENCE_Z * sigma * spread);
+  });
+}
+
+/**
+ * Baseline forecast of the given dates
+ * @returns Empty when the history is too short for the method
+ */
+export function generateBaseline(
+  history: HistoryPoint[],
+  method: BaselineMethod,
+  dates: string[]
+): BaselinePoint[] {
+  if (history.length < MIN_HISTORY_POINTS[method] || dates.length === 0) {
+    return [];
+  }
+
+  switch (method) {
+    case 'SEASONAL_NAIVE':
+      return seasonalNaive(history, dates);
+    case 'MOVING_AVERAGE':
+      return movingAverage(history, dates);
+    case 'LINEAR_TREND':
+      return linearTrend(history, dates);
+  }
+}
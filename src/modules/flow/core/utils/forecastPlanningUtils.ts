@@ -0,0 +1,121 @@
+/**
+ * Forecast Planning Utilities - Flow Core Module
+ *
+ * Cells of the monthly planning grid (days × infrastructures) for one
+ * product and operation type: building them from the existing forecasts,
+ * copying the previous month's plan and turning edited cells back into
+ * forecasts.
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import { formatDate } from '@/shared/utils/dateTimeLocal';
+import type { FlowForecastDTO } from '../dto/FlowForecastDTO';
+
+export interface PlanningCell {
+  /** Existing forecast of the cell, if any */
+  forecast?: FlowForecastDTO;
+  predicted: string;
+  adjusted: string;
+}
+
+export type PlanningCells = Record<string, PlanningCell>;
+
+export const getCellKey = (date: string, infrastructureId: number): string => `${date}|${infrastructureId}`;
+
+const toCellValue = (value?: number | null): string =>
+  value === null || value === undefined ? '' : String(value);
+
+/**
+ * Parse a volume, accepting a comma as decimal separator (French Excel)
+ * Returns undefined for an empty cell and NaN for an invalid one
+ */
+export const parseVolume = (value: string): number | undefined => {
+  const trimmed = value.trim().replace(/\s/g, '').replace(',', '.');
+  return trimmed === '' ? undefined : Number(trimmed);
+};
+
+/**
+ * Days of a month (YYYY-MM) as YYYY-MM-DD
+ */
+export function getMonthDates(month: string): string[] {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const days = new Date(year, monthIndex, 0).getDate();
+  return Array.from({ length: days }, (_, i) => formatDate(new Date(year, monthIndex - 1, i + 1), 'yyyy-MM-dd'));
+}
+
+/**
+ * Month before the given one (YYYY-MM)
+ */
+export function getPreviousMonth(month: string): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return formatDate(new Date(year, monthIndex - 2, 1), 'yyyy-MM-dd').substring(0, 7);
+}
+
+/**
+ * Grid cells of the existing forecasts
+ */
+export function buildPlanningCells(forecasts: FlowForecastDTO[]): PlanningCells {
+  return Object.fromEntries(
+    forecasts.map((forecast) => [
+      getCellKey(forecast.forecastDate, forecast.infrastructureId),
+      {
+        forecast,
+        predicted: toCellValue(forecast.predictedVolume),
+        adjusted: toCellValue(forecast.adjustedVolume),
+      },
+    ])
+  );
+}
+
+/**
+ * Values of the previous month's forecasts moved to the same day of the
+ * given month. Days missing from the month (e.g. the 31st) are dropped.
+ */
+export function copyPreviousMonthPlan(
+  previousForecasts: FlowForecastDTO[],
+  month: string
+): Record<string, Pick<PlanningCell, 'predicted' | 'adjusted'>> {
+  const dates = new Set(getMonthDates(month));
+  const copied: Record<string, Pick<PlanningCell, 'predicted' | 'adjusted'>> = {};
+
+  previousForecasts.forEach((forecast) => {
+    const date = `${month}-${forecast.forecastDate.substring(8, 10)}`;
+    if (!dates.has(date)) return;
+    copied[getCellKey(date, forecast.infrastructureId)] = {
+      predicted: toCellValue(forecast.predictedVolume),
+      adjusted: toCellValue(forecast.adjustedVolume),
+    };
+  });
+
+  return copied;
+}
+
+/**
+ * Forecast to save for an edited cell: the existing forecast with the new
+ * volumes, or a new forecast of the product and operation type
+ */
+export function buildCellForecast(
+  cell: PlanningCell,
+  date: string,
+  infrastructureId: number,
+  productId: number,
+  operationTypeId: number,
+  supervisorId?: number
+): FlowForecastDTO {
+  const existing = cell.forecast;
+  return {
+    id: existing?.id,
+    forecastDate: date,
+    predictedVolume: parseVolume(cell.predicted) as number,
+    adjustedVolume: parseVolume(cell.adjusted),
+    actualVolume: existing?.actualVolume,
+    accuracy: existing?.accuracy,
+    adjustmentNotes: existing?.adjustmentNotes,
+    infrastructureId,
+    productId,
+    operationTypeId,
+    supervisorId: existing ? existing.supervisorId : supervisorId,
+  };
+}
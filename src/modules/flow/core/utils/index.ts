@@ -3,9 +3,27 @@
  * 
  * @author CHOUABBIA Amine
  * @created 2026-02-04
+ * @updated 2026-10-19 - Added linepackUtils
+ * @updated 2026-10-19 - Added forecastPlanningUtils
+ * @updated 2026-10-19 - Added forecastBaselineUtils
+ * @updated 2026-10-19 - Added forecastAccuracyUtils
+ * @updated 2026-10-19 - Added slotHeatmapUtils
+ * @updated 2026-10-19 - Added slotDeadlineUtils
+ * @updated 2026-10-19 - Added readingRevisionUtils
+ * @updated 2026-10-19 - Added readingComparisonUtils
+ * @updated 2026-10-19 - Added readingImportUtils
  */
 
 export * from './monitoringHelpers';
 export * from './validationHelpers';
 export * from './permissionHelpers';
 export * from './userHelpers';
+export * from './readingImportUtils';
+export * from './readingComparisonUtils';
+export * from './readingRevisionUtils';
+export * from './slotDeadlineUtils';
+export * from './slotHeatmapUtils';
+export * from './forecastAccuracyUtils';
+export * from './forecastBaselineUtils';
+export * from './forecastPlanningUtils';
+export * from './linepackUtils';
@@ -0,0 +1,238 @@
+/**
+ * Linepack Utilities - Flow Core Module
+ *
+ * Linepack (contained volume at standard conditions, 15 °C / 1.01325 bar)
+ * of a pipeline derived from its geometry and the pressure/temperature
+ * of a reading, to cross-check the manually entered containedVolume.
+ *
+ * Geometry comes from the segments (diameter/thickness in mm, length in
+ * km) or, without segments, from the pipeline's nominal diameter and
+ * thickness. The product's phase selects the compressibility model:
+ *   - liquids: thermal expansion and compressibility from density
+ *     (API MPMS 11.1 crude oil correlations)
+ *   - gases: real gas law with a Papay compressibility factor, pseudo-
+ *     critical properties from relative density (Sutton)
+ * Product densities are kg/m³ or specific gravity, so a low density does
+ * not tell a gas from a liquid. Without an explicit phase only densities
+ * of LIQUID_DENSITY_MIN and above are taken as liquids; otherwise the
+ * model is unknown and no linepack is calculated.
+ * A single reading is taken as representative of the whole pipeline.
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import type { PipelineDTO } from '@/modules/network/core/dto/PipelineDTO';
+import type { PipelineSegmentDTO } from '@/modules/network/core/dto/PipelineSegmentDTO';
+import type { ProductDTO } from '@/modules/network/common/dto/ProductDTO';
+
+/** Relative gap between reported and calculated linepack flagged (%) */
+export const LINEPACK_DISCREPANCY_THRESHOLD = 5;
+
+/** Densities from this value (kg/m³) can only be liquids */
+export const LIQUID_DENSITY_MIN = 100;
+
+/** Liquid densities below this value are specific gravities */
+const SPECIFIC_GRAVITY_MAX = 2;
+
+/** Water at 15 °C (kg/m³), to convert specific gravities */
+const WATER_DENSITY = 999.1;
+
+export const STANDARD_TEMPERATURE = 15;
+export const STANDARD_PRESSURE = 1.01325;
+
+const AIR_DENSITY = 1.225;
+const KELVIN_OFFSET = 273.15;
+const MM_PER_INCH = 25.4;
+
+/** API MPMS 11.1 thermal expansion constant for crude oils */
+const CRUDE_EXPANSION_K0 = 613.9723;
+
+export type CompressibilityModel =
+  | {
+      kind: 'LIQUID';
+      /** Thermal expansion coefficient at 15 °C (1/°C) */
+      expansion: number;
+      density: number;
+    }
+  | {
+      kind: 'GAS';
+      /** Density relative to air */
+      relativeDensity: number;
+    }
+  | {
+      /** Phase cannot be told from the product */
+      kind: 'UNKNOWN';
+    };
+
+export interface SegmentLinepack {
+  segment: PipelineSegmentDTO;
+  /** Internal volume (m³) */
+  geometricVolume: number;
+  /** Contained volume at standard conditions (m³) */
+  linepack: number;
+}
+
+export interface LinepackCalculation {
+  model: CompressibilityModel;
+  /** Standard volume per m³ of pipe at the reading's conditions */
+  conversionFactor: number;
+  geometricVolume: number;
+  linepack: number;
+  /** Geometry used: the pipeline's segments or its nominal dimensions */
+  source: 'SEGMENTS' | 'PIPELINE';
+  segments: SegmentLinepack[];
+}
+
+/**
+ * Compressibility model of a product, from its phase and density
+ * Gas densities are read as kg/m³ at standard conditions.
+ */
+export function getCompressibilityModel(product: ProductDTO): CompressibilityModel {
+  const phase = product.phase ?? (product.density >= LIQUID_DENSITY_MIN ? 'LIQUID' : undefined);
+  if (!(product.density > 0) || !phase) {
+    return { kind: 'UNKNOWN' };
+  }
+
+  if (phase === 'GAS') {
+    return { kind: 'GAS', relativeDensity: product.density / AIR_DENSITY };
+  }
+
+  const density = product.density < SPECIFIC_GRAVITY_MAX ? product.density * WATER_DENSITY : product.density;
+  return {
+    kind: 'LIQUID',
+    expansion: CRUDE_EXPANSION_K0 / (density * density),
+    density,
+  };
+}
+
+/**
+ * Liquid compressibility (1/bar) at a temperature, API MPMS 11.2.1M
+ */
+const getLiquidCompressibility = (density: number, temperature: number): number =>
+  Math.exp(-1.6208 + 0.00021592 * temperature + 0.87096e6 / density ** 2 + (4.2092e3 * temperature) / density ** 2) *
+  1e-6 *
+  100;
+
+/**
+ * Gas compressibility factor Z (Papay, Sutton pseudo-critical properties)
+ * @param pressure - Absolute pressure (bar)
+ * @param temperature - Temperature (°C)
+ */
+export function getGasCompressibilityFactor(relativeDensity: number, pressure: number, temperature: number): number {
+  const criticalTemperature = (169.2 + 349.5 * relativeDensity - 74.0 * relativeDensity ** 2) / 1.8;
+  const criticalPressure = (756.8 - 131.0 * relativeDensity - 3.6 * relativeDensity ** 2) * 0.0689476;
+  const reducedPressure = pressure / criticalPressure;
+  const reducedTemperature = (temperature + KELVIN_OFFSET) / criticalTemperature;
+  return (
+    1 -
+    (3.53 * reducedPressure) / 10 ** (0.9813 * reducedTemperature) +
+    (0.274 * reducedPressure ** 2) / 10 ** (0.8157 * reducedTemperature)
+  );
+}
+
+/**
+ * Standard volume per m³ of pipe at the given conditions
+ * @param pressure - Gauge pressure (bar)
+ * @param temperature - Temperature (°C)
+ */
+export function getConversionFactor(
+  model: Exclude<CompressibilityModel, { kind: 'UNKNOWN' }>,
+  pressure: number,
+  temperature: number
+): number {
+  if (model.kind === 'GAS') {
+    const absolutePressure = pressure + STANDARD_PRESSURE;
+    const z = getGasCompressibilityFactor(model.relativeDensity, absolutePressure, temperature);
+    return (
+      (absolutePressure / STANDARD_PRESSURE) *
+      ((STANDARD_TEMPERATURE + KELVIN_OFFSET) / (temperature + KELVIN_OFFSET)) /
+      z
+    );
+  }
+
+  const delta = temperature - STANDARD_TEMPERATURE;
+  const temperatureCorrection = Math.exp(-model.expansion * delta * (1 + 0.8 * model.expansion * delta));
+  const pressureCorrection = 1 / (1 - getLiquidCompressibility(model.density, temperature) * pressure);
+  return temperatureCorrection * pressureCorrection;
+}
+
+/**
+ * Millimetres from a dimension with unit ("48 inches", "1200 mm", '12"')
+ * Bare numbers are read as millimetres.
+ */
+export function parseDimension(value?: string): number | null {
+  const match = value?.trim().replace(',', '.').match(/^([\d.]+)\s*(.*)$/);
+  if (!match) return null;
+  const number = Number(match[1]);
+  if (!Number.isFinite(number) || number <= 0) return null;
+  return /^(in|inch|inches|"|'')$/i.test(match[2].trim()) ? number * MM_PER_INCH : number;
+}
+
+/**
+ * Internal volume (m³) of a pipe
+ * @param diameter - Outside diameter (mm)
+ * @param thickness - Wall thickness (mm)
+ * @param length - Length (km)
+ */
+export function getGeometricVolume(diameter: number, thickness: number, length: number): number {
+  const internalDiameter = (diameter - 2 * thickness) / 1000;
+  if (internalDiameter <= 0 || length <= 0) return 0;
+  return (Math.PI / 4) * internalDiameter ** 2 * length * 1000;
+}
+
+/**
+ * Linepack of a pipeline at a reading's pressure and temperature
+ * Returns null when the geometry or the compressibility model is unknown.
+ */
+export function calculateLinepack(
+  pipeline: PipelineDTO,
+  segments: PipelineSegmentDTO[],
+  product: ProductDTO,
+  pressure: number,
+  temperature: number
+): LinepackCalculation | null {
+  const model = getCompressibilityModel(product);
+  if (model.kind === 'UNKNOWN') return null;
+  const conversionFactor = getConversionFactor(model, pressure, temperature);
+
+  const segmentLinepacks = segments
+    .map((segment) => {
+      const geometricVolume = getGeometricVolume(segment.diameter, segment.thickness, segment.length);
+      return { segment, geometricVolume, linepack: geometricVolume * conversionFactor };
+    })
+    .filter((item) => item.geometricVolume > 0);
+
+  if (segmentLinepacks.length > 0) {
+    const geometricVolume = segmentLinepacks.reduce((sum, item) => sum + item.geometricVolume, 0);
+    return {
+      model,
+      conversionFactor,
+      geometricVolume,
+      linepack: geometricVolume * conversionFactor,
+      source: 'SEGMENTS',
+      segments: segmentLinepacks,
+    };
+  }
+
+  const diameter = parseDimension(pipeline.nominalDiameter);
+  const thickness = parseDimension(pipeline.nominalThickness) ?? 0;
+  const geometricVolume = diameter ? getGeometricVolume(diameter, thickness, pipeline.length) : 0;
+  if (geometricVolume <= 0) return null;
+
+  return {
+    model,
+    conversionFactor,
+    geometricVolume,
+    linepack: geometricVolume * conversionFactor,
+    source: 'PIPELINE',
+    segments: [],
+  };
+}
+
+/**
+ * Gap of the reported linepack relative to the calculated one (%)
+ */
+export function getLinepackDiscrepancy(reported: number, calculated: number): number | null {
+  return calculated > 0 ? ((reported - calculated) / calculated) * 100 : null;
+}
@@ -0,0 +1,142 @@
+/**
+ * Reading Comparison Utilities - Flow Core Module
+ *
+ * Puts a reading in context for validators: previous slot, same slot the
+ * day before, and statistics of the pipeline's recent readings, with
+ * deltas and z-scores used to flag likely keying errors.
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ * @updated 10-19-2026 - Compare against effective revisions only
+ */
+
+import { getEffectiveReadings } from './readingRevisionUtils';
+import type { FlowReadingDTO } from '../dto/FlowReadingDTO';
+import type { StatisticalSummaryDTO } from '@/modules/flow/intelligence/dto/StatisticalSummaryDTO';
+
+export const COMPARISON_MEASUREMENTS = ['pressure', 'temperature', 'flowRate', 'containedVolume'] as const;
+
+export type ComparisonMeasurement = (typeof COMPARISON_MEASUREMENTS)[number];
+
+/** |z| from which a value is unusual */
+export const Z_SCORE_WARNING = 2;
+
+/** |z| from which a value is very likely wrong */
+export const Z_SCORE_CRITICAL = 3;
+
+/** Relative change from which a delta is highlighted */
+export const DELTA_WARNING_RATIO = 0.2;
+
+export interface ReadingComparisonContext {
+  previousSlot?: FlowReadingDTO;
+  sameSlotYesterday?: FlowReadingDTO;
+  statistics: Partial<Record<ComparisonMeasurement, StatisticalSummaryDTO>>;
+}
+
+/**
+ * Sort key of a reading: date, then slot order (display order or start time)
+ */
+const getSlotSortKey = (reading: FlowReadingDTO): string => {
+  const slotOrder = reading.readingSlot?.displayOrder !== undefined
+    ? String(reading.readingSlot.displayOrder).padStart(4, '0')
+    : reading.readingSlot?.startTime || reading.recordedAt?.substring(11) || '';
+  return `${reading.readingDate}|${slotOrder}`;
+};
+
+/**
+ * Min, max, mean, median and (population) standard deviation of a series
+ * Returns null for an empty series
+ */
+export function computeStatisticalSummary(values: number[]): StatisticalSummaryDTO | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const avg = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / values.length;
+
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    avg,
+    median: sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle],
+    stdDev: Math.sqrt(variance),
+  };
+}
+
+/**
+ * Number of standard deviations between a value and the mean
+ * Returns null when the spread is zero (z-score undefined)
+ */
+export function getZScore(value: number, statistics: StatisticalSummaryDTO): number | null {
+  if (!statistics.stdDev) return null;
+  return (value - statistics.avg) / statistics.stdDev;
+}
+
+export function getZScoreSeverity(zScore: number | null): 'success' | 'warning' | 'error' {
+  if (zScore === null) return 'success';
+  const magnitude = Math.abs(zScore);
+  if (magnitude >= Z_SCORE_CRITICAL) return 'error';
+  if (magnitude >= Z_SCORE_WARNING) return 'warning';
+  return 'success';
+}
+
+/**
+ * Relative change from a reference value, null when the reference is zero
+ */
+export function getRelativeChange(value: number, reference: number): number | null {
+  if (!reference) return null;
+  return (value - reference) / Math.abs(reference);
+}
+
+/**
+ * Whether a value looks like the reference with a misplaced decimal
+ * (ratio close to 10 or 100, either way)
+ */
+export function isLikelyDecimalShift(value: number, reference: number): boolean {
+  if (!value || !reference || Math.sign(value) !== Math.sign(reference)) return false;
+  const magnitude = Math.abs(Math.log10(Math.abs(value / reference)));
+  return [1, 2].some((shift) => Math.abs(magnitude - shift) < 0.05);
+}
+
+/**
+ * Build the comparison context of a reading from the pipeline's recent readings
+ *
+ * @param reading - Reading under review
+ * @param history - Readings of the same pipeline over the statistics window
+ * @param yesterday - Reading date minus one day (YYYY-MM-DD)
+ */
+export function buildReadingComparison(
+  reading: FlowReadingDTO,
+  history: FlowReadingDTO[],
+  yesterday: string
+): ReadingComparisonContext {
+  // A correction is compared with other slots, not with the revision it replaces
+  const others = getEffectiveReadings(history).filter(
+    (item) =>
+      item.id !== reading.id &&
+      item.id !== reading.previousRevisionId &&
+      item.validationStatus?.code !== 'REJECTED'
+  );
+
+  const currentKey = getSlotSortKey(reading);
+  const previousSlot = others
+    .filter((item) => getSlotSortKey(item) < currentKey)
+    .sort((a, b) => getSlotSortKey(b).localeCompare(getSlotSortKey(a)))[0];
+
+  const sameSlotYesterday = others.find(
+    (item) => item.readingDate === yesterday && item.readingSlotId === reading.readingSlotId
+  );
+
+  const statistics: ReadingComparisonContext['statistics'] = {};
+  COMPARISON_MEASUREMENTS.forEach((field) => {
+    const values = others
+      .filter((item) => item.readingDate < reading.readingDate)
+      .map((item) => item[field])
+      .filter((value): value is number => value !== undefined && value !== null);
+    const summary = computeStatisticalSummary(values);
+    if (summary) statistics[field] = summary;
+  });
+
+  return { previousSlot, sameSlotYesterday, statistics };
+}
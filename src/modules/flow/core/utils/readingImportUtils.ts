@@ -0,0 +1,292 @@
+/**
+ * Reading Import Utilities - Flow Core Module
+ *
+ * Turns rows read from an Excel/CSV logbook into FlowReadingDTOs:
+ * column mapping, pipeline/slot code resolution and row validation
+ * (measurement limits, threshold checks, duplicates within the file).
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ * @updated 10-19-2026 - Report the sheet row number, blank rows included
+ * @updated 10-19-2026 - Row errors and warnings as i18n keys
+ */
+
+import { MEASUREMENT_CONSTRAINTS } from './constants';
+import { getThresholdZone } from './validationUtils';
+import type { FlowReadingDTO } from '../dto/FlowReadingDTO';
+import type { FlowThresholdDTO } from '../dto/FlowThresholdDTO';
+import type { PipelineDTO } from '@/modules/network/core/dto/PipelineDTO';
+import type { ReadingSlotDTO } from '../../common/dto/ReadingSlotDTO';
+
+export type ReadingImportField =
+  | 'pipelineCode'
+  | 'readingDate'
+  | 'slotCode'
+  | 'recordedAt'
+  | 'pressure'
+  | 'temperature'
+  | 'flowRate'
+  | 'containedVolume'
+  | 'notes';
+
+export interface ReadingImportFieldDefinition {
+  key: ReadingImportField;
+  required: boolean;
+  /** Lower-case header names recognized when guessing the mapping */
+  aliases: string[];
+}
+
+export const READING_IMPORT_FIELDS: ReadingImportFieldDefinition[] = [
+  { key: 'pipelineCode', required: true, aliases: ['pipeline', 'pipeline code', 'code pipeline', 'canalisation'] },
+  { key: 'readingDate', required: true, aliases: ['date', 'reading date', 'date lecture', 'jour'] },
+  { key: 'slotCode', required: true, aliases: ['slot', 'slot code', 'créneau', 'creneau', 'shift'] },
+  { key: 'recordedAt', required: false, aliases: ['recorded at', 'time', 'heure', 'timestamp'] },
+  { key: 'pressure', required: false, aliases: ['pressure', 'pression', 'p', 'p (bar)'] },
+  { key: 'temperature', required: false, aliases: ['temperature', 'température', 't', 't (°c)'] },
+  { key: 'flowRate', required: false, aliases: ['flow rate', 'flowrate', 'débit', 'debit', 'q'] },
+  { key: 'containedVolume', required: false, aliases: ['volume', 'contained volume', 'v'] },
+  { key: 'notes', required: false, aliases: ['notes', 'note', 'comment', 'observation', 'remarque'] },
+];
+
+/** Field -> source column header */
+export type ReadingImportMapping = Partial<Record<ReadingImportField, string>>;
+
+/** One data row of the sheet, keyed by column header */
+export type ReadingImportRawRow = Record<string, unknown>;
+
+export interface ReadingImportLookups {
+  pipelinesByCode: Map<string, PipelineDTO>;
+  slotsByCode: Map<string, ReadingSlotDTO>;
+  thresholdsByPipeline: Map<number, FlowThresholdDTO>;
+  recordedById: number;
+  validationStatusId: number;
+}
+
+/**
+ * Row error or warning, translated by the wizard
+ * A `field` parameter holds a ReadingImportField.
+ */
+export interface ReadingImportMessage {
+  /** Key under flow.readingImport.messages */
+  key: string;
+  params?: Record<string, string | number>;
+}
+
+export interface ReadingImportRow {
+  /** Spreadsheet row number (header is row 1) */
+  rowNumber: number;
+  pipelineCode: string;
+  readingDate: string;
+  slotCode: string;
+  /** Built reading, null when the row cannot be imported */
+  reading: FlowReadingDTO | null;
+  errors: ReadingImportMessage[];
+  warnings: ReadingImportMessage[];
+}
+
+const MEASUREMENT_FIELDS = ['pressure', 'temperature', 'flowRate', 'containedVolume'] as const;
+
+/** Accepted range of each measurement (same limits as validateFlowReading) */
+const MEASUREMENT_LIMITS: Record<(typeof MEASUREMENT_FIELDS)[number], [number, number]> = {
+  pressure: [MEASUREMENT_CONSTRAINTS.PRESSURE_MIN, MEASUREMENT_CONSTRAINTS.PRESSURE_MAX],
+  temperature: [MEASUREMENT_CONSTRAINTS.TEMPERATURE_MIN, MEASUREMENT_CONSTRAINTS.TEMPERATURE_MAX],
+  flowRate: [MEASUREMENT_CONSTRAINTS.FLOW_RATE_MIN, MEASUREMENT_CONSTRAINTS.FLOW_RATE_MAX],
+  containedVolume: [MEASUREMENT_CONSTRAINTS.VOLUME_MIN, MEASUREMENT_CONSTRAINTS.VOLUME_MAX],
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const normalizeHeader = (header: string): string => header.trim().toLowerCase().replace(/[_\-.]+/g, ' ');
+
+/**
+ * Map each field to the first column whose header matches one of its aliases
+ */
+export function guessColumnMapping(headers: string[]): ReadingImportMapping {
+  const mapping: ReadingImportMapping = {};
+  const normalized = headers.map(normalizeHeader);
+
+  READING_IMPORT_FIELDS.forEach((field) => {
+    const candidates = [normalizeHeader(field.key), ...field.aliases];
+    const index = normalized.findIndex((header) => candidates.includes(header));
+    if (index >= 0) {
+      mapping[field.key] = headers[index];
+    }
+  });
+
+  return mapping;
+}
+
+/**
+ * Parse a cell into YYYY-MM-DD
+ * Accepts Date cells and yyyy-MM-dd, dd/MM/yyyy or dd-MM-yyyy text
+ */
+export function parseImportDate(value: unknown): string | null {
+  if (value instanceof Date && !Number.isNaN(value.getTime())) {
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  }
+
+  const text = String(value ?? '').trim();
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) {
+    return `${match[1]}-${pad(Number(match[2]))}-${pad(Number(match[3]))}`;
+  }
+
+  match = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})/);
+  if (match) {
+    return `${match[3]}-${pad(Number(match[2]))}-${pad(Number(match[1]))}`;
+  }
+
+  return null;
+}
+
+/**
+ * Parse a cell into a local date-time (YYYY-MM-DDTHH:mm)
+ * A time-only cell (HH:mm) is combined with the reading date
+ */
+export function parseImportDateTime(value: unknown, readingDate: string): string | null {
+  if (value instanceof Date && !Number.isNaN(value.getTime())) {
+    const date = parseImportDate(value);
+    // Excel stores time-only cells on 1899-12-30
+    const day = value.getFullYear() < 1900 ? readingDate : date;
+    return `${day}T${pad(value.getHours())}:${pad(value.getMinutes())}`;
+  }
+
+  const text = String(value ?? '').trim();
+  const timeOnly = text.match(/^(\d{1,2}):(\d{2})/);
+  if (timeOnly) {
+    return `${readingDate}T${pad(Number(timeOnly[1]))}:${timeOnly[2]}`;
+  }
+
+  const date = parseImportDate(text);
+  const time = text.match(/[ T](\d{1,2}):(\d{2})/);
+  if (date && time) {
+    return `${date}T${pad(Number(time[1]))}:${time[2]}`;
+  }
+
+  return null;
+}
+
+/**
+ * Parse a numeric cell, accepting a comma as decimal separator
+ * Returns undefined for an empty cell and NaN for an invalid one
+ */
+export function parseImportNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return value;
+  const text = String(value ?? '').trim().replace(/\s/g, '').replace(',', '.');
+  return text === '' ? undefined : Number(text);
+}
+
+const cellText = (row: ReadingImportRawRow, column?: string): string =>
+  column ? String(row[column] ?? '').trim() : '';
+
+/**
+ * Spreadsheet row number of a row. sheet_to_json skips blank rows and
+ * keeps the 0-based sheet row in the non-enumerable __rowNum__.
+ */
+const getRowNumber = (row: ReadingImportRawRow, index: number): number => {
+  const sheetRow = (row as { __rowNum__?: unknown }).__rowNum__;
+  return typeof sheetRow === 'number' ? sheetRow + 1 : index + 2;
+};
+
+/**
+ * Build and validate the readings of all rows
+ */
+export function buildImportRows(
+  rawRows: ReadingImportRawRow[],
+  mapping: ReadingImportMapping,
+  lookups: ReadingImportLookups
+): ReadingImportRow[] {
+  const seen = new Map<string, number>();
+
+  return rawRows.map((raw, index) => {
+    const rowNumber = getRowNumber(raw, index);
+    const errors: ReadingImportMessage[] = [];
+    const warnings: ReadingImportMessage[] = [];
+
+    const pipelineCode = cellText(raw, mapping.pipelineCode);
+    const slotCode = cellText(raw, mapping.slotCode);
+    const readingDate = mapping.readingDate ? parseImportDate(raw[mapping.readingDate]) : null;
+
+    const pipeline = lookups.pipelinesByCode.get(pipelineCode.toUpperCase());
+    const slot = lookups.slotsByCode.get(slotCode.toUpperCase());
+
+    if (!pipelineCode) errors.push({ key: 'pipelineMissing' });
+    else if (!pipeline?.id) errors.push({ key: 'pipelineUnknown', params: { code: pipelineCode } });
+
+    if (!slotCode) errors.push({ key: 'slotMissing' });
+    else if (!slot?.id) errors.push({ key: 'slotUnknown', params: { code: slotCode } });
+
+    if (!readingDate) errors.push({ key: 'dateInvalid' });
+
+    const measurements = Object.fromEntries(
+      MEASUREMENT_FIELDS.map((field) => [field, parseImportNumber(mapping[field] ? raw[mapping[field] as string] : undefined)])
+    ) as Record<(typeof MEASUREMENT_FIELDS)[number], number | undefined>;
+
+    MEASUREMENT_FIELDS.forEach((field) => {
+      if (Number.isNaN(measurements[field])) errors.push({ key: 'numberInvalid', params: { field } });
+    });
+    if (MEASUREMENT_FIELDS.every((field) => measurements[field] === undefined)) {
+      errors.push({ key: 'measurementRequired' });
+    }
+
+    let recordedAt: string | null = null;
+    if (readingDate) {
+      recordedAt = mapping.recordedAt && cellText(raw, mapping.recordedAt)
+        ? parseImportDateTime(raw[mapping.recordedAt], readingDate)
+        : slot ? `${readingDate}T${slot.startTime.substring(0, 5)}` : null;
+      if (mapping.recordedAt && cellText(raw, mapping.recordedAt) && !recordedAt) {
+        errors.push({ key: 'recordedAtInvalid' });
+      }
+    }
+
+    const display = { rowNumber, pipelineCode, readingDate: readingDate || cellText(raw, mapping.readingDate), slotCode };
+
+    if (errors.length > 0 || !pipeline?.id || !slot?.id || !readingDate || !recordedAt) {
+      return { ...display, reading: null, errors, warnings };
+    }
+
+    const reading: FlowReadingDTO = {
+      readingDate,
+      recordedAt,
+      pressure: measurements.pressure,
+      temperature: measurements.temperature,
+      flowRate: measurements.flowRate,
+      containedVolume: measurements.containedVolume,
+      notes: cellText(raw, mapping.notes) || undefined,
+      recordedById: lookups.recordedById,
+      validationStatusId: lookups.validationStatusId,
+      pipelineId: pipeline.id,
+      readingSlotId: slot.id,
+    };
+
+    MEASUREMENT_FIELDS.forEach((field) => {
+      const value = reading[field];
+      const [min, max] = MEASUREMENT_LIMITS[field];
+      if (value !== undefined && value !== null && (value < min || value > max)) {
+        errors.push({ key: 'outOfRange', params: { field, min, max } });
+      }
+    });
+
+    const key = `${pipeline.id}|${readingDate}|${slot.id}`;
+    if (seen.has(key)) {
+      errors.push({ key: 'duplicate', params: { row: seen.get(key) as number } });
+    } else {
+      seen.set(key, rowNumber);
+    }
+
+    const threshold = lookups.thresholdsByPipeline.get(pipeline.id);
+    if (threshold) {
+      MEASUREMENT_FIELDS.forEach((field) => {
+        const value = reading[field];
+        if (value === undefined || value === null) return;
+        const min = threshold[`${field}Min`];
+        const max = threshold[`${field}Max`];
+        if (getThresholdZone(value, min, max, threshold.alertTolerance) === 'BREACH') {
+          warnings.push({ key: 'thresholdBreach', params: { field, value, min, max } });
+        }
+      });
+    }
+
+    return { ...display, reading: errors.length > 0 ? null : reading, errors, warnings };
+  });
+}
@@ -0,0 +1,76 @@
+/**
+ * Reading Revision Utilities - Flow Core Module
+ *
+ * A validated reading is corrected through a new revision that goes
+ * through validation again. Until then the validated revision stays the
+ * effective one; once the correction is validated it supersedes it.
+ *
+ * Views built from reading lists keep only effective revisions with
+ * getEffectiveReadings: slot heatmap, reading comparison, anomaly readings
+ * chart and volume balance. Slot monitoring, the pipeline coverage report,
+ * the pipeline dashboard, the validator workload dashboard and the data
+ * quality score show figures computed or counted by the backend
+ * (SlotCoverageService, FlowMonitoringService, PipelineIntelligenceService,
+ * FlowReadingService totals) and rely on it counting effective revisions
+ * only (see ReadingWorkflowService.requestCorrection). The reading list and
+ * the validation queues show every revision on purpose.
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ * @updated 10-19-2026 - No new correction while one is awaiting validation
+ */
+
+import type { FlowReadingDTO } from '../dto/FlowReadingDTO';
+
+export const REVISED_FIELDS = ['pressure', 'temperature', 'flowRate', 'containedVolume', 'notes'] as const;
+
+export type RevisedField = (typeof REVISED_FIELDS)[number];
+
+/**
+ * Whether a correction (revision > 1) is still awaiting or failed validation
+ */
+export function isPendingCorrection(reading: FlowReadingDTO): boolean {
+  return !!reading.previousRevisionId && reading.validationStatus?.code !== 'VALIDATED';
+}
+
+/**
+ * Whether a reading is the revision to use for statistics and charts:
+ * not superseded by a validated correction, and not itself an unvalidated correction
+ */
+export function isEffectiveRevision(reading: FlowReadingDTO): boolean {
+  return !reading.superseded && !isPendingCorrection(reading);
+}
+
+/**
+ * Keep only the effective revision of each reading
+ */
+export function getEffectiveReadings(readings: FlowReadingDTO[]): FlowReadingDTO[] {
+  return readings.filter(isEffectiveRevision);
+}
+
+/**
+ * Whether a correction of the reading is awaiting validation
+ * @param revisions - Revisions of the reading (FlowReadingService.getRevisions)
+ */
+export function hasOpenCorrection(reading: FlowReadingDTO, revisions: FlowReadingDTO[]): boolean {
+  return revisions.some(
+    (revision) => revision.previousRevisionId === reading.id && revision.validationStatus?.code !== 'REJECTED'
+  );
+}
+
+/**
+ * Whether a correction can be requested on a reading
+ * @param revisions - Revisions of the reading, to exclude a correction already pending
+ */
+export function canRequestCorrection(reading: FlowReadingDTO, revisions: FlowReadingDTO[] = []): boolean {
+  return reading.validationStatus?.code === 'VALIDATED' && !reading.superseded && !hasOpenCorrection(reading, revisions);
+}
+
+/**
+ * Fields whose value differs between a revision and the one it corrects
+ */
+export function getRevisionChanges(revision: FlowReadingDTO, previous?: FlowReadingDTO): RevisedField[] {
+  if (!previous) return [];
+  const normalize = (value?: number | string | null) => (value === undefined || value === '' ? null : value);
+  return REVISED_FIELDS.filter((field) => normalize(revision[field]) !== normalize(previous[field]));
+}
@@ -0,0 +1,98 @@
+/**
+ * Slot Deadline Utilities - Flow Core Module
+ *
+ * Deadline of a reading slot, countdown formatting and the reminder
+ * offsets (minutes before the deadline) chosen by the operator.
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ * @updated 10-19-2026 - Slot end on a given operational day (heatmap lateness)
+ */
+
+import type { PipelineCoverageItemDTO, SlotCoverageDTO } from '../dto/SlotCoverageDTO';
+import type { ReadingSlotDTO } from '../../common/dto/ReadingSlotDTO';
+
+/** Minutes before the deadline at which operators are reminded */
+export const DEFAULT_REMINDER_OFFSETS = [30, 15, 5];
+
+const REMINDER_OFFSETS_STORAGE_KEY = 'flow.slotReminderOffsets';
+
+/** Operational day starts at 08:00: earlier slot times belong to the next calendar day */
+const OPERATIONAL_DAY_START = '08:00';
+
+/**
+ * Reminder offsets saved on this device, largest first
+ */
+export function loadReminderOffsets(): number[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(REMINDER_OFFSETS_STORAGE_KEY) || 'null');
+    if (Array.isArray(stored) && stored.every((value) => Number.isInteger(value) && value > 0)) {
+      return [...stored].sort((a, b) => b - a);
+    }
+  } catch {
+    // Invalid value: fall back to defaults
+  }
+  return DEFAULT_REMINDER_OFFSETS;
+}
+
+export function saveReminderOffsets(offsets: number[]): void {
+  localStorage.setItem(REMINDER_OFFSETS_STORAGE_KEY, JSON.stringify(offsets));
+}
+
+/**
+ * Parse "30, 15, 5" into unique positive offsets, largest first
+ * Returns null when any entry is not a positive whole number
+ */
+export function parseReminderOffsets(text: string): number[] | null {
+  const parts = text.split(/[,;\s]+/).filter(Boolean);
+  const offsets = parts.map(Number);
+  if (offsets.length === 0 || offsets.some((value) => !Number.isInteger(value) || value <= 0)) {
+    return null;
+  }
+  return Array.from(new Set(offsets)).sort((a, b) => b - a);
+}
+
+/**
+ * Deadline of the slot: slotDeadline from the backend, otherwise the slot
+ * end time on the operational day of the coverage date
+ */
+export function getSlotDeadline(coverage: SlotCoverageDTO): Date | null {
+  if (coverage.slotDeadline) {
+    const deadline = new Date(coverage.slotDeadline);
+    return Number.isNaN(deadline.getTime()) ? null : deadline;
+  }
+
+  return getSlotEndOnDate(coverage.date, coverage.slot);
+}
+
+/**
+ * End of a slot on the operational day starting on the given date
+ */
+export function getSlotEndOnDate(date: string, slot?: ReadingSlotDTO): Date | null {
+  const endTime = slot?.endTime?.substring(0, 5);
+  if (!endTime) return null;
+
+  const end = new Date(`${date}T${endTime}:00`);
+  if (endTime <= OPERATIONAL_DAY_START) {
+    end.setDate(end.getDate() + 1);
+  }
+  return end;
+}
+
+/**
+ * Pipelines of the slot still waiting for an operator (not recorded or draft)
+ */
+export function getPendingRecordings(coverage: SlotCoverageDTO): PipelineCoverageItemDTO[] {
+  return coverage.pipelineCoverage.filter((item) => item.status === 'NOT_RECORDED' || item.status === 'DRAFT');
+}
+
+/**
+ * Format a duration as H:MM:SS (sign ignored)
+ */
+export function formatCountdown(milliseconds: number): string {
+  const totalSeconds = Math.floor(Math.abs(milliseconds) / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
@@ -0,0 +1,139 @@
+/**
+ * Slot Heatmap Utilities - Flow Core Module
+ *
+ * Builds the pipelines × slots heatmap of a day from the slot coverages,
+ * and the pipelines × days completion heatmap of a date range from the
+ * pipeline readings, flagging pipelines that are chronically late.
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ * @updated 10-19-2026 - Use the configured reading slots instead of a fixed 12
+ */
+
+import { formatDate } from '@/shared/utils/dateTimeLocal';
+import { getEffectiveReadings } from './readingRevisionUtils';
+import { getSlotEndOnDate } from './slotDeadlineUtils';
+
+import type { PipelineCoverageItemDTO, SlotCoverageDTO } from '../dto/SlotCoverageDTO';
+import type { FlowReadingDTO } from '../dto/FlowReadingDTO';
+import type { PipelineDTO } from '@/modules/network/core/dto/PipelineDTO';
+
+/** Longest date range of the range mode (one request per pipeline) */
+export const MAX_RANGE_DAYS = 31;
+
+/** Share of late or missing slots from which a pipeline is flagged as chronically late */
+export const CHRONIC_LATE_RATIO = 0.25;
+
+export interface DayHeatmapRow {
+  pipelineId: number;
+  pipeline?: PipelineDTO;
+  /** Coverage item per slot ID */
+  cells: Record<number, PipelineCoverageItemDTO>;
+}
+
+export interface DayCompletion {
+  /** Slots with a reading */
+  recorded: number;
+  /** Slots with a validated reading */
+  validated: number;
+  /** Readings recorded after their slot ended */
+  late: number;
+}
+
+export interface RangeHeatmapRow {
+  pipelineId: number;
+  pipeline?: PipelineDTO;
+  /** Completion per date (YYYY-MM-DD) */
+  days: Record<string, DayCompletion>;
+  /** Recorded slots over expected slots (0-100) */
+  completionRate: number;
+  /** Late or missing slots over expected slots (0-1) */
+  lateRatio: number;
+  chronicallyLate: boolean;
+}
+
+/**
+ * Dates from start to end inclusive (YYYY-MM-DD)
+ */
+export function getDatesInRange(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  const current = new Date(`${startDate}T00:00:00`);
+  const end = new Date(`${endDate}T00:00:00`);
+  while (current <= end) {
+    dates.push(formatDate(current, 'yyyy-MM-dd'));
+    current.setDate(current.getDate() + 1);
+  }
+  return dates;
+}
+
+/**
+ * Pipelines × slots of one day, keyed by slot ID
+ */
+export function buildDayHeatmap(coverages: Record<number, SlotCoverageDTO>): DayHeatmapRow[] {
+  const rows = new Map<number, DayHeatmapRow>();
+
+  Object.entries(coverages).forEach(([slotId, coverage]) => {
+    coverage.pipelineCoverage.forEach((item) => {
+      const row = rows.get(item.pipelineId) || { pipelineId: item.pipelineId, pipeline: item.pipeline, cells: {} };
+      row.pipeline = row.pipeline || item.pipeline;
+      row.cells[Number(slotId)] = item;
+      rows.set(item.pipelineId, row);
+    });
+  });
+
+  return Array.from(rows.values()).sort((a, b) =>
+    (a.pipeline?.code || '').localeCompare(b.pipeline?.code || '')
+  );
+}
+
+/**
+ * Whether the reading was recorded after its slot ended
+ */
+export function isLateRecording(reading: FlowReadingDTO): boolean {
+  const slotEnd = getSlotEndOnDate(reading.readingDate, reading.readingSlot);
+  if (!slotEnd || !reading.recordedAt) return false;
+  return new Date(reading.recordedAt).getTime() > slotEnd.getTime();
+}
+
+/**
+ * Pipelines × days completion over a date range, chronically late first
+ * @param slotsPerDay - Number of configured reading slots
+ */
+export function buildRangeHeatmap(
+  pipelines: Array<{ pipelineId: number; pipeline?: PipelineDTO }>,
+  readingsByPipeline: Record<number, FlowReadingDTO[]>,
+  dates: string[],
+  slotsPerDay: number
+): RangeHeatmapRow[] {
+  const expectedSlots = dates.length * slotsPerDay;
+
+  const rows = pipelines.map(({ pipelineId, pipeline }) => {
+    const days: Record<string, DayCompletion> = {};
+    dates.forEach((date) => {
+      days[date] = { recorded: 0, validated: 0, late: 0 };
+    });
+
+    getEffectiveReadings(readingsByPipeline[pipelineId] || []).forEach((reading) => {
+      const day = days[reading.readingDate];
+      if (!day) return;
+      day.recorded += 1;
+      if (reading.validationStatus?.code === 'VALIDATED') day.validated += 1;
+      if (isLateRecording(reading)) day.late += 1;
+    });
+
+    const recorded = Object.values(days).reduce((sum, day) => sum + day.recorded, 0);
+    const late = Object.values(days).reduce((sum, day) => sum + day.late, 0);
+    const lateRatio = expectedSlots > 0 ? (late + expectedSlots - recorded) / expectedSlots : 0;
+
+    return {
+      pipelineId,
+      pipeline,
+      days,
+      completionRate: expectedSlots > 0 ? (recorded / expectedSlots) * 100 : 0,
+      lateRatio,
+      chronicallyLate: lateRatio >= CHRONIC_LATE_RATIO,
+    };
+  });
+
+  return rows.sort((a, b) => b.lateRatio - a.lateRatio || (a.pipeline?.code || '').localeCompare(b.pipeline?.code || ''));
+}
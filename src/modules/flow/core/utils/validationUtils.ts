@@ -6,6 +6,7 @@
  * @author CHOUABBIA Amine
  * @created 01-25-2026
  * @updated 01-25-2026
+ * @updated 10-19-2026 - Added getThresholdZone for per-measurement threshold colouring
  */
 
 import { MEASUREMENT_CONSTRAINTS, VALIDATION_CONSTRAINTS } from './constants';
@@ -219,3 +220,22 @@ export function getFlowRateBreachType(
   if (value > threshold.flowRateMax) return 'ABOVE_MAX';
   return null;
 }
+
+/**
+ * Position of a measurement relative to its threshold range
+ * - BREACH: outside [min, max]
+ * - WARNING: inside the tolerance band (% of the range) next to a limit
+ * - OK: otherwise
+ * Same rule as the ThresholdIndicator component.
+ */
+export function getThresholdZone(
+  value: number,
+  min: number,
+  max: number,
+  tolerance: number
+): 'OK' | 'WARNING' | 'BREACH' {
+  if (value < min || value > max) return 'BREACH';
+  const toleranceValue = (max - min) * (tolerance / 100);
+  if (value <= min + toleranceValue || value >= max - toleranceValue) return 'WARNING';
+  return 'OK';
+}
@@ -0,0 +1,208 @@
+/**
+ * Anomaly Readings Dialog Component
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ * @updated 10-19-2026 - Chart only the effective revision of corrected readings
+ *
+ * @description Charts the pipeline readings recorded around a detected
+ *              anomaly (pressure, temperature, flow rate) so analysts can
+ *              judge whether the anomaly is a real process deviation or a
+ *              data entry problem.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Chip,
+  CircularProgress,
+  Alert,
+} from '@mui/material';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+
+import { FlowReadingService } from '@/modules/flow/core/services/FlowReadingService';
+import { getEffectiveReadings } from '@/modules/flow/core/utils/readingRevisionUtils';
+import { getSeverityColor } from '@/modules/flow/common/dto/SeverityDTO';
+import { formatDate, formatDateTime } from '@/shared/utils/dateTimeLocal';
+import type { FlowReadingDTO } from '@/modules/flow/core/dto/FlowReadingDTO';
+import type { FlowAnomalyReadDTO } from '../services';
+
+interface AnomalyReadingsDialogProps {
+  anomaly: FlowAnomalyReadDTO | null;
+  onClose: () => void;
+}
+
+/**
+ * Days of readings loaded on each side of the detection date
+ */
+const WINDOW_DAYS = 3;
+
+const shiftDate = (isoDate: string, days: number): string => {
+  const date = new Date(isoDate);
+  date.setDate(date.getDate() + days);
+  return formatDate(date, 'yyyy-MM-dd');
+};
+
+/**
+ * Chart label of a reading: date plus slot start time when known
+ */
+const getReadingLabel = (reading: FlowReadingDTO): string => {
+  const time = reading.readingSlot?.startTime?.substring(0, 5);
+  return time ? `${formatDate(reading.readingDate)} ${time}` : formatDate(reading.readingDate);
+};
+
+export const AnomalyReadingsDialog: React.FC<AnomalyReadingsDialogProps> = ({ anomaly, onClose }) => {
+  const { t } = useTranslation();
+  const [readings, setReadings] = useState<FlowReadingDTO[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (anomaly) {
+      loadReadings(anomaly);
+    } else {
+      setReadings([]);
+      setError(null);
+    }
+  }, [anomaly]);
+
+  const loadReadings = async (target: FlowAnomalyReadDTO) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await FlowReadingService.getByPipelineAndDateRange(
+        target.pipelineId,
+        shiftDate(target.detectedAt, -WINDOW_DAYS),
+        shiftDate(target.detectedAt, WINDOW_DAYS)
+      );
+      setReadings(getEffectiveReadings(result));
+    } catch (err: any) {
+      console.error('Error loading anomaly readings:', err);
+      setError(err.message || t('flow.anomaly.alerts.readingsError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const chartData = readings.map((reading) => ({
+    label: getReadingLabel(reading),
+    pressure: reading.pressure,
+    temperature: reading.temperature,
+    flowRate: reading.flowRate,
+  }));
+
+  // Reading slot closest to the detection date, marked on the chart
+  const detectionLabel = anomaly
+    ? chartData.find((point) => point.label.startsWith(formatDate(anomaly.detectedAt)))?.label
+    : undefined;
+
+  return (
+    <Dialog open={!!anomaly} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          {t('flow.anomaly.readings.title', { pipeline: anomaly?.pipelineName || '' })}
+          {anomaly && (
+            <>
+              <Chip label={anomaly.severity} size="small" color={getSeverityColor(anomaly.severity)} />
+              <Chip label={anomaly.anomalyTypeCode} size="small" variant="outlined" />
+            </>
+          )}
+        </Box>
+        {anomaly && (
+          <Typography variant="body2" color="text.secondary">
+            {formatDateTime(anomaly.detectedAt)} — {anomaly.description}
+          </Typography>
+        )}
+      </DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+            <CircularProgress />
+          </Box>
+        ) : chartData.length === 0 ? (
+          <Box sx={{ textAlign: 'center', py: 6 }}>
+            <Typography color="text.secondary">
+              {t('flow.anomaly.readings.empty', { days: WINDOW_DAYS })}
+            </Typography>
+          </Box>
+        ) : (
+          <ResponsiveContainer width="100%" height={360}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+              <YAxis yAxisId="left" />
+              <YAxis yAxisId="right" orientation="right" />
+              <Tooltip />
+              <Legend />
+              {detectionLabel && (
+                <ReferenceLine
+                  yAxisId="left"
+                  x={detectionLabel}
+                  stroke="#d32f2f"
+                  strokeDasharray="4 4"
+                  label={t('flow.anomaly.readings.detected')}
+                />
+              )}
+              <Line
+                yAxisId="left"
+                type="monotone"
+                dataKey="pressure"
+                stroke="#1976d2"
+                strokeWidth={2}
+                dot={{ r: 3 }}
+                name={t('flow.anomaly.readings.pressure')}
+                connectNulls
+              />
+              <Line
+                yAxisId="left"
+                type="monotone"
+                dataKey="temperature"
+                stroke="#ed6c02"
+                strokeWidth={2}
+                dot={{ r: 3 }}
+                name={t('flow.anomaly.readings.temperature')}
+                connectNulls
+              />
+              <Line
+                yAxisId="right"
+                type="monotone"
+                dataKey="flowRate"
+                stroke="#2e7d32"
+                strokeWidth={2}
+                dot={{ r: 3 }}
+                name={t('flow.anomaly.readings.flowRate')}
+                connectNulls
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('flow.anomaly.actions.close')}</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,242 @@
+/**
+ * Reading Reassignment Dialog Component
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ *
+ * @description Hands pending readings of an overloaded validator over to
+ *              another validator of the same structure. The oldest
+ *              readings above the structure average are preselected.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  TextField,
+  MenuItem,
+  Checkbox,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  LinearProgress,
+  Alert,
+} from '@mui/material';
+
+import { ReadingWorkflowService } from '@/modules/flow/workflow/services';
+import { formatDate, formatDateTime } from '@/shared/utils/dateTimeLocal';
+import type { BatchResult } from '@/modules/flow/workflow/services';
+import type { FlowReadingDTO } from '@/modules/flow/core/dto/FlowReadingDTO';
+import type { ValidatorWorkloadDTO } from '../dto/analytics';
+
+interface ReadingReassignmentDialogProps {
+  /** Overloaded validator, null when closed */
+  source: ValidatorWorkloadDTO | null;
+  /** Pending readings of the source validator, oldest first */
+  readings: FlowReadingDTO[];
+  /** Other validators of the structure */
+  targets: ValidatorWorkloadDTO[];
+  /** Readings preselected (oldest first) */
+  suggestedCount: number;
+  requestedById: number;
+  onClose: () => void;
+  onReassigned: (result: BatchResult) => void;
+}
+
+export const ReadingReassignmentDialog: React.FC<ReadingReassignmentDialogProps> = ({
+  source,
+  readings,
+  targets,
+  suggestedCount,
+  requestedById,
+  onClose,
+  onReassigned,
+}) => {
+  const { t } = useTranslation();
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [targetId, setTargetId] = useState<number | ''>('');
+  const [reason, setReason] = useState('');
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [error, setError] = useState<string | null>(null);
+
+  // Least loaded validator first
+  const sortedTargets = [...targets].sort((a, b) => a.pendingCount - b.pendingCount);
+
+  useEffect(() => {
+    if (!source) return;
+    setSelected(new Set(readings.slice(0, suggestedCount).map((reading) => reading.id as number)));
+    setTargetId(sortedTargets[0]?.validatorId ?? '');
+    setReason('');
+    setError(null);
+    setProgress({ completed: 0, total: 0 });
+  }, [source]);
+
+  const toggle = (id: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const allSelected = readings.length > 0 && selected.size === readings.length;
+
+  const handleReassign = async () => {
+    if (!targetId || selected.size === 0) return;
+    setRunning(true);
+    setError(null);
+    const ids = Array.from(selected);
+    setProgress({ completed: 0, total: ids.length });
+
+    const result = await ReadingWorkflowService.batchReassign(
+      ids,
+      { assignedValidatorId: targetId, requestedById, reason },
+      { onProgress: (completed, total) => setProgress({ completed, total }) }
+    );
+    setRunning(false);
+
+    if (result.failed.length > 0) {
+      // Keep the failed readings selected for a retry
+      setSelected(new Set(result.failed.map((failure) => failure.id)));
+      setError(t('flow.validatorWorkload.reassign.partialFailure', {
+        count: result.failed.length,
+        error: result.failed[0].error,
+      }));
+    }
+    onReassigned(result);
+  };
+
+  return (
+    <Dialog open={!!source} onClose={() => !running && onClose()} maxWidth="md" fullWidth>
+      <DialogTitle>
+        {t('flow.validatorWorkload.reassign.title', { name: source?.validatorName })}
+      </DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {t('flow.validatorWorkload.reassign.description', { count: suggestedCount })}
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+          <TextField
+            select
+            size="small"
+            label={t('flow.validatorWorkload.reassign.target')}
+            value={targetId}
+            onChange={(e) => setTargetId(Number(e.target.value))}
+            sx={{ minWidth: 280 }}
+            disabled={running}
+          >
+            {sortedTargets.map((target) => (
+              <MenuItem key={target.validatorId} value={target.validatorId}>
+                {t('flow.validatorWorkload.reassign.targetOption', {
+                  name: target.validatorName,
+                  count: target.pendingCount,
+                })}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            size="small"
+            label={t('flow.validatorWorkload.reassign.reason')}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            inputProps={{ maxLength: 500 }}
+            sx={{ flexGrow: 1 }}
+            disabled={running}
+          />
+        </Box>
+
+        {sortedTargets.length === 0 && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {t('flow.validatorWorkload.reassign.noTargets')}
+          </Alert>
+        )}
+        {readings.length === 0 ? (
+          <Alert severity="info">{t('flow.validatorWorkload.reassign.noReadings')}</Alert>
+        ) : (
+          <TableContainer sx={{ maxHeight: 360 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell padding="checkbox">
+                    <Checkbox
+                      checked={allSelected}
+                      indeterminate={selected.size > 0 && !allSelected}
+                      onChange={() =>
+                        setSelected(allSelected ? new Set() : new Set(readings.map((reading) => reading.id as number)))
+                      }
+                      disabled={running}
+                    />
+                  </TableCell>
+                  <TableCell>{t('flow.validatorWorkload.reassign.columns.pipeline')}</TableCell>
+                  <TableCell>{t('flow.validatorWorkload.reassign.columns.date')}</TableCell>
+                  <TableCell>{t('flow.validatorWorkload.reassign.columns.slot')}</TableCell>
+                  <TableCell>{t('flow.validatorWorkload.reassign.columns.recordedAt')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {readings.map((reading) => (
+                  <TableRow
+                    key={reading.id}
+                    hover
+                    onClick={() => !running && toggle(reading.id as number)}
+                    sx={{ cursor: 'pointer' }}
+                  >
+                    <TableCell padding="checkbox">
+                      <Checkbox checked={selected.has(reading.id as number)} disabled={running} />
+                    </TableCell>
+                    <TableCell>{reading.pipeline?.code || reading.pipelineId}</TableCell>
+                    <TableCell>{formatDate(reading.readingDate)}</TableCell>
+                    <TableCell>{reading.readingSlot?.code || '-'}</TableCell>
+                    <TableCell>{reading.recordedAt ? formatDateTime(reading.recordedAt) : '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        {running && (
+          <Box sx={{ mt: 2 }}>
+            <LinearProgress
+              variant="determinate"
+              value={progress.total > 0 ? (progress.completed / progress.total) * 100 : 0}
+            />
+            <Typography variant="caption" color="text.secondary">
+              {progress.completed}/{progress.total}
+            </Typography>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={running}>
+          {t('common.cancel')}
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleReassign}
+          disabled={running || !targetId || selected.size === 0}
+        >
+          {t('flow.validatorWorkload.reassign.submit', { count: selected.size })}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -3,7 +3,10 @@
  * 
  * @author CHOUABBIA Amine
  * @created 02-14-2026
+ * @updated 10-19-2026 - Added useUnacknowledgedAnomalyCount
  */
 
 export { usePipelineDashboard } from './usePipelineDashboard';
 export type { UsePipelineDashboardReturn, UsePipelineDashboardOptions } from './usePipelineDashboard';
+export { useUnacknowledgedAnomalyCount } from './useUnacknowledgedAnomalyCount';
+export type { UseUnacknowledgedAnomalyCountOptions } from './useUnacknowledgedAnomalyCount';
@@ -0,0 +1,54 @@
+/**
+ * useUnacknowledgedAnomalyCount Hook
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ *
+ * @description Polls the number of anomalies still waiting for an operator
+ *              review. Only the page total is needed, so a single-row page
+ *              is requested.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { FlowAnomalyService } from '../services';
+
+export interface UseUnacknowledgedAnomalyCountOptions {
+  /**
+   * Refresh interval in milliseconds
+   * @default 60000 (1 minute)
+   */
+  refreshInterval?: number;
+
+  /**
+   * Enable polling
+   * @default true
+   */
+  enabled?: boolean;
+}
+
+export const useUnacknowledgedAnomalyCount = (
+  options: UseUnacknowledgedAnomalyCountOptions = {}
+) => {
+  const { refreshInterval = 60000, enabled = true } = options;
+  const [count, setCount] = useState(0);
+
+  const fetchCount = useCallback(async () => {
+    try {
+      const page = await FlowAnomalyService.getUnacknowledged({ page: 0, size: 1 });
+      setCount(page.totalElements);
+    } catch (err) {
+      console.error('Error fetching unacknowledged anomaly count:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    fetchCount();
+    const interval = setInterval(fetchCount, refreshInterval);
+
+    return () => clearInterval(interval);
+  }, [enabled, refreshInterval, fetchCount]);
+
+  return { count, refetch: fetchCount };
+};
@@ -0,0 +1,460 @@
+/**
+ * Anomaly Review Workspace Page
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ *
+ * @description Analyst workspace for anomalies detected by the flow
+ *              intelligence engine. Anomalies are filtered by severity and
+ *              anomaly type, grouped per pipeline, can be inspected against
+ *              the surrounding readings and acknowledged one by one or per
+ *              pipeline.
+ *
+ * @route /flow/intelligence/anomalies
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Button,
+  TextField,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Tooltip,
+  CircularProgress,
+  Alert,
+  MenuItem,
+  Grid,
+  Paper,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+} from '@mui/material';
+import {
+  Refresh as RefreshIcon,
+  ExpandMore as ExpandMoreIcon,
+  ShowChart as ShowChartIcon,
+  DoneAll as AcknowledgeIcon,
+  Dashboard as DashboardIcon,
+} from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
+
+import { FlowAnomalyService } from '../services';
+import { AnomalyReadingsDialog } from '../components/AnomalyReadingsDialog';
+import { getSeverityColor } from '@/modules/flow/common/dto/SeverityDTO';
+import { formatDateTime } from '@/shared/utils/dateTimeLocal';
+import type { FlowAnomalyReadDTO } from '../services';
+
+type AnomalyView = 'unacknowledged' | 'all';
+
+type Severity = FlowAnomalyReadDTO['severity'];
+
+interface PipelineGroup {
+  pipelineId: number;
+  pipelineName: string;
+  anomalies: FlowAnomalyReadDTO[];
+  unacknowledged: number;
+  highestSeverity: Severity;
+}
+
+/**
+ * Anomalies loaded in one request; grouping and filtering are client-side
+ */
+const WORKSPACE_SIZE = 500;
+
+const SEVERITY_ORDER: Severity[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+
+const severityRank = (severity: Severity): number => SEVERITY_ORDER.indexOf(severity);
+
+export const AnomalyWorkspace: React.FC = () => {
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+
+  // State
+  const [anomalies, setAnomalies] = useState<FlowAnomalyReadDTO[]>([]);
+  const [totalElements, setTotalElements] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [acknowledging, setAcknowledging] = useState<number[]>([]);
+  const [chartAnomaly, setChartAnomaly] = useState<FlowAnomalyReadDTO | null>(null);
+
+  // Filters
+  const [view, setView] = useState<AnomalyView>('unacknowledged');
+  const [selectedSeverity, setSelectedSeverity] = useState<Severity | ''>('');
+  const [selectedType, setSelectedType] = useState('');
+
+  useEffect(() => {
+    loadAnomalies();
+  }, [view]);
+
+  const loadAnomalies = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const pageable = { page: 0, size: WORKSPACE_SIZE };
+      const result =
+        view === 'unacknowledged'
+          ? await FlowAnomalyService.getUnacknowledged(pageable)
+          : await FlowAnomalyService.getAll(pageable);
+
+      setAnomalies(result.content);
+      setTotalElements(result.totalElements);
+    } catch (err: any) {
+      console.error('Error loading anomalies:', err);
+      setError(err.message || t('flow.anomaly.alerts.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleViewChange = (_event: React.MouseEvent<HTMLElement>, newView: AnomalyView | null) => {
+    if (newView) {
+      setView(newView);
+    }
+  };
+
+  const handleClearFilters = () => {
+    setSelectedSeverity('');
+    setSelectedType('');
+  };
+
+  // Anomaly types present in the loaded data
+  const anomalyTypes = useMemo(
+    () => Array.from(new Set(anomalies.map((anomaly) => anomaly.anomalyTypeCode))).sort(),
+    [anomalies]
+  );
+
+  const filteredAnomalies = useMemo(
+    () =>
+      anomalies.filter(
+        (anomaly) =>
+          (!selectedSeverity || anomaly.severity === selectedSeverity) &&
+          (!selectedType || anomaly.anomalyTypeCode === selectedType)
+      ),
+    [anomalies, selectedSeverity, selectedType]
+  );
+
+  const severityCounts = useMemo(() => {
+    const counts: Partial<Record<Severity, number>> = {};
+    filteredAnomalies.forEach((anomaly) => {
+      counts[anomaly.severity] = (counts[anomaly.severity] || 0) + 1;
+    });
+    return counts;
+  }, [filteredAnomalies]);
+
+  // Pipelines with the most severe, then most numerous, anomalies first
+  const groups = useMemo<PipelineGroup[]>(() => {
+    const byPipeline = new Map<number, PipelineGroup>();
+
+    filteredAnomalies.forEach((anomaly) => {
+      let group = byPipeline.get(anomaly.pipelineId);
+      if (!group) {
+        group = {
+          pipelineId: anomaly.pipelineId,
+          pipelineName: anomaly.pipelineName,
+          anomalies: [],
+          unacknowledged: 0,
+          highestSeverity: anomaly.severity,
+        };
+        byPipeline.set(anomaly.pipelineId, group);
+      }
+      group.anomalies.push(anomaly);
+      if (!anomaly.acknowledged) group.unacknowledged++;
+      if (severityRank(anomaly.severity) < severityRank(group.highestSeverity)) {
+        group.highestSeverity = anomaly.severity;
+      }
+    });
+
+    const result = Array.from(byPipeline.values());
+    result.forEach((group) =>
+      group.anomalies.sort((a, b) => new Date(b.detectedAt).getTime() - new Date(a.detectedAt).getTime())
+    );
+    return result.sort(
+      (a, b) =>
+        severityRank(a.highestSeverity) - severityRank(b.highestSeverity) ||
+        b.anomalies.length - a.anomalies.length
+    );
+  }, [filteredAnomalies]);
+
+  /**
+   * Acknowledge the given anomalies; failures are counted, not fatal
+   */
+  const acknowledge = async (targets: FlowAnomalyReadDTO[]) => {
+    const ids = targets.filter((anomaly) => !anomaly.acknowledged).map((anomaly) => anomaly.id);
+    if (ids.length === 0) return;
+
+    setAcknowledging((prev) => [...prev, ...ids]);
+    setError(null);
+
+    const results = await Promise.allSettled(ids.map((id) => FlowAnomalyService.acknowledge(id)));
+
+    const updated = new Map<number, FlowAnomalyReadDTO>();
+    results.forEach((result) => {
+      if (result.status === 'fulfilled') updated.set(result.value.id, result.value);
+    });
+    const failed = ids.length - updated.size;
+
+    // Acknowledged anomalies leave the unacknowledged view
+    setAnomalies((prev) =>
+      view === 'unacknowledged'
+        ? prev.filter((anomaly) => !updated.has(anomaly.id))
+        : prev.map((anomaly) => updated.get(anomaly.id) || anomaly)
+    );
+    if (view === 'unacknowledged') {
+      setTotalElements((prev) => prev - updated.size);
+    }
+    setAcknowledging((prev) => prev.filter((id) => !ids.includes(id)));
+
+    if (updated.size > 0) {
+      setSuccess(t('flow.anomaly.alerts.acknowledgeSuccess', { count: updated.size }));
+    }
+    if (failed > 0) {
+      setError(t('flow.anomaly.alerts.acknowledgeError', { count: failed }));
+    }
+  };
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* HEADER SECTION - Containerized */}
+      <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+        <Box sx={{ p: 2.5 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Box>
+              <Typography variant="h4" fontWeight={700} color="text.primary" sx={{ mb: 0.5 }}>
+                {t('flow.anomaly.title')}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {t('flow.anomaly.subtitle')}
+              </Typography>
+            </Box>
+            <Stack direction="row" spacing={1.5}>
+              <Tooltip title={t('action.refresh', 'Refresh')}>
+                <IconButton onClick={loadAnomalies} size="medium" color="primary">
+                  <RefreshIcon />
+                </IconButton>
+              </Tooltip>
+            </Stack>
+          </Box>
+
+          {/* Severity summary */}
+          <Stack direction="row" spacing={1} sx={{ mt: 2 }} flexWrap="wrap" useFlexGap>
+            {SEVERITY_ORDER.filter((severity) => severityCounts[severity]).map((severity) => (
+              <Chip
+                key={severity}
+                label={`${severity}: ${severityCounts[severity]}`}
+                size="small"
+                color={getSeverityColor(severity)}
+                variant="outlined"
+              />
+            ))}
+          </Stack>
+        </Box>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+      {totalElements > anomalies.length && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          {t('flow.anomaly.alerts.truncated', { shown: anomalies.length, total: totalElements })}
+        </Alert>
+      )}
+
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <Grid container spacing={2} alignItems="center">
+            <Grid item xs={12} md={4}>
+              <ToggleButtonGroup value={view} exclusive onChange={handleViewChange} size="small">
+                <ToggleButton value="unacknowledged">{t('flow.anomaly.filters.viewUnacknowledged')}</ToggleButton>
+                <ToggleButton value="all">{t('flow.anomaly.filters.viewAll')}</ToggleButton>
+              </ToggleButtonGroup>
+            </Grid>
+
+            <Grid item xs={12} md={3}>
+              <TextField
+                fullWidth
+                select
+                size="small"
+                label={t('flow.anomaly.filters.severity')}
+                value={selectedSeverity}
+                onChange={(e) => setSelectedSeverity(e.target.value as Severity | '')}
+              >
+                <MenuItem value="">{t('flow.anomaly.filters.all')}</MenuItem>
+                {SEVERITY_ORDER.map((severity) => (
+                  <MenuItem key={severity} value={severity}>
+                    {severity}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+
+            <Grid item xs={12} md={3}>
+              <TextField
+                fullWidth
+                select
+                size="small"
+                label={t('flow.anomaly.filters.type')}
+                value={selectedType}
+                onChange={(e) => setSelectedType(e.target.value)}
+              >
+                <MenuItem value="">{t('flow.anomaly.filters.all')}</MenuItem>
+                {anomalyTypes.map((type) => (
+                  <MenuItem key={type} value={type}>
+                    {type}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+
+            <Grid item xs={12} md={2}>
+              <Button variant="outlined" onClick={handleClearFilters} fullWidth>
+                {t('flow.anomaly.filters.clearFilters')}
+              </Button>
+            </Grid>
+          </Grid>
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+          <CircularProgress />
+        </Box>
+      ) : groups.length === 0 ? (
+        <Paper variant="outlined" sx={{ textAlign: 'center', py: 6 }}>
+          <Typography color="text.secondary">{t('flow.anomaly.noAnomalies')}</Typography>
+        </Paper>
+      ) : (
+        groups.map((group) => (
+          <Accordion key={group.pipelineId} defaultExpanded={group.highestSeverity === 'CRITICAL'}>
+            <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, flexGrow: 1, flexWrap: 'wrap' }}>
+                <Typography variant="subtitle1" fontWeight={600}>
+                  {group.pipelineName}
+                </Typography>
+                <Chip label={group.highestSeverity} size="small" color={getSeverityColor(group.highestSeverity)} />
+                <Chip
+                  label={t('flow.anomaly.group.count', { count: group.anomalies.length })}
+                  size="small"
+                  variant="outlined"
+                />
+                {group.unacknowledged > 0 && (
+                  <Chip
+                    label={t('flow.anomaly.group.unacknowledged', { count: group.unacknowledged })}
+                    size="small"
+                    color="warning"
+                    variant="outlined"
+                  />
+                )}
+              </Box>
+            </AccordionSummary>
+            <AccordionDetails>
+              <Stack direction="row" spacing={1} justifyContent="flex-end" sx={{ mb: 1 }}>
+                <Button
+                  size="small"
+                  startIcon={<DashboardIcon />}
+                  onClick={() => navigate(`/flow/intelligence/pipeline/${group.pipelineId}/dashboard`)}
+                >
+                  {t('flow.anomaly.actions.openDashboard')}
+                </Button>
+                <Button
+                  size="small"
+                  variant="outlined"
+                  startIcon={<AcknowledgeIcon />}
+                  onClick={() => acknowledge(group.anomalies)}
+                  disabled={group.unacknowledged === 0 || group.anomalies.some((a) => acknowledging.includes(a.id))}
+                >
+                  {t('flow.anomaly.actions.acknowledgeAll')}
+                </Button>
+              </Stack>
+
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>{t('flow.anomaly.fields.detectedAt')}</TableCell>
+                      <TableCell>{t('flow.anomaly.fields.type')}</TableCell>
+                      <TableCell>{t('flow.anomaly.fields.severity')}</TableCell>
+                      <TableCell>{t('flow.anomaly.fields.description')}</TableCell>
+                      <TableCell>{t('flow.anomaly.fields.status')}</TableCell>
+                      <TableCell align="center">{t('flow.anomaly.fields.actions')}</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {group.anomalies.map((anomaly) => (
+                      <TableRow key={anomaly.id} hover>
+                        <TableCell>{formatDateTime(anomaly.detectedAt)}</TableCell>
+                        <TableCell>
+                          <Chip label={anomaly.anomalyTypeCode} size="small" variant="outlined" />
+                        </TableCell>
+                        <TableCell>
+                          <Chip label={anomaly.severity} size="small" color={getSeverityColor(anomaly.severity)} />
+                        </TableCell>
+                        <TableCell>{anomaly.description}</TableCell>
+                        <TableCell>
+                          {anomaly.acknowledged ? (
+                            <Tooltip title={anomaly.acknowledgedAt ? formatDateTime(anomaly.acknowledgedAt) : ''}>
+                              <Chip label={t('flow.anomaly.status.acknowledged')} size="small" color="success" variant="outlined" />
+                            </Tooltip>
+                          ) : (
+                            <Chip label={t('flow.anomaly.status.pending')} size="small" color="warning" variant="outlined" />
+                          )}
+                        </TableCell>
+                        <TableCell align="center">
+                          <Tooltip title={t('flow.anomaly.tooltips.readings')}>
+                            <IconButton size="small" color="primary" onClick={() => setChartAnomaly(anomaly)}>
+                              <ShowChartIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                          <Tooltip title={t('flow.anomaly.tooltips.acknowledge')}>
+                            <span>
+                              <IconButton
+                                size="small"
+                                color="success"
+                                onClick={() => acknowledge([anomaly])}
+                                disabled={anomaly.acknowledged || acknowledging.includes(anomaly.id)}
+                              >
+                                {acknowledging.includes(anomaly.id) ? (
+                                  <CircularProgress size={16} />
+                                ) : (
+                                  <AcknowledgeIcon fontSize="small" />
+                                )}
+                              </IconButton>
+                            </span>
+                          </Tooltip>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </AccordionDetails>
+          </Accordion>
+        ))
+      )}
+
+      <AnomalyReadingsDialog anomaly={chartAnomaly} onClose={() => setChartAnomaly(null)} />
+    </Box>
+  );
+};
@@ -0,0 +1,453 @@
+/**
+ * Data Quality Issue Tracker Page
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ *
+ * @description Lists data quality issues detected on flow readings
+ *              (missing values, out of range values, duplicate entries)
+ *              with filters by pipeline, issue type and resolved state.
+ *              A per-pipeline quality score ranks the pipelines whose
+ *              readings need the most corrections.
+ *
+ * @route /flow/intelligence/data-quality
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Card,
+  CardContent,
+  CardHeader,
+  Typography,
+  Button,
+  TextField,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  Chip,
+  Tooltip,
+  CircularProgress,
+  Alert,
+  MenuItem,
+  Grid,
+  Paper,
+  Stack,
+  LinearProgress,
+} from '@mui/material';
+import {
+  Refresh as RefreshIcon,
+  Edit as EditIcon,
+} from '@mui/icons-material';
+
+import { DataQualityIssueService } from '../services';
+import { FlowReadingService } from '@/modules/flow/core/services/FlowReadingService';
+import { getSeverityColor } from '@/modules/flow/common/dto/SeverityDTO';
+import { formatDate, formatDateTime } from '@/shared/utils/dateTimeLocal';
+import type { DataQualityIssueReadDTO } from '../services';
+
+type ResolvedFilter = 'open' | 'resolved' | '';
+
+interface PipelineQuality {
+  pipelineId: number;
+  pipelineName: string;
+  totalReadings: number;
+  affectedReadings: number;
+  openIssues: number;
+  /** Share of readings without any detected issue (0-100) */
+  score: number;
+}
+
+/**
+ * Issues loaded in one request; filtering and scoring are client-side
+ */
+const TRACKER_SIZE = 1000;
+
+const getScoreColor = (score: number): 'success' | 'warning' | 'error' => {
+  if (score >= 95) return 'success';
+  if (score >= 85) return 'warning';
+  return 'error';
+};
+
+export const DataQualityIssueList: React.FC = () => {
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+
+  // State
+  const [issues, setIssues] = useState<DataQualityIssueReadDTO[]>([]);
+  const [totalElements, setTotalElements] = useState(0);
+  const [readingCounts, setReadingCounts] = useState<Record<number, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(10);
+
+  // Filters
+  const [selectedPipeline, setSelectedPipeline] = useState<number | ''>('');
+  const [selectedType, setSelectedType] = useState('');
+  const [resolvedFilter, setResolvedFilter] = useState<ResolvedFilter>('open');
+
+  useEffect(() => {
+    loadIssues();
+  }, []);
+
+  const loadIssues = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const result = await DataQualityIssueService.getAll({ page: 0, size: TRACKER_SIZE });
+      setIssues(result.content);
+      setTotalElements(result.totalElements);
+      await loadReadingCounts(result.content);
+    } catch (err: any) {
+      console.error('Error loading data quality issues:', err);
+      setError(err.message || t('flow.dataQuality.alerts.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Number of readings recorded per pipeline, the denominator of the quality score
+   */
+  const loadReadingCounts = async (loaded: DataQualityIssueReadDTO[]) => {
+    const pipelineIds = Array.from(new Set(loaded.map((issue) => issue.pipelineId)));
+    const results = await Promise.allSettled(
+      pipelineIds.map((pipelineId) => FlowReadingService.getByPipeline(pipelineId, { page: 0, size: 1 }))
+    );
+
+    const counts: Record<number, number> = {};
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        counts[pipelineIds[index]] = result.value.totalElements;
+      }
+    });
+    setReadingCounts(counts);
+  };
+
+  const handleClearFilters = () => {
+    setSelectedPipeline('');
+    setSelectedType('');
+    setResolvedFilter('');
+    setPage(0);
+  };
+
+  // Filter options present in the loaded data
+  const pipelines = useMemo(() => {
+    const byId = new Map<number, string>();
+    issues.forEach((issue) => byId.set(issue.pipelineId, issue.pipelineName));
+    return Array.from(byId.entries())
+      .map(([id, name]) => ({ id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [issues]);
+
+  const issueTypes = useMemo(
+    () => Array.from(new Set(issues.map((issue) => issue.issueTypeCode))).sort(),
+    [issues]
+  );
+
+  const filteredIssues = useMemo(
+    () =>
+      issues
+        .filter(
+          (issue) =>
+            (!selectedPipeline || issue.pipelineId === selectedPipeline) &&
+            (!selectedType || issue.issueTypeCode === selectedType) &&
+            (!resolvedFilter || issue.resolved === (resolvedFilter === 'resolved'))
+        )
+        .sort((a, b) => new Date(b.detectedAt).getTime() - new Date(a.detectedAt).getTime()),
+    [issues, selectedPipeline, selectedType, resolvedFilter]
+  );
+
+  // Quality score uses every loaded issue, regardless of the table filters
+  const qualityScores = useMemo<PipelineQuality[]>(() => {
+    const affected = new Map<number, Set<number>>();
+    const open = new Map<number, number>();
+
+    issues.forEach((issue) => {
+      if (!affected.has(issue.pipelineId)) affected.set(issue.pipelineId, new Set());
+      affected.get(issue.pipelineId)!.add(issue.flowReadingId);
+      if (!issue.resolved) open.set(issue.pipelineId, (open.get(issue.pipelineId) || 0) + 1);
+    });
+
+    return pipelines
+      .map(({ id, name }) => {
+        const affectedReadings = affected.get(id)?.size || 0;
+        const totalReadings = Math.max(readingCounts[id] || 0, affectedReadings);
+        return {
+          pipelineId: id,
+          pipelineName: name,
+          totalReadings,
+          affectedReadings,
+          openIssues: open.get(id) || 0,
+          score: totalReadings > 0 ? ((totalReadings - affectedReadings) / totalReadings) * 100 : 100,
+        };
+      })
+      .sort((a, b) => a.score - b.score);
+  }, [issues, pipelines, readingCounts]);
+
+  const pagedIssues = filteredIssues.slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage);
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* HEADER SECTION - Containerized */}
+      <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+        <Box sx={{ p: 2.5 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Box>
+              <Typography variant="h4" fontWeight={700} color="text.primary" sx={{ mb: 0.5 }}>
+                {t('flow.dataQuality.title')}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {t('flow.dataQuality.subtitle')}
+              </Typography>
+            </Box>
+            <Stack direction="row" spacing={1.5}>
+              <Tooltip title={t('action.refresh', 'Refresh')}>
+                <IconButton onClick={loadIssues} size="medium" color="primary">
+                  <RefreshIcon />
+                </IconButton>
+              </Tooltip>
+            </Stack>
+          </Box>
+        </Box>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {totalElements > issues.length && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          {t('flow.dataQuality.alerts.truncated', { shown: issues.length, total: totalElements })}
+        </Alert>
+      )}
+
+      {/* Per-pipeline quality score */}
+      <Card sx={{ mb: 3 }}>
+        <CardHeader
+          title={t('flow.dataQuality.score.title')}
+          subheader={t('flow.dataQuality.score.subtitle')}
+        />
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('flow.dataQuality.fields.pipeline')}</TableCell>
+                <TableCell align="right">{t('flow.dataQuality.score.readings')}</TableCell>
+                <TableCell align="right">{t('flow.dataQuality.score.affectedReadings')}</TableCell>
+                <TableCell align="right">{t('flow.dataQuality.score.openIssues')}</TableCell>
+                <TableCell sx={{ width: 280 }}>{t('flow.dataQuality.score.score')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={5} align="center" sx={{ py: 3 }}>
+                    <CircularProgress size={28} />
+                  </TableCell>
+                </TableRow>
+              ) : qualityScores.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} align="center" sx={{ py: 3 }}>
+                    <Typography color="text.secondary">{t('flow.dataQuality.noIssues')}</Typography>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                qualityScores.map((quality) => (
+                  <TableRow
+                    key={quality.pipelineId}
+                    hover
+                    selected={selectedPipeline === quality.pipelineId}
+                    onClick={() => {
+                      setSelectedPipeline(quality.pipelineId);
+                      setPage(0);
+                    }}
+                    sx={{ cursor: 'pointer' }}
+                  >
+                    <TableCell>{quality.pipelineName}</TableCell>
+                    <TableCell align="right">{quality.totalReadings}</TableCell>
+                    <TableCell align="right">{quality.affectedReadings}</TableCell>
+                    <TableCell align="right">{quality.openIssues}</TableCell>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        <LinearProgress
+                          variant="determinate"
+                          value={quality.score}
+                          color={getScoreColor(quality.score)}
+                          sx={{ flexGrow: 1, height: 8, borderRadius: 4 }}
+                        />
+                        <Typography variant="body2" fontWeight="bold" sx={{ minWidth: 48, textAlign: 'right' }}>
+                          {quality.score.toFixed(1)}%
+                        </Typography>
+                      </Box>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Card>
+
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <Grid container spacing={2}>
+            <Grid item xs={12} md={4}>
+              <TextField
+                fullWidth
+                select
+                label={t('flow.dataQuality.filters.pipeline')}
+                value={selectedPipeline}
+                onChange={(e) => {
+                  setSelectedPipeline(e.target.value as number | '');
+                  setPage(0);
+                }}
+              >
+                <MenuItem value="">{t('flow.dataQuality.filters.all')}</MenuItem>
+                {pipelines.map((pipeline) => (
+                  <MenuItem key={pipeline.id} value={pipeline.id}>
+                    {pipeline.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+
+            <Grid item xs={12} md={3}>
+              <TextField
+                fullWidth
+                select
+                label={t('flow.dataQuality.filters.issueType')}
+                value={selectedType}
+                onChange={(e) => {
+                  setSelectedType(e.target.value);
+                  setPage(0);
+                }}
+              >
+                <MenuItem value="">{t('flow.dataQuality.filters.all')}</MenuItem>
+                {issueTypes.map((type) => (
+                  <MenuItem key={type} value={type}>
+                    {type}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+
+            <Grid item xs={12} md={3}>
+              <TextField
+                fullWidth
+                select
+                label={t('flow.dataQuality.filters.state')}
+                value={resolvedFilter}
+                onChange={(e) => {
+                  setResolvedFilter(e.target.value as ResolvedFilter);
+                  setPage(0);
+                }}
+              >
+                <MenuItem value="">{t('flow.dataQuality.filters.all')}</MenuItem>
+                <MenuItem value="open">{t('flow.dataQuality.status.open')}</MenuItem>
+                <MenuItem value="resolved">{t('flow.dataQuality.status.resolved')}</MenuItem>
+              </TextField>
+            </Grid>
+
+            <Grid item xs={12} md={2}>
+              <Button variant="outlined" onClick={handleClearFilters} fullWidth sx={{ height: '100%' }}>
+                {t('flow.dataQuality.filters.clearFilters')}
+              </Button>
+            </Grid>
+          </Grid>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <TableContainer>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('flow.dataQuality.fields.detectedAt')}</TableCell>
+                <TableCell>{t('flow.dataQuality.fields.pipeline')}</TableCell>
+                <TableCell>{t('flow.dataQuality.fields.readingDate')}</TableCell>
+                <TableCell>{t('flow.dataQuality.fields.issueType')}</TableCell>
+                <TableCell>{t('flow.dataQuality.fields.severity')}</TableCell>
+                <TableCell>{t('flow.dataQuality.fields.description')}</TableCell>
+                <TableCell>{t('flow.dataQuality.fields.status')}</TableCell>
+                <TableCell align="center">{t('flow.dataQuality.fields.actions')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={8} align="center" sx={{ py: 4 }}>
+                    <CircularProgress />
+                  </TableCell>
+                </TableRow>
+              ) : pagedIssues.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} align="center" sx={{ py: 4 }}>
+                    <Typography color="text.secondary">{t('flow.dataQuality.noIssues')}</Typography>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                pagedIssues.map((issue) => (
+                  <TableRow key={issue.id} hover>
+                    <TableCell>{formatDateTime(issue.detectedAt)}</TableCell>
+                    <TableCell>{issue.pipelineName}</TableCell>
+                    <TableCell>{formatDate(issue.readingDate)}</TableCell>
+                    <TableCell>
+                      <Chip label={issue.issueTypeCode} size="small" variant="outlined" />
+                    </TableCell>
+                    <TableCell>
+                      <Chip label={issue.severity} size="small" color={getSeverityColor(issue.severity)} />
+                    </TableCell>
+                    <TableCell>{issue.description}</TableCell>
+                    <TableCell>
+                      {issue.resolved ? (
+                        <Tooltip title={issue.resolvedAt ? formatDateTime(issue.resolvedAt) : ''}>
+                          <Chip label={t('flow.dataQuality.status.resolved')} size="small" color="success" variant="outlined" />
+                        </Tooltip>
+                      ) : (
+                        <Chip label={t('flow.dataQuality.status.open')} size="small" color="warning" variant="outlined" />
+                      )}
+                    </TableCell>
+                    <TableCell align="center">
+                      <Tooltip title={t('flow.dataQuality.tooltips.editReading')}>
+                        <IconButton
+                          size="small"
+                          color="primary"
+                          onClick={() => navigate(`/flow/readings/${issue.flowReadingId}/edit`)}
+                        >
+                          <EditIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        <TablePagination
+          rowsPerPageOptions={[5, 10, 25, 50]}
+          component="div"
+          count={filteredIssues.length}
+          rowsPerPage={rowsPerPage}
+          page={page}
+          onPageChange={(_, newPage) => setPage(newPage)}
+          onRowsPerPageChange={(e) => {
+            setRowsPerPage(parseInt(e.target.value, 10));
+            setPage(0);
+          }}
+        />
+      </Card>
+    </Box>
+  );
+};
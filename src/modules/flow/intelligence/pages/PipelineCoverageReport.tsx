@@ -0,0 +1,549 @@
+/**
+ * Pipeline Coverage Report Page
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ *
+ * @description Coverage analytics of a structure over a monitoring period:
+ *              pipelines ranked by recording and validation completion,
+ *              daily completion statistics as charts, and export of the
+ *              report to PDF with the company header.
+ *
+ * @route /flow/intelligence/coverage-report
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Card,
+  CardContent,
+  CardHeader,
+  Typography,
+  Button,
+  TextField,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TableSortLabel,
+  Tooltip,
+  CircularProgress,
+  Alert,
+  MenuItem,
+  Grid,
+  Paper,
+  Stack,
+  LinearProgress,
+} from '@mui/material';
+import {
+  Refresh as RefreshIcon,
+  PictureAsPdf as PdfIcon,
+} from '@mui/icons-material';
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as ChartTooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+
+import { FlowMonitoringService } from '../services';
+import { MonitoringPeriods } from '../dto/analytics';
+import { exportCoverageReportToPDF } from '../utils/coverageReportExport';
+import { SlotCoverageService } from '@/modules/flow/core/services/SlotCoverageService';
+import { getUserStructure } from '@/modules/flow/core/utils/userHelpers';
+import { useAuth } from '@/shared/context/AuthContext';
+import { getMultiLangDesignation } from '@/shared/utils/exportUtils';
+import { formatDate } from '@/shared/utils/dateTimeLocal';
+import type { StructureDTO } from '@/modules/general/organization/dto/StructureDTO';
+import type {
+  DailyCompletionStatisticsDTO,
+  MonitoringPeriodDTO,
+  PipelineCoverageDTO,
+  PipelineCoverageDetailDTO,
+} from '../dto/analytics';
+
+type PeriodType = 'LAST_7_DAYS' | 'LAST_30_DAYS' | 'CURRENT_MONTH' | 'CUSTOM';
+type RankBy = 'coveragePercentage' | 'validationPercentage';
+
+const PRESETS: Record<Exclude<PeriodType, 'CUSTOM'>, () => MonitoringPeriodDTO> = {
+  LAST_7_DAYS: MonitoringPeriods.last7Days,
+  LAST_30_DAYS: MonitoringPeriods.last30Days,
+  CURRENT_MONTH: MonitoringPeriods.currentMonth,
+};
+
+const getCompletionColor = (value: number): 'success' | 'warning' | 'error' => {
+  if (value >= 95) return 'success';
+  if (value >= 80) return 'warning';
+  return 'error';
+};
+
+/**
+ * Sums the per-pipeline daily statistics into structure totals. Backend
+ * percentages are averaged, weighted by pipelines (recording) and by
+ * submitted readings (validation).
+ */
+const aggregateDaily = (statistics: DailyCompletionStatisticsDTO[][]): DailyCompletionStatisticsDTO[] => {
+  const byDate = new Map<string, DailyCompletionStatisticsDTO & { recordingWeight: number; validationWeight: number }>();
+
+  statistics.flat().forEach((day) => {
+    const total = byDate.get(day.date) || {
+      date: day.date,
+      totalPipelines: 0,
+      recordedCount: 0,
+      submittedCount: 0,
+      approvedCount: 0,
+      rejectedCount: 0,
+      recordingCompletionPercentage: 0,
+      validationCompletionPercentage: 0,
+      recordingWeight: 0,
+      validationWeight: 0,
+    };
+    const pipelines = day.totalPipelines || 1;
+    total.totalPipelines += day.totalPipelines;
+    total.recordedCount += day.recordedCount;
+    total.submittedCount += day.submittedCount;
+    total.approvedCount += day.approvedCount;
+    total.rejectedCount += day.rejectedCount;
+    total.recordingCompletionPercentage += day.recordingCompletionPercentage * pipelines;
+    total.recordingWeight += pipelines;
+    total.validationCompletionPercentage += day.validationCompletionPercentage * day.submittedCount;
+    total.validationWeight += day.submittedCount;
+    byDate.set(day.date, total);
+  });
+
+  return Array.from(byDate.values())
+    .map(({ recordingWeight, validationWeight, ...day }) => ({
+      ...day,
+      recordingCompletionPercentage: recordingWeight > 0 ? day.recordingCompletionPercentage / recordingWeight : 0,
+      validationCompletionPercentage: validationWeight > 0 ? day.validationCompletionPercentage / validationWeight : 0,
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const summarize = (pipelines: PipelineCoverageDetailDTO[]): PipelineCoverageDTO => ({
+  totalPipelines: pipelines.length,
+  fullCoveragePipelines: pipelines.filter((p) => p.coveragePercentage >= 100).length,
+  partialCoveragePipelines: pipelines.filter((p) => p.coveragePercentage > 0 && p.coveragePercentage < 100).length,
+  noCoveragePipelines: pipelines.filter((p) => !p.coveragePercentage).length,
+  averageCoveragePercentage: pipelines.length > 0
+    ? pipelines.reduce((sum, p) => sum + p.coveragePercentage, 0) / pipelines.length
+    : 0,
+});
+
+export const PipelineCoverageReport: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const { user } = useAuth();
+  const userStructureId = useMemo(() => getUserStructure(user).structureId, [user]);
+
+  // Filters
+  const [structures, setStructures] = useState<StructureDTO[]>([]);
+  const [structureId, setStructureId] = useState<number | ''>(userStructureId || '');
+  const [periodType, setPeriodType] = useState<PeriodType>('LAST_7_DAYS');
+  const [period, setPeriod] = useState<MonitoringPeriodDTO>(PRESETS.LAST_7_DAYS);
+
+  // Report
+  const [pipelines, setPipelines] = useState<PipelineCoverageDetailDTO[]>([]);
+  const [daily, setDaily] = useState<DailyCompletionStatisticsDTO[]>([]);
+  const [rankBy, setRankBy] = useState<RankBy>('coveragePercentage');
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadStructures();
+  }, []);
+
+  useEffect(() => {
+    if (structureId && period.startDate <= period.endDate) {
+      loadReport();
+    }
+  }, [structureId, period]);
+
+  const loadStructures = async () => {
+    try {
+      const result = await SlotCoverageService.getUserStructures();
+      setStructures(result);
+      if (!structureId && result.length > 0) setStructureId(result[0].id as number);
+    } catch (err) {
+      // Fall back to the user's own structure
+      console.error('Error loading structures:', err);
+    }
+  };
+
+  const loadReport = async () => {
+    if (!structureId) return;
+    try {
+      setLoading(true);
+      setError(null);
+      setWarning(null);
+
+      // Pipelines of the structure, from the first slot of the last day
+      const coverage = await SlotCoverageService.getSlotCoverage(period.endDate, 1, structureId);
+      const pipelineIds = coverage.pipelineCoverage.map((item) => item.pipelineId);
+
+      const [coverageResults, dailyResults] = await Promise.all([
+        Promise.allSettled(
+          pipelineIds.map((id) => FlowMonitoringService.getPipelineCoverage(id, period.startDate, period.endDate))
+        ),
+        Promise.allSettled(
+          pipelineIds.map((id) => FlowMonitoringService.getDailyStatistics(id, period.startDate, period.endDate))
+        ),
+      ]);
+
+      setPipelines(coverageResults.flatMap((result) => (result.status === 'fulfilled' ? result.value : [])));
+      setDaily(aggregateDaily(dailyResults.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []))));
+
+      const failed = coverageResults.filter((result) => result.status === 'rejected').length;
+      if (failed > 0) {
+        setWarning(t('flow.coverageReport.alerts.partial', { count: failed }));
+      }
+    } catch (err: any) {
+      console.error('Error loading coverage report:', err);
+      setError(err.message || t('flow.coverageReport.alerts.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePeriodTypeChange = (type: PeriodType) => {
+    setPeriodType(type);
+    if (type !== 'CUSTOM') setPeriod(PRESETS[type]());
+  };
+
+  const handleCustomDate = (field: 'startDate' | 'endDate', value: string) => {
+    setPeriod((prev) => ({ ...prev, [field]: value, periodType: 'CUSTOM', label: undefined }));
+  };
+
+  const rankedPipelines = useMemo(() => {
+    const other: RankBy = rankBy === 'coveragePercentage' ? 'validationPercentage' : 'coveragePercentage';
+    return [...pipelines].sort((a, b) => b[rankBy] - a[rankBy] || b[other] - a[other]);
+  }, [pipelines, rankBy]);
+
+  const summary = useMemo(() => summarize(pipelines), [pipelines]);
+
+  const averageValidation = pipelines.length > 0
+    ? pipelines.reduce((sum, p) => sum + p.validationPercentage, 0) / pipelines.length
+    : 0;
+
+  const structureName = useMemo(() => {
+    const structure = structures.find((s) => s.id === structureId);
+    return structure ? getMultiLangDesignation(structure, i18n.language) || structure.code : getUserStructure(user).structureName || '';
+  }, [structures, structureId, i18n.language, user]);
+
+  const chartData = useMemo(
+    () => daily.map((day) => ({ ...day, label: formatDate(day.date).substring(0, 5) })),
+    [daily]
+  );
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      await exportCoverageReportToPDF({ period, structureName, summary, pipelines: rankedPipelines, daily }, t);
+    } catch (err: any) {
+      console.error('Failed to export coverage report:', err);
+      setError(t('flow.coverageReport.alerts.exportError'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* HEADER SECTION - Containerized */}
+      <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+        <Box sx={{ p: 2.5 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Box>
+              <Typography variant="h4" fontWeight={700} color="text.primary" sx={{ mb: 0.5 }}>
+                {t('flow.coverageReport.title')}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {t('flow.coverageReport.subtitle')}
+              </Typography>
+            </Box>
+            <Stack direction="row" spacing={1.5}>
+              <Button
+                variant="contained"
+                startIcon={exporting ? <CircularProgress size={16} color="inherit" /> : <PdfIcon />}
+                onClick={handleExport}
+                disabled={loading || exporting || pipelines.length === 0}
+              >
+                {t('flow.coverageReport.exportPdf')}
+              </Button>
+              <Tooltip title={t('action.refresh', 'Refresh')}>
+                <IconButton onClick={loadReport} size="medium" color="primary">
+                  <RefreshIcon />
+                </IconButton>
+              </Tooltip>
+            </Stack>
+          </Box>
+        </Box>
+      </Paper>
+
+      {/* Filters */}
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <Grid container spacing={2}>
+            <Grid item xs={12} md={4}>
+              <TextField
+                fullWidth
+                select
+                label={t('flow.coverageReport.filters.structure')}
+                value={structures.length > 0 ? structureId : ''}
+                onChange={(e) => setStructureId(Number(e.target.value))}
+                disabled={structures.length === 0}
+                helperText={structures.length === 0 ? structureName : undefined}
+              >
+                {structures.map((structure) => (
+                  <MenuItem key={structure.id} value={structure.id}>
+                    {getMultiLangDesignation(structure, i18n.language) || structure.code}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid item xs={12} md={3}>
+              <TextField
+                fullWidth
+                select
+                label={t('flow.coverageReport.filters.period')}
+                value={periodType}
+                onChange={(e) => handlePeriodTypeChange(e.target.value as PeriodType)}
+              >
+                {(['LAST_7_DAYS', 'LAST_30_DAYS', 'CURRENT_MONTH', 'CUSTOM'] as PeriodType[]).map((type) => (
+                  <MenuItem key={type} value={type}>
+                    {t(`flow.coverageReport.periods.${type}`)}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid item xs={6} md={2.5}>
+              <TextField
+                fullWidth
+                type="date"
+                label={t('flow.coverageReport.filters.startDate')}
+                value={period.startDate}
+                onChange={(e) => handleCustomDate('startDate', e.target.value)}
+                disabled={periodType !== 'CUSTOM'}
+                InputLabelProps={{ shrink: true }}
+                inputProps={{ max: period.endDate }}
+              />
+            </Grid>
+            <Grid item xs={6} md={2.5}>
+              <TextField
+                fullWidth
+                type="date"
+                label={t('flow.coverageReport.filters.endDate')}
+                value={period.endDate}
+                onChange={(e) => handleCustomDate('endDate', e.target.value)}
+                disabled={periodType !== 'CUSTOM'}
+                InputLabelProps={{ shrink: true }}
+                inputProps={{ min: period.startDate }}
+              />
+            </Grid>
+          </Grid>
+        </CardContent>
+      </Card>
+
+      {!structureId && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {t('flow.coverageReport.alerts.noStructure')}
+        </Alert>
+      )}
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {warning && (
+        <Alert severity="warning" sx={{ mb: 2 }} onClose={() => setWarning(null)}>
+          {warning}
+        </Alert>
+      )}
+
+      {/* Key figures */}
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        {[
+          { label: t('flow.coverageReport.kpi.pipelines'), value: summary.totalPipelines },
+          { label: t('flow.coverageReport.kpi.averageCoverage'), value: `${summary.averageCoveragePercentage.toFixed(1)}%` },
+          { label: t('flow.coverageReport.kpi.averageValidation'), value: `${averageValidation.toFixed(1)}%` },
+          {
+            label: t('flow.coverageReport.kpi.distribution'),
+            value: `${summary.fullCoveragePipelines} / ${summary.partialCoveragePipelines} / ${summary.noCoveragePipelines}`,
+            hint: t('flow.coverageReport.kpi.distributionHint'),
+          },
+        ].map((kpi) => (
+          <Grid item xs={12} sm={6} md={3} key={kpi.label}>
+            <Card>
+              <CardContent>
+                <Typography variant="body2" color="text.secondary">
+                  {kpi.label}
+                </Typography>
+                <Typography variant="h4" fontWeight={700}>
+                  {loading ? '-' : kpi.value}
+                </Typography>
+                {kpi.hint && (
+                  <Typography variant="caption" color="text.secondary">
+                    {kpi.hint}
+                  </Typography>
+                )}
+              </CardContent>
+            </Card>
+          </Grid>
+        ))}
+      </Grid>
+
+      {/* Daily completion charts */}
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        <Grid item xs={12} md={6}>
+          <Card>
+            <CardHeader title={t('flow.coverageReport.daily.completionChart')} />
+            <CardContent>
+              {chartData.length === 0 ? (
+                <Typography color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+                  {loading ? '' : t('flow.coverageReport.daily.empty')}
+                </Typography>
+              ) : (
+                <ResponsiveContainer width="100%" height={280}>
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                    <YAxis domain={[0, 100]} unit="%" />
+                    <ChartTooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+                    <Legend />
+                    <Line
+                      type="monotone"
+                      dataKey="recordingCompletionPercentage"
+                      name={t('flow.coverageReport.recording')}
+                      stroke="#2563eb"
+                      strokeWidth={2}
+                      dot={{ r: 3 }}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="validationCompletionPercentage"
+                      name={t('flow.coverageReport.validation')}
+                      stroke="#16a34a"
+                      strokeWidth={2}
+                      dot={{ r: 3 }}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              )}
+            </CardContent>
+          </Card>
+        </Grid>
+        <Grid item xs={12} md={6}>
+          <Card>
+            <CardHeader title={t('flow.coverageReport.daily.countsChart')} />
+            <CardContent>
+              {chartData.length === 0 ? (
+                <Typography color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+                  {loading ? '' : t('flow.coverageReport.daily.empty')}
+                </Typography>
+              ) : (
+                <ResponsiveContainer width="100%" height={280}>
+                  <BarChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                    <YAxis allowDecimals={false} />
+                    <ChartTooltip />
+                    <Legend />
+                    <Bar dataKey="recordedCount" name={t('flow.coverageReport.columns.recorded')} fill="#2563eb" />
+                    <Bar dataKey="approvedCount" name={t('flow.coverageReport.columns.approved')} fill="#16a34a" />
+                    <Bar dataKey="rejectedCount" name={t('flow.coverageReport.columns.rejected')} fill="#dc2626" />
+                  </BarChart>
+                </ResponsiveContainer>
+              )}
+            </CardContent>
+          </Card>
+        </Grid>
+      </Grid>
+
+      {/* Pipeline ranking */}
+      <Card>
+        <CardHeader
+          title={t('flow.coverageReport.ranking.title')}
+          subheader={t('flow.coverageReport.ranking.subtitle')}
+        />
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>#</TableCell>
+                <TableCell>{t('flow.coverageReport.columns.pipeline')}</TableCell>
+                <TableCell align="right">{t('flow.coverageReport.columns.expected')}</TableCell>
+                <TableCell align="right">{t('flow.coverageReport.columns.recorded')}</TableCell>
+                <TableCell align="right">{t('flow.coverageReport.columns.validated')}</TableCell>
+                {(['coveragePercentage', 'validationPercentage'] as RankBy[]).map((key) => (
+                  <TableCell key={key} sx={{ width: 220 }}>
+                    <TableSortLabel active={rankBy === key} direction="desc" onClick={() => setRankBy(key)}>
+                      {t(key === 'coveragePercentage' ? 'flow.coverageReport.columns.recording' : 'flow.coverageReport.columns.validation')}
+                    </TableSortLabel>
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={7} align="center" sx={{ py: 3 }}>
+                    <CircularProgress size={28} />
+                  </TableCell>
+                </TableRow>
+              ) : rankedPipelines.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} align="center" sx={{ py: 3 }}>
+                    <Typography color="text.secondary">{t('flow.coverageReport.ranking.empty')}</Typography>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rankedPipelines.map((pipeline, index) => (
+                  <TableRow key={pipeline.pipelineId} hover>
+                    <TableCell>{index + 1}</TableCell>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight={600}>
+                        {pipeline.pipelineCode}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {pipeline.pipelineName}
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">{pipeline.expectedReadings}</TableCell>
+                    <TableCell align="right">{pipeline.recordedReadings}</TableCell>
+                    <TableCell align="right">{pipeline.validatedReadings}</TableCell>
+                    {[pipeline.coveragePercentage, pipeline.validationPercentage].map((value, i) => (
+                      <TableCell key={i}>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          <LinearProgress
+                            variant="determinate"
+                            value={Math.min(100, value)}
+                            color={getCompletionColor(value)}
+                            sx={{ flexGrow: 1, height: 8, borderRadius: 4 }}
+                          />
+                          <Typography variant="body2" fontWeight="bold" sx={{ minWidth: 48, textAlign: 'right' }}>
+                            {value.toFixed(1)}%
+                          </Typography>
+                        </Box>
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Card>
+    </Box>
+  );
+};
@@ -3,6 +3,7 @@
  * 
  * @author CHOUABBIA Amine
  * @created 02-14-2026
+ * @updated 10-19-2026 - Enabled Alerts tab with pipeline-scoped alert inbox
  * @updated 02-14-2026 - Added comprehensive Analytics tab with charts
  * 
  * @description Comprehensive operational intelligence dashboard.
@@ -79,6 +80,7 @@ import {
 import axiosInstance from '@/shared/config/axios';
 import { usePipelineDashboard } from '../hooks';
 import type { KeyMetricsDTO } from '../dto';
+import { AlertInbox } from '@/modules/flow/core/pages/components/AlertInbox';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -429,7 +431,7 @@ export const PipelineDashboardPage: React.FC = () => {
           <Tab icon={<ShowChartIcon />} label="Overview" iconPosition="start" />
           <Tab icon={<TimelineIcon />} label="Analytics" iconPosition="start" />
           <Tab icon={<NotificationsIcon />} label="Timeline" iconPosition="start" />
-          <Tab icon={<Warning />} label="Alerts" iconPosition="start" disabled />
+          <Tab icon={<Warning />} label="Alerts" iconPosition="start" />
         </Tabs>
       </Paper>
 
@@ -850,6 +852,11 @@ export const PipelineDashboardPage: React.FC = () => {
         </Paper>
       </TabPanel>
 
+      {/* Tab: Alerts */}
+      <TabPanel value={tabValue} index={3}>
+        <AlertInbox pipelineId={Number(pipelineId)} />
+      </TabPanel>
+
       {/* Footer */}
       <Box sx={{ mt: 3, textAlign: 'center' }}>
         <Typography variant="caption" color="text.secondary">
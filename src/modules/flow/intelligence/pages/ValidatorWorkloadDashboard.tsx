@@ -0,0 +1,503 @@
+/**
+ * Validator Workload Dashboard Page
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ * @updated 10-19-2026 - Load the structure pipelines from PipelineService
+ *
+ * @description Workload of the validators of the supervisor's structure:
+ *              pending, validated and rejected counts, average time to
+ *              validate, and the validation backlog over the last days
+ *              (submission trend of the structure pipelines). Pending
+ *              readings of overloaded validators can be reassigned to
+ *              other validators of the structure.
+ *
+ * @route /flow/intelligence/validator-workload
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Card,
+  CardContent,
+  CardHeader,
+  Typography,
+  Button,
+  TextField,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Tooltip,
+  CircularProgress,
+  Alert,
+  MenuItem,
+  Grid,
+  Paper,
+  Stack,
+  LinearProgress,
+} from '@mui/material';
+import {
+  Refresh as RefreshIcon,
+  SwapHoriz as ReassignIcon,
+} from '@mui/icons-material';
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as ChartTooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+
+import { FlowMonitoringService } from '../services';
+import { ReadingReassignmentDialog } from '../components/ReadingReassignmentDialog';
+import { PipelineService } from '@/modules/network/core/services';
+import { FlowReadingService } from '@/modules/flow/core/services/FlowReadingService';
+import { ValidationStatusService } from '@/modules/flow/common/services/ValidationStatusService';
+import { EmployeeService } from '@/modules/general/organization/services/EmployeeService';
+import { getUserStructure } from '@/modules/flow/core/utils/userHelpers';
+import { useAuth } from '@/shared/context/AuthContext';
+import { formatDate, getToday } from '@/shared/utils/dateTimeLocal';
+import type { BatchResult } from '@/modules/flow/workflow/services';
+import type { FlowReadingDTO } from '@/modules/flow/core/dto/FlowReadingDTO';
+import type { SubmissionTrendDTO, ValidatorWorkloadDTO } from '../dto/analytics';
+
+interface BacklogPoint {
+  period: string;
+  submitted: number;
+  validated: number;
+  rejected: number;
+  /** Readings pending validation at the end of the period */
+  backlog: number;
+}
+
+/**
+ * Submitted readings loaded to list what each validator has pending
+ */
+const PENDING_SIZE = 1000;
+
+/**
+ * A validator is overloaded above this multiple of the structure average
+ */
+const OVERLOAD_RATIO = 1.5;
+
+/**
+ * ... and with at least this many pending readings
+ */
+const OVERLOAD_MIN_PENDING = 5;
+
+const TREND_WINDOWS = [7, 14, 30];
+
+const shiftDate = (isoDate: string, days: number): string => {
+  const date = new Date(`${isoDate}T00:00:00`);
+  date.setDate(date.getDate() + days);
+  return formatDate(date, 'yyyy-MM-dd');
+};
+
+/**
+ * Sums the per-pipeline submission trends by period and rebuilds the
+ * backlog backwards from the current number of pending readings
+ */
+const buildBacklogTrend = (trends: SubmissionTrendDTO[][], currentBacklog: number): BacklogPoint[] => {
+  const byPeriod = new Map<string, BacklogPoint>();
+  trends.flat().forEach((trend) => {
+    const point = byPeriod.get(trend.period) || { period: trend.period, submitted: 0, validated: 0, rejected: 0, backlog: 0 };
+    point.submitted += trend.submittedCount;
+    point.validated += trend.validatedCount;
+    point.rejected += trend.rejectedCount;
+    byPeriod.set(trend.period, point);
+  });
+
+  const points = Array.from(byPeriod.values()).sort((a, b) => a.period.localeCompare(b.period));
+  let backlog = currentBacklog;
+  for (let i = points.length - 1; i >= 0; i--) {
+    points[i].backlog = Math.max(0, backlog);
+    backlog -= points[i].submitted - points[i].validated - points[i].rejected;
+  }
+  return points;
+};
+
+export const ValidatorWorkloadDashboard: React.FC = () => {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const structureId = useMemo(() => getUserStructure(user).structureId, [user]);
+  const supervisorId = user?.employee?.id;
+
+  // State
+  const [workloads, setWorkloads] = useState<ValidatorWorkloadDTO[]>([]);
+  const [structureEmployeeIds, setStructureEmployeeIds] = useState<Set<number> | null>(null);
+  const [pipelineIds, setPipelineIds] = useState<number[]>([]);
+  const [pendingReadings, setPendingReadings] = useState<FlowReadingDTO[]>([]);
+  const [trend, setTrend] = useState<BacklogPoint[]>([]);
+  const [trendDays, setTrendDays] = useState(14);
+  const [loading, setLoading] = useState(true);
+  const [trendLoading, setTrendLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Reassignment dialog
+  const [reassignSource, setReassignSource] = useState<ValidatorWorkloadDTO | null>(null);
+
+  useEffect(() => {
+    loadWorkload();
+  }, [structureId]);
+
+  const loadWorkload = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [workloadResult, employeesResult, pipelinesResult, statusesResult] = await Promise.allSettled([
+        FlowMonitoringService.getValidatorWorkload(),
+        structureId ? EmployeeService.getByStructureId(structureId) : Promise.reject(new Error('No structure')),
+        structureId ? PipelineService.findByManager(structureId) : Promise.reject(new Error('No structure')),
+        ValidationStatusService.getAllNoPagination(),
+      ]);
+
+      if (workloadResult.status === 'rejected') throw workloadResult.reason;
+      setWorkloads(workloadResult.value);
+
+      // Without the structure employees, every validator is shown
+      setStructureEmployeeIds(
+        employeesResult.status === 'fulfilled'
+          ? new Set(employeesResult.value.map((employee) => employee.id as number))
+          : null
+      );
+
+      const structurePipelines = pipelinesResult.status === 'fulfilled'
+        ? pipelinesResult.value.map((pipeline) => pipeline.id as number)
+        : [];
+      setPipelineIds(structurePipelines);
+
+      const submitted = statusesResult.status === 'fulfilled'
+        ? statusesResult.value.find((status) => status.code === 'SUBMITTED')
+        : undefined;
+      if (submitted?.id) {
+        const page = await FlowReadingService.getByValidationStatus(submitted.id, {
+          page: 0,
+          size: PENDING_SIZE,
+          sort: 'recordedAt,asc',
+        });
+        setPendingReadings(page.content);
+      } else {
+        setPendingReadings([]);
+      }
+    } catch (err: any) {
+      console.error('Error loading validator workload:', err);
+      setError(err.message || t('flow.validatorWorkload.alerts.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Validators of the structure, most pending first
+  const validators = useMemo(
+    () =>
+      workloads
+        .filter((workload) => !structureEmployeeIds || structureEmployeeIds.has(workload.validatorId))
+        .sort((a, b) => b.pendingCount - a.pendingCount),
+    [workloads, structureEmployeeIds]
+  );
+
+  const totals = useMemo(() => {
+    const pending = validators.reduce((sum, v) => sum + v.pendingCount, 0);
+    const validated = validators.reduce((sum, v) => sum + v.validatedCount, 0);
+    const rejected = validators.reduce((sum, v) => sum + v.rejectedCount, 0);
+    // Average time weighted by the number of validated readings
+    const averageMinutes = validated > 0
+      ? validators.reduce((sum, v) => sum + v.averageValidationTimeMinutes * v.validatedCount, 0) / validated
+      : 0;
+    return {
+      pending,
+      validated,
+      rejected,
+      averageMinutes,
+      averagePending: validators.length > 0 ? pending / validators.length : 0,
+    };
+  }, [validators]);
+
+  const isOverloaded = (workload: ValidatorWorkloadDTO): boolean =>
+    workload.pendingCount >= OVERLOAD_MIN_PENDING && workload.pendingCount > totals.averagePending * OVERLOAD_RATIO;
+
+  const overloadedCount = validators.filter(isOverloaded).length;
+  const maxPending = Math.max(1, ...validators.map((v) => v.pendingCount));
+
+  useEffect(() => {
+    if (loading) return;
+    loadTrend();
+  }, [pipelineIds, trendDays, loading]);
+
+  const loadTrend = async () => {
+    if (pipelineIds.length === 0) {
+      setTrend([]);
+      return;
+    }
+    try {
+      setTrendLoading(true);
+      const endDate = getToday();
+      const startDate = shiftDate(endDate, -(trendDays - 1));
+      const results = await Promise.allSettled(
+        pipelineIds.map((pipelineId) => FlowMonitoringService.getSubmissionTrend(pipelineId, startDate, endDate))
+      );
+      const trends = results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+      setTrend(buildBacklogTrend(trends, totals.pending));
+    } finally {
+      setTrendLoading(false);
+    }
+  };
+
+  const formatMinutes = (minutes: number): string => {
+    if (!minutes) return '-';
+    if (minutes < 60) return t('flow.validatorWorkload.duration.minutes', { count: Math.round(minutes) });
+    return t('flow.validatorWorkload.duration.hours', {
+      hours: Math.floor(minutes / 60),
+      minutes: String(Math.round(minutes % 60)).padStart(2, '0'),
+    });
+  };
+
+  // Pending readings of the validator being relieved, oldest first
+  const sourceReadings = useMemo(
+    () =>
+      reassignSource
+        ? pendingReadings.filter((reading) => reading.assignedValidatorId === reassignSource.validatorId)
+        : [],
+    [reassignSource, pendingReadings]
+  );
+
+  const handleReassigned = (result: BatchResult) => {
+    if (result.successful.length > 0) {
+      setSuccess(t('flow.validatorWorkload.alerts.reassigned', { count: result.successful.length }));
+    }
+    if (result.failed.length === 0) {
+      setReassignSource(null);
+    }
+    loadWorkload();
+  };
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* HEADER SECTION - Containerized */}
+      <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+        <Box sx={{ p: 2.5 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Box>
+              <Typography variant="h4" fontWeight={700} color="text.primary" sx={{ mb: 0.5 }}>
+                {t('flow.validatorWorkload.title')}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {t('flow.validatorWorkload.subtitle')}
+              </Typography>
+            </Box>
+            <Stack direction="row" spacing={1.5}>
+              <Tooltip title={t('action.refresh', 'Refresh')}>
+                <IconButton onClick={loadWorkload} size="medium" color="primary">
+                  <RefreshIcon />
+                </IconButton>
+              </Tooltip>
+            </Stack>
+          </Box>
+        </Box>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+      {!loading && !structureEmployeeIds && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          {t('flow.validatorWorkload.alerts.allValidators')}
+        </Alert>
+      )}
+
+      {/* Key figures */}
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        {[
+          { label: t('flow.validatorWorkload.kpi.pending'), value: totals.pending },
+          { label: t('flow.validatorWorkload.kpi.validated'), value: totals.validated },
+          { label: t('flow.validatorWorkload.kpi.averageTime'), value: formatMinutes(totals.averageMinutes) },
+          {
+            label: t('flow.validatorWorkload.kpi.overloaded'),
+            value: overloadedCount,
+            color: overloadedCount > 0 ? 'error.main' : undefined,
+          },
+        ].map((kpi) => (
+          <Grid item xs={12} sm={6} md={3} key={kpi.label}>
+            <Card>
+              <CardContent>
+                <Typography variant="body2" color="text.secondary">
+                  {kpi.label}
+                </Typography>
+                <Typography variant="h4" fontWeight={700} color={kpi.color}>
+                  {loading ? '-' : kpi.value}
+                </Typography>
+              </CardContent>
+            </Card>
+          </Grid>
+        ))}
+      </Grid>
+
+      {/* Per-validator workload */}
+      <Card sx={{ mb: 3 }}>
+        <CardHeader
+          title={t('flow.validatorWorkload.table.title')}
+          subheader={t('flow.validatorWorkload.table.subtitle', { ratio: OVERLOAD_RATIO })}
+        />
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('flow.validatorWorkload.table.validator')}</TableCell>
+                <TableCell sx={{ width: 260 }}>{t('flow.validatorWorkload.table.pending')}</TableCell>
+                <TableCell align="right">{t('flow.validatorWorkload.table.validated')}</TableCell>
+                <TableCell align="right">{t('flow.validatorWorkload.table.rejected')}</TableCell>
+                <TableCell align="right">{t('flow.validatorWorkload.table.averageTime')}</TableCell>
+                <TableCell align="right">{t('flow.validatorWorkload.table.actions')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={6} align="center" sx={{ py: 3 }}>
+                    <CircularProgress size={28} />
+                  </TableCell>
+                </TableRow>
+              ) : validators.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} align="center" sx={{ py: 3 }}>
+                    <Typography color="text.secondary">{t('flow.validatorWorkload.table.empty')}</Typography>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                validators.map((workload) => {
+                  const overloaded = isOverloaded(workload);
+                  return (
+                    <TableRow key={workload.validatorId} hover>
+                      <TableCell>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          {workload.validatorName}
+                          {overloaded && (
+                            <Chip size="small" color="error" label={t('flow.validatorWorkload.table.overloaded')} />
+                          )}
+                        </Box>
+                      </TableCell>
+                      <TableCell>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          <LinearProgress
+                            variant="determinate"
+                            value={(workload.pendingCount / maxPending) * 100}
+                            color={overloaded ? 'error' : 'primary'}
+                            sx={{ flexGrow: 1, height: 8, borderRadius: 4 }}
+                          />
+                          <Typography variant="body2" fontWeight="bold" sx={{ minWidth: 32, textAlign: 'right' }}>
+                            {workload.pendingCount}
+                          </Typography>
+                        </Box>
+                      </TableCell>
+                      <TableCell align="right">{workload.validatedCount}</TableCell>
+                      <TableCell align="right">{workload.rejectedCount}</TableCell>
+                      <TableCell align="right">{formatMinutes(workload.averageValidationTimeMinutes)}</TableCell>
+                      <TableCell align="right">
+                        <Button
+                          size="small"
+                          startIcon={<ReassignIcon />}
+                          color={overloaded ? 'error' : 'primary'}
+                          variant={overloaded ? 'contained' : 'text'}
+                          disabled={workload.pendingCount === 0 || validators.length < 2 || !supervisorId}
+                          onClick={() => setReassignSource(workload)}
+                        >
+                          {t('flow.validatorWorkload.table.reassign')}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Card>
+
+      {/* Backlog trend */}
+      <Card>
+        <CardHeader
+          title={t('flow.validatorWorkload.trend.title')}
+          subheader={t('flow.validatorWorkload.trend.subtitle')}
+          action={
+            <TextField
+              select
+              size="small"
+              value={trendDays}
+              onChange={(e) => setTrendDays(Number(e.target.value))}
+              sx={{ minWidth: 140 }}
+            >
+              {TREND_WINDOWS.map((days) => (
+                <MenuItem key={days} value={days}>
+                  {t('flow.validatorWorkload.trend.lastDays', { count: days })}
+                </MenuItem>
+              ))}
+            </TextField>
+          }
+        />
+        <CardContent>
+          {trendLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+              <CircularProgress />
+            </Box>
+          ) : trend.length === 0 ? (
+            <Typography color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+              {t('flow.validatorWorkload.trend.empty')}
+            </Typography>
+          ) : (
+            <ResponsiveContainer width="100%" height={320}>
+              <ComposedChart data={trend}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" tick={{ fontSize: 12 }} />
+                <YAxis allowDecimals={false} />
+                <ChartTooltip />
+                <Legend />
+                <Bar dataKey="submitted" name={t('flow.validatorWorkload.trend.submitted')} fill="#1976d2" />
+                <Bar dataKey="validated" name={t('flow.validatorWorkload.trend.validated')} fill="#2e7d32" />
+                <Bar dataKey="rejected" name={t('flow.validatorWorkload.trend.rejected')} fill="#d32f2f" />
+                <Line
+                  type="monotone"
+                  dataKey="backlog"
+                  name={t('flow.validatorWorkload.trend.backlog')}
+                  stroke="#ed6c02"
+                  strokeWidth={2}
+                  dot={{ r: 3 }}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      {supervisorId && (
+        <ReadingReassignmentDialog
+          source={reassignSource}
+          readings={sourceReadings}
+          targets={validators.filter((v) => v.validatorId !== reassignSource?.validatorId)}
+          suggestedCount={reassignSource ? Math.max(1, reassignSource.pendingCount - Math.ceil(totals.averagePending)) : 0}
+          requestedById={supervisorId}
+          onClose={() => setReassignSource(null)}
+          onReassigned={handleReassigned}
+        />
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,633 @@
+/**
+ * Volume Balance Report Page
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ *
+ * @description Daily mass balance of a pipeline system: received vs
+ *              delivered volumes vs linepack change, days beyond the
+ *              tolerance flagged, and drill-down to the operations and
+ *              readings behind each day's gap.
+ *
+ * @route /flow/intelligence/volume-balance
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Card,
+  CardContent,
+  CardHeader,
+  Typography,
+  TextField,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  CircularProgress,
+  Alert,
+  MenuItem,
+  Grid,
+  Paper,
+  Stack,
+  Chip,
+  InputAdornment,
+} from '@mui/material';
+import {
+  Refresh as RefreshIcon,
+  WarningAmber as WarningIcon,
+  HelpOutline as IncompleteIcon,
+} from '@mui/icons-material';
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as ChartTooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+
+import { PipelineService, PipelineSegmentService, PipelineSystemService } from '@/modules/network/core/services';
+import { FlowOperationService } from '@/modules/flow/core/services/FlowOperationService';
+import { FlowReadingService } from '@/modules/flow/core/services/FlowReadingService';
+import { getDatesInRange } from '@/modules/flow/core/utils/slotHeatmapUtils';
+import {
+  MAX_BALANCE_DAYS,
+  buildBalanceNodes,
+  buildDailyBalances,
+  loadBalanceTolerance,
+  saveBalanceTolerance,
+} from '../utils/volumeBalanceUtils';
+import { getUserStructure } from '@/modules/flow/core/utils/userHelpers';
+import { useAuth } from '@/shared/context/AuthContext';
+import { formatDate, formatDateTime, getToday } from '@/shared/utils/dateTimeLocal';
+import { fetchAllPages } from '@/types/pagination';
+import type { FlowOperationDTO } from '@/modules/flow/core/dto/FlowOperationDTO';
+import type { FlowReadingDTO } from '@/modules/flow/core/dto/FlowReadingDTO';
+import type { PipelineDTO } from '@/modules/network/core/dto/PipelineDTO';
+import type { PipelineSystemDTO } from '@/modules/network/core/dto/PipelineSystemDTO';
+import type { BalanceContribution, BalanceNode, BalanceNodeRole, DailyBalance } from '../utils/volumeBalanceUtils';
+
+/** Operations loaded per request; every page of the period is loaded */
+const OPERATIONS_PAGE_SIZE = 1000;
+
+const ROLE_COLORS: Record<BalanceNodeRole, 'primary' | 'secondary' | 'default'> = {
+  ENTRY: 'primary',
+  EXIT: 'secondary',
+  INTERMEDIATE: 'default',
+};
+
+const CONTRIBUTION_COLORS: Record<BalanceContribution, 'success' | 'info' | 'default'> = {
+  RECEIVED: 'success',
+  DELIVERED: 'info',
+  NONE: 'default',
+};
+
+const shiftDate = (isoDate: string, days: number): string => {
+  const date = new Date(`${isoDate}T00:00:00`);
+  date.setDate(date.getDate() + days);
+  return formatDate(date, 'yyyy-MM-dd');
+};
+
+const formatVolume = (value: number | null | undefined): string =>
+  value === null || value === undefined ? '-' : `${Math.round(value).toLocaleString()} m³`;
+
+const formatSignedPercent = (value: number | null): string =>
+  value === null ? '-' : `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+export const VolumeBalanceReport: React.FC = () => {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const userStructureId = useMemo(() => getUserStructure(user).structureId, [user]);
+  const yesterday = shiftDate(getToday(), -1);
+
+  // Filters
+  const [systems, setSystems] = useState<PipelineSystemDTO[]>([]);
+  const [systemId, setSystemId] = useState<number | ''>('');
+  const [startDate, setStartDate] = useState(shiftDate(yesterday, -6));
+  const [endDate, setEndDate] = useState(yesterday);
+  const [tolerance, setTolerance] = useState(loadBalanceTolerance);
+
+  // Source data
+  const [pipelines, setPipelines] = useState<PipelineDTO[]>([]);
+  const [nodes, setNodes] = useState<Map<number, BalanceNode>>(new Map());
+  const [operations, setOperations] = useState<FlowOperationDTO[]>([]);
+  const [readingsByPipeline, setReadingsByPipeline] = useState<Map<number, FlowReadingDTO[]>>(new Map());
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+
+  const dayCount = getDatesInRange(startDate, endDate).length;
+  const validRange = startDate <= endDate && dayCount <= MAX_BALANCE_DAYS;
+
+  useEffect(() => {
+    loadSystems();
+  }, []);
+
+  useEffect(() => {
+    if (systemId && validRange) {
+      loadBalance();
+    }
+  }, [systemId, startDate, endDate]);
+
+  const loadSystems = async () => {
+    try {
+      const result = await PipelineSystemService.getAllNoPagination();
+      setSystems(result);
+      const own = result.find((system) => system.structureId === userStructureId) || result[0];
+      if (own) setSystemId(own.id as number);
+    } catch (err: any) {
+      console.error('Error loading pipeline systems:', err);
+      setError(err.message || t('flow.volumeBalance.alerts.loadError'));
+    }
+  };
+
+  const loadBalance = async () => {
+    if (!systemId) return;
+    try {
+      setLoading(true);
+      setError(null);
+      setWarning(null);
+      setSelectedDate(null);
+
+      const systemPipelines = await PipelineService.findByPipelineSystem(Number(systemId));
+      const [segmentResults, periodOperations, readingResults] = await Promise.all([
+        Promise.allSettled(systemPipelines.map((pipeline) => PipelineSegmentService.getByPipelineId(pipeline.id as number))),
+        fetchAllPages(
+          (pageable) => FlowOperationService.getByDateRange(startDate, endDate, pageable),
+          OPERATIONS_PAGE_SIZE,
+          'id,asc'
+        ),
+        Promise.allSettled(
+          systemPipelines.map((pipeline) =>
+            FlowReadingService.getByPipelineAndDateRange(pipeline.id as number, shiftDate(startDate, -1), endDate)
+          )
+        ),
+      ]);
+
+      setPipelines(systemPipelines);
+      setNodes(
+        buildBalanceNodes(
+          systemPipelines,
+          segmentResults.flatMap((result) => (result.status === 'fulfilled' ? result.value : []))
+        )
+      );
+      setOperations(periodOperations);
+      setReadingsByPipeline(
+        new Map(
+          systemPipelines.map((pipeline, i) => {
+            const result = readingResults[i];
+            return [pipeline.id as number, result.status === 'fulfilled' ? result.value : []];
+          })
+        )
+      );
+
+      const failed = [...segmentResults, ...readingResults].filter((result) => result.status === 'rejected').length;
+      if (failed > 0) {
+        setWarning(t('flow.volumeBalance.alerts.partial', { count: failed }));
+      }
+    } catch (err: any) {
+      console.error('Error loading volume balance:', err);
+      setError(err.message || t('flow.volumeBalance.alerts.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToleranceChange = (value: string) => {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed) && parsed > 0) {
+      setTolerance(parsed);
+      saveBalanceTolerance(parsed);
+    }
+  };
+
+  const system = systems.find((item) => item.id === systemId);
+
+  const balances = useMemo(
+    () =>
+      system && validRange
+        ? buildDailyBalances(
+            getDatesInRange(startDate, endDate),
+            nodes,
+            pipelines,
+            system.productId,
+            operations,
+            readingsByPipeline,
+            shiftDate(startDate, -1),
+            tolerance
+          )
+        : [],
+    [system, nodes, pipelines, operations, readingsByPipeline, startDate, endDate, tolerance, validRange]
+  );
+
+  const totals = useMemo(() => {
+    const received = balances.reduce((sum, day) => sum + day.received, 0);
+    const imbalance = balances.reduce((sum, day) => sum + day.imbalance, 0);
+    return {
+      received,
+      delivered: balances.reduce((sum, day) => sum + day.delivered, 0),
+      imbalance,
+      imbalancePercent: received > 0 ? (imbalance / received) * 100 : null,
+      outOfTolerance: balances.filter((day) => day.outOfTolerance).length,
+    };
+  }, [balances]);
+
+  const chartData = balances.map((day) => ({
+    label: formatDate(day.date).substring(0, 5),
+    received: day.received,
+    delivered: day.delivered,
+    linepackChange: day.linepackChange,
+    imbalancePercent: day.imbalancePercent,
+  }));
+
+  const selected: DailyBalance | undefined = balances.find((day) => day.date === selectedDate);
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* HEADER SECTION - Containerized */}
+      <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+        <Box sx={{ p: 2.5 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Box>
+              <Typography variant="h4" fontWeight={700} color="text.primary" sx={{ mb: 0.5 }}>
+                {t('flow.volumeBalance.title')}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {t('flow.volumeBalance.subtitle')}
+              </Typography>
+            </Box>
+            <Stack direction="row" spacing={1.5}>
+              <Tooltip title={t('action.refresh', 'Refresh')}>
+                <span>
+                  <IconButton onClick={loadBalance} size="medium" color="primary" disabled={!systemId || !validRange}>
+                    <RefreshIcon />
+                  </IconButton>
+                </span>
+              </Tooltip>
+            </Stack>
+          </Box>
+        </Box>
+      </Paper>
+
+      {/* Filters */}
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <Grid container spacing={2}>
+            <Grid item xs={12} md={4}>
+              <TextField
+                fullWidth
+                select
+                label={t('flow.volumeBalance.filters.system')}
+                value={systemId}
+                onChange={(e) => setSystemId(Number(e.target.value))}
+              >
+                {systems.map((item) => (
+                  <MenuItem key={item.id} value={item.id}>
+                    {item.code} - {item.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid item xs={6} md={2.5}>
+              <TextField
+                fullWidth
+                type="date"
+                label={t('flow.volumeBalance.filters.startDate')}
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+                inputProps={{ max: endDate }}
+              />
+            </Grid>
+            <Grid item xs={6} md={2.5}>
+              <TextField
+                fullWidth
+                type="date"
+                label={t('flow.volumeBalance.filters.endDate')}
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+                inputProps={{ min: startDate, max: getToday() }}
+              />
+            </Grid>
+            <Grid item xs={12} md={3}>
+              <TextField
+                fullWidth
+                type="number"
+                label={t('flow.volumeBalance.filters.tolerance')}
+                defaultValue={tolerance}
+                onChange={(e) => handleToleranceChange(e.target.value)}
+                InputProps={{ endAdornment: <InputAdornment position="end">%</InputAdornment> }}
+                inputProps={{ min: 0.01, step: 0.1 }}
+              />
+            </Grid>
+          </Grid>
+        </CardContent>
+      </Card>
+
+      {!validRange && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {t('flow.volumeBalance.alerts.invalidRange', { max: MAX_BALANCE_DAYS })}
+        </Alert>
+      )}
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {warning && (
+        <Alert severity="warning" sx={{ mb: 2 }} onClose={() => setWarning(null)}>
+          {warning}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <>
+          {/* Key figures */}
+          <Grid container spacing={2} sx={{ mb: 3 }}>
+            {[
+              { label: t('flow.volumeBalance.kpi.received'), value: formatVolume(totals.received) },
+              { label: t('flow.volumeBalance.kpi.delivered'), value: formatVolume(totals.delivered) },
+              {
+                label: t('flow.volumeBalance.kpi.imbalance'),
+                value: formatVolume(totals.imbalance),
+                hint: formatSignedPercent(totals.imbalancePercent),
+              },
+              {
+                label: t('flow.volumeBalance.kpi.outOfTolerance'),
+                value: `${totals.outOfTolerance}/${balances.length}`,
+                hint: t('flow.volumeBalance.kpi.toleranceHint', { value: tolerance }),
+              },
+            ].map((kpi) => (
+              <Grid item xs={12} sm={6} md={3} key={kpi.label}>
+                <Card>
+                  <CardContent>
+                    <Typography variant="body2" color="text.secondary">
+                      {kpi.label}
+                    </Typography>
+                    <Typography variant="h5" fontWeight={700}>
+                      {kpi.value}
+                    </Typography>
+                    {kpi.hint && (
+                      <Typography variant="caption" color="text.secondary">
+                        {kpi.hint}
+                      </Typography>
+                    )}
+                  </CardContent>
+                </Card>
+              </Grid>
+            ))}
+          </Grid>
+
+          {nodes.size > 0 && (
+            <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center', mb: 3 }}>
+              <Typography variant="body2" color="text.secondary">
+                {t('flow.volumeBalance.topology')}
+              </Typography>
+              {Array.from(nodes.values())
+                .filter((node) => node.role !== 'INTERMEDIATE')
+                .map((node) => (
+                  <Chip
+                    key={node.infrastructureId}
+                    size="small"
+                    color={ROLE_COLORS[node.role]}
+                    label={`${node.code} · ${t(`flow.volumeBalance.roles.${node.role}`)}`}
+                  />
+                ))}
+            </Box>
+          )}
+
+          {/* Daily balance chart */}
+          {balances.length > 0 && (
+            <Card sx={{ mb: 3 }}>
+              <CardHeader title={t('flow.volumeBalance.chart.title')} />
+              <CardContent>
+                <ResponsiveContainer width="100%" height={300}>
+                  <ComposedChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                    <YAxis yAxisId="volume" tickFormatter={(value: number) => value.toLocaleString()} />
+                    <YAxis yAxisId="percent" orientation="right" unit="%" />
+                    <ChartTooltip
+                      formatter={(value: number, name: string) =>
+                        name === t('flow.volumeBalance.columns.imbalancePercent')
+                          ? formatSignedPercent(value)
+                          : formatVolume(value)
+                      }
+                    />
+                    <Legend />
+                    <Bar yAxisId="volume" dataKey="received" name={t('flow.volumeBalance.columns.received')} fill="#16a34a" />
+                    <Bar yAxisId="volume" dataKey="delivered" name={t('flow.volumeBalance.columns.delivered')} fill="#2563eb" />
+                    <Bar yAxisId="volume" dataKey="linepackChange" name={t('flow.volumeBalance.columns.linepackChange')} fill="#94a3b8" />
+                    <ReferenceLine yAxisId="percent" y={tolerance} stroke="#dc2626" strokeDasharray="3 3" />
+                    <ReferenceLine yAxisId="percent" y={-tolerance} stroke="#dc2626" strokeDasharray="3 3" />
+                    <Line
+                      yAxisId="percent"
+                      type="monotone"
+                      dataKey="imbalancePercent"
+                      name={t('flow.volumeBalance.columns.imbalancePercent')}
+                      stroke="#dc2626"
+                      strokeWidth={2}
+                      dot={{ r: 3 }}
+                    />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Daily balance table */}
+          <Card sx={{ mb: 3 }}>
+            <CardHeader
+              title={t('flow.volumeBalance.table.title')}
+              subheader={t('flow.volumeBalance.table.subtitle')}
+            />
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{t('flow.volumeBalance.columns.date')}</TableCell>
+                    <TableCell align="right">{t('flow.volumeBalance.columns.received')}</TableCell>
+                    <TableCell align="right">{t('flow.volumeBalance.columns.delivered')}</TableCell>
+                    <TableCell align="right">{t('flow.volumeBalance.columns.linepackChange')}</TableCell>
+                    <TableCell align="right">{t('flow.volumeBalance.columns.imbalance')}</TableCell>
+                    <TableCell align="right">{t('flow.volumeBalance.columns.imbalancePercent')}</TableCell>
+                    <TableCell align="center">{t('flow.volumeBalance.columns.status')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {balances.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} align="center" sx={{ py: 3 }}>
+                        <Typography color="text.secondary">{t('flow.volumeBalance.table.empty')}</Typography>
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    balances.map((day) => (
+                      <TableRow
+                        key={day.date}
+                        hover
+                        selected={day.date === selectedDate}
+                        onClick={() => setSelectedDate(day.date === selectedDate ? null : day.date)}
+                        sx={{ cursor: 'pointer', bgcolor: day.outOfTolerance ? 'error.lighter' : undefined }}
+                      >
+                        <TableCell>{formatDate(day.date)}</TableCell>
+                        <TableCell align="right">{formatVolume(day.received)}</TableCell>
+                        <TableCell align="right">{formatVolume(day.delivered)}</TableCell>
+                        <TableCell align="right">{formatVolume(day.linepackChange)}</TableCell>
+                        <TableCell align="right" sx={{ fontWeight: day.outOfTolerance ? 700 : undefined }}>
+                          {formatVolume(day.imbalance)}
+                        </TableCell>
+                        <TableCell align="right" sx={{ fontWeight: day.outOfTolerance ? 700 : undefined }}>
+                          {formatSignedPercent(day.imbalancePercent)}
+                        </TableCell>
+                        <TableCell align="center">
+                          <Stack direction="row" spacing={0.5} justifyContent="center">
+                            {day.outOfTolerance ? (
+                              <Chip
+                                size="small"
+                                color="error"
+                                icon={<WarningIcon />}
+                                label={t('flow.volumeBalance.status.outOfTolerance')}
+                              />
+                            ) : (
+                              <Chip size="small" color="success" variant="outlined" label={t('flow.volumeBalance.status.balanced')} />
+                            )}
+                            {day.incomplete && (
+                              <Tooltip title={t('flow.volumeBalance.status.incomplete')}>
+                                <IncompleteIcon fontSize="small" color="warning" />
+                              </Tooltip>
+                            )}
+                          </Stack>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Card>
+
+          {/* Drill-down */}
+          {selected && (
+            <Grid container spacing={2}>
+              <Grid item xs={12} lg={7}>
+                <Card sx={{ height: '100%' }}>
+                  <CardHeader
+                    title={t('flow.volumeBalance.details.operations', { date: formatDate(selected.date) })}
+                    subheader={t('flow.volumeBalance.details.operationsHint')}
+                  />
+                  <TableContainer>
+                    <Table size="small">
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>{t('flow.volumeBalance.columns.infrastructure')}</TableCell>
+                          <TableCell>{t('flow.volumeBalance.columns.role')}</TableCell>
+                          <TableCell>{t('flow.volumeBalance.columns.type')}</TableCell>
+                          <TableCell align="right">{t('flow.volumeBalance.columns.volume')}</TableCell>
+                          <TableCell>{t('flow.volumeBalance.columns.counted')}</TableCell>
+                          <TableCell>{t('flow.volumeBalance.columns.validation')}</TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {selected.operations.length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={6} align="center">
+                              <Typography color="text.secondary">{t('flow.volumeBalance.details.noOperations')}</Typography>
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          selected.operations.map(({ operation, node, contribution }) => (
+                            <TableRow key={operation.id}>
+                              <TableCell>{operation.infrastructure?.code || node.code}</TableCell>
+                              <TableCell>
+                                <Chip size="small" color={ROLE_COLORS[node.role]} label={t(`flow.volumeBalance.roles.${node.role}`)} />
+                              </TableCell>
+                              <TableCell>{operation.type?.code || '-'}</TableCell>
+                              <TableCell align="right">{formatVolume(operation.volume)}</TableCell>
+                              <TableCell>
+                                <Chip
+                                  size="small"
+                                  variant="outlined"
+                                  color={CONTRIBUTION_COLORS[contribution]}
+                                  label={t(`flow.volumeBalance.contributions.${contribution}`)}
+                                />
+                              </TableCell>
+                              <TableCell>{operation.validationStatus?.code || '-'}</TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  </TableContainer>
+                </Card>
+              </Grid>
+              <Grid item xs={12} lg={5}>
+                <Card sx={{ height: '100%' }}>
+                  <CardHeader
+                    title={t('flow.volumeBalance.details.linepack')}
+                    subheader={t('flow.volumeBalance.details.linepackHint')}
+                  />
+                  <TableContainer>
+                    <Table size="small">
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>{t('flow.volumeBalance.columns.pipeline')}</TableCell>
+                          <TableCell align="right">{t('flow.volumeBalance.columns.opening')}</TableCell>
+                          <TableCell align="right">{t('flow.volumeBalance.columns.closing')}</TableCell>
+                          <TableCell align="right">{t('flow.volumeBalance.columns.change')}</TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {selected.linepacks.map(({ pipeline, opening, closing, change }) => (
+                          <TableRow key={pipeline.id} sx={change === null ? { bgcolor: 'warning.lighter' } : undefined}>
+                            <TableCell>{pipeline.code}</TableCell>
+                            {[opening, closing].map((reading, i) => (
+                              <TableCell key={i} align="right">
+                                {reading ? (
+                                  <Tooltip
+                                    title={t('flow.volumeBalance.details.readingTooltip', {
+                                      slot: reading.readingSlot?.code || reading.readingSlotId,
+                                      recordedAt: reading.recordedAt ? formatDateTime(reading.recordedAt) : '-',
+                                      status: reading.validationStatus?.code || '-',
+                                    })}
+                                  >
+                                    <span>{formatVolume(reading.containedVolume)}</span>
+                                  </Tooltip>
+                                ) : (
+                                  <Typography variant="caption" color="warning.main">
+                                    {t('flow.volumeBalance.details.missing')}
+                                  </Typography>
+                                )}
+                              </TableCell>
+                            ))}
+                            <TableCell align="right">{formatVolume(change)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </TableContainer>
+                </Card>
+              </Grid>
+            </Grid>
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
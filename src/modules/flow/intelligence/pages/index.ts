@@ -3,6 +3,16 @@
  * 
  * @author CHOUABBIA Amine
  * @created 02-14-2026
+ * @updated 10-19-2026 - Added VolumeBalanceReport
+ * @updated 10-19-2026 - Added PipelineCoverageReport
+ * @updated 10-19-2026 - Added ValidatorWorkloadDashboard
+ * @updated 10-19-2026 - Added DataQualityIssueList
+ * @updated 10-19-2026 - Added AnomalyWorkspace
  */
 
 export { PipelineDashboardPage } from './PipelineDashboardPage';
+export { AnomalyWorkspace } from './AnomalyWorkspace';
+export { DataQualityIssueList } from './DataQualityIssueList';
+export { ValidatorWorkloadDashboard } from './ValidatorWorkloadDashboard';
+export { PipelineCoverageReport } from './PipelineCoverageReport';
+export { VolumeBalanceReport } from './VolumeBalanceReport';
@@ -6,9 +6,11 @@
  *   dz.sh.trc.hyflo.flow.intelligence.controller.FlowAnomalyController
  *
  * Endpoints base: /flow/intelligence/anomalies
+ * Except acknowledge, a PROPOSED endpoint the backend does not expose yet.
  *
  * @author CHOUABBIA Amine
  * @created 2026-03-29
+ * @updated 2026-10-19 - Added acknowledge (proposed endpoint)
  * @package flow/intelligence/services
  */
 
@@ -31,7 +33,11 @@ export interface FlowAnomalyReadDTO {
   pipelineId: number;
   /** Pipeline name (denormalised for display) */
   pipelineName: string;
-  /** Whether the anomaly has been acknowledged by an operator */
+  /**
+   * Whether the anomaly has been acknowledged by an operator
+   * PROPOSED - returned by the backend, but only set from this frontend
+   * through the proposed acknowledge endpoint
+   */
   acknowledged: boolean;
   /** ISO 8601 — when acknowledged, null if pending */
   acknowledgedAt?: string | null;
@@ -102,6 +108,19 @@ export class FlowAnomalyService {
     );
     return response.data;
   }
+
+  /**
+   * POST /flow/intelligence/anomalies/{id}/acknowledge
+   * PROPOSED - the backend does not expose this endpoint yet
+   * Marks an anomaly as reviewed by an operator.
+   *
+   * @param id - Anomaly ID
+   */
+  static async acknowledge(id: number): Promise<FlowAnomalyReadDTO> {
+    if (!id || id <= 0) throw new Error('Anomaly ID must be positive');
+    const response = await axiosInstance.post<FlowAnomalyReadDTO>(`${BASE_URL}/${id}/acknowledge`);
+    return response.data;
+  }
 }
 
 export default FlowAnomalyService;
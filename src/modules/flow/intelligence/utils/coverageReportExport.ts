@@ -0,0 +1,204 @@
+/**
+ * Coverage Report Export - Flow Intelligence Module
+ *
+ * PDF export of the pipeline coverage report: company header, period
+ * summary, daily completion chart, pipeline ranking and daily statistics.
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import { TFunction } from 'i18next';
+import { addPdfCompanyHeader } from '@/shared/utils/exportUtils';
+import { formatDate } from '@/shared/utils/dateTimeLocal';
+import type {
+  DailyCompletionStatisticsDTO,
+  MonitoringPeriodDTO,
+  PipelineCoverageDTO,
+  PipelineCoverageDetailDTO,
+} from '../dto/analytics';
+
+export interface CoverageReport {
+  period: MonitoringPeriodDTO;
+  structureName: string;
+  summary: PipelineCoverageDTO;
+  /** Pipelines in ranking order */
+  pipelines: PipelineCoverageDetailDTO[];
+  /** Structure totals per day */
+  daily: DailyCompletionStatisticsDTO[];
+}
+
+const HEAD_STYLES = { fillColor: [37, 99, 235], textColor: 255, fontStyle: 'bold' };
+const RECORDING_COLOR: [number, number, number] = [37, 99, 235];
+const VALIDATION_COLOR: [number, number, number] = [22, 163, 74];
+
+const percent = (value: number): string => `${(value ?? 0).toFixed(1)}%`;
+
+/**
+ * Grouped bars of the daily recording and validation completion (0-100%)
+ * @returns Vertical position below the chart
+ */
+const drawDailyChart = (doc: any, daily: DailyCompletionStatisticsDTO[], top: number, t: TFunction): number => {
+  const left = 24;
+  const width = doc.internal.pageSize.getWidth() - left - 14;
+  const height = 45;
+  const bottom = top + height;
+
+  doc.setFontSize(11);
+  doc.text(t('flow.coverageReport.pdf.dailyChart'), 14, top - 4);
+
+  // Axis and 0/50/100% gridlines
+  doc.setFontSize(7);
+  doc.setDrawColor(200);
+  doc.setLineWidth(0.1);
+  [0, 50, 100].forEach((value) => {
+    const y = bottom - (value / 100) * height;
+    doc.line(left, y, left + width, y);
+    doc.text(`${value}%`, left - 2, y + 1, { align: 'right' });
+  });
+
+  const slot = width / Math.max(1, daily.length);
+  const barWidth = Math.min(6, slot / 2.5);
+  daily.forEach((day, index) => {
+    const x = left + index * slot + slot / 2 - barWidth;
+    const recording = Math.min(100, day.recordingCompletionPercentage ?? 0);
+    const validation = Math.min(100, day.validationCompletionPercentage ?? 0);
+
+    doc.setFillColor(...RECORDING_COLOR);
+    doc.rect(x, bottom - (recording / 100) * height, barWidth, (recording / 100) * height, 'F');
+    doc.setFillColor(...VALIDATION_COLOR);
+    doc.rect(x + barWidth, bottom - (validation / 100) * height, barWidth, (validation / 100) * height, 'F');
+
+    // Date labels, thinned out on long periods
+    if (daily.length <= 16 || index % Math.ceil(daily.length / 16) === 0) {
+      doc.text(formatDate(day.date).substring(0, 5), x + barWidth, bottom + 4, { align: 'center' });
+    }
+  });
+
+  // Legend
+  const legendY = bottom + 9;
+  doc.setFillColor(...RECORDING_COLOR);
+  doc.rect(left, legendY - 2.5, 3, 3, 'F');
+  doc.text(t('flow.coverageReport.recording'), left + 5, legendY);
+  doc.setFillColor(...VALIDATION_COLOR);
+  doc.rect(left + 45, legendY - 2.5, 3, 3, 'F');
+  doc.text(t('flow.coverageReport.validation'), left + 50, legendY);
+
+  return legendY + 8;
+};
+
+/**
+ * Export the coverage report to PDF
+ */
+export const exportCoverageReportToPDF = async (report: CoverageReport, t: TFunction): Promise<void> => {
+  const { default: jsPDF } = await import('jspdf');
+  await import('jspdf-autotable');
+
+  const doc = new jsPDF();
+  const { period, summary } = report;
+
+  let y = await addPdfCompanyHeader(
+    doc,
+    t('flow.coverageReport.title'),
+    t('flow.coverageReport.pdf.subtitle', {
+      structure: report.structureName,
+      start: formatDate(period.startDate),
+      end: formatDate(period.endDate),
+    }),
+    t('app.name')
+  );
+
+  // Summary
+  doc.setFontSize(10);
+  [
+    t('flow.coverageReport.pdf.summaryPipelines', {
+      total: summary.totalPipelines,
+      full: summary.fullCoveragePipelines,
+      partial: summary.partialCoveragePipelines,
+      none: summary.noCoveragePipelines,
+    }),
+    t('flow.coverageReport.pdf.summaryAverage', { value: percent(summary.averageCoveragePercentage) }),
+  ].forEach((line) => {
+    doc.text(line, 14, y);
+    y += 6;
+  });
+
+  if (report.daily.length > 0) {
+    y = drawDailyChart(doc, report.daily, y + 10, t);
+  }
+
+  // Pipeline ranking
+  doc.setFontSize(11);
+  doc.text(t('flow.coverageReport.ranking.title'), 14, y);
+  (doc as any).autoTable({
+    startY: y + 3,
+    head: [[
+      '#',
+      t('flow.coverageReport.columns.code'),
+      t('flow.coverageReport.columns.pipeline'),
+      t('flow.coverageReport.columns.expected'),
+      t('flow.coverageReport.columns.recorded'),
+      t('flow.coverageReport.columns.validated'),
+      t('flow.coverageReport.columns.recording'),
+      t('flow.coverageReport.columns.validation'),
+    ]],
+    body: report.pipelines.map((pipeline, index) => [
+      index + 1,
+      pipeline.pipelineCode || '',
+      pipeline.pipelineName,
+      pipeline.expectedReadings,
+      pipeline.recordedReadings,
+      pipeline.validatedReadings,
+      percent(pipeline.coveragePercentage),
+      percent(pipeline.validationPercentage),
+    ]),
+    styles: { fontSize: 8, cellPadding: 2 },
+    headStyles: HEAD_STYLES,
+    alternateRowStyles: { fillColor: [248, 250, 252] },
+  });
+
+  // Daily statistics
+  y = (doc as any).lastAutoTable.finalY + 10;
+  doc.setFontSize(11);
+  doc.text(t('flow.coverageReport.daily.title'), 14, y);
+  (doc as any).autoTable({
+    startY: y + 3,
+    head: [[
+      t('flow.coverageReport.columns.date'),
+      t('flow.coverageReport.columns.recorded'),
+      t('flow.coverageReport.columns.submitted'),
+      t('flow.coverageReport.columns.approved'),
+      t('flow.coverageReport.columns.rejected'),
+      t('flow.coverageReport.columns.recording'),
+      t('flow.coverageReport.columns.validation'),
+    ]],
+    body: report.daily.map((day) => [
+      formatDate(day.date),
+      day.recordedCount,
+      day.submittedCount,
+      day.approvedCount,
+      day.rejectedCount,
+      percent(day.recordingCompletionPercentage),
+      percent(day.validationCompletionPercentage),
+    ]),
+    styles: { fontSize: 8, cellPadding: 2 },
+    headStyles: HEAD_STYLES,
+    alternateRowStyles: { fillColor: [248, 250, 252] },
+  });
+
+  // Page numbers
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(120);
+    doc.text(
+      `${page} / ${pageCount}`,
+      doc.internal.pageSize.getWidth() - 14,
+      doc.internal.pageSize.getHeight() - 8,
+      { align: 'right' }
+    );
+  }
+
+  doc.save(`coverage-report_${period.startDate}_${period.endDate}.pdf`);
+};
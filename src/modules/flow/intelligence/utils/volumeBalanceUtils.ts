@@ -0,0 +1,244 @@
+/**
+ * Volume Balance Utilities - Flow Intelligence Module
+ *
+ * Daily volume balance of a pipeline system: volumes received at the
+ * entry points against volumes delivered at the exit points and the
+ * change of linepack (contained volume) of its pipelines.
+ *
+ *   imbalance = received - delivered - linepack change
+ *
+ * Entry points are departure terminals that no pipeline of the system
+ * arrives at, exit points arrival terminals that no pipeline departs from.
+ * Injections (PRODUCED) are received and offtakes (CONSUMED) delivered
+ * wherever they are recorded. Transported volumes count only at the
+ * terminals, as received at an entry and delivered at an exit, and only
+ * when the terminal reports no injection (entry) or offtake (exit) that
+ * day, which would be the same volume; elsewhere they are pass-through
+ * metering.
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import { getEffectiveReadings } from '@/modules/flow/core/utils/readingRevisionUtils';
+import type { FlowOperationDTO } from '@/modules/flow/core/dto/FlowOperationDTO';
+import type { FlowReadingDTO } from '@/modules/flow/core/dto/FlowReadingDTO';
+import type { PipelineDTO } from '@/modules/network/core/dto/PipelineDTO';
+import type { PipelineSegmentDTO } from '@/modules/network/core/dto/PipelineSegmentDTO';
+
+/** Imbalance (% of received volume) tolerated by default */
+export const DEFAULT_BALANCE_TOLERANCE = 0.5;
+
+/** Longest reporting period (operations and readings are loaded at once) */
+export const MAX_BALANCE_DAYS = 31;
+
+const TOLERANCE_STORAGE_KEY = 'flow.volumeBalanceTolerance';
+
+export type BalanceNodeRole = 'ENTRY' | 'EXIT' | 'INTERMEDIATE';
+
+export type BalanceContribution = 'RECEIVED' | 'DELIVERED' | 'NONE';
+
+export interface BalanceNode {
+  infrastructureId: number;
+  code: string;
+  role: BalanceNodeRole;
+}
+
+export interface BalanceOperation {
+  operation: FlowOperationDTO;
+  node: BalanceNode;
+  contribution: BalanceContribution;
+}
+
+export interface PipelineLinepack {
+  pipeline: PipelineDTO;
+  /** Last reading of the previous day */
+  opening?: FlowReadingDTO;
+  /** Last reading of the day */
+  closing?: FlowReadingDTO;
+  /** Null when either reading has no contained volume */
+  change: number | null;
+}
+
+export interface DailyBalance {
+  date: string;
+  received: number;
+  delivered: number;
+  linepackChange: number;
+  imbalance: number;
+  /** Imbalance over received volume (%), null when nothing was received */
+  imbalancePercent: number | null;
+  outOfTolerance: boolean;
+  /** Some pipelines have no linepack for the day */
+  incomplete: boolean;
+  operations: BalanceOperation[];
+  linepacks: PipelineLinepack[];
+}
+
+/**
+ * Tolerance saved on this device
+ */
+export function loadBalanceTolerance(): number {
+  const stored = Number(localStorage.getItem(TOLERANCE_STORAGE_KEY));
+  return Number.isFinite(stored) && stored > 0 ? stored : DEFAULT_BALANCE_TOLERANCE;
+}
+
+export function saveBalanceTolerance(tolerance: number): void {
+  localStorage.setItem(TOLERANCE_STORAGE_KEY, String(tolerance));
+}
+
+/**
+ * Entry, exit and intermediate nodes of a pipeline system
+ */
+export function buildBalanceNodes(pipelines: PipelineDTO[], segments: PipelineSegmentDTO[]): Map<number, BalanceNode> {
+  const departures = new Set(pipelines.map((pipeline) => pipeline.departureTerminalId));
+  const arrivals = new Set(pipelines.map((pipeline) => pipeline.arrivalTerminalId));
+  const nodes = new Map<number, BalanceNode>();
+
+  const addNode = (infrastructureId: number, code: string | undefined, role: BalanceNodeRole) => {
+    if (!nodes.has(infrastructureId)) {
+      nodes.set(infrastructureId, { infrastructureId, code: code || String(infrastructureId), role });
+    }
+  };
+
+  pipelines.forEach((pipeline) => {
+    addNode(
+      pipeline.departureTerminalId,
+      pipeline.departureTerminal?.code,
+      arrivals.has(pipeline.departureTerminalId) ? 'INTERMEDIATE' : 'ENTRY'
+    );
+    addNode(
+      pipeline.arrivalTerminalId,
+      pipeline.arrivalTerminal?.code,
+      departures.has(pipeline.arrivalTerminalId) ? 'INTERMEDIATE' : 'EXIT'
+    );
+  });
+
+  segments.forEach((segment) => {
+    addNode(segment.departureFacilityId, segment.departureFacility?.code, 'INTERMEDIATE');
+    addNode(segment.arrivalFacilityId, segment.arrivalFacility?.code, 'INTERMEDIATE');
+  });
+
+  return nodes;
+}
+
+/**
+ * How an operation counts in the balance, given the node it was recorded at
+ * @param nodeTypeCodes - Operation types recorded at the node that day
+ */
+export function getBalanceContribution(
+  role: BalanceNodeRole,
+  operationTypeCode: string | undefined,
+  nodeTypeCodes: Set<string>
+): BalanceContribution {
+  if (operationTypeCode === 'PRODUCED') return 'RECEIVED';
+  if (operationTypeCode === 'CONSUMED') return 'DELIVERED';
+  if (operationTypeCode === 'TRANSPORTED') {
+    if (role === 'ENTRY' && !nodeTypeCodes.has('PRODUCED')) return 'RECEIVED';
+    if (role === 'EXIT' && !nodeTypeCodes.has('CONSUMED')) return 'DELIVERED';
+  }
+  return 'NONE';
+}
+
+/**
+ * Last reading of a day with a contained volume (latest slot, then latest recording)
+ */
+export function getClosingReading(readings: FlowReadingDTO[], date: string): FlowReadingDTO | undefined {
+  return getEffectiveReadings(readings)
+    .filter(
+      (reading) =>
+        reading.readingDate === date &&
+        reading.containedVolume !== undefined &&
+        reading.containedVolume !== null &&
+        reading.validationStatus?.code !== 'REJECTED'
+    )
+    .sort(
+      (a, b) =>
+        (b.readingSlot?.displayOrder ?? b.readingSlotId) - (a.readingSlot?.displayOrder ?? a.readingSlotId) ||
+        (b.recordedAt || '').localeCompare(a.recordedAt || '')
+    )[0];
+}
+
+/**
+ * Daily balances of a pipeline system
+ * @param dates - Days of the report (YYYY-MM-DD), ascending
+ * @param operations - Operations of the period, any infrastructure
+ * @param readingsByPipeline - Readings from the day before the period to its end
+ * @param tolerance - Imbalance tolerated (% of received volume)
+ */
+export function buildDailyBalances(
+  dates: string[],
+  nodes: Map<number, BalanceNode>,
+  pipelines: PipelineDTO[],
+  productId: number,
+  operations: FlowOperationDTO[],
+  readingsByPipeline: Map<number, FlowReadingDTO[]>,
+  previousDay: string,
+  tolerance: number
+): DailyBalance[] {
+  const systemOperations = operations.filter(
+    (operation) =>
+      nodes.has(operation.infrastructureId) &&
+      operation.productId === productId &&
+      operation.validationStatus?.code !== 'REJECTED'
+  );
+
+  return dates.map((date, index) => {
+    const dateOperations = systemOperations.filter((operation) => operation.operationDate === date);
+    const typeCodesByNode = new Map<number, Set<string>>();
+    dateOperations.forEach((operation) => {
+      const codes = typeCodesByNode.get(operation.infrastructureId) || new Set<string>();
+      if (operation.type?.code) codes.add(operation.type.code);
+      typeCodesByNode.set(operation.infrastructureId, codes);
+    });
+
+    const dayOperations = dateOperations.map((operation) => {
+      const node = nodes.get(operation.infrastructureId) as BalanceNode;
+      return {
+        operation,
+        node,
+        contribution: getBalanceContribution(
+          node.role,
+          operation.type?.code,
+          typeCodesByNode.get(operation.infrastructureId) as Set<string>
+        ),
+      };
+    });
+
+    const sum = (contribution: BalanceContribution) =>
+      dayOperations
+        .filter((item) => item.contribution === contribution)
+        .reduce((total, item) => total + item.operation.volume, 0);
+
+    const linepacks = pipelines.map((pipeline) => {
+      const readings = readingsByPipeline.get(pipeline.id as number) || [];
+      const opening = getClosingReading(readings, index === 0 ? previousDay : dates[index - 1]);
+      const closing = getClosingReading(readings, date);
+      return {
+        pipeline,
+        opening,
+        closing,
+        change: opening && closing ? (closing.containedVolume as number) - (opening.containedVolume as number) : null,
+      };
+    });
+
+    const received = sum('RECEIVED');
+    const delivered = sum('DELIVERED');
+    const linepackChange = linepacks.reduce((total, linepack) => total + (linepack.change ?? 0), 0);
+    const imbalance = received - delivered - linepackChange;
+    const imbalancePercent = received > 0 ? (imbalance / received) * 100 : null;
+
+    return {
+      date,
+      received,
+      delivered,
+      linepackChange,
+      imbalance,
+      imbalancePercent,
+      outOfTolerance: imbalancePercent !== null ? Math.abs(imbalancePercent) > tolerance : imbalance !== 0,
+      incomplete: linepacks.some((linepack) => linepack.change === null),
+      operations: dayOperations.sort((a, b) => b.operation.volume - a.operation.volume),
+      linepacks,
+    };
+  });
+}
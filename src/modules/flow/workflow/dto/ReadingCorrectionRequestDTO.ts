@@ -0,0 +1,40 @@
+/**
+ * Reading Correction Request DTO
+ *
+ * Workflow command for correcting a validated flow reading.
+ *
+ * PROPOSED CONTRACT - not yet implemented by the backend. Suggested as
+ *   dz.sh.trc.hyflo.flow.workflow.dto.command.ReadingCorrectionRequestDTO
+ * and used as the request body for:
+ *   POST /flow/workflow/reading/{id}/correct (proposed)
+ *
+ * The corrected values become a new revision of the reading, submitted
+ * for validation; the validated revision is kept unchanged.
+ *
+ * @author CHOUABBIA Amine
+ * @created 2026-10-19
+ * @package flow/workflow/dto
+ */
+
+export interface ReadingCorrectionRequestDTO {
+  /** Employee requesting the correction (required) */
+  requestedById: number;
+
+  /** Reason for the correction (required, 5-500 characters) */
+  correctionReason: string;
+
+  /** Corrected pressure in bar (0.0-500.0) */
+  pressure?: number;
+
+  /** Corrected temperature in Celsius (-50.0 to 200.0) */
+  temperature?: number;
+
+  /** Corrected flow rate in m³/h */
+  flowRate?: number;
+
+  /** Corrected contained volume in m³ */
+  containedVolume?: number;
+
+  /** Notes of the new revision (max 500 chars) */
+  notes?: string;
+}
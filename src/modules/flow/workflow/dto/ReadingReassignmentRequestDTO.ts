@@ -0,0 +1,26 @@
+/**
+ * Reading Reassignment Request DTO
+ *
+ * Workflow command for handing a submitted flow reading over to another
+ * validator.
+ *
+ * PROPOSED CONTRACT - not yet implemented by the backend. Suggested as
+ *   dz.sh.trc.hyflo.flow.workflow.dto.command.ReadingReassignmentRequestDTO
+ * and used as the request body for:
+ *   POST /flow/workflow/reading/{id}/reassign (proposed)
+ *
+ * @author CHOUABBIA Amine
+ * @created 2026-10-19
+ * @package flow/workflow/dto
+ */
+
+export interface ReadingReassignmentRequestDTO {
+  /** Validator the reading is handed over to (required, same structure) */
+  assignedValidatorId: number;
+
+  /** Supervisor performing the reassignment (required) */
+  requestedById: number;
+
+  /** Reason for the reassignment (max 500 chars) */
+  reason?: string;
+}
@@ -5,8 +5,12 @@
  * 
  * @author CHOUABBIA Amine
  * @created 2026-02-11
+ * @updated 2026-10-19 - Added ReadingReassignmentRequestDTO
+ * @updated 2026-10-19 - Added ReadingCorrectionRequestDTO
  * @package flow/workflow/dto
  */
 
 export * from './ReadingSubmitRequestDTO';
 export * from './ReadingValidationRequestDTO';
+export * from './ReadingCorrectionRequestDTO';
+export * from './ReadingReassignmentRequestDTO';
@@ -7,12 +7,17 @@
  * This service handles ONLY workflow state transitions:
  * - Validate readings (SUBMITTED → VALIDATED)
  * - Reject readings (SUBMITTED → REJECTED)
+ * - Correct validated readings (VALIDATED → new SUBMITTED revision)
+ * - Reassign submitted readings to another validator
  * 
  * For CRUD operations, use FlowReadingService.
  * For analytics, use FlowMonitoringService.
  * 
  * @author CHOUABBIA Amine
  * @created 2026-02-11
+ * @updated 2026-10-19 - Added reassign and batchReassign (validator workload balancing, proposed endpoint)
+ * @updated 2026-10-19 - Added requestCorrection (revision workflow for validated readings, proposed endpoint)
+ * @updated 2026-10-19 - Batch operations run in parallel with a concurrency limit and report progress
  * @updated 2026-02-14 00:50 - Deep log error.response.data to show nested backend errors
  * @updated 2026-02-14 00:48 - Improved error logging to show actual backend error details
  * @updated 2026-02-14 00:43 - Fixed: Backend endpoint is /flow/workflow/reading (not /flow/core/workflow/readings)
@@ -21,10 +26,33 @@
 
 import axiosInstance from '@/shared/config/axios';
 import type { FlowReadingDTO } from '../../core/dto/FlowReadingDTO';
+import type { ReadingCorrectionRequestDTO } from '../dto/ReadingCorrectionRequestDTO';
+import type { ReadingReassignmentRequestDTO } from '../dto/ReadingReassignmentRequestDTO';
 
 // ✅ FIXED: Backend path is /flow/workflow/reading (singular, no 'core')
 const BASE_URL = '/flow/workflow/reading';
 
+/** Requests in flight at once during batch operations */
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+/**
+ * Batch execution options
+ */
+export interface BatchOptions {
+  /** Maximum number of parallel requests (default DEFAULT_BATCH_CONCURRENCY) */
+  concurrency?: number;
+  /** Called after each reading is processed */
+  onProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * Batch execution result
+ */
+export interface BatchResult {
+  successful: FlowReadingDTO[];
+  failed: Array<{ id: number; error: string }>;
+}
+
 export class ReadingWorkflowService {
   
   /**
@@ -274,57 +302,217 @@ export class ReadingWorkflowService {
     }
   }
   
+  /**
+   * Request a correction of a validated reading
+   * 
+   * Endpoint: POST /flow/workflow/reading/{id}/correct
+   * PROPOSED - the backend does not expose this endpoint yet
+   * Workflow: VALIDATED → new revision in SUBMITTED
+   * 
+   * Expected backend behavior:
+   * - Validates reading exists, is VALIDATED and is the latest revision
+   * - Creates a new reading with revisionNumber + 1 and previousRevisionId = id
+   * - Leaves the validated revision unchanged: it remains the effective one
+   *   (used by dashboards and statistics) until the correction is validated
+   * - On validation of the correction, marks the previous revision as superseded
+   * - Coverage, monitoring statistics and dashboard endpoints count only the
+   *   effective revision of each reading (not superseded, not a pending correction)
+   * - Returns the new revision
+   * 
+   * @param id - Validated reading ID to correct
+   * @param request - Corrected values, reason and requesting employee
+   * @returns New revision with SUBMITTED status
+   * 
+   * @throws {400} Bad Request - Missing correction reason or invalid values
+   * @throws {404} Not Found - Reading or employee not found
+   * @throws {409} Conflict - Reading not validated, superseded, or a correction is already pending
+   * 
+   * @example
+   * ```typescript
+   * const revision = await ReadingWorkflowService.requestCorrection(123, {
+   *   requestedById: 456,
+   *   correctionReason: 'Pressure keyed as 6.5 instead of 65',
+   *   pressure: 65,
+   * });
+   * console.log(revision.revisionNumber); // 2
+   * ```
+   */
+  static async requestCorrection(
+    id: number,
+    request: ReadingCorrectionRequestDTO
+  ): Promise<FlowReadingDTO> {
+    if (!id || id <= 0) {
+      throw new Error('Reading ID is required and must be positive');
+    }
+    
+    if (!request.requestedById || request.requestedById <= 0) {
+      throw new Error('Requesting employee ID is required and must be positive');
+    }
+    
+    if (!request.correctionReason || request.correctionReason.trim().length < 5) {
+      throw new Error('Correction reason must be at least 5 characters');
+    }
+    
+    try {
+      const response = await axiosInstance.post<FlowReadingDTO>(
+        `${BASE_URL}/${id}/correct`,
+        { ...request, correctionReason: request.correctionReason.trim() }
+      );
+      
+      console.log('✅ Correction submitted:', response.data);
+      return response.data;
+    } catch (error: any) {
+      console.error('❌ Correction error:', {
+        status: error.response?.status,
+        statusText: error.response?.statusText,
+        message: error.message,
+      });
+      
+      if (error.response) {
+        const status = error.response.status;
+        const errorData = error.response.data;
+        const message = typeof errorData === 'string'
+          ? errorData
+          : errorData?.message || errorData?.error || 'An unexpected error occurred';
+        
+        switch (status) {
+          case 400:
+            throw new Error(`Correction failed (400): ${message}`);
+          case 404:
+            throw new Error(`Not found (404): ${message}`);
+          case 409:
+            throw new Error(`Cannot correct (409): ${message}`);
+          default:
+            throw new Error(`Correction error (${status}): ${message}`);
+        }
+      }
+      
+      throw new Error(`Network error: ${error.message || 'Unable to connect to server'}`);
+    }
+  }
+  
+  /**
+   * Reassign a submitted reading to another validator
+   * 
+   * Endpoint: POST /flow/workflow/reading/{id}/reassign
+   * PROPOSED - the backend does not expose this endpoint yet
+   * Workflow: SUBMITTED → SUBMITTED (assigned validator changes)
+   * 
+   * Expected backend behavior:
+   * - Validates reading exists and is in SUBMITTED status
+   * - Checks the new validator belongs to the reading's structure
+   * - Updates assignedValidatorId and records the reassignment in the audit log
+   * - Returns updated FlowReadingDTO
+   * 
+   * @param id - Submitted reading ID
+   * @param request - New validator, supervisor and optional reason
+   * @returns Updated reading with the new assigned validator
+   * 
+   * @throws {400} Bad Request - Invalid parameters or validator outside the structure
+   * @throws {404} Not Found - Reading or employee not found
+   * @throws {409} Conflict - Reading no longer pending validation
+   * 
+   * @example
+   * ```typescript
+   * const reassigned = await ReadingWorkflowService.reassign(123, {
+   *   assignedValidatorId: 789,
+   *   requestedById: 456,
+   *   reason: 'Workload balancing',
+   * });
+   * console.log(reassigned.assignedValidatorId); // 789
+   * ```
+   */
+  static async reassign(
+    id: number,
+    request: ReadingReassignmentRequestDTO
+  ): Promise<FlowReadingDTO> {
+    if (!id || id <= 0) {
+      throw new Error('Reading ID is required and must be positive');
+    }
+    
+    if (!request.assignedValidatorId || request.assignedValidatorId <= 0) {
+      throw new Error('Validator ID is required and must be positive');
+    }
+    
+    if (!request.requestedById || request.requestedById <= 0) {
+      throw new Error('Requesting employee ID is required and must be positive');
+    }
+    
+    try {
+      const response = await axiosInstance.post<FlowReadingDTO>(
+        `${BASE_URL}/${id}/reassign`,
+        { ...request, reason: request.reason?.trim() || undefined }
+      );
+      
+      return response.data;
+    } catch (error: any) {
+      console.error('❌ Reassignment error:', {
+        status: error.response?.status,
+        statusText: error.response?.statusText,
+        message: error.message,
+      });
+      
+      if (error.response) {
+        const status = error.response.status;
+        const errorData = error.response.data;
+        const message = typeof errorData === 'string'
+          ? errorData
+          : errorData?.message || errorData?.error || 'An unexpected error occurred';
+        
+        switch (status) {
+          case 400:
+            throw new Error(`Reassignment failed (400): ${message}`);
+          case 404:
+            throw new Error(`Not found (404): ${message}`);
+          case 409:
+            throw new Error(`Cannot reassign (409): ${message}`);
+          default:
+            throw new Error(`Reassignment error (${status}): ${message}`);
+        }
+      }
+      
+      throw new Error(`Network error: ${error.message || 'Unable to connect to server'}`);
+    }
+  }
+  
   /**
    * Batch validate multiple readings
    * 
-   * Validates multiple readings in sequence.
+   * Validates multiple readings in parallel, at most `options.concurrency` at a time.
    * Note: Backend does not provide a batch endpoint, so this calls validate() for each reading.
    * 
    * @param ids - Array of reading IDs to validate
    * @param validatedById - Validator employee ID
+   * @param options - Concurrency limit and progress callback
    * @returns Results with successful and failed validations
    * 
    * @example
    * ```typescript
-   * const result = await ReadingWorkflowService.batchValidate([123, 124, 125], 456);
+   * const result = await ReadingWorkflowService.batchValidate([123, 124, 125], 456, {
+   *   onProgress: (completed, total) => console.log(`${completed}/${total}`),
+   * });
    * console.log(`Validated: ${result.successful.length}`);
    * console.log(`Failed: ${result.failed.length}`);
    * ```
    */
   static async batchValidate(
     ids: number[],
-    validatedById: number
-  ): Promise<{
-    successful: FlowReadingDTO[];
-    failed: Array<{ id: number; error: string }>;
-  }> {
-    const successful: FlowReadingDTO[] = [];
-    const failed: Array<{ id: number; error: string }> = [];
-    
-    for (const id of ids) {
-      try {
-        const result = await this.validate(id, validatedById);
-        successful.push(result);
-      } catch (error: any) {
-        failed.push({
-          id,
-          error: error.message || 'Unknown error',
-        });
-      }
-    }
-    
-    return { successful, failed };
+    validatedById: number,
+    options: BatchOptions = {}
+  ): Promise<BatchResult> {
+    return this.runBatch(ids, (id) => this.validate(id, validatedById), options);
   }
   
   /**
    * Batch reject multiple readings
    * 
-   * Rejects multiple readings in sequence.
+   * Rejects multiple readings in parallel, at most `options.concurrency` at a time.
    * Note: Backend does not provide a batch endpoint, so this calls reject() for each reading.
    * 
    * @param ids - Array of reading IDs to reject
    * @param rejectedById - Rejector employee ID
    * @param rejectionReason - Reason for rejection (applies to all)
+   * @param options - Concurrency limit and progress callback
    * @returns Results with successful and failed rejections
    * 
    * @example
@@ -339,25 +527,64 @@ export class ReadingWorkflowService {
   static async batchReject(
     ids: number[],
     rejectedById: number,
-    rejectionReason: string
-  ): Promise<{
-    successful: FlowReadingDTO[];
-    failed: Array<{ id: number; error: string }>;
-  }> {
+    rejectionReason: string,
+    options: BatchOptions = {}
+  ): Promise<BatchResult> {
+    return this.runBatch(ids, (id) => this.reject(id, rejectedById, rejectionReason), options);
+  }
+  
+  /**
+   * Batch reassign multiple readings to the same validator
+   * 
+   * Reassigns readings in parallel, at most `options.concurrency` at a time.
+   * Note: Backend does not provide a batch endpoint, so this calls reassign() for each reading.
+   * 
+   * @param ids - Array of submitted reading IDs
+   * @param request - New validator, supervisor and optional reason (applies to all)
+   * @param options - Concurrency limit and progress callback
+   * @returns Results with successful and failed reassignments
+   */
+  static async batchReassign(
+    ids: number[],
+    request: ReadingReassignmentRequestDTO,
+    options: BatchOptions = {}
+  ): Promise<BatchResult> {
+    return this.runBatch(ids, (id) => this.reassign(id, request), options);
+  }
+  
+  /**
+   * Run an action over reading IDs with a pool of parallel workers.
+   * Failures are collected per reading and never abort the batch.
+   */
+  private static async runBatch(
+    ids: number[],
+    action: (id: number) => Promise<FlowReadingDTO>,
+    options: BatchOptions
+  ): Promise<BatchResult> {
+    const { concurrency = DEFAULT_BATCH_CONCURRENCY, onProgress } = options;
     const successful: FlowReadingDTO[] = [];
     const failed: Array<{ id: number; error: string }> = [];
+    let next = 0;
+    let completed = 0;
     
-    for (const id of ids) {
-      try {
-        const result = await this.reject(id, rejectedById, rejectionReason);
-        successful.push(result);
-      } catch (error: any) {
-        failed.push({
-          id,
-          error: error.message || 'Unknown error',
-        });
+    const worker = async () => {
+      while (next < ids.length) {
+        const id = ids[next++];
+        try {
+          successful.push(await action(id));
+        } catch (error: any) {
+          failed.push({
+            id,
+            error: error.message || 'Unknown error',
+          });
+        }
+        completed++;
+        onProgress?.(completed, ids.length);
       }
-    }
+    };
+    
+    const workerCount = Math.max(1, Math.min(concurrency, ids.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
     
     return { successful, failed };
   }
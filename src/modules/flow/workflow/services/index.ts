@@ -5,7 +5,9 @@
  * 
  * @author CHOUABBIA Amine
  * @created 2026-02-13
+ * @updated 2026-10-19 - Export batch option/result types
  * @package flow/workflow/services
  */
 
-export { ReadingWorkflowService } from './ReadingWorkflowService';
+export { ReadingWorkflowService, DEFAULT_BATCH_CONCURRENCY } from './ReadingWorkflowService';
+export type { BatchOptions, BatchResult } from './ReadingWorkflowService';
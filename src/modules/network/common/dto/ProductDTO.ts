@@ -29,6 +29,10 @@ export interface ProductDTO {
   
   // Safety flag (required)
   isHazardous: boolean; // @NotNull (required) - true if hazardous material
+
+  // PROPOSED - not yet returned by the backend; phase of the product at
+  // standard conditions, used to select the linepack compressibility model
+  phase?: 'LIQUID' | 'GAS';
 }
 
 /**
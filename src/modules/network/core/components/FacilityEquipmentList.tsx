@@ -0,0 +1,273 @@
+/**
+ * Facility Equipment List Component
+ * Embedded as the Equipment tab of Station, Terminal and Processing Plant edit pages
+ * Create/edit open EquipmentEdit and return to the hosting facility page
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import { useState, useEffect } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Typography,
+  Button,
+  IconButton,
+  Alert,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Paper,
+  Stack,
+  Chip,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Refresh as RefreshIcon,
+  Description as ExcelIcon,
+} from '@mui/icons-material';
+import { DataGrid, GridColDef } from '@mui/x-data-grid';
+import { EquipmentService } from '../services';
+import { EquipmentDTO } from '../dto';
+import { exportToExcel, getMultiLangDesignation, ExportColumn } from '@/shared/utils/exportUtils';
+
+interface FacilityEquipmentListProps {
+  facilityId: number;
+  facilityCode?: string;  // Used in the export file name
+}
+
+const FacilityEquipmentList = ({ facilityId, facilityCode }: FacilityEquipmentListProps) => {
+  const { t, i18n } = useTranslation();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const lang = (i18n.language || 'fr').split('-')[0];
+
+  const [equipment, setEquipment] = useState<EquipmentDTO[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [equipmentToDelete, setEquipmentToDelete] = useState<EquipmentDTO | null>(null);
+
+  useEffect(() => {
+    loadEquipment();
+  }, [facilityId]);
+
+  const loadEquipment = async () => {
+    try {
+      setLoading(true);
+      const data = await EquipmentService.findByFacility(facilityId);
+      setEquipment(Array.isArray(data) ? data : []);
+      setError('');
+    } catch (err: any) {
+      console.error('Failed to load facility equipment:', err);
+      setError(err.message || t('common.errors.loadingFailed'));
+      setEquipment([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Return to the hosting facility page after save/cancel
+  const navigationState = { returnTo: location.pathname };
+
+  const handleCreate = () => {
+    navigate(`/network/core/equipment/create?facilityId=${facilityId}`, { state: navigationState });
+  };
+
+  const handleEdit = (id: number) => {
+    navigate(`/network/core/equipment/${id}/edit`, { state: navigationState });
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!equipmentToDelete?.id) return;
+
+    try {
+      setLoading(true);
+      await EquipmentService.delete(equipmentToDelete.id);
+      setEquipmentToDelete(null);
+      await loadEquipment();
+    } catch (err: any) {
+      console.error('Failed to delete equipment:', err);
+      setError(err.response?.data?.message || err.message || t('message.deleteError', 'Failed to delete item'));
+      setEquipmentToDelete(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportColumns: ExportColumn[] = [
+    { header: t('list.code', 'Code'), key: 'code', width: 15 },
+    { header: t('list.name', 'Name'), key: 'name', width: 30 },
+    {
+      header: t('list.type', 'Type'),
+      key: 'equipmentType',
+      width: 20,
+      transform: (value) => getMultiLangDesignation(value, lang)
+    },
+    { header: t('equipment.fields.modelNumber', 'Model Number'), key: 'modelNumber', width: 20 },
+    { header: t('equipment.fields.serialNumber', 'Serial Number'), key: 'serialNumber', width: 22 },
+    {
+      header: t('equipment.fields.manufacturer', 'Manufacturer'),
+      key: 'manufacturer',
+      width: 22,
+      transform: (value) => value?.name || ''
+    },
+    { header: t('equipment.fields.manufacturingDate', 'Manufacturing Date'), key: 'manufacturingDate', width: 16 },
+    { header: t('common.fields.installationDate', 'Installation Date'), key: 'installationDate', width: 16 },
+    { header: t('equipment.fields.lastMaintenanceDate', 'Last Maintenance'), key: 'lastMaintenanceDate', width: 16 },
+  ];
+
+  const handleExportExcel = async () => {
+    await exportToExcel(equipment, {
+      filename: `equipment-${facilityCode || facilityId}`,
+      title: t('equipment.title', 'Equipment'),
+      columns: exportColumns
+    });
+  };
+
+  const columns: GridColDef<EquipmentDTO>[] = [
+    {
+      field: 'code',
+      headerName: t('common.fields.code'),
+      width: 140,
+      renderCell: (params) => (
+        <Chip label={params.value} size="small" variant="outlined"
+          sx={{ fontFamily: 'monospace', fontWeight: 600 }} />
+      ),
+    },
+    {
+      field: 'name',
+      headerName: t('common.fields.name'),
+      flex: 1,
+      minWidth: 180,
+    },
+    {
+      field: 'equipmentType',
+      headerName: t('equipment.fields.equipmentType'),
+      minWidth: 150,
+      flex: 0.8,
+      valueGetter: (params) => getMultiLangDesignation(params.row.equipmentType, lang),
+    },
+    {
+      field: 'serialNumber',
+      headerName: t('equipment.fields.serialNumber'),
+      width: 160,
+      renderCell: (params) => (
+        <Typography variant="body2" fontFamily="monospace">
+          {params.value}
+        </Typography>
+      ),
+    },
+    {
+      field: 'installationDate',
+      headerName: t('common.fields.installationDate'),
+      width: 140,
+    },
+    {
+      field: 'lastMaintenanceDate',
+      headerName: t('equipment.fields.lastMaintenanceDate'),
+      width: 140,
+    },
+    {
+      field: 'actions',
+      headerName: t('list.actions', 'Actions'),
+      width: 110,
+      align: 'center',
+      headerAlign: 'center',
+      sortable: false,
+      renderCell: (params) => (
+        <Box>
+          <IconButton
+            size="small"
+            color="primary"
+            onClick={() => params.row.id && handleEdit(params.row.id)}
+            title={t('action.edit', 'Edit')}
+          >
+            <EditIcon fontSize="small" />
+          </IconButton>
+          <IconButton
+            size="small"
+            color="error"
+            onClick={() => setEquipmentToDelete(params.row)}
+            title={t('action.delete', 'Delete')}
+          >
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </Box>
+      ),
+    },
+  ];
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h6" fontWeight={600}>
+          {t('equipment.tabs.installedEquipment')}
+        </Typography>
+        <Stack direction="row" spacing={1}>
+          <Tooltip title={t('action.refresh', 'Refresh')}>
+            <IconButton onClick={loadEquipment} color="primary">
+              <RefreshIcon />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title={t('action.exportExcel', 'Export Excel')}>
+            <span>
+              <IconButton onClick={handleExportExcel} color="primary" disabled={equipment.length === 0}>
+                <ExcelIcon />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={handleCreate} size="small">
+            {t('equipment.add')}
+          </Button>
+        </Stack>
+      </Box>
+
+      <Paper elevation={0} sx={{ border: 1, borderColor: 'divider' }}>
+        <DataGrid
+          rows={equipment}
+          columns={columns}
+          loading={loading}
+          disableRowSelectionOnClick
+          autoHeight
+          pageSizeOptions={[10, 25, 50, 100]}
+          initialState={{
+            pagination: {
+              paginationModel: { page: 0, pageSize: 10 },
+            },
+          }}
+        />
+      </Paper>
+
+      <Dialog open={!!equipmentToDelete} onClose={() => setEquipmentToDelete(null)}>
+        <DialogTitle>{t('action.delete', 'Delete')}</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            {t('action.confirmDelete', 'Are you sure you want to delete this item?')}
+            {equipmentToDelete && ` (${equipmentToDelete.code} - ${equipmentToDelete.name})`}
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEquipmentToDelete(null)}>{t('common.cancel')}</Button>
+          <Button onClick={handleDeleteConfirm} color="error" variant="contained">
+            {t('action.delete', 'Delete')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default FacilityEquipmentList;
@@ -0,0 +1,265 @@
+/**
+ * Maintenance Intervention Dialog
+ * Records an intervention (date, notes, attachments) on an equipment
+ * and lists the interventions already recorded on it
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Box,
+  Typography,
+  Button,
+  TextField,
+  Alert,
+  Chip,
+  Stack,
+  Divider,
+  List,
+  ListItem,
+  ListItemText,
+  CircularProgress,
+} from '@mui/material';
+import {
+  AttachFile as AttachIcon,
+  Download as DownloadIcon,
+} from '@mui/icons-material';
+import { MaintenanceInterventionService } from '../services';
+import { EquipmentDTO, MaintenanceInterventionDTO } from '../dto';
+import { validateMaintenanceInterventionDTO } from '../dto/MaintenanceInterventionDTO';
+import { toIsoDay } from '../utils/maintenanceHelpers';
+import { FileService } from '../../../system/utility/services';
+import { FileDTO } from '../../../system/utility/dto/FileDTO';
+
+/** FileDTO.fileType category of intervention attachments */
+const ATTACHMENT_CATEGORY = 'MAINTENANCE';
+
+interface MaintenanceInterventionDialogProps {
+  open: boolean;
+  equipment: EquipmentDTO | null;
+  onClose: () => void;
+  /** Called after an intervention has been recorded */
+  onRecorded: () => void;
+}
+
+const MaintenanceInterventionDialog = ({ open, equipment, onClose, onRecorded }: MaintenanceInterventionDialogProps) => {
+  const { t } = useTranslation();
+
+  const [interventionDate, setInterventionDate] = useState(toIsoDay(new Date()));
+  const [notes, setNotes] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [history, setHistory] = useState<MaintenanceInterventionDTO[]>([]);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (open && equipment?.id) {
+      setInterventionDate(toIsoDay(new Date()));
+      setNotes('');
+      setFiles([]);
+      setError('');
+      loadHistory(equipment.id);
+    }
+  }, [open, equipment?.id]);
+
+  const loadHistory = async (equipmentId: number) => {
+    try {
+      setLoadingHistory(true);
+      const data = await MaintenanceInterventionService.findByEquipment(equipmentId);
+      setHistory(
+        (Array.isArray(data) ? data : []).sort((a, b) => b.interventionDate.localeCompare(a.interventionDate))
+      );
+    } catch (err: any) {
+      console.error('Failed to load interventions:', err);
+      setHistory([]);
+    } finally {
+      setLoadingHistory(false);
+    }
+  };
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    setFiles((prev) => [...prev, ...selected]);
+    e.target.value = '';
+  };
+
+  const handleRemoveFile = (index: number) => {
+    setFiles((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleDownload = async (file: FileDTO) => {
+    if (!file.id) return;
+
+    try {
+      const blob = await FileService.download(file.id);
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.path.split('/').pop() || `attachment-${file.id}.${file.extension}`;
+      link.click();
+      window.URL.revokeObjectURL(url);
+    } catch (err: any) {
+      console.error('Failed to download attachment:', err);
+      setError(err.message || t('maintenance.errors.downloadFailed'));
+    }
+  };
+
+  const handleSave = async () => {
+    if (!equipment?.id) return;
+
+    if (equipment.installationDate && interventionDate < equipment.installationDate) {
+      setError(t('maintenance.validation.beforeInstallation'));
+      return;
+    }
+    if (interventionDate > toIsoDay(new Date())) {
+      setError(t('maintenance.validation.futureDate'));
+      return;
+    }
+
+    const dto: MaintenanceInterventionDTO = {
+      interventionDate,
+      notes: notes.trim() || undefined,
+      equipmentId: equipment.id,
+    };
+
+    const errors = validateMaintenanceInterventionDTO(dto);
+    if (errors.length > 0) {
+      setError(errors.join(', '));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError('');
+
+      const uploaded = await Promise.all(files.map((file) => FileService.upload(file, ATTACHMENT_CATEGORY)));
+      dto.attachmentIds = uploaded.map((file) => file.id).filter((id): id is number => id !== undefined);
+
+      await MaintenanceInterventionService.record(dto, equipment);
+      onRecorded();
+      onClose();
+    } catch (err: any) {
+      console.error('Failed to record intervention:', err);
+      setError(err.response?.data?.message || err.message || t('maintenance.errors.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={saving ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        {t('maintenance.intervention.title')}
+        {equipment && (
+          <Typography variant="body2" color="text.secondary">
+            {equipment.code} - {equipment.name}
+          </Typography>
+        )}
+      </DialogTitle>
+      <DialogContent dividers>
+        {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>}
+
+        <Stack spacing={2}>
+          <TextField
+            type="date"
+            label={t('maintenance.intervention.date')}
+            value={interventionDate}
+            onChange={(e) => setInterventionDate(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            inputProps={{ max: toIsoDay(new Date()) }}
+            required
+            fullWidth
+          />
+          <TextField
+            label={t('maintenance.intervention.notes')}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            inputProps={{ maxLength: 500 }}
+            helperText={`${notes.length}/500`}
+            multiline
+            rows={3}
+            fullWidth
+          />
+          <Box>
+            <Button component="label" variant="outlined" size="small" startIcon={<AttachIcon />} disabled={saving}>
+              {t('maintenance.intervention.addAttachments')}
+              <input type="file" hidden multiple onChange={handleFilesSelected} />
+            </Button>
+            {files.length > 0 && (
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 1.5 }}>
+                {files.map((file, index) => (
+                  <Chip
+                    key={`${file.name}-${index}`}
+                    label={file.name}
+                    size="small"
+                    onDelete={saving ? undefined : () => handleRemoveFile(index)}
+                  />
+                ))}
+              </Box>
+            )}
+          </Box>
+        </Stack>
+
+        <Divider sx={{ my: 2.5 }} />
+
+        <Typography variant="subtitle2" fontWeight={600} sx={{ mb: 1 }}>
+          {t('maintenance.intervention.history')}
+        </Typography>
+        {loadingHistory ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : history.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            {t('maintenance.intervention.noHistory')}
+          </Typography>
+        ) : (
+          <List dense disablePadding>
+            {history.map((item) => (
+              <ListItem key={item.id} disableGutters alignItems="flex-start">
+                <ListItemText
+                  primary={item.interventionDate}
+                  secondary={item.notes || '-'}
+                  primaryTypographyProps={{ fontWeight: 500 }}
+                />
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, justifyContent: 'flex-end', maxWidth: '50%' }}>
+                  {(item.attachments || []).map((file) => (
+                    <Chip
+                      key={file.id}
+                      icon={<DownloadIcon />}
+                      label={file.extension?.toUpperCase() || `#${file.id}`}
+                      size="small"
+                      variant="outlined"
+                      onClick={() => handleDownload(file)}
+                    />
+                  ))}
+                </Box>
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>{t('common.cancel')}</Button>
+        <Button
+          onClick={handleSave}
+          variant="contained"
+          disabled={saving || !interventionDate}
+          startIcon={saving ? <CircularProgress size={16} color="inherit" /> : undefined}
+        >
+          {t('maintenance.intervention.record')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default MaintenanceInterventionDialog;
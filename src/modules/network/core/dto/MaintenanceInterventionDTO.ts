@@ -0,0 +1,55 @@
+/**
+ * Maintenance Intervention DTO - Network Core Module
+ * 
+ * PROPOSED CONTRACT - not yet implemented by the backend. Suggested as
+ *   dz.sh.trc.hyflo.network.core.dto.MaintenanceInterventionDTO
+ * 
+ * Records a maintenance intervention performed on a piece of equipment,
+ * with optional notes and attached documents (reports, photos).
+ * 
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import { FileDTO } from '../../../system/utility/dto/FileDTO';
+import { EquipmentDTO } from './EquipmentDTO';
+
+export interface MaintenanceInterventionDTO {
+  // Identifier
+  id?: number;
+
+  // Core fields
+  interventionDate: string; // @NotNull, LocalDate (ISO format: YYYY-MM-DD)
+  notes?: string; // Optional, max 500 chars
+
+  // Required relationships (IDs)
+  equipmentId: number; // @NotNull (required)
+  attachmentIds?: number[]; // Optional - References File
+
+  // Nested objects (populated in responses)
+  equipment?: EquipmentDTO;
+  attachments?: FileDTO[];
+}
+
+/**
+ * Validates MaintenanceInterventionDTO according to backend constraints
+ */
+export const validateMaintenanceInterventionDTO = (data: Partial<MaintenanceInterventionDTO>): string[] => {
+  const errors: string[] = [];
+  
+  if (!data.interventionDate) {
+    errors.push("Intervention date is required");
+  } else if (!/^\d{4}-\d{2}-\d{2}$/.test(data.interventionDate)) {
+    errors.push("Intervention date must be in YYYY-MM-DD format");
+  }
+  
+  if (data.notes && data.notes.length > 500) {
+    errors.push("Notes must not exceed 500 characters");
+  }
+  
+  if (data.equipmentId === undefined || data.equipmentId === null) {
+    errors.push("Equipment is required");
+  }
+  
+  return errors;
+};
@@ -4,11 +4,13 @@
  * Core infrastructure DTOs for the Network module.
  * 
  * @updated 01-15-2026 - Removed HydrocarbonFieldDTO, added ProcessingPlantDTO and ProductionFieldDTO
+ * @updated 10-19-2026 - Added MaintenanceInterventionDTO
  */
 
 export { EquipmentDTO } from './EquipmentDTO';
 export { FacilityDTO } from './FacilityDTO';
 export { InfrastructureDTO } from './InfrastructureDTO';
+export { MaintenanceInterventionDTO } from './MaintenanceInterventionDTO';
 export { PipelineDTO } from './PipelineDTO';
 export { PipelineSegmentDTO } from './PipelineSegmentDTO';
 export { PipelineSystemDTO } from './PipelineSystemDTO';
@@ -0,0 +1,477 @@
+/**
+ * Equipment Edit/Create Page
+ * Facility can be preset with ?facilityId= when opened from a facility's Equipment tab;
+ * the caller's page is then passed as `returnTo` navigation state.
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useParams, useLocation, useSearchParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import {
+  Box, Typography, TextField, CircularProgress, Alert,
+  Grid, Paper, Divider, Stack, MenuItem, Autocomplete,
+  IconButton, Tooltip
+} from '@mui/material';
+import {
+  Save as SaveIcon, Close as CloseIcon, Build as EquipmentIcon,
+} from '@mui/icons-material';
+import { EquipmentService, FacilityService } from '../services';
+import { VendorService, OperationalStatusService } from '../../common/services';
+import { EquipmentTypeService } from '../../type/services';
+import { EquipmentDTO, FacilityDTO } from '../dto';
+import { getLocalizedName, sortByLocalizedName } from '../utils/localizationUtils';
+
+const LIST_PATH = '/network/core/equipment';
+
+const EquipmentEdit = () => {
+  const { t, i18n } = useTranslation();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const { equipmentId } = useParams<{ equipmentId: string }>();
+  const isEditMode = !!equipmentId;
+
+  const currentLanguage = i18n.language || 'en';
+  const returnTo = (location.state as { returnTo?: string } | null)?.returnTo || LIST_PATH;
+  const presetFacilityId = Number(searchParams.get('facilityId')) || 0;
+
+  const [equipment, setEquipment] = useState<Partial<EquipmentDTO>>({
+    name: '',
+    code: '',
+    modelNumber: '',
+    serialNumber: '',
+    manufacturingDate: '',
+    installationDate: '',
+    lastMaintenanceDate: '',
+    operationalStatusId: 0,
+    equipmentTypeId: 0,
+    facilityId: presetFacilityId,
+    manufacturerId: 0,
+  });
+
+  const [facilities, setFacilities] = useState<FacilityDTO[]>([]);
+  const [equipmentTypes, setEquipmentTypes] = useState<any[]>([]);
+  const [operationalStatuses, setOperationalStatuses] = useState<any[]>([]);
+  const [vendors, setVendors] = useState<any[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => { loadData(); }, [equipmentId]);
+
+  const sortedEquipmentTypes = useMemo(() => sortByLocalizedName(equipmentTypes, currentLanguage), [equipmentTypes, currentLanguage]);
+  const sortedOperationalStatuses = useMemo(() => sortByLocalizedName(operationalStatuses, currentLanguage), [operationalStatuses, currentLanguage]);
+  const selectedFacility = useMemo(
+    () => facilities.find((facility) => facility.id === Number(equipment.facilityId)) || null,
+    [facilities, equipment.facilityId]
+  );
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+
+      let equipmentData: EquipmentDTO | null = null;
+      if (isEditMode) {
+        equipmentData = await EquipmentService.getById(Number(equipmentId));
+      }
+
+      const [
+        facilitiesData,
+        vendorsData,
+        equipmentTypesData,
+        operationalStatusesData,
+      ] = await Promise.allSettled([
+        FacilityService.getAllNoPagination(),
+        VendorService.getAllNoPagination(),
+        EquipmentTypeService.getAllNoPagination(),
+        OperationalStatusService.getAllNoPagination(),
+      ]);
+
+      if (facilitiesData.status === 'fulfilled') {
+        setFacilities(Array.isArray(facilitiesData.value) ? facilitiesData.value : []);
+      }
+      if (vendorsData.status === 'fulfilled') {
+        setVendors(Array.isArray(vendorsData.value) ? vendorsData.value : []);
+      }
+      if (equipmentTypesData.status === 'fulfilled') {
+        setEquipmentTypes(Array.isArray(equipmentTypesData.value) ? equipmentTypesData.value : []);
+      }
+      if (operationalStatusesData.status === 'fulfilled') {
+        setOperationalStatuses(Array.isArray(operationalStatusesData.value) ? operationalStatusesData.value : []);
+      }
+
+      if (equipmentData) {
+        setEquipment(equipmentData);
+      }
+      setError('');
+    } catch (err: any) {
+      console.error('Failed to load data:', err);
+      setError(err.message || t('common.errors.loadingDataFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const errors: Record<string, string> = {};
+    if (!equipment.name || equipment.name.trim().length < 3) {
+      errors.name = t('common.validation.minLength', { field: t('common.fields.name'), min: 3 });
+    } else if (equipment.name.length > 100) {
+      errors.name = t('common.validation.maxLength', { field: t('common.fields.name'), max: 100 });
+    }
+    if (!equipment.code || equipment.code.trim().length < 2) {
+      errors.code = t('common.validation.codeRequired');
+    } else if (equipment.code.length > 50) {
+      errors.code = t('common.validation.maxLength', { field: t('common.fields.code'), max: 50 });
+    }
+    if (!equipment.modelNumber?.trim()) {
+      errors.modelNumber = t('common.validation.required', { field: t('equipment.fields.modelNumber') });
+    } else if (equipment.modelNumber.length > 50) {
+      errors.modelNumber = t('common.validation.maxLength', { field: t('equipment.fields.modelNumber'), max: 50 });
+    }
+    if (!equipment.serialNumber?.trim()) {
+      errors.serialNumber = t('common.validation.required', { field: t('equipment.fields.serialNumber') });
+    } else if (equipment.serialNumber.length > 100) {
+      errors.serialNumber = t('common.validation.maxLength', { field: t('equipment.fields.serialNumber'), max: 100 });
+    }
+    if (!equipment.manufacturingDate) {
+      errors.manufacturingDate = t('common.validation.required', { field: t('equipment.fields.manufacturingDate') });
+    }
+    if (!equipment.installationDate) {
+      errors.installationDate = t('common.validation.required', { field: t('common.fields.installationDate') });
+    } else if (equipment.manufacturingDate && equipment.installationDate < equipment.manufacturingDate) {
+      errors.installationDate = t('equipment.validation.installedBeforeManufactured');
+    }
+    if (!equipment.lastMaintenanceDate) {
+      errors.lastMaintenanceDate = t('common.validation.required', { field: t('equipment.fields.lastMaintenanceDate') });
+    } else if (equipment.installationDate && equipment.lastMaintenanceDate < equipment.installationDate) {
+      errors.lastMaintenanceDate = t('equipment.validation.maintenanceBeforeInstallation');
+    }
+    if (!equipment.equipmentTypeId) {
+      errors.equipmentTypeId = t('common.validation.required', { field: t('equipment.fields.equipmentType') });
+    }
+    if (!equipment.operationalStatusId) {
+      errors.operationalStatusId = t('common.validation.required', { field: t('common.fields.operationalStatus') });
+    }
+    if (!equipment.facilityId) {
+      errors.facilityId = t('common.validation.required', { field: t('equipment.fields.facility') });
+    }
+    if (!equipment.manufacturerId) {
+      errors.manufacturerId = t('common.validation.required', { field: t('equipment.fields.manufacturer') });
+    }
+    setValidationErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleChange = (field: keyof EquipmentDTO) => (e: any) => {
+    setEquipment({ ...equipment, [field]: e.target.value });
+
+    if (validationErrors[field]) {
+      setValidationErrors({ ...validationErrors, [field]: '' });
+    }
+  };
+
+  const handleFacilityChange = (_event: any, newValue: FacilityDTO | null) => {
+    setEquipment({ ...equipment, facilityId: newValue?.id || 0 });
+
+    if (validationErrors.facilityId) {
+      setValidationErrors({ ...validationErrors, facilityId: '' });
+    }
+  };
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (!validateForm()) return;
+
+    try {
+      setSaving(true);
+      setError('');
+
+      const payload: EquipmentDTO = {
+        id: isEditMode ? Number(equipmentId) : undefined,
+        code: String(equipment.code || ''),
+        name: String(equipment.name || ''),
+        modelNumber: String(equipment.modelNumber || ''),
+        serialNumber: String(equipment.serialNumber || ''),
+        manufacturingDate: String(equipment.manufacturingDate),
+        installationDate: String(equipment.installationDate),
+        lastMaintenanceDate: String(equipment.lastMaintenanceDate),
+        operationalStatusId: Number(equipment.operationalStatusId),
+        equipmentTypeId: Number(equipment.equipmentTypeId),
+        facilityId: Number(equipment.facilityId),
+        manufacturerId: Number(equipment.manufacturerId),
+      };
+
+      if (isEditMode) {
+        await EquipmentService.update(Number(equipmentId), payload);
+      } else {
+        await EquipmentService.create(payload);
+      }
+
+      navigate(returnTo);
+    } catch (err: any) {
+      console.error('Failed to save equipment:', err);
+      setError(err.response?.data?.message || err.message || t('common.errors.savingFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = () => {
+    navigate(returnTo);
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: 400 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* HEADER SECTION - Containerized */}
+      <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+        <Box sx={{ p: 2.5 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <EquipmentIcon color="primary" sx={{ fontSize: 32 }} />
+              <Box>
+                <Typography variant="h4" fontWeight={700} color="text.primary">
+                  {isEditMode
+                    ? t('common.page.editTitle', { entity: t('equipment.title') })
+                    : t('common.page.createTitle', { entity: t('equipment.title') })
+                  }
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5 }}>
+                  {isEditMode
+                    ? t('common.page.editSubtitle', { entity: t('equipment.title') })
+                    : t('common.page.createSubtitle', { entity: t('equipment.title') })
+                  }
+                </Typography>
+              </Box>
+            </Box>
+            <Stack direction="row" spacing={1.5}>
+              <Tooltip title={t('common.cancel')}>
+                <IconButton
+                  onClick={handleCancel}
+                  disabled={saving}
+                  size="medium"
+                  color="default"
+                >
+                  <CloseIcon />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title={t('common.save')}>
+                <IconButton
+                  onClick={() => handleSubmit()}
+                  disabled={saving || facilities.length === 0}
+                  size="medium"
+                  color="primary"
+                >
+                  {saving ? <CircularProgress size={24} /> : <SaveIcon />}
+                </IconButton>
+              </Tooltip>
+            </Stack>
+          </Box>
+        </Box>
+      </Paper>
+
+      {error && <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError('')}>{error}</Alert>}
+      {facilities.length === 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {t('equipment.warnings.noFacilities')}
+        </Alert>
+      )}
+
+      <form onSubmit={handleSubmit}>
+        <Stack spacing={3}>
+          <Paper elevation={0} sx={{ border: 1, borderColor: 'divider' }}>
+            <Box sx={{ p: 2.5 }}>
+              <Typography variant="h6" fontWeight={600} gutterBottom>
+                {t('common.sections.basicInformation')}
+              </Typography>
+              <Divider sx={{ mb: 3 }} />
+
+              <Grid container spacing={3}>
+                <Grid item xs={12} md={6}>
+                  <TextField
+                    fullWidth label={t('common.fields.code')}
+                    value={equipment.code || ''}
+                    onChange={handleChange('code')} required
+                    error={!!validationErrors.code}
+                    helperText={validationErrors.code}
+                  />
+                </Grid>
+                <Grid item xs={12} md={6}>
+                  <TextField
+                    fullWidth label={t('common.fields.name')}
+                    value={equipment.name || ''}
+                    onChange={handleChange('name')} required
+                    error={!!validationErrors.name}
+                    helperText={validationErrors.name}
+                  />
+                </Grid>
+                <Grid item xs={12} md={6}>
+                  <Autocomplete
+                    value={selectedFacility}
+                    onChange={handleFacilityChange}
+                    options={facilities}
+                    getOptionLabel={(option) => `${option.code} - ${option.name}`}
+                    isOptionEqualToValue={(option, value) => option.id === value?.id}
+                    renderInput={(params) => (
+                      <TextField
+                        {...params}
+                        label={t('equipment.fields.facility')}
+                        required
+                        error={!!validationErrors.facilityId}
+                        helperText={validationErrors.facilityId}
+                      />
+                    )}
+                    noOptionsText={t('list.noData')}
+                  />
+                </Grid>
+                <Grid item xs={12} md={6}>
+                  <TextField
+                    fullWidth select label={t('equipment.fields.equipmentType')}
+                    value={equipment.equipmentTypeId || ''}
+                    onChange={handleChange('equipmentTypeId')} required
+                    error={!!validationErrors.equipmentTypeId}
+                    helperText={validationErrors.equipmentTypeId}
+                  >
+                    {sortedEquipmentTypes.length > 0 ? (
+                      sortedEquipmentTypes.map((type) => (
+                        <MenuItem key={type.id} value={type.id}>
+                          {getLocalizedName(type, currentLanguage)}
+                        </MenuItem>
+                      ))
+                    ) : (
+                      <MenuItem disabled>{t('common.loading')}</MenuItem>
+                    )}
+                  </TextField>
+                </Grid>
+              </Grid>
+            </Box>
+          </Paper>
+
+          <Paper elevation={0} sx={{ border: 1, borderColor: 'divider' }}>
+            <Box sx={{ p: 2.5 }}>
+              <Typography variant="h6" fontWeight={600} gutterBottom>
+                {t('common.sections.technicalDetails')}
+              </Typography>
+              <Divider sx={{ mb: 3 }} />
+
+              <Grid container spacing={3}>
+                <Grid item xs={12} md={6}>
+                  <TextField
+                    fullWidth label={t('equipment.fields.modelNumber')}
+                    value={equipment.modelNumber || ''}
+                    onChange={handleChange('modelNumber')} required
+                    error={!!validationErrors.modelNumber}
+                    helperText={validationErrors.modelNumber}
+                  />
+                </Grid>
+                <Grid item xs={12} md={6}>
+                  <TextField
+                    fullWidth label={t('equipment.fields.serialNumber')}
+                    value={equipment.serialNumber || ''}
+                    onChange={handleChange('serialNumber')} required
+                    error={!!validationErrors.serialNumber}
+                    helperText={validationErrors.serialNumber}
+                  />
+                </Grid>
+                <Grid item xs={12} md={6}>
+                  <TextField
+                    fullWidth select label={t('equipment.fields.manufacturer')}
+                    value={equipment.manufacturerId || ''}
+                    onChange={handleChange('manufacturerId')} required
+                    error={!!validationErrors.manufacturerId}
+                    helperText={validationErrors.manufacturerId}
+                  >
+                    {vendors.length > 0 ? (
+                      vendors.map((vendor) => (
+                        <MenuItem key={vendor.id} value={vendor.id}>
+                          {vendor.name}
+                        </MenuItem>
+                      ))
+                    ) : (
+                      <MenuItem disabled>{t('common.loading')}</MenuItem>
+                    )}
+                  </TextField>
+                </Grid>
+                <Grid item xs={12} md={6}>
+                  <TextField
+                    fullWidth select label={t('common.fields.operationalStatus')}
+                    value={equipment.operationalStatusId || ''}
+                    onChange={handleChange('operationalStatusId')} required
+                    error={!!validationErrors.operationalStatusId}
+                    helperText={validationErrors.operationalStatusId}
+                  >
+                    {sortedOperationalStatuses.length > 0 ? (
+                      sortedOperationalStatuses.map((status) => (
+                        <MenuItem key={status.id} value={status.id}>
+                          {getLocalizedName(status, currentLanguage)}
+                        </MenuItem>
+                      ))
+                    ) : (
+                      <MenuItem disabled>{t('common.loading')}</MenuItem>
+                    )}
+                  </TextField>
+                </Grid>
+              </Grid>
+            </Box>
+          </Paper>
+
+          <Paper elevation={0} sx={{ border: 1, borderColor: 'divider' }}>
+            <Box sx={{ p: 2.5 }}>
+              <Typography variant="h6" fontWeight={600} gutterBottom>
+                {t('common.sections.importantDates')}
+              </Typography>
+              <Divider sx={{ mb: 3 }} />
+
+              <Grid container spacing={3}>
+                <Grid item xs={12} md={4}>
+                  <TextField
+                    fullWidth label={t('equipment.fields.manufacturingDate')}
+                    type="date" value={equipment.manufacturingDate || ''}
+                    onChange={handleChange('manufacturingDate')} required
+                    error={!!validationErrors.manufacturingDate}
+                    helperText={validationErrors.manufacturingDate}
+                    InputLabelProps={{ shrink: true }}
+                  />
+                </Grid>
+                <Grid item xs={12} md={4}>
+                  <TextField
+                    fullWidth label={t('common.fields.installationDate')}
+                    type="date" value={equipment.installationDate || ''}
+                    onChange={handleChange('installationDate')} required
+                    error={!!validationErrors.installationDate}
+                    helperText={validationErrors.installationDate}
+                    InputLabelProps={{ shrink: true }}
+                  />
+                </Grid>
+                <Grid item xs={12} md={4}>
+                  <TextField
+                    fullWidth label={t('equipment.fields.lastMaintenanceDate')}
+                    type="date" value={equipment.lastMaintenanceDate || ''}
+                    onChange={handleChange('lastMaintenanceDate')} required
+                    error={!!validationErrors.lastMaintenanceDate}
+                    helperText={validationErrors.lastMaintenanceDate}
+                    InputLabelProps={{ shrink: true }}
+                  />
+                </Grid>
+              </Grid>
+            </Box>
+          </Paper>
+        </Stack>
+      </form>
+    </Box>
+  );
+};
+
+export default EquipmentEdit;
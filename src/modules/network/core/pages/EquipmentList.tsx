@@ -0,0 +1,544 @@
+/**
+ * Equipment List Page - Equipment register
+ *
+ * Features:
+ * - Server-side pagination and global search
+ * - Facility and equipment type filters (client-side paging when filtered)
+ * - Export to CSV/Excel/PDF (whole register or current filter)
+ * - Multi-language support (Fr/En/Ar)
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Typography,
+  Button,
+  IconButton,
+  Alert,
+  TextField,
+  InputAdornment,
+  Stack,
+  Paper,
+  Divider,
+  Chip,
+  Tooltip,
+  Grid,
+  Autocomplete,
+  alpha,
+  Menu,
+  MenuItem,
+  ListItemIcon,
+  ListItemText,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Search as SearchIcon,
+  Refresh as RefreshIcon,
+  FileDownload as ExportIcon,
+  TableChart as CsvIcon,
+  Description as ExcelIcon,
+  PictureAsPdf as PdfIcon,
+  Build as EquipmentIcon,
+} from '@mui/icons-material';
+import { DataGrid, GridColDef, GridPaginationModel, GridSortModel } from '@mui/x-data-grid';
+
+import { EquipmentService, FacilityService } from '../services';
+import { EquipmentTypeService } from '../../type/services';
+import { EquipmentDTO, FacilityDTO } from '../dto';
+import { EquipmentTypeDTO } from '../../type/dto';
+import { sortByLocalizedName } from '../utils/localizationUtils';
+import {
+  exportToCSV,
+  exportToExcel,
+  exportToPDF,
+  getMultiLangDesignation,
+  ExportColumn
+} from '@/shared/utils/exportUtils';
+
+/**
+ * Client-side match used when the list comes from a filter endpoint
+ */
+const matchesSearch = (equipment: EquipmentDTO, search: string): boolean => {
+  const term = search.trim().toLowerCase();
+  if (!term) return true;
+  return [equipment.code, equipment.name, equipment.modelNumber, equipment.serialNumber]
+    .some((value) => value?.toLowerCase().includes(term));
+};
+
+const EquipmentList = () => {
+  const { t, i18n } = useTranslation();
+  const navigate = useNavigate();
+  const lang = useMemo(() => (i18n.language || 'fr').split('-')[0], [i18n.language]);
+
+  const [equipment, setEquipment] = useState<EquipmentDTO[]>([]);
+  const [facilities, setFacilities] = useState<FacilityDTO[]>([]);
+  const [equipmentTypes, setEquipmentTypes] = useState<EquipmentTypeDTO[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [searchText, setSearchText] = useState('');
+  const [facilityFilter, setFacilityFilter] = useState<FacilityDTO | null>(null);
+  const [typeFilter, setTypeFilter] = useState<number | ''>('');
+  const [exportAnchorEl, setExportAnchorEl] = useState<null | HTMLElement>(null);
+
+  const [paginationModel, setPaginationModel] = useState<GridPaginationModel>({
+    page: 0,
+    pageSize: 10
+  });
+  const [sortModel, setSortModel] = useState<GridSortModel>([{ field: 'code', sort: 'asc' }]);
+  const [totalRows, setTotalRows] = useState(0);
+
+  const isFiltered = !!facilityFilter || typeFilter !== '';
+
+  const sortedEquipmentTypes = useMemo(() => sortByLocalizedName(equipmentTypes, lang), [equipmentTypes, lang]);
+
+  useEffect(() => {
+    loadFilterOptions();
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [paginationModel, sortModel, searchText, facilityFilter, typeFilter]);
+
+  const loadFilterOptions = async () => {
+    const [facilitiesData, typesData] = await Promise.allSettled([
+      FacilityService.getAllNoPagination(),
+      EquipmentTypeService.getAllNoPagination(),
+    ]);
+
+    if (facilitiesData.status === 'fulfilled') {
+      setFacilities(Array.isArray(facilitiesData.value) ? facilitiesData.value : []);
+    }
+    if (typesData.status === 'fulfilled') {
+      setEquipmentTypes(Array.isArray(typesData.value) ? typesData.value : []);
+    }
+  };
+
+  /**
+   * Equipment matching the facility/type filters and search text
+   * Backed by the by-facility or by-equipment-type endpoints
+   */
+  const loadFilteredEquipment = async (): Promise<EquipmentDTO[]> => {
+    const source = facilityFilter?.id
+      ? await EquipmentService.findByFacility(facilityFilter.id)
+      : await EquipmentService.findByEquipmentType(Number(typeFilter));
+
+    return source.filter((item) =>
+      (typeFilter === '' || item.equipmentTypeId === typeFilter || item.equipmentType?.id === typeFilter) &&
+      matchesSearch(item, searchText)
+    );
+  };
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+
+      if (isFiltered) {
+        const filtered = await loadFilteredEquipment();
+        setEquipment(filtered);
+        setTotalRows(filtered.length);
+      } else {
+        const sortField = sortModel.length > 0 ? sortModel[0].field : 'code';
+        const sortDir = sortModel.length > 0 ? sortModel[0].sort || 'asc' : 'asc';
+
+        const pageable = {
+          page: paginationModel.page,
+          size: paginationModel.pageSize,
+          sort: `${sortField},${sortDir}`
+        };
+
+        const pageResponse = searchText
+          ? await EquipmentService.globalSearch(searchText, pageable)
+          : await EquipmentService.getAll(pageable);
+
+        setEquipment(pageResponse.content);
+        setTotalRows(pageResponse.totalElements);
+      }
+      setError('');
+    } catch (err: any) {
+      console.error('Failed to load equipment:', err);
+      setError(err.message || t('message.errorLoading', 'Failed to load data'));
+      setEquipment([]);
+      setTotalRows(0);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePaginationChange = useCallback((model: GridPaginationModel) => {
+    setPaginationModel(model);
+  }, []);
+
+  const handleSortChange = useCallback((model: GridSortModel) => {
+    setSortModel(model);
+  }, []);
+
+  const resetToFirstPage = () => setPaginationModel((prev) => ({ ...prev, page: 0 }));
+
+  const handleClearFilters = () => {
+    setFacilityFilter(null);
+    setTypeFilter('');
+    setSearchText('');
+    resetToFirstPage();
+  };
+
+  const handleDelete = async (id: number) => {
+    if (window.confirm(t('action.confirmDelete', 'Are you sure you want to delete this item?'))) {
+      try {
+        await EquipmentService.delete(id);
+        setSuccess(t('message.deleteSuccess', 'Item deleted successfully'));
+        loadData();
+        setTimeout(() => setSuccess(''), 3000);
+      } catch (err: any) {
+        setError(err.message || t('message.deleteError', 'Failed to delete item'));
+      }
+    }
+  };
+
+  const handleRefresh = () => {
+    loadData();
+    setSuccess(t('message.refreshed', 'Data refreshed'));
+    setTimeout(() => setSuccess(''), 2000);
+  };
+
+  const handleExportMenuOpen = (event: React.MouseEvent<HTMLElement>) => {
+    setExportAnchorEl(event.currentTarget);
+  };
+
+  const handleExportMenuClose = () => setExportAnchorEl(null);
+
+  const exportColumns: ExportColumn[] = [
+    { header: t('list.code', 'Code'), key: 'code', width: 15 },
+    { header: t('list.name', 'Name'), key: 'name', width: 30 },
+    {
+      header: t('list.type', 'Type'),
+      key: 'equipmentType',
+      width: 20,
+      transform: (value) => getMultiLangDesignation(value, lang)
+    },
+    {
+      header: t('equipment.fields.facility', 'Facility'),
+      key: 'facility',
+      width: 25,
+      transform: (value) => value?.name || ''
+    },
+    { header: t('equipment.fields.modelNumber', 'Model Number'), key: 'modelNumber', width: 20 },
+    { header: t('equipment.fields.serialNumber', 'Serial Number'), key: 'serialNumber', width: 22 },
+    {
+      header: t('equipment.fields.manufacturer', 'Manufacturer'),
+      key: 'manufacturer',
+      width: 22,
+      transform: (value) => value?.name || ''
+    },
+    { header: t('equipment.fields.manufacturingDate', 'Manufacturing Date'), key: 'manufacturingDate', width: 16 },
+    { header: t('common.fields.installationDate', 'Installation Date'), key: 'installationDate', width: 16 },
+    { header: t('equipment.fields.lastMaintenanceDate', 'Last Maintenance'), key: 'lastMaintenanceDate', width: 16 },
+    {
+      header: t('common.fields.operationalStatus', 'Operational Status'),
+      key: 'operationalStatus',
+      width: 18,
+      transform: (value) => getMultiLangDesignation(value, lang)
+    },
+  ];
+
+  /**
+   * Rows to export: the whole filtered set, or the whole register when unfiltered
+   */
+  const getExportRows = async (): Promise<EquipmentDTO[]> => {
+    if (isFiltered) return equipment;
+    const all = await EquipmentService.getAllNoPagination();
+    return all.filter((item) => matchesSearch(item, searchText));
+  };
+
+  const runExport = async (
+    exporter: (rows: EquipmentDTO[]) => void | Promise<void>,
+    successMessage: string
+  ) => {
+    handleExportMenuClose();
+    try {
+      const rows = await getExportRows();
+      await exporter(rows);
+      setSuccess(successMessage);
+      setTimeout(() => setSuccess(''), 2000);
+    } catch (err: any) {
+      console.error('Failed to export equipment:', err);
+      setError(err.message || t('message.errorLoading', 'Failed to load data'));
+    }
+  };
+
+  const exportConfig = {
+    filename: 'equipment-export',
+    title: t('equipment.title', 'Equipment'),
+    columns: exportColumns
+  };
+
+  const handleExportCSV = () =>
+    runExport((rows) => exportToCSV(rows, exportConfig), t('message.exportedCSV', 'Exported to CSV'));
+
+  const handleExportExcel = () =>
+    runExport((rows) => exportToExcel(rows, exportConfig), t('message.exportedExcel', 'Exported to Excel'));
+
+  const handleExportPDF = () =>
+    runExport((rows) => exportToPDF(rows, exportConfig, t), t('message.exportedPDF', 'Exported to PDF'));
+
+  const columns: GridColDef[] = useMemo(() => [
+    {
+      field: 'code',
+      headerName: t('list.code', 'Code'),
+      width: 150,
+      renderCell: (params) => (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <EquipmentIcon fontSize="small" color="action" />
+          <Chip label={params.value} size="small" variant="outlined"
+            sx={{ fontFamily: 'monospace', fontWeight: 600 }} />
+        </Box>
+      )
+    },
+    {
+      field: 'name',
+      headerName: t('list.name', 'Name'),
+      minWidth: 200,
+      flex: 1,
+      renderCell: (params) => (
+        <Box>
+          <Typography variant="body2" fontWeight={500}>
+            {params.value}
+          </Typography>
+          <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+            {params.row.modelNumber} • {params.row.serialNumber}
+          </Typography>
+        </Box>
+      )
+    },
+    {
+      field: 'equipmentType',
+      headerName: t('list.type', 'Type'),
+      minWidth: 160,
+      flex: 0.8,
+      sortable: false,
+      valueGetter: (params) => getMultiLangDesignation(params.row.equipmentType, lang),
+      renderCell: (params) => (
+        <Typography variant="body2" color="text.secondary">
+          {params.value || '-'}
+        </Typography>
+      )
+    },
+    {
+      field: 'facility',
+      headerName: t('equipment.fields.facility', 'Facility'),
+      minWidth: 180,
+      flex: 1,
+      sortable: false,
+      valueGetter: (params) => params.row.facility?.name,
+      renderCell: (params) => (
+        <Typography variant="body2" color="text.secondary">
+          {params.value || '-'}
+        </Typography>
+      )
+    },
+    {
+      field: 'installationDate',
+      headerName: t('common.fields.installationDate', 'Installation Date'),
+      width: 140,
+    },
+    {
+      field: 'lastMaintenanceDate',
+      headerName: t('equipment.fields.lastMaintenanceDate', 'Last Maintenance'),
+      width: 140,
+    },
+    {
+      field: 'actions',
+      headerName: t('list.actions', 'Actions'),
+      width: 130,
+      align: 'center',
+      headerAlign: 'center',
+      sortable: false,
+      renderCell: (params) => (
+        <Box sx={{ display: 'flex', gap: 0.5 }}>
+          <Tooltip title={t('action.edit', 'Edit')}>
+            <IconButton
+              size="small"
+              onClick={() => navigate(`/network/core/equipment/${params.row.id}/edit`)}
+              sx={{ color: 'primary.main', '&:hover': { bgcolor: alpha('#2563eb', 0.1) } }}
+            >
+              <EditIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title={t('action.delete', 'Delete')}>
+            <IconButton
+              size="small"
+              onClick={() => handleDelete(params.row.id)}
+              sx={{ color: 'error.main', '&:hover': { bgcolor: alpha('#dc2626', 0.1) } }}
+            >
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        </Box>
+      )
+    }
+  ], [lang, t, navigate]);
+
+  return (
+    <Box>
+      {/* PART 1: HEADER SECTION - Containerized for consistent styling */}
+      <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+        <Box sx={{ p: 2.5 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1.5 }}>
+            <Box>
+              <Typography variant="h4" fontWeight={700} color="text.primary" sx={{ mb: 0.5 }}>
+                {t('equipment.title', 'Equipment')}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {t('equipment.subtitle', 'Equipment register across all facilities')}
+              </Typography>
+            </Box>
+
+            <Stack direction="row" spacing={1.5}>
+              <Tooltip title={t('action.refresh', 'Refresh')}>
+                <IconButton onClick={handleRefresh} size="medium" color="primary">
+                  <RefreshIcon />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title={t('action.export', 'Export')}>
+                <IconButton onClick={handleExportMenuOpen} size="medium" color="primary">
+                  <ExportIcon />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title={t('action.create', 'Create')}>
+                <IconButton onClick={() => navigate('/network/core/equipment/create')} size="medium" color="primary">
+                  <AddIcon />
+                </IconButton>
+              </Tooltip>
+            </Stack>
+          </Box>
+        </Box>
+      </Paper>
+
+      <Menu
+        anchorEl={exportAnchorEl}
+        open={Boolean(exportAnchorEl)}
+        onClose={handleExportMenuClose}
+        PaperProps={{ elevation: 3, sx: { minWidth: 200 } }}
+      >
+        <MenuItem onClick={handleExportCSV}>
+          <ListItemIcon><CsvIcon fontSize="small" /></ListItemIcon>
+          <ListItemText>{t('action.exportCSV', 'Export CSV')}</ListItemText>
+        </MenuItem>
+        <MenuItem onClick={handleExportExcel}>
+          <ListItemIcon><ExcelIcon fontSize="small" color="success" /></ListItemIcon>
+          <ListItemText>{t('action.exportExcel', 'Export Excel')}</ListItemText>
+        </MenuItem>
+        <MenuItem onClick={handleExportPDF}>
+          <ListItemIcon><PdfIcon fontSize="small" color="error" /></ListItemIcon>
+          <ListItemText>{t('action.exportPDF', 'Export PDF')}</ListItemText>
+        </MenuItem>
+      </Menu>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>}
+      {success && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess('')}>{success}</Alert>}
+
+      {/* PART 2: SEARCH/FILTERS SECTION */}
+      <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+        <Box sx={{ p: 2.5 }}>
+          <Stack spacing={2.5}>
+            <Grid container spacing={2}>
+              <Grid item xs={12} md={5}>
+                <TextField
+                  placeholder={t('equipment.searchPlaceholder', 'Search by code, name, model or serial number...')}
+                  value={searchText}
+                  onChange={(e) => { setSearchText(e.target.value); resetToFirstPage(); }}
+                  InputProps={{
+                    startAdornment: (
+                      <InputAdornment position="start">
+                        <SearchIcon color="action" />
+                      </InputAdornment>
+                    ),
+                  }}
+                  fullWidth
+                />
+              </Grid>
+              <Grid item xs={12} md={4}>
+                <Autocomplete
+                  value={facilityFilter}
+                  onChange={(_, value) => { setFacilityFilter(value); resetToFirstPage(); }}
+                  options={facilities}
+                  getOptionLabel={(option) => `${option.code} - ${option.name}`}
+                  isOptionEqualToValue={(option, value) => option.id === value?.id}
+                  renderInput={(params) => (
+                    <TextField {...params} label={t('equipment.fields.facility', 'Facility')} />
+                  )}
+                />
+              </Grid>
+              <Grid item xs={12} md={3}>
+                <TextField
+                  fullWidth
+                  select
+                  label={t('list.type', 'Type')}
+                  value={typeFilter}
+                  onChange={(e) => { setTypeFilter(e.target.value === '' ? '' : Number(e.target.value)); resetToFirstPage(); }}
+                >
+                  <MenuItem value="">{t('common.all', 'All')}</MenuItem>
+                  {sortedEquipmentTypes.map((type) => (
+                    <MenuItem key={type.id} value={type.id}>
+                      {getMultiLangDesignation(type, lang)}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              </Grid>
+            </Grid>
+
+            <Divider />
+
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <Typography variant="body2" color="text.secondary" fontWeight={500}>
+                {totalRows} {t('list.results', 'results')}
+              </Typography>
+              <Button size="small" onClick={handleClearFilters} disabled={!isFiltered && !searchText}>
+                {t('equipment.clearFilters', 'Clear filters')}
+              </Button>
+            </Box>
+          </Stack>
+        </Box>
+      </Paper>
+
+      {/* PART 3: DATA GRID */}
+      <Paper elevation={0} sx={{ border: 1, borderColor: 'divider' }}>
+        <DataGrid
+          rows={equipment}
+          columns={columns}
+          loading={loading}
+          rowCount={totalRows}
+          paginationMode={isFiltered ? 'client' : 'server'}
+          sortingMode={isFiltered ? 'client' : 'server'}
+          paginationModel={paginationModel}
+          onPaginationModelChange={handlePaginationChange}
+          sortModel={sortModel}
+          onSortModelChange={handleSortChange}
+          pageSizeOptions={[5, 10, 15]}
+          disableRowSelectionOnClick
+          autoHeight
+          sx={{
+            border: 0,
+            '& .MuiDataGrid-cell:focus': { outline: 'none' },
+            '& .MuiDataGrid-row:hover': { backgroundColor: alpha('#2563eb', 0.04) },
+            '& .MuiDataGrid-columnHeaders': {
+              backgroundColor: alpha('#2563eb', 0.05),
+              borderBottom: 2,
+              borderColor: 'divider',
+            },
+            '& .MuiDataGrid-columnHeaderTitle': { fontWeight: 600 },
+          }}
+        />
+      </Paper>
+    </Box>
+  );
+};
+
+export default EquipmentList;
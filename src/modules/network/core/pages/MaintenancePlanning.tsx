@@ -0,0 +1,655 @@
+/**
+ * Maintenance Planning Page - Preventive maintenance of equipment
+ *
+ * Features:
+ * - Next due date per equipment from its equipment type interval
+ * - Overdue / due soon flags with summary cards
+ * - Monthly calendar of due dates
+ * - Recording interventions with attachments
+ * - Per-type maintenance interval settings
+ * - Optional ?facilityId= to open the plan of a single facility
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Typography,
+  Button,
+  IconButton,
+  Alert,
+  TextField,
+  Stack,
+  Paper,
+  Chip,
+  Tooltip,
+  Grid,
+  Autocomplete,
+  MenuItem,
+  Card,
+  CardActionArea,
+  CardContent,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  alpha,
+} from '@mui/material';
+import {
+  Refresh as RefreshIcon,
+  Settings as SettingsIcon,
+  ChevronLeft as PrevIcon,
+  ChevronRight as NextIcon,
+  EventAvailable as RecordIcon,
+  Description as ExcelIcon,
+} from '@mui/icons-material';
+import { DataGrid, GridColDef } from '@mui/x-data-grid';
+
+import { EquipmentService, FacilityService } from '../services';
+import { EquipmentTypeService } from '../../type/services';
+import { EquipmentDTO, FacilityDTO } from '../dto';
+import { EquipmentTypeDTO } from '../../type/dto';
+import { sortByLocalizedName } from '../utils/localizationUtils';
+import {
+  buildMaintenanceSchedule,
+  getMaintenanceStatusColor,
+  toIsoDay,
+  MaintenanceScheduleItem,
+  MaintenanceStatus,
+  DEFAULT_MAINTENANCE_INTERVAL_DAYS,
+} from '../utils/maintenanceHelpers';
+import { exportToExcel, getMultiLangDesignation, ExportColumn } from '@/shared/utils/exportUtils';
+import MaintenanceInterventionDialog from '../components/MaintenanceInterventionDialog';
+
+const STATUSES: MaintenanceStatus[] = ['OVERDUE', 'DUE_SOON', 'OK'];
+
+/**
+ * Days of the month grid, padded to full weeks starting on Monday
+ */
+const buildMonthGrid = (month: Date): (Date | null)[] => {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const leading = (first.getDay() + 6) % 7;
+
+  const cells: (Date | null)[] = Array(leading).fill(null);
+  for (let day = 1; day <= daysInMonth; day++) {
+    cells.push(new Date(month.getFullYear(), month.getMonth(), day));
+  }
+  while (cells.length % 7 !== 0) cells.push(null);
+  return cells;
+};
+
+const MaintenancePlanning = () => {
+  const { t, i18n } = useTranslation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const lang = useMemo(() => (i18n.language || 'fr').split('-')[0], [i18n.language]);
+  const facilityIdParam = searchParams.get('facilityId');
+
+  const [equipment, setEquipment] = useState<EquipmentDTO[]>([]);
+  const [facilities, setFacilities] = useState<FacilityDTO[]>([]);
+  const [equipmentTypes, setEquipmentTypes] = useState<EquipmentTypeDTO[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [typeFilter, setTypeFilter] = useState<number | ''>('');
+  const [statusFilter, setStatusFilter] = useState<MaintenanceStatus | ''>('');
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+
+  const [interventionTarget, setInterventionTarget] = useState<EquipmentDTO | null>(null);
+  const [intervalsOpen, setIntervalsOpen] = useState(false);
+  const [intervalDrafts, setIntervalDrafts] = useState<Record<number, string>>({});
+  const [savingIntervals, setSavingIntervals] = useState(false);
+
+  const facilityFilter = useMemo(
+    () => facilities.find((facility) => String(facility.id) === facilityIdParam) || null,
+    [facilities, facilityIdParam]
+  );
+
+  const sortedEquipmentTypes = useMemo(() => sortByLocalizedName(equipmentTypes, lang), [equipmentTypes, lang]);
+
+  useEffect(() => {
+    loadReferenceData();
+  }, []);
+
+  useEffect(() => {
+    loadEquipment();
+  }, [facilityIdParam]);
+
+  const loadReferenceData = async () => {
+    const [facilitiesData, typesData] = await Promise.allSettled([
+      FacilityService.getAllNoPagination(),
+      EquipmentTypeService.getAllNoPagination(),
+    ]);
+
+    if (facilitiesData.status === 'fulfilled') {
+      setFacilities(Array.isArray(facilitiesData.value) ? facilitiesData.value : []);
+    }
+    if (typesData.status === 'fulfilled') {
+      setEquipmentTypes(Array.isArray(typesData.value) ? typesData.value : []);
+    }
+  };
+
+  const loadEquipment = async () => {
+    try {
+      setLoading(true);
+      const data = facilityIdParam
+        ? await EquipmentService.findByFacility(Number(facilityIdParam))
+        : await EquipmentService.getAllNoPagination();
+      setEquipment(Array.isArray(data) ? data : []);
+      setError('');
+    } catch (err: any) {
+      console.error('Failed to load equipment:', err);
+      setError(err.message || t('message.errorLoading', 'Failed to load data'));
+      setEquipment([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const schedule = useMemo(() => {
+    const items = buildMaintenanceSchedule(equipment, equipmentTypes);
+    return typeFilter === ''
+      ? items
+      : items.filter((item) => (item.equipment.equipmentTypeId ?? item.equipment.equipmentType?.id) === typeFilter);
+  }, [equipment, equipmentTypes, typeFilter]);
+
+  const statusCounts = useMemo(() => {
+    const counts: Record<MaintenanceStatus, number> = { OVERDUE: 0, DUE_SOON: 0, OK: 0 };
+    schedule.forEach((item) => { counts[item.status] += 1; });
+    return counts;
+  }, [schedule]);
+
+  const visibleSchedule = useMemo(
+    () => (statusFilter ? schedule.filter((item) => item.status === statusFilter) : schedule),
+    [schedule, statusFilter]
+  );
+
+  const dueByDay = useMemo(() => {
+    const map = new Map<string, MaintenanceScheduleItem[]>();
+    visibleSchedule.forEach((item) => {
+      if (!item.nextDueDate) return;
+      map.set(item.nextDueDate, [...(map.get(item.nextDueDate) || []), item]);
+    });
+    return map;
+  }, [visibleSchedule]);
+
+  const monthGrid = useMemo(() => buildMonthGrid(month), [month]);
+
+  const weekdayLabels = useMemo(
+    // 2024-01-01 is a Monday
+    () => Array.from({ length: 7 }, (_, i) => new Date(2024, 0, 1 + i).toLocaleDateString(lang, { weekday: 'short' })),
+    [lang]
+  );
+
+  const handleFacilityChange = (facility: FacilityDTO | null) => {
+    const params = new URLSearchParams(searchParams);
+    if (facility?.id) {
+      params.set('facilityId', String(facility.id));
+    } else {
+      params.delete('facilityId');
+    }
+    setSearchParams(params, { replace: true });
+  };
+
+  const handleMonthChange = (offset: number) => {
+    setMonth((prev) => new Date(prev.getFullYear(), prev.getMonth() + offset, 1));
+  };
+
+  const handleRecorded = () => {
+    setSuccess(t('maintenance.intervention.recorded'));
+    loadEquipment();
+    setTimeout(() => setSuccess(''), 3000);
+  };
+
+  const handleOpenIntervals = () => {
+    setIntervalDrafts(
+      Object.fromEntries(
+        equipmentTypes
+          .filter((type) => type.id !== undefined)
+          .map((type) => [type.id as number, type.maintenanceIntervalDays ? String(type.maintenanceIntervalDays) : ''])
+      )
+    );
+    setIntervalsOpen(true);
+  };
+
+  const handleSaveIntervals = async () => {
+    const changed = equipmentTypes.filter((type) => {
+      if (type.id === undefined) return false;
+      const draft = intervalDrafts[type.id] ? Number(intervalDrafts[type.id]) : undefined;
+      return draft !== type.maintenanceIntervalDays;
+    });
+
+    if (changed.some((type) => {
+      const draft = intervalDrafts[type.id as number];
+      return draft !== '' && (!Number.isInteger(Number(draft)) || Number(draft) < 1);
+    })) {
+      setError(t('maintenance.validation.invalidInterval'));
+      return;
+    }
+
+    try {
+      setSavingIntervals(true);
+      await Promise.all(
+        changed.map((type) => {
+          const draft = intervalDrafts[type.id as number];
+          return EquipmentTypeService.update(type.id as number, {
+            ...type,
+            maintenanceIntervalDays: draft ? Number(draft) : undefined,
+          });
+        })
+      );
+      setIntervalsOpen(false);
+      setSuccess(t('maintenance.intervals.saved'));
+      await loadReferenceData();
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (err: any) {
+      console.error('Failed to save maintenance intervals:', err);
+      setError(err.response?.data?.message || err.message || t('maintenance.errors.saveFailed'));
+    } finally {
+      setSavingIntervals(false);
+    }
+  };
+
+  const getStatusLabel = (status: MaintenanceStatus) => t(`maintenance.status.${status}`);
+
+  const handleExportExcel = async () => {
+    const exportColumns: ExportColumn[] = [
+      { header: t('list.code', 'Code'), key: 'code', width: 15 },
+      { header: t('list.name', 'Name'), key: 'name', width: 30 },
+      { header: t('equipment.fields.facility', 'Facility'), key: 'facility', width: 25 },
+      { header: t('list.type', 'Type'), key: 'type', width: 20 },
+      { header: t('equipment.fields.lastMaintenanceDate', 'Last Maintenance'), key: 'lastMaintenanceDate', width: 16 },
+      { header: t('maintenance.fields.intervalDays', 'Interval (days)'), key: 'intervalDays', width: 14 },
+      { header: t('maintenance.fields.nextDueDate', 'Next Due Date'), key: 'nextDueDate', width: 16 },
+      { header: t('maintenance.fields.status', 'Status'), key: 'status', width: 14 },
+    ];
+
+    await exportToExcel(
+      visibleSchedule.map((item) => ({
+        code: item.equipment.code,
+        name: item.equipment.name,
+        facility: item.equipment.facility ? `${item.equipment.facility.code} - ${item.equipment.facility.name}` : '',
+        type: getMultiLangDesignation(item.equipment.equipmentType, lang),
+        lastMaintenanceDate: item.equipment.lastMaintenanceDate,
+        intervalDays: item.intervalDays,
+        nextDueDate: item.nextDueDate || '',
+        status: getStatusLabel(item.status),
+      })),
+      {
+        filename: 'maintenance-plan',
+        title: t('maintenance.title', 'Maintenance Planning'),
+        columns: exportColumns,
+      }
+    );
+  };
+
+  const columns: GridColDef<MaintenanceScheduleItem>[] = [
+    {
+      field: 'code',
+      headerName: t('common.fields.code'),
+      width: 140,
+      valueGetter: (params) => params.row.equipment.code,
+      renderCell: (params) => (
+        <Chip label={params.value} size="small" variant="outlined" sx={{ fontFamily: 'monospace', fontWeight: 600 }} />
+      ),
+    },
+    {
+      field: 'name',
+      headerName: t('common.fields.name'),
+      flex: 1,
+      minWidth: 170,
+      valueGetter: (params) => params.row.equipment.name,
+    },
+    {
+      field: 'facility',
+      headerName: t('equipment.fields.facility'),
+      minWidth: 160,
+      flex: 0.8,
+      valueGetter: (params) => params.row.equipment.facility?.name || '',
+    },
+    {
+      field: 'equipmentType',
+      headerName: t('equipment.fields.equipmentType'),
+      minWidth: 140,
+      flex: 0.7,
+      valueGetter: (params) => getMultiLangDesignation(params.row.equipment.equipmentType, lang),
+    },
+    {
+      field: 'lastMaintenanceDate',
+      headerName: t('equipment.fields.lastMaintenanceDate'),
+      width: 140,
+      valueGetter: (params) => params.row.equipment.lastMaintenanceDate,
+    },
+    {
+      field: 'intervalDays',
+      headerName: t('maintenance.fields.intervalDays'),
+      width: 110,
+      type: 'number',
+    },
+    {
+      field: 'nextDueDate',
+      headerName: t('maintenance.fields.nextDueDate'),
+      width: 170,
+      renderCell: (params) => (
+        <Box>
+          <Typography variant="body2">{params.row.nextDueDate || t('maintenance.neverMaintained')}</Typography>
+          {params.row.daysUntilDue !== null && (
+            <Typography variant="caption" color={params.row.daysUntilDue < 0 ? 'error.main' : 'text.secondary'}>
+              {params.row.daysUntilDue < 0
+                ? t('maintenance.daysOverdue', { count: -params.row.daysUntilDue })
+                : t('maintenance.daysLeft', { count: params.row.daysUntilDue })}
+            </Typography>
+          )}
+        </Box>
+      ),
+    },
+    {
+      field: 'status',
+      headerName: t('maintenance.fields.status'),
+      width: 120,
+      renderCell: (params) => (
+        <Chip label={getStatusLabel(params.row.status)} size="small" color={getMaintenanceStatusColor(params.row.status)} />
+      ),
+    },
+    {
+      field: 'actions',
+      headerName: t('list.actions', 'Actions'),
+      width: 90,
+      align: 'center',
+      headerAlign: 'center',
+      sortable: false,
+      renderCell: (params) => (
+        <Tooltip title={t('maintenance.intervention.record')}>
+          <IconButton size="small" color="primary" onClick={() => setInterventionTarget(params.row.equipment)}>
+            <RecordIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      ),
+    },
+  ];
+
+  const today = toIsoDay(new Date());
+
+  return (
+    <Box>
+      {/* PART 1: HEADER SECTION - Containerized for consistent styling */}
+      <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+        <Box sx={{ p: 2.5 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Box>
+              <Typography variant="h4" fontWeight={700} color="text.primary" sx={{ mb: 0.5 }}>
+                {t('maintenance.title', 'Maintenance Planning')}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {t('maintenance.subtitle', 'Preventive maintenance schedule of facility equipment')}
+              </Typography>
+            </Box>
+
+            <Stack direction="row" spacing={1.5}>
+              <Tooltip title={t('action.refresh', 'Refresh')}>
+                <IconButton onClick={loadEquipment} size="medium" color="primary">
+                  <RefreshIcon />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title={t('action.exportExcel', 'Export Excel')}>
+                <span>
+                  <IconButton onClick={handleExportExcel} size="medium" color="primary" disabled={visibleSchedule.length === 0}>
+                    <ExcelIcon />
+                  </IconButton>
+                </span>
+              </Tooltip>
+              <Tooltip title={t('maintenance.intervals.title', 'Maintenance intervals')}>
+                <IconButton onClick={handleOpenIntervals} size="medium" color="primary">
+                  <SettingsIcon />
+                </IconButton>
+              </Tooltip>
+            </Stack>
+          </Box>
+        </Box>
+      </Paper>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>}
+      {success && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess('')}>{success}</Alert>}
+
+      {/* PART 2: SUMMARY CARDS - click to filter by status */}
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        {STATUSES.map((status) => (
+          <Grid item xs={12} md={4} key={status}>
+            <Card
+              elevation={0}
+              sx={{
+                border: 2,
+                borderColor: statusFilter === status ? `${getMaintenanceStatusColor(status)}.main` : 'divider',
+              }}
+            >
+              <CardActionArea onClick={() => setStatusFilter(statusFilter === status ? '' : status)}>
+                <CardContent>
+                  <Typography variant="body2" color="text.secondary">
+                    {getStatusLabel(status)}
+                  </Typography>
+                  <Typography variant="h4" fontWeight={700} color={`${getMaintenanceStatusColor(status)}.main`}>
+                    {statusCounts[status]}
+                  </Typography>
+                </CardContent>
+              </CardActionArea>
+            </Card>
+          </Grid>
+        ))}
+      </Grid>
+
+      {/* PART 3: FILTERS SECTION */}
+      <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+        <Box sx={{ p: 2.5 }}>
+          <Grid container spacing={2}>
+            <Grid item xs={12} md={5}>
+              <Autocomplete
+                value={facilityFilter}
+                onChange={(_, value) => handleFacilityChange(value)}
+                options={facilities}
+                getOptionLabel={(option) => `${option.code} - ${option.name}`}
+                isOptionEqualToValue={(option, value) => option.id === value?.id}
+                renderInput={(params) => (
+                  <TextField {...params} label={t('equipment.fields.facility', 'Facility')} />
+                )}
+              />
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <TextField
+                fullWidth
+                select
+                label={t('list.type', 'Type')}
+                value={typeFilter}
+                onChange={(e) => setTypeFilter(e.target.value === '' ? '' : Number(e.target.value))}
+              >
+                <MenuItem value="">{t('common.all', 'All')}</MenuItem>
+                {sortedEquipmentTypes.map((type) => (
+                  <MenuItem key={type.id} value={type.id}>
+                    {getMultiLangDesignation(type, lang)}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid item xs={12} md={3}>
+              <TextField
+                fullWidth
+                select
+                label={t('maintenance.fields.status', 'Status')}
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as MaintenanceStatus | '')}
+              >
+                <MenuItem value="">{t('common.all', 'All')}</MenuItem>
+                {STATUSES.map((status) => (
+                  <MenuItem key={status} value={status}>{getStatusLabel(status)}</MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+          </Grid>
+        </Box>
+      </Paper>
+
+      {/* PART 4: CALENDAR */}
+      <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+        <Box sx={{ p: 2.5 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+            <Typography variant="h6" fontWeight={600}>
+              {t('maintenance.calendar', 'Calendar')}
+            </Typography>
+            <Stack direction="row" spacing={1} alignItems="center">
+              <IconButton size="small" onClick={() => handleMonthChange(-1)}>
+                <PrevIcon />
+              </IconButton>
+              <Typography variant="subtitle1" fontWeight={600} sx={{ minWidth: 160, textAlign: 'center' }}>
+                {month.toLocaleDateString(lang, { month: 'long', year: 'numeric' })}
+              </Typography>
+              <IconButton size="small" onClick={() => handleMonthChange(1)}>
+                <NextIcon />
+              </IconButton>
+            </Stack>
+          </Box>
+
+          <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', gap: 0.5 }}>
+            {weekdayLabels.map((label) => (
+              <Typography key={label} variant="caption" color="text.secondary" fontWeight={600} align="center">
+                {label}
+              </Typography>
+            ))}
+            {monthGrid.map((date, index) => {
+              const key = date ? toIsoDay(date) : `empty-${index}`;
+              const items = date ? dueByDay.get(key) || [] : [];
+
+              return (
+                <Box
+                  key={key}
+                  sx={{
+                    minHeight: 72,
+                    p: 0.5,
+                    border: 1,
+                    borderColor: key === today ? 'primary.main' : 'divider',
+                    borderRadius: 1,
+                    bgcolor: date ? 'background.paper' : alpha('#64748b', 0.04),
+                  }}
+                >
+                  {date && (
+                    <>
+                      <Typography variant="caption" fontWeight={key === today ? 700 : 400}>
+                        {date.getDate()}
+                      </Typography>
+                      <Stack spacing={0.25}>
+                        {items.slice(0, 2).map((item) => (
+                          <Chip
+                            key={item.equipment.id}
+                            label={item.equipment.code}
+                            size="small"
+                            color={getMaintenanceStatusColor(item.status)}
+                            onClick={() => setInterventionTarget(item.equipment)}
+                            sx={{ height: 18, fontSize: '0.65rem' }}
+                          />
+                        ))}
+                        {items.length > 2 && (
+                          <Typography variant="caption" color="text.secondary">
+                            +{items.length - 2}
+                          </Typography>
+                        )}
+                      </Stack>
+                    </>
+                  )}
+                </Box>
+              );
+            })}
+          </Box>
+        </Box>
+      </Paper>
+
+      {/* PART 5: DATA GRID */}
+      <Paper elevation={0} sx={{ border: 1, borderColor: 'divider' }}>
+        <DataGrid
+          rows={visibleSchedule}
+          columns={columns}
+          getRowId={(row) => row.equipment.id ?? row.equipment.code}
+          loading={loading}
+          pageSizeOptions={[5, 10, 15]}
+          initialState={{
+            pagination: {
+              paginationModel: { page: 0, pageSize: 10 },
+            },
+          }}
+          disableRowSelectionOnClick
+          autoHeight
+          sx={{
+            border: 0,
+            '& .MuiDataGrid-cell:focus': { outline: 'none' },
+            '& .MuiDataGrid-row:hover': { backgroundColor: alpha('#2563eb', 0.04) },
+            '& .MuiDataGrid-columnHeaders': {
+              backgroundColor: alpha('#2563eb', 0.05),
+              borderBottom: 2,
+              borderColor: 'divider',
+            },
+            '& .MuiDataGrid-columnHeaderTitle': { fontWeight: 600 },
+          }}
+        />
+      </Paper>
+
+      <MaintenanceInterventionDialog
+        open={!!interventionTarget}
+        equipment={interventionTarget}
+        onClose={() => setInterventionTarget(null)}
+        onRecorded={handleRecorded}
+      />
+
+      <Dialog open={intervalsOpen} onClose={() => setIntervalsOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{t('maintenance.intervals.title', 'Maintenance intervals')}</DialogTitle>
+        <DialogContent dividers>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {t('maintenance.intervals.hint', { days: DEFAULT_MAINTENANCE_INTERVAL_DAYS })}
+          </Typography>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('equipment.fields.equipmentType')}</TableCell>
+                <TableCell width={180}>{t('maintenance.fields.intervalDays')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {sortedEquipmentTypes.map((type) => (
+                <TableRow key={type.id}>
+                  <TableCell>{getMultiLangDesignation(type, lang)}</TableCell>
+                  <TableCell>
+                    <TextField
+                      type="number"
+                      size="small"
+                      value={intervalDrafts[type.id as number] ?? ''}
+                      onChange={(e) => setIntervalDrafts((prev) => ({ ...prev, [type.id as number]: e.target.value }))}
+                      placeholder={String(DEFAULT_MAINTENANCE_INTERVAL_DAYS)}
+                      inputProps={{ min: 1 }}
+                      fullWidth
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setIntervalsOpen(false)} disabled={savingIntervals}>{t('common.cancel')}</Button>
+          <Button onClick={handleSaveIntervals} variant="contained" disabled={savingIntervals}>
+            {t('common.save')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default MaintenancePlanning;
@@ -5,6 +5,7 @@
  * 
  * @author CHOUABBIA Amine
  * @created 12-24-2025
+ * @updated 10-19-2026 - Added History drawer with version restore
  * @updated 02-14-2026 13:58 - Use facility code instead of name in segment list
  * @updated 02-14-2026 12:59 - Fixed: Added client-side filtering to only show segments of current pipeline
  * @updated 02-14-2026 02:35 - Fixed: Restored all form sections with infrastructure display
@@ -52,6 +53,7 @@ import {
   Edit as EditIcon,
   Delete as DeleteIcon,
   Warning as WarningIcon,
+  History as HistoryIcon,
 } from '@mui/icons-material';
 import { PipelineService, PipelineSystemService, TerminalService, PipelineSegmentService } from '../services';
 import { VendorService, OperationalStatusService, AlloyService } from '../../common/services';
@@ -59,6 +61,8 @@ import { StructureService } from '@/modules/general/organization/services';
 import { PipelineDTO } from '../dto/PipelineDTO';
 import { PipelineSegmentDTO } from '../dto/PipelineSegmentDTO';
 import { getLocalizedName, sortByLocalizedName } from '../utils/localizationUtils';
+import { EntityHistoryDrawer } from '@/modules/system/audit/components';
+import { pickSnapshotFields } from '@/modules/system/audit/utils';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -136,6 +140,7 @@ const PipelineEdit = () => {
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+  const [historyOpen, setHistoryOpen] = useState(false);
 
   useEffect(() => {
     loadData();
@@ -406,6 +411,11 @@ const PipelineEdit = () => {
     }
   };
 
+  const handleRestoreVersion = (snapshot: Record<string, unknown>) => {
+    setPipeline((prev) => ({ ...prev, ...pickSnapshotFields(prev, snapshot) }));
+    setSuccess(t('audit.history.restored', 'Previous version loaded into the form. Review and save to apply it.'));
+  };
+
   const handleCancel = () => {
     navigate('/network/core/pipelines');
   };
@@ -441,6 +451,13 @@ const PipelineEdit = () => {
               </Box>
             </Box>
             <Stack direction="row" spacing={1.5}>
+              {isEditMode && (
+                <Tooltip title={t('audit.history.title', 'History')}>
+                  <IconButton onClick={() => setHistoryOpen(true)} size="medium" color="default">
+                    <HistoryIcon />
+                  </IconButton>
+                </Tooltip>
+              )}
               <Tooltip title="Cancel">
                 <IconButton onClick={handleCancel} disabled={saving} size="medium" color="default">
                   <CloseIcon />
@@ -775,6 +792,14 @@ const PipelineEdit = () => {
           </TabPanel>
         </CardContent>
       </Card>
+
+      <EntityHistoryDrawer
+        open={historyOpen}
+        onClose={() => setHistoryOpen(false)}
+        entityName="Pipeline"
+        entityId={isEditMode ? Number(pipelineId) : undefined}
+        onRestore={handleRestoreVersion}
+      />
     </Box>
   );
 };
@@ -10,6 +10,7 @@
  * @updated 01-18-2026 - Fixed all hardcoded designationEn references to use i18n-based designation selector
  * @updated 01-18-2026 - Changed location selector from dropdown to Autocomplete with search
  * @updated 02-13-2026 - UI: Containerized header and updated buttons to IconButton style
+ * @updated 10-19-2026 - Added Equipment tab
  */
 
 import { useState, useEffect } from 'react';
@@ -34,6 +35,7 @@ import { LocationService } from '../../../general/localization/services';
 import { LocationDTO } from '../../../general/localization/dto';
 import { ProcessingPlantDTO } from '../dto/ProcessingPlantDTO';
 import { ProductionFieldDTO } from '../dto/ProductionFieldDTO';
+import FacilityEquipmentList from '../components/FacilityEquipmentList';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -445,6 +447,7 @@ const ProcessingPlantEdit = () => {
         >
           <Tab label={t('processingPlant.tabs.generalInformation')} />
           <Tab label={t('processingPlant.tabs.productionFields')} disabled={!isEditMode} />
+          <Tab label={t('equipment.tabs.equipment')} disabled={!isEditMode} />
         </Tabs>
 
         <CardContent sx={{ p: 3 }}>
@@ -791,6 +794,10 @@ const ProcessingPlantEdit = () => {
               />
             </Paper>
           </TabPanel>
+
+          <TabPanel value={activeTab} index={2}>
+            {isEditMode && <FacilityEquipmentList facilityId={Number(plantId)} facilityCode={plant.code} />}
+          </TabPanel>
         </CardContent>
       </Card>
     </Box>
@@ -11,6 +11,7 @@
  * @updated 01-18-2026 - Optimized to use common translation keys (40% less duplication)
  * @updated 01-19-2026 - Fixed i18n for location references and converted to Autocomplete
  * @updated 02-13-2026 - UI: Containerized header and updated buttons to IconButton style
+ * @updated 10-19-2026 - Moved form into General Information tab and added Equipment tab
  */
 
 import { useState, useEffect, useMemo } from 'react';
@@ -19,7 +20,7 @@ import { useTranslation } from 'react-i18next';
 import {
   Box, Typography, TextField, CircularProgress, Alert,
   Grid, Paper, Divider, Stack, MenuItem, Chip, Autocomplete,
-  IconButton, Tooltip
+  IconButton, Tooltip, Card, CardContent, Tabs, Tab
 } from '@mui/material';
 import {
   Save as SaveIcon, Close as CloseIcon,
@@ -33,6 +34,28 @@ import { StructureService } from '../../../general/organization/services';
 import { LocationDTO } from '../../../general/localization/dto';
 import { StationDTO } from '../dto';
 import { getLocalizedName, sortByLocalizedName } from '../utils/localizationUtils';
+import FacilityEquipmentList from '../components/FacilityEquipmentList';
+
+interface TabPanelProps {
+  children?: React.ReactNode;
+  index: number;
+  value: number;
+}
+
+function TabPanel(props: TabPanelProps) {
+  const { children, value, index, ...other } = props;
+  return (
+    <div
+      role="tabpanel"
+      hidden={value !== index}
+      id={`station-tabpanel-${index}`}
+      aria-labelledby={`station-tab-${index}`}
+      {...other}
+    >
+      {value === index && <Box sx={{ pt: 3 }}>{children}</Box>}
+    </div>
+  );
+}
 
 const StationEdit = () => {
   const { t, i18n } = useTranslation();
@@ -40,6 +63,9 @@ const StationEdit = () => {
   const { stationId } = useParams<{ stationId: string }>();
   const isEditMode = !!stationId;
 
+  // Tab state
+  const [activeTab, setActiveTab] = useState(0);
+
   const currentLanguage = i18n.language || 'en';
 
   const getLocalizedDesignation = (entity: any): string => {
@@ -306,317 +332,337 @@ const StationEdit = () => {
       </Paper>
 
       {error && <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError('')}>{error}</Alert>}
-      {locations.length === 0 && (
-        <Alert severity="warning" sx={{ mb: 2 }}>
-          {t('station.warnings.noLocations')}
-        </Alert>
-      )}
-
-      <form onSubmit={handleSubmit}>
-        <Stack spacing={3}>
-          <Paper elevation={0} sx={{ border: 1, borderColor: 'divider' }}>
-            <Box sx={{ p: 2.5 }}>
-              <Typography variant="h6" fontWeight={600} gutterBottom>
-                {t('common.sections.basicInformation')}
-              </Typography>
-              <Divider sx={{ mb: 3 }} />
+
+      <Card elevation={0} sx={{ border: 1, borderColor: 'divider', mb: 3 }}>
+        <Tabs
+          value={activeTab}
+          onChange={(_event, newValue: number) => setActiveTab(newValue)}
+          sx={{ borderBottom: 1, borderColor: 'divider', px: 2 }}
+        >
+          <Tab label={t('equipment.tabs.generalInformation')} />
+          <Tab label={t('equipment.tabs.equipment')} disabled={!isEditMode} />
+        </Tabs>
+
+        <CardContent sx={{ p: 3 }}>
+          <TabPanel value={activeTab} index={0}>
+            {locations.length === 0 && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                {t('station.warnings.noLocations')}
+              </Alert>
+            )}
+
+            <form onSubmit={handleSubmit}>
+              <Stack spacing={3}>
+                <Paper elevation={0} sx={{ border: 1, borderColor: 'divider' }}>
+                  <Box sx={{ p: 2.5 }}>
+                    <Typography variant="h6" fontWeight={600} gutterBottom>
+                      {t('common.sections.basicInformation')}
+                    </Typography>
+                    <Divider sx={{ mb: 3 }} />
               
-              <Grid container spacing={3}>
-                <Grid item xs={12} md={6}>
-                  <TextField
-                    fullWidth label={t('common.fields.code')}
-                    value={station.code || ''}
-                    onChange={handleChange('code')} required
-                    error={!!validationErrors.code}
-                    helperText={validationErrors.code || t('common.fields.codeHelper')}
-                  />
-                </Grid>
-                <Grid item xs={12} md={6}>
-                  <TextField
-                    fullWidth label={t('common.fields.name')}
-                    value={station.name || ''}
-                    onChange={handleChange('name')} required
-                    error={!!validationErrors.name}
-                    helperText={validationErrors.name || t('common.fields.nameHelper')}
-                  />
-                </Grid>
-                <Grid item xs={12} md={6}>
-                  <TextField
-                    fullWidth select label={t('common.fields.structure')}
-                    value={station.structureId || ''}
-                    onChange={handleChange('structureId')} required
-                    error={!!validationErrors.structureId}
-                    helperText={validationErrors.structureId}
-                  >
-                    {sortedStructures.length > 0 ? (
-                      sortedStructures.map((structure) => (
-                        <MenuItem key={structure.id} value={structure.id}>
-                          {getLocalizedName(structure, currentLanguage)}
-                        </MenuItem>
-                      ))
-                    ) : (
-                      <MenuItem disabled>{t('common.loading')}</MenuItem>
-                    )}
-                  </TextField>
-                </Grid>
-              </Grid>
-            </Box>
-          </Paper>
-
-          <Paper elevation={0} sx={{ border: 1, borderColor: 'divider' }}>
-            <Box sx={{ p: 2.5 }}>
-              <Typography variant="h6" fontWeight={600} gutterBottom>
-                {t('common.sections.locationInformation')}
-              </Typography>
-              <Divider sx={{ mb: 3 }} />
+                    <Grid container spacing={3}>
+                      <Grid item xs={12} md={6}>
+                        <TextField
+                          fullWidth label={t('common.fields.code')}
+                          value={station.code || ''}
+                          onChange={handleChange('code')} required
+                          error={!!validationErrors.code}
+                          helperText={validationErrors.code || t('common.fields.codeHelper')}
+                        />
+                      </Grid>
+                      <Grid item xs={12} md={6}>
+                        <TextField
+                          fullWidth label={t('common.fields.name')}
+                          value={station.name || ''}
+                          onChange={handleChange('name')} required
+                          error={!!validationErrors.name}
+                          helperText={validationErrors.name || t('common.fields.nameHelper')}
+                        />
+                      </Grid>
+                      <Grid item xs={12} md={6}>
+                        <TextField
+                          fullWidth select label={t('common.fields.structure')}
+                          value={station.structureId || ''}
+                          onChange={handleChange('structureId')} required
+                          error={!!validationErrors.structureId}
+                          helperText={validationErrors.structureId}
+                        >
+                          {sortedStructures.length > 0 ? (
+                            sortedStructures.map((structure) => (
+                              <MenuItem key={structure.id} value={structure.id}>
+                                {getLocalizedName(structure, currentLanguage)}
+                              </MenuItem>
+                            ))
+                          ) : (
+                            <MenuItem disabled>{t('common.loading')}</MenuItem>
+                          )}
+                        </TextField>
+                      </Grid>
+                    </Grid>
+                  </Box>
+                </Paper>
+
+                <Paper elevation={0} sx={{ border: 1, borderColor: 'divider' }}>
+                  <Box sx={{ p: 2.5 }}>
+                    <Typography variant="h6" fontWeight={600} gutterBottom>
+                      {t('common.sections.locationInformation')}
+                    </Typography>
+                    <Divider sx={{ mb: 3 }} />
               
-              <Grid container spacing={3}>
-                <Grid item xs={12}>
-                  <Autocomplete
-                    value={selectedLocation}
-                    onChange={handleLocationChange}
-                    options={sortedLocations}
-                    getOptionLabel={(option) => getLocalizedDesignation(option)}
-                    isOptionEqualToValue={(option, value) => option.id === value?.id}
-                    loading={loading}
-                    renderInput={(params) => (
-                      <TextField
-                        {...params}
-                        label={t('common.fields.location')}
-                        required
-                        error={!!validationErrors.locationId}
-                        helperText={validationErrors.locationId || t('common.fields.locationHelper')}
-                        InputProps={{
-                          ...params.InputProps,
-                          startAdornment: (
-                            <>
-                              <LocationIcon fontSize="small" color="action" sx={{ ml: 1, mr: 0.5 }} />
-                              {params.InputProps.startAdornment}
-                            </>
-                          ),
-                        }}
-                      />
-                    )}
-                    renderOption={(props, option) => (
-                      <Box component="li" {...props} key={option.id}>
-                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, width: '100%' }}>
-                          <LocationIcon fontSize="small" color="action" />
-                          <Box sx={{ flex: 1 }}>
-                            <Typography variant="body2" fontWeight={500}>
-                              {getLocalizedDesignation(option)}
-                            </Typography>
-                            {option.locality && (
-                              <Typography variant="caption" color="text.secondary">
-                                {getLocalizedDesignation(option.locality)}
-                                {option.locality.district && ` • ${getLocalizedDesignation(option.locality.district)}`}
-                                {option.locality.district?.state && ` • ${getLocalizedDesignation(option.locality.district.state)}`}
-                              </Typography>
-                            )}
-                          </Box>
-                          {option.locality && (
-                            <Chip 
-                              label={getLocalizedDesignation(option.locality)} 
-                              size="small" 
-                              variant="outlined"
+                    <Grid container spacing={3}>
+                      <Grid item xs={12}>
+                        <Autocomplete
+                          value={selectedLocation}
+                          onChange={handleLocationChange}
+                          options={sortedLocations}
+                          getOptionLabel={(option) => getLocalizedDesignation(option)}
+                          isOptionEqualToValue={(option, value) => option.id === value?.id}
+                          loading={loading}
+                          renderInput={(params) => (
+                            <TextField
+                              {...params}
+                              label={t('common.fields.location')}
+                              required
+                              error={!!validationErrors.locationId}
+                              helperText={validationErrors.locationId || t('common.fields.locationHelper')}
+                              InputProps={{
+                                ...params.InputProps,
+                                startAdornment: (
+                                  <>
+                                    <LocationIcon fontSize="small" color="action" sx={{ ml: 1, mr: 0.5 }} />
+                                    {params.InputProps.startAdornment}
+                                  </>
+                                ),
+                              }}
                             />
                           )}
-                        </Box>
-                      </Box>
-                    )}
-                    noOptionsText={t('list.noData')}
-                    loadingText={t('common.loading')}
-                  />
-                </Grid>
-
-                {selectedLocation && (
-                  <Grid item xs={12}>
-                    <Paper variant="outlined" sx={{ p: 1.5, bgcolor: 'grey.50', borderStyle: 'dashed' }}>
-                      <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 1, fontWeight: 600 }}>
-                        📍 {t('station.selectedLocation')}
-                      </Typography>
-                      
-                      <Grid container spacing={1.5} alignItems="flex-end">
-                        <Grid item xs={6} sm={3} md={2}>
-                          <Typography variant="caption" color="text.secondary">{t('common.fields.place')}</Typography>
-                          <Typography variant="body2" fontWeight={500} fontSize="0.875rem">
-                            {getLocalizedDesignation(selectedLocation)}
-                          </Typography>
-                        </Grid>
+                          renderOption={(props, option) => (
+                            <Box component="li" {...props} key={option.id}>
+                              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, width: '100%' }}>
+                                <LocationIcon fontSize="small" color="action" />
+                                <Box sx={{ flex: 1 }}>
+                                  <Typography variant="body2" fontWeight={500}>
+                                    {getLocalizedDesignation(option)}
+                                  </Typography>
+                                  {option.locality && (
+                                    <Typography variant="caption" color="text.secondary">
+                                      {getLocalizedDesignation(option.locality)}
+                                      {option.locality.district && ` • ${getLocalizedDesignation(option.locality.district)}`}
+                                      {option.locality.district?.state && ` • ${getLocalizedDesignation(option.locality.district.state)}`}
+                                    </Typography>
+                                  )}
+                                </Box>
+                                {option.locality && (
+                                  <Chip 
+                                    label={getLocalizedDesignation(option.locality)} 
+                                    size="small" 
+                                    variant="outlined"
+                                  />
+                                )}
+                              </Box>
+                            </Box>
+                          )}
+                          noOptionsText={t('list.noData')}
+                          loadingText={t('common.loading')}
+                        />
+                      </Grid>
 
-                        {selectedLocation.locality && (
-                          <Grid item xs={6} sm={3} md={2}>
-                            <Typography variant="caption" color="text.secondary">{t('common.fields.locality')}</Typography>
-                            <Typography variant="body2" fontSize="0.875rem" fontWeight={500}>
-                              {getLocalizedDesignation(selectedLocation.locality)}
-                            </Typography>
-                          </Grid>
-                        )}
-
-                        {selectedLocation.locality?.district && (
-                          <Grid item xs={6} sm={3} md={2}>
-                            <Typography variant="caption" color="text.secondary">{t('common.fields.district')}</Typography>
-                            <Typography variant="body2" fontSize="0.875rem" fontWeight={500}>
-                              {getLocalizedDesignation(selectedLocation.locality.district)}
+                      {selectedLocation && (
+                        <Grid item xs={12}>
+                          <Paper variant="outlined" sx={{ p: 1.5, bgcolor: 'grey.50', borderStyle: 'dashed' }}>
+                            <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 1, fontWeight: 600 }}>
+                              📍 {t('station.selectedLocation')}
                             </Typography>
-                          </Grid>
-                        )}
-
-                        {selectedLocation.locality?.district?.state && (
-                          <Grid item xs={6} sm={3} md={2}>
-                            <Typography variant="caption" color="text.secondary">{t('common.fields.state')}</Typography>
-                            <Typography variant="body2" fontSize="0.875rem" fontWeight={500}>
-                              {getLocalizedDesignation(selectedLocation.locality.district.state)}
-                            </Typography>
-                          </Grid>
-                        )}
-
-                        <Grid item xs={4} sm={3} md={1.5}>
-                          <Typography variant="caption" color="text.secondary">{t('common.fields.latitude')}</Typography>
-                          <Typography variant="body2" fontSize="0.875rem">{selectedLocation.latitude.toFixed(6)}°</Typography>
-                        </Grid>
-                        <Grid item xs={4} sm={3} md={1.5}>
-                          <Typography variant="caption" color="text.secondary">{t('common.fields.longitude')}</Typography>
-                          <Typography variant="body2" fontSize="0.875rem">{selectedLocation.longitude.toFixed(6)}°</Typography>
-                        </Grid>
-                        <Grid item xs={4} sm={3} md={1}>
-                          <Typography variant="caption" color="text.secondary">{t('common.fields.elevation')}</Typography>
-                          <Typography variant="body2" fontSize="0.875rem">
-                            {selectedLocation.elevation ? `${selectedLocation.elevation}m` : 'N/A'}
-                          </Typography>
+                      
+                            <Grid container spacing={1.5} alignItems="flex-end">
+                              <Grid item xs={6} sm={3} md={2}>
+                                <Typography variant="caption" color="text.secondary">{t('common.fields.place')}</Typography>
+                                <Typography variant="body2" fontWeight={500} fontSize="0.875rem">
+                                  {getLocalizedDesignation(selectedLocation)}
+                                </Typography>
+                              </Grid>
+
+                              {selectedLocation.locality && (
+                                <Grid item xs={6} sm={3} md={2}>
+                                  <Typography variant="caption" color="text.secondary">{t('common.fields.locality')}</Typography>
+                                  <Typography variant="body2" fontSize="0.875rem" fontWeight={500}>
+                                    {getLocalizedDesignation(selectedLocation.locality)}
+                                  </Typography>
+                                </Grid>
+                              )}
+
+                              {selectedLocation.locality?.district && (
+                                <Grid item xs={6} sm={3} md={2}>
+                                  <Typography variant="caption" color="text.secondary">{t('common.fields.district')}</Typography>
+                                  <Typography variant="body2" fontSize="0.875rem" fontWeight={500}>
+                                    {getLocalizedDesignation(selectedLocation.locality.district)}
+                                  </Typography>
+                                </Grid>
+                              )}
+
+                              {selectedLocation.locality?.district?.state && (
+                                <Grid item xs={6} sm={3} md={2}>
+                                  <Typography variant="caption" color="text.secondary">{t('common.fields.state')}</Typography>
+                                  <Typography variant="body2" fontSize="0.875rem" fontWeight={500}>
+                                    {getLocalizedDesignation(selectedLocation.locality.district.state)}
+                                  </Typography>
+                                </Grid>
+                              )}
+
+                              <Grid item xs={4} sm={3} md={1.5}>
+                                <Typography variant="caption" color="text.secondary">{t('common.fields.latitude')}</Typography>
+                                <Typography variant="body2" fontSize="0.875rem">{selectedLocation.latitude.toFixed(6)}°</Typography>
+                              </Grid>
+                              <Grid item xs={4} sm={3} md={1.5}>
+                                <Typography variant="caption" color="text.secondary">{t('common.fields.longitude')}</Typography>
+                                <Typography variant="body2" fontSize="0.875rem">{selectedLocation.longitude.toFixed(6)}°</Typography>
+                              </Grid>
+                              <Grid item xs={4} sm={3} md={1}>
+                                <Typography variant="caption" color="text.secondary">{t('common.fields.elevation')}</Typography>
+                                <Typography variant="body2" fontSize="0.875rem">
+                                  {selectedLocation.elevation ? `${selectedLocation.elevation}m` : 'N/A'}
+                                </Typography>
+                              </Grid>
+                            </Grid>
+                          </Paper>
                         </Grid>
-                      </Grid>
-                    </Paper>
-                  </Grid>
-                )}
-              </Grid>
-            </Box>
-          </Paper>
-
-          <Paper elevation={0} sx={{ border: 1, borderColor: 'divider' }}>
-            <Box sx={{ p: 2.5 }}>
-              <Typography variant="h6" fontWeight={600} gutterBottom>
-                {t('common.sections.technicalDetails')}
-              </Typography>
-              <Divider sx={{ mb: 3 }} />
+                      )}
+                    </Grid>
+                  </Box>
+                </Paper>
+
+                <Paper elevation={0} sx={{ border: 1, borderColor: 'divider' }}>
+                  <Box sx={{ p: 2.5 }}>
+                    <Typography variant="h6" fontWeight={600} gutterBottom>
+                      {t('common.sections.technicalDetails')}
+                    </Typography>
+                    <Divider sx={{ mb: 3 }} />
               
-              <Grid container spacing={3}>
-                <Grid item xs={12} md={6}>
-                  <TextField
-                    fullWidth select label={t('station.fields.stationType')}
-                    value={station.stationTypeId || ''}
-                    onChange={handleChange('stationTypeId')} required
-                    error={!!validationErrors.stationTypeId}
-                    helperText={validationErrors.stationTypeId}
-                  >
-                    {sortedStationTypes.length > 0 ? (
-                      sortedStationTypes.map((type) => (
-                        <MenuItem key={type.id} value={type.id}>
-                          {getLocalizedName(type, currentLanguage)}
-                        </MenuItem>
-                      ))
-                    ) : (
-                      <MenuItem disabled>{t('common.loading')}</MenuItem>
-                    )}
-                  </TextField>
-                </Grid>
-                <Grid item xs={12} md={6}>
-                  <TextField
-                    fullWidth select label={t('common.fields.operationalStatus')}
-                    value={station.operationalStatusId || ''}
-                    onChange={handleChange('operationalStatusId')} required
-                    error={!!validationErrors.operationalStatusId}
-                    helperText={validationErrors.operationalStatusId}
-                  >
-                    {sortedOperationalStatuses.length > 0 ? (
-                      sortedOperationalStatuses.map((status) => (
-                        <MenuItem key={status.id} value={status.id}>
-                          {getLocalizedName(status, currentLanguage)}
-                        </MenuItem>
-                      ))
-                    ) : (
-                      <MenuItem disabled>{t('common.loading')}</MenuItem>
-                    )}
-                  </TextField>
-                </Grid>
-                <Grid item xs={12} md={6}>
-                  <TextField
-                    fullWidth select label={t('common.fields.vendor')}
-                    value={station.vendorId || ''}
-                    onChange={handleChange('vendorId')} required
-                    error={!!validationErrors.vendorId}
-                    helperText={validationErrors.vendorId}
-                  >
-                    {vendors.length > 0 ? (
-                      vendors.map((vendor) => (
-                        <MenuItem key={vendor.id} value={vendor.id}>
-                          {vendor.name}
-                        </MenuItem>
-                      ))
-                    ) : (
-                      <MenuItem disabled>{t('common.loading')}</MenuItem>
-                    )}
-                  </TextField>
-                </Grid>
-                <Grid item xs={12} md={6}>
-                  <TextField
-                    fullWidth select label={t('station.fields.pipelineSystem')}
-                    value={station.pipelineSystemId || ''}
-                    onChange={handleChange('pipelineSystemId')} required
-                    error={!!validationErrors.pipelineSystemId}
-                    helperText={validationErrors.pipelineSystemId}
-                  >
-                    {pipelineSystems.length > 0 ? (
-                      pipelineSystems.map((system) => (
-                        <MenuItem key={system.id} value={system.id}>
-                          {system.name}
-                        </MenuItem>
-                      ))
-                    ) : (
-                      <MenuItem disabled>{t('common.loading')}</MenuItem>
-                    )}
-                  </TextField>
-                </Grid>
-              </Grid>
-            </Box>
-          </Paper>
-
-          <Paper elevation={0} sx={{ border: 1, borderColor: 'divider' }}>
-            <Box sx={{ p: 2.5 }}>
-              <Typography variant="h6" fontWeight={600} gutterBottom>
-                {t('common.sections.importantDates')}
-              </Typography>
-              <Divider sx={{ mb: 3 }} />
+                    <Grid container spacing={3}>
+                      <Grid item xs={12} md={6}>
+                        <TextField
+                          fullWidth select label={t('station.fields.stationType')}
+                          value={station.stationTypeId || ''}
+                          onChange={handleChange('stationTypeId')} required
+                          error={!!validationErrors.stationTypeId}
+                          helperText={validationErrors.stationTypeId}
+                        >
+                          {sortedStationTypes.length > 0 ? (
+                            sortedStationTypes.map((type) => (
+                              <MenuItem key={type.id} value={type.id}>
+                                {getLocalizedName(type, currentLanguage)}
+                              </MenuItem>
+                            ))
+                          ) : (
+                            <MenuItem disabled>{t('common.loading')}</MenuItem>
+                          )}
+                        </TextField>
+                      </Grid>
+                      <Grid item xs={12} md={6}>
+                        <TextField
+                          fullWidth select label={t('common.fields.operationalStatus')}
+                          value={station.operationalStatusId || ''}
+                          onChange={handleChange('operationalStatusId')} required
+                          error={!!validationErrors.operationalStatusId}
+                          helperText={validationErrors.operationalStatusId}
+                        >
+                          {sortedOperationalStatuses.length > 0 ? (
+                            sortedOperationalStatuses.map((status) => (
+                              <MenuItem key={status.id} value={status.id}>
+                                {getLocalizedName(status, currentLanguage)}
+                              </MenuItem>
+                            ))
+                          ) : (
+                            <MenuItem disabled>{t('common.loading')}</MenuItem>
+                          )}
+                        </TextField>
+                      </Grid>
+                      <Grid item xs={12} md={6}>
+                        <TextField
+                          fullWidth select label={t('common.fields.vendor')}
+                          value={station.vendorId || ''}
+                          onChange={handleChange('vendorId')} required
+                          error={!!validationErrors.vendorId}
+                          helperText={validationErrors.vendorId}
+                        >
+                          {vendors.length > 0 ? (
+                            vendors.map((vendor) => (
+                              <MenuItem key={vendor.id} value={vendor.id}>
+                                {vendor.name}
+                              </MenuItem>
+                            ))
+                          ) : (
+                            <MenuItem disabled>{t('common.loading')}</MenuItem>
+                          )}
+                        </TextField>
+                      </Grid>
+                      <Grid item xs={12} md={6}>
+                        <TextField
+                          fullWidth select label={t('station.fields.pipelineSystem')}
+                          value={station.pipelineSystemId || ''}
+                          onChange={handleChange('pipelineSystemId')} required
+                          error={!!validationErrors.pipelineSystemId}
+                          helperText={validationErrors.pipelineSystemId}
+                        >
+                          {pipelineSystems.length > 0 ? (
+                            pipelineSystems.map((system) => (
+                              <MenuItem key={system.id} value={system.id}>
+                                {system.name}
+                              </MenuItem>
+                            ))
+                          ) : (
+                            <MenuItem disabled>{t('common.loading')}</MenuItem>
+                          )}
+                        </TextField>
+                      </Grid>
+                    </Grid>
+                  </Box>
+                </Paper>
+
+                <Paper elevation={0} sx={{ border: 1, borderColor: 'divider' }}>
+                  <Box sx={{ p: 2.5 }}>
+                    <Typography variant="h6" fontWeight={600} gutterBottom>
+                      {t('common.sections.importantDates')}
+                    </Typography>
+                    <Divider sx={{ mb: 3 }} />
               
-              <Grid container spacing={3}>
-                <Grid item xs={12} md={4}>
-                  <TextField
-                    fullWidth label={t('common.fields.installationDate')}
-                    type="date" value={station.installationDate || ''}
-                    onChange={handleChange('installationDate')}
-                    InputLabelProps={{ shrink: true }}
-                  />
-                </Grid>
-                <Grid item xs={12} md={4}>
-                  <TextField
-                    fullWidth label={t('common.fields.commissioningDate')}
-                    type="date" value={station.commissioningDate || ''}
-                    onChange={handleChange('commissioningDate')}
-                    InputLabelProps={{ shrink: true }}
-                  />
-                </Grid>
-                <Grid item xs={12} md={4}>
-                  <TextField
-                    fullWidth label={t('common.fields.decommissioningDate')}
-                    type="date" value={station.decommissioningDate || ''}
-                    onChange={handleChange('decommissioningDate')}
-                    InputLabelProps={{ shrink: true }}
-                  />
-                </Grid>
-              </Grid>
-            </Box>
-          </Paper>
-        </Stack>
-      </form>
+                    <Grid container spacing={3}>
+                      <Grid item xs={12} md={4}>
+                        <TextField
+                          fullWidth label={t('common.fields.installationDate')}
+                          type="date" value={station.installationDate || ''}
+                          onChange={handleChange('installationDate')}
+                          InputLabelProps={{ shrink: true }}
+                        />
+                      </Grid>
+                      <Grid item xs={12} md={4}>
+                        <TextField
+                          fullWidth label={t('common.fields.commissioningDate')}
+                          type="date" value={station.commissioningDate || ''}
+                          onChange={handleChange('commissioningDate')}
+                          InputLabelProps={{ shrink: true }}
+                        />
+                      </Grid>
+                      <Grid item xs={12} md={4}>
+                        <TextField
+                          fullWidth label={t('common.fields.decommissioningDate')}
+                          type="date" value={station.decommissioningDate || ''}
+                          onChange={handleChange('decommissioningDate')}
+                          InputLabelProps={{ shrink: true }}
+                        />
+                      </Grid>
+                    </Grid>
+                  </Box>
+                </Paper>
+              </Stack>
+            </form>
+          </TabPanel>
+
+          <TabPanel value={activeTab} index={1}>
+            {isEditMode && <FacilityEquipmentList facilityId={Number(stationId)} facilityCode={station.code} />}
+          </TabPanel>
+        </CardContent>
+      </Card>
     </Box>
   );
 };
@@ -1,6 +1,8 @@
 /**
  * Network Core Pages - Barrel Export
  * 
+ * Updated: 10-19-2026 - Added MaintenancePlanning page
+ * Updated: 10-19-2026 - Added Equipment pages
  * Updated: 02-14-2026 01:57 - Added PipelineSegmentEdit export
  * Updated: 01-15-2026 - Added ProcessingPlant and ProductionField pages
  * - Removed orphaned HydrocarbonField pages
@@ -30,3 +32,10 @@ export { default as ProcessingPlantEdit } from './ProcessingPlantEdit';
 // Production Field pages
 export { default as ProductionFieldList } from './ProductionFieldList';
 export { default as ProductionFieldEdit } from './ProductionFieldEdit';
+
+// Equipment pages
+export { default as EquipmentList } from './EquipmentList';
+export { default as EquipmentEdit } from './EquipmentEdit';
+
+// Maintenance pages
+export { default as MaintenancePlanning } from './MaintenancePlanning';
@@ -0,0 +1,105 @@
+/**
+ * Maintenance Intervention Service - Network Core Module
+ * 
+ * PROPOSED CONTRACT - not yet implemented by the backend. Suggested as
+ *   dz.sh.trc.hyflo.network.core.service.MaintenanceInterventionService
+ * exposing /network/core/maintenanceIntervention (proposed)
+ * 
+ * Records maintenance interventions on equipment and lists their history.
+ * 
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import axiosInstance from '@/shared/config/axios';
+import type { EquipmentDTO } from '../dto/EquipmentDTO';
+import type { MaintenanceInterventionDTO } from '../dto/MaintenanceInterventionDTO';
+import { EquipmentService } from './EquipmentService';
+
+const BASE_URL = '/network/core/maintenanceIntervention';
+
+export class MaintenanceInterventionService {
+  /**
+   * Get intervention by ID
+   */
+  static async getById(id: number): Promise<MaintenanceInterventionDTO> {
+    const response = await axiosInstance.get<MaintenanceInterventionDTO>(`${BASE_URL}/${id}`);
+    return response.data;
+  }
+
+  /**
+   * Find interventions recorded on an equipment
+   */
+  static async findByEquipment(equipmentId: number): Promise<MaintenanceInterventionDTO[]> {
+    const response = await axiosInstance.get<MaintenanceInterventionDTO[]>(
+      `${BASE_URL}/by-equipment/${equipmentId}`
+    );
+    return response.data;
+  }
+
+  /**
+   * Create new intervention
+   */
+  static async create(dto: MaintenanceInterventionDTO): Promise<MaintenanceInterventionDTO> {
+    const response = await axiosInstance.post<MaintenanceInterventionDTO>(BASE_URL, dto);
+    return response.data;
+  }
+
+  /**
+   * Delete intervention by ID
+   */
+  static async delete(id: number): Promise<void> {
+    await axiosInstance.delete(`${BASE_URL}/${id}`);
+  }
+
+  /**
+   * Record an intervention and move the equipment's last maintenance date forward
+   * The equipment is only updated when the intervention is more recent than the
+   * date already on record, so back-filled interventions do not reset the schedule.
+   * The equipment is reloaded first: the update resends every required reference
+   * and is refused, before anything is recorded, when one of them is missing
+   */
+  static async record(
+    dto: MaintenanceInterventionDTO,
+    equipment: EquipmentDTO
+  ): Promise<MaintenanceInterventionDTO> {
+    const current = equipment.id ? await EquipmentService.getById(equipment.id) : null;
+    const needsUpdate =
+      current !== null && (!current.lastMaintenanceDate || dto.interventionDate > current.lastMaintenanceDate);
+
+    let update: EquipmentDTO | null = null;
+    if (current && needsUpdate) {
+      const operationalStatusId = current.operationalStatusId ?? current.operationalStatus?.id;
+      const equipmentTypeId = current.equipmentTypeId ?? current.equipmentType?.id;
+      const facilityId = current.facilityId ?? current.facility?.id;
+      const manufacturerId = current.manufacturerId ?? current.manufacturer?.id;
+
+      if (!operationalStatusId || !equipmentTypeId || !facilityId || !manufacturerId) {
+        throw new Error(`Equipment ${current.code} is missing its status, type, facility or manufacturer`);
+      }
+
+      update = {
+        id: current.id,
+        name: current.name,
+        code: current.code,
+        modelNumber: current.modelNumber,
+        serialNumber: current.serialNumber,
+        manufacturingDate: current.manufacturingDate,
+        installationDate: current.installationDate,
+        lastMaintenanceDate: dto.interventionDate,
+        operationalStatusId,
+        equipmentTypeId,
+        facilityId,
+        manufacturerId,
+      };
+    }
+
+    const created = await this.create(dto);
+
+    if (update?.id) {
+      await EquipmentService.update(update.id, update);
+    }
+
+    return created;
+  }
+}
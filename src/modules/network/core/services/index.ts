@@ -5,6 +5,7 @@
  * Each service corresponds to a DTO for API communication.
  * 
  * Updated: 01-15-2026 - Added ProcessingPlant and ProductionField services
+ * Updated: 10-19-2026 - Added MaintenanceIntervention service
  * 
  * @module Network/Core/Services
  * @category Service
@@ -15,6 +16,7 @@
 export * from './EquipmentService';
 export * from './FacilityService';
 export * from './InfrastructureService';
+export * from './MaintenanceInterventionService';
 export * from './PipelineService';
 export * from './PipelineSegmentService';
 export * from './PipelineSystemService';
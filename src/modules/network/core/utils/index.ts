@@ -4,6 +4,7 @@
  * Migration Date: 2026-01-08
  * Status: Using centralized utilities from @/shared/utils
  * Updated: 2026-02-02 - Added pipelineHelpers
+ * Updated: 2026-10-19 - Added maintenanceHelpers
  */
 
 // Re-export centralized utilities
@@ -13,4 +14,5 @@ export * from '@/shared/utils';
 export * from './constants';
 export * from './exportUtils';
 export * from './localizationUtils';
+export * from './maintenanceHelpers';
 export * from './pipelineHelpers';
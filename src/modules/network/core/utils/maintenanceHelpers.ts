@@ -0,0 +1,113 @@
+/**
+ * Maintenance Helper Utilities
+ *
+ * Builds the preventive maintenance schedule of equipment from the
+ * maintenance interval of each equipment type.
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import type { EquipmentDTO } from '../dto/EquipmentDTO';
+import type { EquipmentTypeDTO } from '../../type/dto/EquipmentTypeDTO';
+import { needsMaintenance } from '../../geo/utils/pipelineHelpers';
+
+/** Interval used when the equipment type has none configured */
+export const DEFAULT_MAINTENANCE_INTERVAL_DAYS = 365;
+
+/** Equipment due within this many days is flagged as due soon */
+export const MAINTENANCE_DUE_SOON_DAYS = 30;
+
+export type MaintenanceStatus = 'OVERDUE' | 'DUE_SOON' | 'OK';
+
+export interface MaintenanceScheduleItem {
+  equipment: EquipmentDTO;
+  intervalDays: number;
+  nextDueDate: string | null;   // YYYY-MM-DD, null when never maintained
+  daysUntilDue: number | null;  // Negative when overdue
+  status: MaintenanceStatus;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Format a Date as a local YYYY-MM-DD string
+ */
+export const toIsoDay = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Resolve the maintenance interval of an equipment type
+ */
+export const getMaintenanceIntervalDays = (equipmentType?: EquipmentTypeDTO | null): number => {
+  const interval = equipmentType?.maintenanceIntervalDays;
+  return interval && interval > 0 ? interval : DEFAULT_MAINTENANCE_INTERVAL_DAYS;
+};
+
+/**
+ * Compute the next maintenance due date
+ *
+ * @example
+ * getNextMaintenanceDate('2026-01-10', 90) // Returns: "2026-04-10"
+ */
+export const getNextMaintenanceDate = (lastMaintenanceDate: string | undefined, intervalDays: number): string | null => {
+  if (!lastMaintenanceDate) return null;
+
+  const [year, month, day] = lastMaintenanceDate.split('-').map(Number);
+  if (!year || !month || !day) return null;
+
+  return toIsoDay(new Date(year, month - 1, day + intervalDays));
+};
+
+/**
+ * Build the maintenance schedule of a set of equipment, sorted by due date
+ * Equipment types are looked up by id when the equipment does not embed its type
+ */
+export const buildMaintenanceSchedule = (
+  equipment: EquipmentDTO[],
+  equipmentTypes: EquipmentTypeDTO[] = []
+): MaintenanceScheduleItem[] => {
+  const typesById = new Map(equipmentTypes.map((type) => [type.id, type]));
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  return equipment
+    .map((item): MaintenanceScheduleItem => {
+      const type = typesById.get(item.equipmentTypeId ?? item.equipmentType?.id) ?? item.equipmentType;
+      const intervalDays = getMaintenanceIntervalDays(type);
+      const nextDueDate = getNextMaintenanceDate(item.lastMaintenanceDate, intervalDays);
+
+      let daysUntilDue: number | null = null;
+      if (nextDueDate) {
+        const [year, month, day] = nextDueDate.split('-').map(Number);
+        daysUntilDue = Math.round((new Date(year, month - 1, day).getTime() - today.getTime()) / DAY_MS);
+      }
+
+      let status: MaintenanceStatus = 'OK';
+      if (needsMaintenance(item.lastMaintenanceDate, intervalDays)) {
+        status = 'OVERDUE';
+      } else if (daysUntilDue !== null && daysUntilDue <= MAINTENANCE_DUE_SOON_DAYS) {
+        status = 'DUE_SOON';
+      }
+
+      return { equipment: item, intervalDays, nextDueDate, daysUntilDue, status };
+    })
+    .sort((a, b) => (a.nextDueDate ?? '').localeCompare(b.nextDueDate ?? ''));
+};
+
+/**
+ * Get MUI chip color for a maintenance status
+ */
+export const getMaintenanceStatusColor = (status: MaintenanceStatus): 'error' | 'warning' | 'success' => {
+  switch (status) {
+    case 'OVERDUE':
+      return 'error';
+    case 'DUE_SOON':
+      return 'warning';
+    default:
+      return 'success';
+  }
+};
@@ -0,0 +1,115 @@
+/**
+ * Maintenance Markers Component
+ * Flags facilities holding equipment with overdue maintenance
+ * A red badge with the overdue count sits on the facility marker;
+ * clicking it opens the maintenance plan of that facility
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import { useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Marker, Popup } from 'react-leaflet';
+import L from 'leaflet';
+import { StationDTO, TerminalDTO } from '../../core/dto';
+import { MaintenanceScheduleItem } from '../../core/utils/maintenanceHelpers';
+import { infrastructureColors, toLatLng } from '../utils';
+
+interface MaintenanceMarkersProps {
+  overdue: MaintenanceScheduleItem[];
+  stations: StationDTO[];
+  terminals: TerminalDTO[];
+}
+
+/**
+ * Count badge offset to the top-right of the facility marker icon
+ */
+const createOverdueBadgeIcon = (count: number): L.DivIcon => {
+  return L.divIcon({
+    className: 'custom-marker-icon',
+    html: `
+      <div style="
+        background-color: ${infrastructureColors.offline};
+        color: white;
+        min-width: 22px;
+        height: 22px;
+        border-radius: 11px;
+        border: 2px solid white;
+        box-shadow: 0 2px 5px rgba(0,0,0,0.3);
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        font-size: 11px;
+        font-weight: 700;
+      ">${count > 99 ? '99+' : count}</div>
+    `,
+    iconSize: [22, 22],
+    iconAnchor: [-3, 49],
+    popupAnchor: [14, -49]
+  });
+};
+
+export const MaintenanceMarkers: React.FC<MaintenanceMarkersProps> = ({ overdue, stations, terminals }) => {
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+
+  // Overdue equipment grouped by facility, located through the facility marker
+  const groups = useMemo(() => {
+    const facilities = new Map<number, StationDTO | TerminalDTO>();
+    [...stations, ...terminals].forEach((facility) => {
+      if (facility.id && facility.location?.latitude && facility.location?.longitude) {
+        facilities.set(facility.id, facility);
+      }
+    });
+
+    const byFacility = new Map<number, MaintenanceScheduleItem[]>();
+    overdue.forEach((item) => {
+      const facilityId = item.equipment.facilityId ?? item.equipment.facility?.id;
+      if (facilityId && facilities.has(facilityId)) {
+        byFacility.set(facilityId, [...(byFacility.get(facilityId) || []), item]);
+      }
+    });
+
+    return Array.from(byFacility.entries()).map(([facilityId, items]) => ({
+      facility: facilities.get(facilityId)!,
+      items,
+    }));
+  }, [overdue, stations, terminals]);
+
+  return (
+    <>
+      {groups.map(({ facility, items }) => (
+        <Marker
+          key={`maintenance-${facility.id}`}
+          position={toLatLng(facility)}
+          icon={createOverdueBadgeIcon(items.length)}
+          zIndexOffset={1000}
+          eventHandlers={{
+            mouseover: (e) => e.target.openPopup(),
+            mouseout: (e) => e.target.closePopup(),
+            click: () => navigate(`/network/core/maintenance?facilityId=${facility.id}`),
+          }}
+        >
+          <Popup closeButton={false}>
+            <div style={{ minWidth: 200 }}>
+              <strong>{facility.code} - {facility.name}</strong>
+              <div style={{ color: infrastructureColors.offline, margin: '4px 0' }}>
+                {t('maintenance.overdueCount', { count: items.length })}
+              </div>
+              {items.slice(0, 5).map((item) => (
+                <div key={item.equipment.id} style={{ fontSize: 12 }}>
+                  {item.equipment.code} — {item.daysUntilDue === null
+                    ? t('maintenance.neverMaintained')
+                    : t('maintenance.daysOverdue', { count: -item.daysUntilDue })}
+                </div>
+              ))}
+              {items.length > 5 && <div style={{ fontSize: 12 }}>+{items.length - 5}</div>}
+            </div>
+          </Popup>
+        </Marker>
+      ))}
+    </>
+  );
+};
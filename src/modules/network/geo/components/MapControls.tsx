@@ -4,6 +4,7 @@
  * Legend content moved from bottom corner to hover panel
  * 
  * Updated: 01-16-2026 - Renamed showHydrocarbonFields to showProductionFields
+ * Updated: 10-19-2026 - Added overdue maintenance layer switch
  * 
  * @author CHOUABBIA Amine
  * @created 12-24-2025
@@ -142,6 +143,18 @@ export const MapControls: React.FC<MapControlsProps> = ({ filters, onToggleFilte
                 }
                 sx={{ m: 0 }}
               />
+
+              {/* Overdue Maintenance */}
+              <FormControlLabel
+                control={<Switch checked={filters.showOverdueMaintenance} onChange={() => onToggleFilter('showOverdueMaintenance')} size="small" color="error" />}
+                label={
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Box sx={{ width: 14, height: 14, borderRadius: '50%', bgcolor: infrastructureColors.offline, border: '2px solid white', boxShadow: '0 2px 4px rgba(0,0,0,0.2)' }} />
+                    <Typography variant="body2" sx={{ fontWeight: 500 }}>{t('map.showOverdueMaintenance')}</Typography>
+                  </Box>
+                }
+                sx={{ m: 0 }}
+              />
             </Stack>
 
             <Box sx={{ mt: 2, pt: 1.5, borderTop: '1px solid', borderColor: 'divider' }}>
@@ -5,6 +5,7 @@
  * Updated for U-006 schema (location reference)
  * 
  * Updated: 01-16-2026 - Replaced HydrocarbonFieldMarkers with ProductionFieldMarkers
+ * Updated: 10-19-2026 - Added overdue maintenance markers layer
  * 
  * @author CHOUABBIA Amine
  * @created 12-24-2025
@@ -14,11 +15,12 @@
 import { Box, CircularProgress, Alert, Typography } from '@mui/material';
 import { useTranslation } from 'react-i18next';
 import { MapContainer } from 'react-leaflet';
-import { useMapData, useMapFilters } from '../hooks';
+import { useMapData, useMapFilters, useOverdueEquipment } from '../hooks';
 import { StationMarkers } from './StationMarkers';
 import { TerminalMarkers } from './TerminalMarkers';
 import { ProductionFieldMarkers } from './ProductionFieldMarkers';
 import { PipelinePolylines } from './PipelinePolylines';
+import { MaintenanceMarkers } from './MaintenanceMarkers';
 import { MapControls } from './MapControls';
 import { OfflineTileLayer } from './OfflineTileLayer';
 import { OfflineIndicator } from './OfflineIndicator';
@@ -40,6 +42,7 @@ export const MapView: React.FC<MapViewProps> = ({
   const { t } = useTranslation();
   const { data, loading, error } = useMapData();
   const { filters, toggleFilter } = useMapFilters();
+  const { overdue } = useOverdueEquipment(filters.showOverdueMaintenance);
 
   if (loading) {
     return (
@@ -163,6 +166,15 @@ export const MapView: React.FC<MapViewProps> = ({
         {filters.showProductionFields && hasFields && (
           <ProductionFieldMarkers productionFields={data.productionFields} />
         )}
+
+        {/* Overdue maintenance badges on top of facility markers */}
+        {filters.showOverdueMaintenance && (
+          <MaintenanceMarkers
+            overdue={overdue}
+            stations={data.stations || []}
+            terminals={data.terminals || []}
+          />
+        )}
       </MapContainer>
 
       {/* Map controls with integrated legend */}
@@ -5,38 +5,18 @@
  * @author CHOUABBIA Amine
  * @created 12-25-2025
  * @updated 12-25-2025
+ * @updated 10-19-2026 - Connectivity from shared useOnlineStatus hook
  */
 
-import { useEffect, useState } from 'react';
 import { Box, Chip, Fade } from '@mui/material';
 import WifiOffIcon from '@mui/icons-material/WifiOff';
 import CloudOffIcon from '@mui/icons-material/CloudOff';
 import { useTranslation } from 'react-i18next';
+import { useOnlineStatus } from '@/shared/hooks/useOnlineStatus';
 
 export const OfflineIndicator: React.FC = () => {
   const { t } = useTranslation();
-  const [isOnline, setIsOnline] = useState(navigator.onLine);
-  const [showIndicator, setShowIndicator] = useState(!navigator.onLine);
-
-  useEffect(() => {
-    const handleOnline = () => {
-      setIsOnline(true);
-      setShowIndicator(false);
-    };
-    
-    const handleOffline = () => {
-      setIsOnline(false);
-      setShowIndicator(true);
-    };
-
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
-
-    return () => {
-      window.removeEventListener('online', handleOnline);
-      window.removeEventListener('offline', handleOffline);
-    };
-  }, []);
+  const showIndicator = !useOnlineStatus();
 
   return (
     <Fade in={showIndicator} timeout={500}>
@@ -5,10 +5,12 @@
  * @author CHOUABBIA Amine
  * @created 12-25-2025
  * @updated 12-25-2025
+ * @updated 10-19-2026 - Connectivity from shared useOnlineStatus hook
  */
 
 import { useEffect, useState } from 'react';
 import { TileLayer } from 'react-leaflet';
+import { useOnlineStatus } from '@/shared/hooks/useOnlineStatus';
 
 interface OfflineTileLayerProps {
   /** URL pattern for offline tiles (e.g., '/tiles/algeria/{z}/{x}/{y}.png') */
@@ -40,25 +42,11 @@ export const OfflineTileLayer: React.FC<OfflineTileLayerProps> = ({
   forceOffline = false,
   onOfflineAvailabilityChange
 }) => {
-  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const isOnline = useOnlineStatus();
   const [offlineTilesAvailable, setOfflineTilesAvailable] = useState(false);
   const [useOffline, setUseOffline] = useState(false);
 
   useEffect(() => {
-    // Monitor online/offline status
-    const handleOnline = () => {
-      console.log('Network: Online');
-      setIsOnline(true);
-    };
-    
-    const handleOffline = () => {
-      console.log('Network: Offline');
-      setIsOnline(false);
-    };
-
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
-
     // Check if offline tiles are available
     // Test with a sample tile (zoom 6, center of Algeria)
     const testTileUrl = offlineUrl
@@ -83,11 +71,6 @@ export const OfflineTileLayer: React.FC<OfflineTileLayerProps> = ({
         setOfflineTilesAvailable(false);
         onOfflineAvailabilityChange?.(false);
       });
-
-    return () => {
-      window.removeEventListener('online', handleOnline);
-      window.removeEventListener('offline', handleOffline);
-    };
   }, [offlineUrl, onOfflineAvailabilityChange]);
 
   useEffect(() => {
@@ -2,6 +2,7 @@
  * Geo Components Exports
  * 
  * Updated: 01-16-2026 - Renamed HydrocarbonFieldMarkers to ProductionFieldMarkers
+ * Updated: 10-19-2026 - Added MaintenanceMarkers
  * 
  * @author CHOUABBIA Amine
  * @created 12-24-2025
@@ -17,6 +18,7 @@ export { ProductionFieldMarkers } from './ProductionFieldMarkers';
 // Deprecated alias for backward compatibility
 export { ProductionFieldMarkers as HydrocarbonFieldMarkers } from './ProductionFieldMarkers';
 export { PipelinePolylines } from './PipelinePolylines';
+export { MaintenanceMarkers } from './MaintenanceMarkers';
 export { MarkerPopup } from './MarkerPopup';
 export { OfflineTileLayer } from './OfflineTileLayer';
 export { OfflineIndicator } from './OfflineIndicator';
@@ -1,3 +1,4 @@
 export { useMapData } from './useMapData';
 export { useMapFilters } from './useMapFilters';
+export { useOverdueEquipment } from './useOverdueEquipment';
 export { usePipelineFilters } from './usePipelineFilters';
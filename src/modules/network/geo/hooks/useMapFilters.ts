@@ -3,6 +3,7 @@
  * Custom hook for managing map layer visibility filters
  * 
  * Updated: 01-16-2026 - Renamed showHydrocarbonFields to showProductionFields
+ * Updated: 10-19-2026 - Added showOverdueMaintenance (off by default)
  * 
  * @author CHOUABBIA Amine
  * @created 12-24-2025
@@ -23,7 +24,8 @@ export const useMapFilters = (): UseMapFiltersResult => {
     showStations: true,
     showTerminals: true,
     showProductionFields: true,
-    showPipelines: true
+    showPipelines: true,
+    showOverdueMaintenance: false
   });
 
   const toggleFilter = (filterKey: keyof MapFilters) => {
@@ -38,7 +40,8 @@ export const useMapFilters = (): UseMapFiltersResult => {
       showStations: value,
       showTerminals: value,
       showProductionFields: value,
-      showPipelines: value
+      showPipelines: value,
+      showOverdueMaintenance: value
     });
   };
 
@@ -0,0 +1,55 @@
+/**
+ * useOverdueEquipment Hook
+ * Fetches equipment whose preventive maintenance is overdue
+ * Only fetches while enabled (overdue maintenance map layer switched on)
+ * 
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import { useState, useEffect } from 'react';
+import { EquipmentService } from '../../core/services';
+import { EquipmentTypeService } from '../../type/services';
+import { buildMaintenanceSchedule, MaintenanceScheduleItem } from '../../core/utils/maintenanceHelpers';
+
+interface UseOverdueEquipmentResult {
+  overdue: MaintenanceScheduleItem[];
+  loading: boolean;
+  error: Error | null;
+}
+
+export const useOverdueEquipment = (enabled: boolean): UseOverdueEquipmentResult => {
+  const [overdue, setOverdue] = useState<MaintenanceScheduleItem[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [loaded, setLoaded] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!enabled || loaded) return;
+
+    const fetchData = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const [equipment, equipmentTypes] = await Promise.all([
+          EquipmentService.getAllNoPagination(),
+          EquipmentTypeService.getAllNoPagination(),
+        ]);
+        setOverdue(
+          buildMaintenanceSchedule(equipment || [], equipmentTypes || []).filter((item) => item.status === 'OVERDUE')
+        );
+        setLoaded(true);
+      } catch (err) {
+        console.error('useOverdueEquipment - Error fetching data:', err);
+        setError(err instanceof Error ? err : new Error('Failed to fetch equipment maintenance data'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [enabled, loaded]);
+
+  return { overdue, loading, error };
+};
@@ -3,6 +3,7 @@
  * TypeScript types for geovisualization functionality
  * 
  * Updated: 01-16-2026 - Replaced HydrocarbonFieldDTO with ProductionFieldDTO
+ * Updated: 10-19-2026 - Added showOverdueMaintenance layer filter
  * 
  * @author CHOUABBIA Amine
  * @created 12-24-2025
@@ -38,6 +39,7 @@ export interface MapFilters {
   showTerminals: boolean;
   showProductionFields: boolean;
   showPipelines: boolean;
+  showOverdueMaintenance: boolean;
 }
 
 export interface MarkerData {
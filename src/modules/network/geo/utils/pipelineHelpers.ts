@@ -5,6 +5,7 @@
  * @author CHOUABBIA Amine
  * @created 12-24-2025
  * @updated 01-08-2026 - Added coordinate conversion functions
+ * @updated 10-19-2026 - needsMaintenance documented for any asset (used by equipment maintenance planning)
  * @updated 01-15-2026 - Fixed nominalDiameter type handling (string to number conversion)
  */
 
@@ -127,7 +128,8 @@ export const formatPipelineAge = (commissionDate?: string): string => {
 };
 
 /**
- * Check if pipeline needs maintenance
+ * Check if an asset (pipeline, equipment) needs maintenance
+ * Assets never maintained are always due
  */
 export const needsMaintenance = (lastMaintenanceDate?: string, maintenanceIntervalDays: number = 365): boolean => {
   if (!lastMaintenanceDate) return true;
@@ -18,6 +18,9 @@ export interface EquipmentTypeDTO {
   designationAr?: string; // Optional, max 100 chars (Arabic designation)
   designationEn?: string; // Optional, max 100 chars (English designation)
   designationFr: string; // @NotBlank, max 100 chars (required - French designation)
+
+  // Maintenance planning
+  maintenanceIntervalDays?: number; // Optional, @Min(1) - preventive maintenance interval (planning defaults to 365)
 }
 
 /**
@@ -46,5 +49,9 @@ export const validateEquipmentTypeDTO = (data: Partial<EquipmentTypeDTO>): strin
     errors.push("English designation must not exceed 100 characters");
   }
   
+  if (data.maintenanceIntervalDays !== undefined && data.maintenanceIntervalDays !== null && data.maintenanceIntervalDays < 1) {
+    errors.push("Maintenance interval must be at least 1 day");
+  }
+  
   return errors;
 };
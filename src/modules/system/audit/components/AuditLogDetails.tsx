@@ -0,0 +1,150 @@
+/**
+ * Audit Log Details Dialog
+ * Shows an audit entry with a side-by-side diff of its old and new values
+ * Values that are not valid JSON are shown as raw text.
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Chip,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  FormControlLabel,
+  Switch,
+  alpha,
+} from '@mui/material';
+import { AuditedDTO } from '../dto';
+import { getAuditActionColor } from '../types';
+import { buildAuditDiff } from '../utils';
+import { formatDateTime } from '@/shared/utils/dateTimeLocal';
+
+interface AuditLogDetailsProps {
+  entry: AuditedDTO | null;
+  onClose: () => void;
+}
+
+const AuditLogDetails = ({ entry, onClose }: AuditLogDetailsProps) => {
+  const { t } = useTranslation();
+  const [changedOnly, setChangedOnly] = useState(true);
+
+  const diff = useMemo(() => (entry ? buildAuditDiff(entry.oldValue, entry.newValue) : null), [entry]);
+  const rows = diff ? diff.filter((row) => !changedOnly || row.changed) : [];
+
+  return (
+    <Dialog open={!!entry} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          {entry?.entityName} #{entry?.entityId}
+          <Chip label={entry?.action} size="small" color={getAuditActionColor(entry?.action)} />
+        </Box>
+        <Typography variant="body2" color="text.secondary">
+          {entry?.userName || '-'} • {entry?.ipAddress || '-'} •{' '}
+          {entry?.timestamp ? formatDateTime(entry.timestamp, true) : '-'}
+        </Typography>
+      </DialogTitle>
+      <DialogContent dividers>
+        {diff ? (
+          <>
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 1 }}>
+              <FormControlLabel
+                control={<Switch checked={changedOnly} onChange={(e) => setChangedOnly(e.target.checked)} />}
+                label={t('audit.changedOnly', 'Changed fields only')}
+              />
+            </Box>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={{ fontWeight: 600, width: '24%' }}>{t('audit.field', 'Field')}</TableCell>
+                  <TableCell sx={{ fontWeight: 600, width: '38%' }}>{t('audit.oldValue', 'Old Value')}</TableCell>
+                  <TableCell sx={{ fontWeight: 600, width: '38%' }}>{t('audit.newValue', 'New Value')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {rows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={3} align="center" sx={{ py: 3 }}>
+                      <Typography color="text.secondary">{t('audit.noChanges', 'No field changes')}</Typography>
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  rows.map((row) => (
+                    <TableRow key={row.field}>
+                      <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.8rem' }}>{row.field}</TableCell>
+                      <TableCell
+                        sx={{
+                          fontFamily: 'monospace',
+                          fontSize: '0.8rem',
+                          wordBreak: 'break-all',
+                          bgcolor: row.changed && row.oldValue !== undefined ? alpha('#dc2626', 0.08) : undefined,
+                        }}
+                      >
+                        {row.oldValue ?? '—'}
+                      </TableCell>
+                      <TableCell
+                        sx={{
+                          fontFamily: 'monospace',
+                          fontSize: '0.8rem',
+                          wordBreak: 'break-all',
+                          bgcolor: row.changed && row.newValue !== undefined ? alpha('#16a34a', 0.08) : undefined,
+                        }}
+                      >
+                        {row.newValue ?? '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </>
+        ) : (
+          <Grid container spacing={2}>
+            {[
+              { label: t('audit.oldValue', 'Old Value'), value: entry?.oldValue },
+              { label: t('audit.newValue', 'New Value'), value: entry?.newValue },
+            ].map(({ label, value }) => (
+              <Grid item xs={12} md={6} key={label}>
+                <Typography variant="subtitle2" gutterBottom>
+                  {label}
+                </Typography>
+                <Box
+                  component="pre"
+                  sx={{
+                    m: 0,
+                    p: 1.5,
+                    bgcolor: 'action.hover',
+                    borderRadius: 1,
+                    fontSize: '0.8rem',
+                    whiteSpace: 'pre-wrap',
+                    wordBreak: 'break-all',
+                  }}
+                >
+                  {value || '—'}
+                </Box>
+              </Grid>
+            ))}
+          </Grid>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('action.close', 'Close')}</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AuditLogDetails;
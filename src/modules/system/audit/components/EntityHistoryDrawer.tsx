@@ -0,0 +1,203 @@
+/**
+ * Entity History Drawer
+ * Lists the audit entries of a single entity with field-level diffs
+ *
+ * When onRestore is provided, each entry can prefill the host form with the
+ * entity state recorded after that change (its newValue snapshot).
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Drawer,
+  Box,
+  Typography,
+  IconButton,
+  Chip,
+  Button,
+  Alert,
+  CircularProgress,
+  Divider,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow,
+  Tooltip,
+  alpha,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  ExpandMore as ExpandMoreIcon,
+  Restore as RestoreIcon,
+} from '@mui/icons-material';
+import { auditService } from '../services';
+import { AuditedDTO } from '../dto';
+import { getAuditActionColor } from '../types';
+import { buildAuditDiff, parseAuditValue } from '../utils';
+import { formatDateTime } from '@/shared/utils/dateTimeLocal';
+
+interface EntityHistoryDrawerProps {
+  open: boolean;
+  onClose: () => void;
+  /** Backend entity class name, e.g. 'Pipeline' */
+  entityName: string;
+  entityId?: number;
+  /** Receives the entity snapshot recorded after the selected change */
+  onRestore?: (snapshot: Record<string, unknown>) => void;
+}
+
+const EntityHistoryDrawer = ({ open, onClose, entityName, entityId, onRestore }: EntityHistoryDrawerProps) => {
+  const { t } = useTranslation();
+  const [entries, setEntries] = useState<AuditedDTO[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (open && entityId) {
+      loadHistory(entityId);
+    }
+  }, [open, entityName, entityId]);
+
+  const loadHistory = async (id: number) => {
+    try {
+      setLoading(true);
+      setError('');
+      const history = await auditService.getByEntity(entityName, id);
+      setEntries(
+        [...history].sort(
+          (a, b) => new Date(b.timestamp || 0).getTime() - new Date(a.timestamp || 0).getTime()
+        )
+      );
+    } catch (err: any) {
+      console.error('Failed to load entity history:', err);
+      setError(err.message || t('message.errorLoading', 'Failed to load data'));
+      setEntries([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = (entry: AuditedDTO) => {
+    const snapshot = parseAuditValue(entry.newValue);
+    if (onRestore && snapshot && typeof snapshot === 'object') {
+      onRestore(snapshot as Record<string, unknown>);
+      onClose();
+    }
+  };
+
+  return (
+    <Drawer anchor="right" open={open} onClose={onClose} PaperProps={{ sx: { width: { xs: '100%', sm: 560 } } }}>
+      <Box sx={{ p: 2.5, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Box>
+          <Typography variant="h6" fontWeight={700}>
+            {t('audit.history.title', 'History')}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {entityName} #{entityId}
+          </Typography>
+        </Box>
+        <IconButton onClick={onClose}>
+          <CloseIcon />
+        </IconButton>
+      </Box>
+      <Divider />
+
+      <Box sx={{ p: 2, overflowY: 'auto' }}>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+            <CircularProgress />
+          </Box>
+        ) : entries.length === 0 ? (
+          <Typography color="text.secondary" align="center" sx={{ py: 6 }}>
+            {t('audit.history.empty', 'No recorded changes')}
+          </Typography>
+        ) : (
+          entries.map((entry, index) => {
+            const changes = (buildAuditDiff(entry.oldValue, entry.newValue) || []).filter((row) => row.changed);
+            const canRestore = !!onRestore && entry.action !== 'DELETE' && !!parseAuditValue(entry.newValue);
+
+            return (
+              <Accordion key={entry.id} defaultExpanded={index === 0} disableGutters>
+                <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                    <Chip label={entry.action} size="small" color={getAuditActionColor(entry.action)} />
+                    <Typography variant="body2" fontWeight={500}>
+                      {entry.userName || '-'}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {entry.timestamp ? formatDateTime(entry.timestamp, true) : '-'}
+                    </Typography>
+                    {changes.length > 0 && (
+                      <Typography variant="caption" color="text.secondary">
+                        • {t('audit.history.changedFields', '{{count}} field(s)', { count: changes.length })}
+                      </Typography>
+                    )}
+                  </Box>
+                </AccordionSummary>
+                <AccordionDetails sx={{ pt: 0 }}>
+                  {changes.length === 0 ? (
+                    <Typography variant="body2" color="text.secondary">
+                      {t('audit.noChanges', 'No field changes')}
+                    </Typography>
+                  ) : (
+                    <Table size="small">
+                      <TableBody>
+                        {changes.map((row) => (
+                          <TableRow key={row.field}>
+                            <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.75rem', width: '30%' }}>
+                              {row.field}
+                            </TableCell>
+                            <TableCell
+                              sx={{
+                                fontFamily: 'monospace',
+                                fontSize: '0.75rem',
+                                wordBreak: 'break-all',
+                                bgcolor: row.oldValue !== undefined ? alpha('#dc2626', 0.08) : undefined,
+                              }}
+                            >
+                              {row.oldValue ?? '—'}
+                            </TableCell>
+                            <TableCell
+                              sx={{
+                                fontFamily: 'monospace',
+                                fontSize: '0.75rem',
+                                wordBreak: 'break-all',
+                                bgcolor: row.newValue !== undefined ? alpha('#16a34a', 0.08) : undefined,
+                              }}
+                            >
+                              {row.newValue ?? '—'}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+
+                  {canRestore && (
+                    <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 1.5 }}>
+                      <Tooltip title={t('audit.history.restoreHint', 'Prefill the form with this version; nothing is saved until you click Save')}>
+                        <Button size="small" startIcon={<RestoreIcon />} onClick={() => handleRestore(entry)}>
+                          {t('audit.history.restore', 'Restore this version')}
+                        </Button>
+                      </Tooltip>
+                    </Box>
+                  )}
+                </AccordionDetails>
+              </Accordion>
+            );
+          })
+        )}
+      </Box>
+    </Drawer>
+  );
+};
+
+export default EntityHistoryDrawer;
@@ -1,9 +1,3 @@
 // Audit Module Components
-// Export audit-related components here when they are created
-
-// Example:
-// export { default as AuditLogTable } from './AuditLogTable';
-// export { default as AuditLogDetails } from './AuditLogDetails';
-
-// Placeholder export to make this a valid module
-export {};
+export { default as AuditLogDetails } from './AuditLogDetails';
+export { default as EntityHistoryDrawer } from './EntityHistoryDrawer';
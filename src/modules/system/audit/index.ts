@@ -4,3 +4,4 @@ export * from './dto';
 export * from './pages';
 export * from './services';
 export * from './types';
+export * from './utils';
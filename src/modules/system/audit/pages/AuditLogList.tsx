@@ -0,0 +1,340 @@
+/**
+ * Audit Log List Page
+ * Server-side paginated audit trail with filters and change diff
+ *
+ * Features:
+ * - Server-side pagination and sorting
+ * - Filters: entity, entity ID, user, action, date range
+ * - Side-by-side diff of old/new values per entry
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Typography,
+  Button,
+  IconButton,
+  Chip,
+  Alert,
+  TextField,
+  Stack,
+  Paper,
+  Divider,
+  Tooltip,
+  MenuItem,
+  Grid,
+  Autocomplete,
+  alpha,
+} from '@mui/material';
+import {
+  Refresh as RefreshIcon,
+  CompareArrows as DiffIcon,
+} from '@mui/icons-material';
+import { DataGrid, GridColDef, GridPaginationModel, GridSortModel } from '@mui/x-data-grid';
+import { auditService } from '../services';
+import { AuditedDTO } from '../dto';
+import { AuditAction, AuditFilter, AUDIT_ACTIONS, getAuditActionColor } from '../types';
+import { AuditLogDetails } from '../components';
+import { formatDateTime } from '@/shared/utils/dateTimeLocal';
+
+const EMPTY_FILTER: AuditFilter = {};
+
+const AuditLogList = () => {
+  const { t } = useTranslation();
+
+  const [entries, setEntries] = useState<AuditedDTO[]>([]);
+  const [entityNames, setEntityNames] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [filter, setFilter] = useState<AuditFilter>(EMPTY_FILTER);
+  const [selectedEntry, setSelectedEntry] = useState<AuditedDTO | null>(null);
+
+  const [paginationModel, setPaginationModel] = useState<GridPaginationModel>({
+    page: 0,
+    pageSize: 10,
+  });
+  const [sortModel, setSortModel] = useState<GridSortModel>([{ field: 'timestamp', sort: 'desc' }]);
+  const [totalRows, setTotalRows] = useState(0);
+
+  const hasFilter = Object.values(filter).some((value) => value !== undefined && value !== '');
+
+  useEffect(() => {
+    loadEntries();
+  }, [paginationModel, sortModel, filter]);
+
+  useEffect(() => {
+    auditService
+      .getEntityNames()
+      .then(setEntityNames)
+      .catch((err) => console.error('Failed to load audited entities:', err));
+  }, []);
+
+  const loadEntries = async () => {
+    try {
+      setLoading(true);
+
+      const sortField = sortModel.length > 0 ? sortModel[0].field : 'timestamp';
+      const sortDir = sortModel.length > 0 ? sortModel[0].sort || 'desc' : 'desc';
+
+      const pageResponse = hasFilter
+        ? await auditService.filter(filter, paginationModel.page, paginationModel.pageSize, sortField, sortDir)
+        : await auditService.getPage(paginationModel.page, paginationModel.pageSize, sortField, sortDir);
+
+      setEntries(pageResponse.content);
+      setTotalRows(pageResponse.totalElements);
+      setError('');
+    } catch (err: any) {
+      console.error('Failed to load audit logs:', err);
+      setError(err.message || t('message.errorLoading', 'Failed to load data'));
+      setEntries([]);
+      setTotalRows(0);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateFilter = (changes: Partial<AuditFilter>) => {
+    setFilter((prev) => ({ ...prev, ...changes }));
+    setPaginationModel((prev) => ({ ...prev, page: 0 }));
+  };
+
+  const handleClearFilters = () => {
+    setFilter(EMPTY_FILTER);
+    setPaginationModel((prev) => ({ ...prev, page: 0 }));
+  };
+
+  const handlePaginationChange = useCallback((model: GridPaginationModel) => {
+    setPaginationModel(model);
+  }, []);
+
+  const handleSortChange = useCallback((model: GridSortModel) => {
+    setSortModel(model);
+  }, []);
+
+  const columns: GridColDef[] = useMemo(() => [
+    {
+      field: 'timestamp',
+      headerName: t('audit.timestamp', 'Timestamp'),
+      width: 180,
+      renderCell: (params) => (params.value ? formatDateTime(params.value, true) : '-'),
+    },
+    {
+      field: 'entityName',
+      headerName: t('audit.entity', 'Entity'),
+      minWidth: 180,
+      flex: 1,
+      renderCell: (params) => (
+        <Typography variant="body2" fontWeight={500}>
+          {params.value} <Typography component="span" variant="caption" color="text.secondary">#{params.row.entityId}</Typography>
+        </Typography>
+      ),
+    },
+    {
+      field: 'action',
+      headerName: t('audit.action', 'Action'),
+      width: 120,
+      align: 'center',
+      headerAlign: 'center',
+      renderCell: (params) => (
+        <Chip label={params.value} size="small" color={getAuditActionColor(params.value)} sx={{ fontWeight: 500 }} />
+      ),
+    },
+    {
+      field: 'userName',
+      headerName: t('audit.user', 'User'),
+      minWidth: 160,
+      flex: 1,
+      renderCell: (params) => params.value || '-',
+    },
+    {
+      field: 'ipAddress',
+      headerName: t('audit.ipAddress', 'IP Address'),
+      width: 150,
+      sortable: false,
+      renderCell: (params) => (
+        <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+          {params.value || '-'}
+        </Typography>
+      ),
+    },
+    {
+      field: 'actions',
+      headerName: t('list.actions', 'Actions'),
+      width: 100,
+      align: 'center',
+      headerAlign: 'center',
+      sortable: false,
+      filterable: false,
+      renderCell: (params) => (
+        <Tooltip title={t('audit.viewChanges', 'View changes')}>
+          <IconButton
+            size="small"
+            onClick={() => setSelectedEntry(params.row)}
+            sx={{ color: 'primary.main', '&:hover': { bgcolor: alpha('#2563eb', 0.1) } }}
+          >
+            <DiffIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      ),
+    },
+  ], [t]);
+
+  return (
+    <Box>
+      {/* PART 1: HEADER SECTION - Containerized for consistent styling */}
+      <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+        <Box sx={{ p: 2.5 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1.5 }}>
+            <Box>
+              <Typography variant="h4" fontWeight={700} color="text.primary" sx={{ mb: 0.5 }}>
+                {t('audit.title', 'Audit Logs')}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {t('audit.subtitle', 'Trace who changed what and when')}
+              </Typography>
+            </Box>
+
+            <Stack direction="row" spacing={1.5}>
+              <Tooltip title={t('action.refresh', 'Refresh')}>
+                <IconButton onClick={loadEntries} size="medium" color="primary">
+                  <RefreshIcon />
+                </IconButton>
+              </Tooltip>
+            </Stack>
+          </Box>
+        </Box>
+      </Paper>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>}
+
+      {/* PART 2: SEARCH/FILTERS SECTION */}
+      <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+        <Box sx={{ p: 2.5 }}>
+          <Stack spacing={2.5}>
+            <Grid container spacing={2}>
+              <Grid item xs={12} md={3}>
+                <Autocomplete
+                  freeSolo
+                  options={entityNames}
+                  value={filter.entityName || ''}
+                  onChange={(_, value) => updateFilter({ entityName: value || undefined })}
+                  renderInput={(params) => (
+                    <TextField {...params} label={t('audit.entity', 'Entity')} size="small" />
+                  )}
+                />
+              </Grid>
+              <Grid item xs={12} md={1.5}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  type="number"
+                  label={t('audit.entityId', 'Entity ID')}
+                  value={filter.entityId ?? ''}
+                  onChange={(e) => updateFilter({ entityId: e.target.value ? Number(e.target.value) : undefined })}
+                />
+              </Grid>
+              <Grid item xs={12} md={2}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label={t('audit.user', 'User')}
+                  value={filter.userName || ''}
+                  onChange={(e) => updateFilter({ userName: e.target.value || undefined })}
+                />
+              </Grid>
+              <Grid item xs={12} md={1.5}>
+                <TextField
+                  fullWidth
+                  select
+                  size="small"
+                  label={t('audit.action', 'Action')}
+                  value={filter.action || ''}
+                  onChange={(e) => updateFilter({ action: (e.target.value as AuditAction) || undefined })}
+                >
+                  <MenuItem value="">{t('common.all', 'All')}</MenuItem>
+                  {AUDIT_ACTIONS.map((action) => (
+                    <MenuItem key={action} value={action}>
+                      {action}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              </Grid>
+              <Grid item xs={12} md={2}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  type="date"
+                  label={t('audit.from', 'From')}
+                  value={filter.startDate || ''}
+                  onChange={(e) => updateFilter({ startDate: e.target.value || undefined })}
+                  InputLabelProps={{ shrink: true }}
+                />
+              </Grid>
+              <Grid item xs={12} md={2}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  type="date"
+                  label={t('audit.to', 'To')}
+                  value={filter.endDate || ''}
+                  onChange={(e) => updateFilter({ endDate: e.target.value || undefined })}
+                  InputLabelProps={{ shrink: true }}
+                />
+              </Grid>
+            </Grid>
+
+            <Divider />
+
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <Typography variant="body2" color="text.secondary" fontWeight={500}>
+                {totalRows} {t('list.results', 'results')}
+              </Typography>
+              <Button size="small" onClick={handleClearFilters} disabled={!hasFilter}>
+                {t('audit.clearFilters', 'Clear filters')}
+              </Button>
+            </Box>
+          </Stack>
+        </Box>
+      </Paper>
+
+      {/* PART 3: DATA GRID */}
+      <Paper elevation={0} sx={{ border: 1, borderColor: 'divider' }}>
+        <DataGrid
+          rows={entries}
+          columns={columns}
+          loading={loading}
+          rowCount={totalRows}
+          paginationMode="server"
+          sortingMode="server"
+          paginationModel={paginationModel}
+          onPaginationModelChange={handlePaginationChange}
+          sortModel={sortModel}
+          onSortModelChange={handleSortChange}
+          pageSizeOptions={[5, 10, 15]}
+          onRowDoubleClick={(params) => setSelectedEntry(params.row)}
+          disableRowSelectionOnClick
+          autoHeight
+          sx={{
+            border: 0,
+            '& .MuiDataGrid-cell:focus': { outline: 'none' },
+            '& .MuiDataGrid-row:hover': { backgroundColor: alpha('#2563eb', 0.04) },
+            '& .MuiDataGrid-columnHeaders': {
+              backgroundColor: alpha('#2563eb', 0.05),
+              borderBottom: 2,
+              borderColor: 'divider',
+            },
+            '& .MuiDataGrid-columnHeaderTitle': { fontWeight: 600 },
+          }}
+        />
+      </Paper>
+
+      <AuditLogDetails entry={selectedEntry} onClose={() => setSelectedEntry(null)} />
+    </Box>
+  );
+};
+
+export default AuditLogList;
@@ -1,9 +1,2 @@
 // Audit Module Pages
-// Export audit-related pages here when they are created
-
-// Example:
-// export { default as AuditLogList } from './AuditLogList';
-// export { default as AuditLogDetail } from './AuditLogDetail';
-
-// Placeholder export to make this a valid module
-export {};
+export { default as AuditLogList } from './AuditLogList';
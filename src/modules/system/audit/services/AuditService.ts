@@ -0,0 +1,93 @@
+/**
+ * Audit Service
+ * Based on: dz.mdn.iaas.system.audit.service.AuditedService.java
+ * Communicates with: AuditedController.java
+ * 
+ * Read-only access to the audit trail recorded by the backend.
+ * 
+ * PROPOSED - the filter, entity history and entity names endpoints are not
+ * exposed by the backend yet; they are the contracts suggested for AuditedController.
+ * 
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ * @updated 10-19-2026 - Added getByEntity for entity history (proposed endpoint)
+ */
+
+import axiosInstance from '../../../../shared/config/axios';
+import { AuditedDTO } from '../dto';
+import { AuditFilter } from '../types';
+import { PageResponse } from '../../../../shared/types/PageResponse';
+
+class AuditService {
+  private readonly BASE_URL = '/system/audit/audited';
+
+  async getPage(
+    page: number = 0,
+    size: number = 20,
+    sortBy: string = 'timestamp',
+    sortDir: string = 'desc'
+  ): Promise<PageResponse<AuditedDTO>> {
+    const response = await axiosInstance.get<PageResponse<AuditedDTO>>(this.BASE_URL, {
+      params: { page, size, sortBy, sortDir }
+    });
+    return response.data;
+  }
+
+  async getById(id: number): Promise<AuditedDTO> {
+    const response = await axiosInstance.get<AuditedDTO>(`${this.BASE_URL}/${id}`);
+    return response.data;
+  }
+
+  /**
+   * Filter audit entries by entity, user, action and date range
+   * Endpoint: GET /system/audit/audited/filter
+   * PROPOSED - the backend does not expose this endpoint yet
+   */
+  async filter(
+    filter: AuditFilter,
+    page: number = 0,
+    size: number = 20,
+    sortBy: string = 'timestamp',
+    sortDir: string = 'desc'
+  ): Promise<PageResponse<AuditedDTO>> {
+    const response = await axiosInstance.get<PageResponse<AuditedDTO>>(`${this.BASE_URL}/filter`, {
+      params: {
+        entityName: filter.entityName || undefined,
+        entityId: filter.entityId || undefined,
+        userName: filter.userName || undefined,
+        action: filter.action || undefined,
+        startDate: filter.startDate ? `${filter.startDate}T00:00:00` : undefined,
+        endDate: filter.endDate ? `${filter.endDate}T23:59:59` : undefined,
+        page,
+        size,
+        sortBy,
+        sortDir,
+      }
+    });
+    return response.data;
+  }
+
+  /**
+   * Full history of one entity, most recent first
+   * Endpoint: GET /system/audit/audited/entity/{entityName}/{entityId}
+   * PROPOSED - the backend does not expose this endpoint yet
+   */
+  async getByEntity(entityName: string, entityId: number): Promise<AuditedDTO[]> {
+    const response = await axiosInstance.get<AuditedDTO[]>(
+      `${this.BASE_URL}/entity/${entityName}/${entityId}`
+    );
+    return response.data;
+  }
+
+  /**
+   * Distinct audited entity names, used to fill the entity filter
+   * Endpoint: GET /system/audit/audited/entities
+   * PROPOSED - the backend does not expose this endpoint yet
+   */
+  async getEntityNames(): Promise<string[]> {
+    const response = await axiosInstance.get<string[]>(`${this.BASE_URL}/entities`);
+    return response.data;
+  }
+}
+
+export default new AuditService();
@@ -1,9 +1,2 @@
 // Audit Module Services
-// Export audit-related services here when they are created
-
-// Example:
-// export { default as auditService } from './AuditService';
-// export { default as auditLogService } from './AuditLogService';
-
-// Placeholder export to make this a valid module
-export {};
+export { default as auditService } from './AuditService';
@@ -0,0 +1,27 @@
+/**
+ * Audit Action
+ * Actions recorded by the backend audit trail
+ * 
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'READ';
+
+export const AUDIT_ACTIONS: AuditAction[] = ['CREATE', 'UPDATE', 'DELETE', 'READ'];
+
+/**
+ * Chip color for an audit action
+ */
+export const getAuditActionColor = (action?: string): 'success' | 'info' | 'error' | 'default' => {
+  switch (action) {
+    case 'CREATE':
+      return 'success';
+    case 'UPDATE':
+      return 'info';
+    case 'DELETE':
+      return 'error';
+    default:
+      return 'default';
+  }
+};
@@ -0,0 +1,20 @@
+/**
+ * Audit Filter
+ * Criteria accepted by the audit log filter endpoint; empty fields are ignored
+ * 
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import type { AuditAction } from './AuditAction';
+
+export interface AuditFilter {
+  entityName?: string;
+  entityId?: number;
+  userName?: string;
+  action?: AuditAction;
+  /** Start date (YYYY-MM-DD), inclusive */
+  startDate?: string;
+  /** End date (YYYY-MM-DD), inclusive */
+  endDate?: string;
+}
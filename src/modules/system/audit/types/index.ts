@@ -1,9 +1,4 @@
 // Audit Module Types
-// Export audit-related types here when they are created
-
-// Example:
-// export type { AuditAction } from './AuditAction';
-// export type { AuditFilter } from './AuditFilter';
-
-// Placeholder export to make this a valid module
-export {};
+export type { AuditAction } from './AuditAction';
+export { AUDIT_ACTIONS, getAuditActionColor } from './AuditAction';
+export type { AuditFilter } from './AuditFilter';
@@ -0,0 +1,85 @@
+/**
+ * Audit Diff Utilities
+ * Compare the JSON snapshots stored in AuditedDTO.oldValue / newValue
+ *
+ * Snapshots are flattened to dotted paths (e.g. "pipeline.code") so nested
+ * changes line up field by field.
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+export interface AuditDiffRow {
+  field: string;
+  oldValue?: string;
+  newValue?: string;
+  changed: boolean;
+}
+
+/**
+ * Parse an audit snapshot; returns undefined for empty or non-JSON values
+ */
+export const parseAuditValue = (value?: string): unknown => {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
+
+const flatten = (
+  value: unknown,
+  prefix: string = '',
+  result: Record<string, string> = {}
+): Record<string, string> => {
+  if (value !== null && typeof value === 'object') {
+    const entries = Array.isArray(value)
+      ? value.map((item, index) => [String(index), item] as const)
+      : Object.entries(value as Record<string, unknown>);
+    if (entries.length === 0 && prefix) {
+      result[prefix] = Array.isArray(value) ? '[]' : '{}';
+    }
+    entries.forEach(([key, item]) => flatten(item, prefix ? `${prefix}.${key}` : key, result));
+  } else if (prefix) {
+    result[prefix] = value === null ? 'null' : String(value);
+  }
+  return result;
+};
+
+/**
+ * Field-level diff of two snapshots, or null when either is not valid JSON
+ */
+export const buildAuditDiff = (oldValue?: string, newValue?: string): AuditDiffRow[] | null => {
+  const oldJson = parseAuditValue(oldValue);
+  const newJson = parseAuditValue(newValue);
+
+  if ((oldValue && oldJson === undefined) || (newValue && newJson === undefined)) {
+    return null;
+  }
+
+  const oldFlat = flatten(oldJson);
+  const newFlat = flatten(newJson);
+  const fields = Array.from(new Set([...Object.keys(oldFlat), ...Object.keys(newFlat)])).sort();
+
+  return fields.map((field) => ({
+    field,
+    oldValue: oldFlat[field],
+    newValue: newFlat[field],
+    changed: oldFlat[field] !== newFlat[field],
+  }));
+};
+
+/**
+ * Copy from a snapshot only the top-level fields the form knows about,
+ * so restoring a version never injects unrelated or nested entity data
+ */
+export const pickSnapshotFields = <T extends object>(current: T, snapshot: Record<string, unknown>): Partial<T> => {
+  const picked: Partial<T> = {};
+  (Object.keys(current) as Array<keyof T>).forEach((key) => {
+    if (Object.prototype.hasOwnProperty.call(snapshot, key)) {
+      picked[key] = snapshot[key as string] as T[keyof T];
+    }
+  });
+  return picked;
+};
@@ -0,0 +1,3 @@
+// Audit Module Utils
+export { parseAuditValue, buildAuditDiff, pickSnapshotFields } from './auditDiff';
+export type { AuditDiffRow } from './auditDiff';
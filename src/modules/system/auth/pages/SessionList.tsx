@@ -0,0 +1,405 @@
+/**
+ * Session List Page
+ * Active refresh-token sessions with per-session revocation
+ *
+ * Features:
+ * - Current user's sessions (device, IP, last activity)
+ * - All users' sessions for holders of SESSION:ADMIN (server-side pagination)
+ * - Revoke a single session or log out everywhere
+ * - Revoking the current session ends it locally through the axios session handling
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Typography,
+  Button,
+  IconButton,
+  Chip,
+  Alert,
+  TextField,
+  InputAdornment,
+  Stack,
+  Paper,
+  Tooltip,
+  Tabs,
+  Tab,
+  alpha,
+} from '@mui/material';
+import {
+  Refresh as RefreshIcon,
+  Search as SearchIcon,
+  Logout as LogoutIcon,
+  Block as RevokeIcon,
+  Computer as DesktopIcon,
+  PhoneAndroid as MobileIcon,
+} from '@mui/icons-material';
+import { DataGrid, GridColDef, GridPaginationModel } from '@mui/x-data-grid';
+import { AuthService } from '@/services/AuthService';
+import { usePermission } from '@/shared/hooks/usePermission';
+import { ConfirmDialog } from '@/shared/components/ConfirmDialog';
+import { formatDateTime } from '@/shared/utils/dateTimeLocal';
+import type { SessionInfo } from '@/types/auth';
+
+type SessionScope = 'mine' | 'all';
+
+interface DeviceInfo {
+  label: string;
+  mobile: boolean;
+}
+
+/**
+ * Short browser/OS label from a user agent string
+ */
+const describeDevice = (userAgent?: string): DeviceInfo => {
+  if (!userAgent) {
+    return { label: '-', mobile: false };
+  }
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\//.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    null;
+
+  const os =
+    /Android/.test(userAgent) ? 'Android' :
+    /iPhone|iPad|iPod/.test(userAgent) ? 'iOS' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    null;
+
+  return {
+    label: browser && os ? `${browser} • ${os}` : browser || os || userAgent,
+    mobile: /Mobile|Android|iPhone|iPad/.test(userAgent),
+  };
+};
+
+const SessionList = () => {
+  const { t } = useTranslation();
+  const { hasPermission } = usePermission();
+  const isSessionAdmin = hasPermission('SESSION:ADMIN');
+
+  const [scope, setScope] = useState<SessionScope>('mine');
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [searchText, setSearchText] = useState('');
+
+  const [paginationModel, setPaginationModel] = useState<GridPaginationModel>({
+    page: 0,
+    pageSize: 10,
+  });
+  const [totalRows, setTotalRows] = useState(0);
+
+  const [sessionToRevoke, setSessionToRevoke] = useState<SessionInfo | null>(null);
+  const [logoutAllOpen, setLogoutAllOpen] = useState(false);
+  const [revoking, setRevoking] = useState(false);
+
+  useEffect(() => {
+    loadSessions();
+  }, [scope, paginationModel, searchText]);
+
+  const loadSessions = async () => {
+    try {
+      setLoading(true);
+
+      if (scope === 'all') {
+        const pageResponse = await AuthService.getAllSessions(
+          paginationModel.page,
+          paginationModel.pageSize,
+          searchText
+        );
+        setSessions(pageResponse.content);
+        setTotalRows(pageResponse.totalElements);
+      } else {
+        const mySessions = await AuthService.getMySessions();
+        setSessions(mySessions);
+        setTotalRows(mySessions.length);
+      }
+      setError('');
+    } catch (err: any) {
+      console.error('Failed to load sessions:', err);
+      setError(err.message || t('message.errorLoading', 'Failed to load data'));
+      setSessions([]);
+      setTotalRows(0);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleScopeChange = (newScope: SessionScope) => {
+    setScope(newScope);
+    setSearchText('');
+    setPaginationModel((prev) => ({ ...prev, page: 0 }));
+  };
+
+  const handleSearchChange = (value: string) => {
+    setSearchText(value);
+    setPaginationModel((prev) => ({ ...prev, page: 0 }));
+  };
+
+  const handlePaginationChange = useCallback((model: GridPaginationModel) => {
+    setPaginationModel(model);
+  }, []);
+
+  const handleRevokeConfirm = async () => {
+    if (!sessionToRevoke) return;
+
+    try {
+      setRevoking(true);
+      // Ends the local session and redirects to login when revoking the current one
+      await AuthService.revokeSession(sessionToRevoke);
+      setSuccess(t('auth.sessions.revoked', 'Session revoked'));
+      setSessionToRevoke(null);
+      loadSessions();
+    } catch (err: any) {
+      console.error('Failed to revoke session:', err);
+      setError(err.message || t('auth.sessions.revokeError', 'Failed to revoke session'));
+      setSessionToRevoke(null);
+    } finally {
+      setRevoking(false);
+    }
+  };
+
+  const handleLogoutAllConfirm = async () => {
+    try {
+      setRevoking(true);
+      await AuthService.logoutEverywhere();
+    } catch (err: any) {
+      console.error('Failed to log out everywhere:', err);
+      setError(err.message || t('auth.sessions.revokeError', 'Failed to revoke session'));
+      setLogoutAllOpen(false);
+      setRevoking(false);
+    }
+  };
+
+  const columns: GridColDef[] = useMemo(() => [
+    ...(scope === 'all'
+      ? [{
+          field: 'username',
+          headerName: t('auth.username', 'Username'),
+          minWidth: 150,
+          flex: 1,
+          renderCell: (params: any) => (
+            <Typography variant="body2" fontWeight={500}>
+              {params.value}
+            </Typography>
+          ),
+        } as GridColDef]
+      : []),
+    {
+      field: 'userAgent',
+      headerName: t('auth.sessions.device', 'Device'),
+      minWidth: 200,
+      flex: 1.5,
+      sortable: false,
+      renderCell: (params) => {
+        const device = describeDevice(params.value);
+        return (
+          <Tooltip title={params.value || ''}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              {device.mobile ? (
+                <MobileIcon fontSize="small" color="action" />
+              ) : (
+                <DesktopIcon fontSize="small" color="action" />
+              )}
+              <Typography variant="body2" noWrap>
+                {device.label}
+              </Typography>
+              {params.row.current && (
+                <Chip
+                  label={t('auth.sessions.current', 'This device')}
+                  size="small"
+                  color="primary"
+                  sx={{ fontWeight: 500 }}
+                />
+              )}
+            </Box>
+          </Tooltip>
+        );
+      },
+    },
+    {
+      field: 'ipAddress',
+      headerName: t('audit.ipAddress', 'IP Address'),
+      width: 150,
+      sortable: false,
+      renderCell: (params) => (
+        <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+          {params.value || '-'}
+        </Typography>
+      ),
+    },
+    {
+      field: 'createdAt',
+      headerName: t('auth.sessions.signedIn', 'Signed in'),
+      width: 170,
+      sortable: false,
+      renderCell: (params) => (params.value ? formatDateTime(params.value) : '-'),
+    },
+    {
+      field: 'lastActivityAt',
+      headerName: t('auth.sessions.lastActivity', 'Last activity'),
+      width: 170,
+      sortable: false,
+      renderCell: (params) => (params.value ? formatDateTime(params.value) : '-'),
+    },
+    {
+      field: 'expiresAt',
+      headerName: t('auth.sessions.expires', 'Expires'),
+      width: 170,
+      sortable: false,
+      renderCell: (params) => (params.value ? formatDateTime(params.value) : '-'),
+    },
+    {
+      field: 'actions',
+      headerName: t('list.actions', 'Actions'),
+      width: 100,
+      align: 'center',
+      headerAlign: 'center',
+      sortable: false,
+      filterable: false,
+      renderCell: (params) => (
+        <Tooltip title={t('auth.sessions.revoke', 'Revoke session')}>
+          <IconButton
+            size="small"
+            onClick={() => setSessionToRevoke(params.row)}
+            sx={{ color: 'error.main', '&:hover': { bgcolor: alpha('#dc2626', 0.1) } }}
+          >
+            <RevokeIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      ),
+    },
+  ], [t, scope]);
+
+  return (
+    <Box>
+      {/* PART 1: HEADER SECTION - Containerized for consistent styling */}
+      <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+        <Box sx={{ p: 2.5 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1.5 }}>
+            <Box>
+              <Typography variant="h4" fontWeight={700} color="text.primary" sx={{ mb: 0.5 }}>
+                {t('auth.sessions.title', 'Active Sessions')}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {t('auth.sessions.subtitle', 'Devices currently signed in and able to refresh their access')}
+              </Typography>
+            </Box>
+
+            <Stack direction="row" spacing={1.5}>
+              <Tooltip title={t('action.refresh', 'Refresh')}>
+                <IconButton onClick={loadSessions} size="medium" color="primary">
+                  <RefreshIcon />
+                </IconButton>
+              </Tooltip>
+              <Button
+                variant="contained"
+                color="error"
+                startIcon={<LogoutIcon />}
+                onClick={() => setLogoutAllOpen(true)}
+              >
+                {t('auth.sessions.logoutEverywhere', 'Log out everywhere')}
+              </Button>
+            </Stack>
+          </Box>
+
+          {isSessionAdmin && (
+            <Tabs value={scope} onChange={(_, value) => handleScopeChange(value)}>
+              <Tab value="mine" label={t('auth.sessions.mine', 'My sessions')} />
+              <Tab value="all" label={t('auth.sessions.all', 'All users')} />
+            </Tabs>
+          )}
+        </Box>
+      </Paper>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>}
+      {success && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess('')}>{success}</Alert>}
+
+      {/* PART 2: SEARCH SECTION (all users only) */}
+      {scope === 'all' && (
+        <Paper elevation={0} sx={{ mb: 3, border: 1, borderColor: 'divider' }}>
+          <Box sx={{ p: 2.5 }}>
+            <TextField
+              fullWidth
+              size="small"
+              placeholder={t('auth.sessions.searchUser', 'Search by username...')}
+              value={searchText}
+              onChange={(e) => handleSearchChange(e.target.value)}
+              InputProps={{
+                startAdornment: (
+                  <InputAdornment position="start">
+                    <SearchIcon />
+                  </InputAdornment>
+                ),
+              }}
+            />
+          </Box>
+        </Paper>
+      )}
+
+      {/* PART 3: DATA GRID */}
+      <Paper elevation={0} sx={{ border: 1, borderColor: 'divider' }}>
+        <DataGrid
+          rows={sessions}
+          columns={columns}
+          loading={loading}
+          rowCount={totalRows}
+          paginationMode={scope === 'all' ? 'server' : 'client'}
+          paginationModel={paginationModel}
+          onPaginationModelChange={handlePaginationChange}
+          pageSizeOptions={[5, 10, 15]}
+          disableRowSelectionOnClick
+          autoHeight
+          sx={{
+            border: 0,
+            '& .MuiDataGrid-cell:focus': { outline: 'none' },
+            '& .MuiDataGrid-row:hover': { backgroundColor: alpha('#2563eb', 0.04) },
+            '& .MuiDataGrid-columnHeaders': {
+              backgroundColor: alpha('#2563eb', 0.05),
+              borderBottom: 2,
+              borderColor: 'divider',
+            },
+            '& .MuiDataGrid-columnHeaderTitle': { fontWeight: 600 },
+          }}
+        />
+      </Paper>
+
+      <ConfirmDialog
+        open={!!sessionToRevoke}
+        title={t('auth.sessions.revoke', 'Revoke session')}
+        message={
+          sessionToRevoke?.current
+            ? t('auth.sessions.revokeCurrentConfirm', 'This is your current session. You will be signed out immediately.')
+            : t('auth.sessions.revokeConfirm', 'The device will be signed out the next time it refreshes its access.')
+        }
+        confirmText={t('auth.sessions.revoke', 'Revoke session')}
+        loading={revoking}
+        onConfirm={handleRevokeConfirm}
+        onCancel={() => setSessionToRevoke(null)}
+      />
+
+      <ConfirmDialog
+        open={logoutAllOpen}
+        title={t('auth.sessions.logoutEverywhere', 'Log out everywhere')}
+        message={t('auth.sessions.logoutEverywhereConfirm', 'All your sessions, including this one, will be revoked and you will be signed out.')}
+        confirmText={t('auth.sessions.logoutEverywhere', 'Log out everywhere')}
+        loading={revoking}
+        onConfirm={handleLogoutAllConfirm}
+        onCancel={() => setLogoutAllOpen(false)}
+      />
+    </Box>
+  );
+};
+
+export default SessionList;
@@ -1,2 +1,3 @@
 // Auth module pages
 export { default as Login } from './Login';
+export { default as SessionList } from './SessionList';
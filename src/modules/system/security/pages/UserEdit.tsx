@@ -3,6 +3,7 @@
  * Comprehensive form for creating and editing users
  * 
  * @author CHOUABBIA Amine
+ * @updated 10-19-2026 - Added History drawer with version restore
  * @updated 02-02-2026 - Added password reset functionality for admins
  * @updated 01-21-2026 - Added language handling for structure and employee dropdowns
  * @updated 01-20-2026 - Made employee selection dependent on structure (cascading dropdown)
@@ -47,6 +48,7 @@ import {
   Save as SaveIcon,
   Close as CloseIcon,
   LockReset as LockResetIcon,
+  History as HistoryIcon,
   Visibility,
   VisibilityOff,
 } from '@mui/icons-material';
@@ -56,6 +58,8 @@ import { EmployeeDTO } from '../../../general/organization/dto/EmployeeDTO';
 import { StructureDTO } from '../../../general/organization/dto/StructureDTO';
 import { EmployeeService } from '../../../general/organization/services/EmployeeService';
 import { StructureService } from '../../../general/organization/services/StructureService';
+import { EntityHistoryDrawer } from '@/modules/system/audit/components';
+import { pickSnapshotFields } from '@/modules/system/audit/utils';
 
 // Extended UserDTO for form state (includes password for creation)
 interface UserFormData extends Partial<UserDTO> {
@@ -97,6 +101,8 @@ const UserEdit = () => {
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState('');
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [versionRestored, setVersionRestored] = useState(false);
 
   // Password reset state
   const [resetDialogOpen, setResetDialogOpen] = useState(false);
@@ -284,6 +290,13 @@ const UserEdit = () => {
     navigate('/security/users');
   };
 
+  const handleRestoreVersion = (snapshot: Record<string, unknown>) => {
+    // Credentials are never restored from history
+    const { password: _password, ...restored } = pickSnapshotFields(user, snapshot);
+    setUser((prev) => ({ ...prev, ...restored }));
+    setVersionRestored(true);
+  };
+
   // Password Reset handlers
   const handleOpenResetDialog = () => {
     setNewPassword('');
@@ -421,6 +434,13 @@ const UserEdit = () => {
               </Typography>
             </Box>
             <Stack direction="row" spacing={1.5}>
+              {isEditMode && (
+                <Tooltip title={t('audit.history.title', 'History')}>
+                  <IconButton onClick={() => setHistoryOpen(true)} size="medium" color="default">
+                    <HistoryIcon />
+                  </IconButton>
+                </Tooltip>
+              )}
               {isEditMode && (
                 <Tooltip title={t('user.resetPassword') || 'Reset Password'}>
                   <IconButton
@@ -458,6 +478,12 @@ const UserEdit = () => {
         </Box>
       </Paper>
 
+      {versionRestored && (
+        <Alert severity="info" sx={{ mb: 3 }} onClose={() => setVersionRestored(false)}>
+          {t('audit.history.restored', 'Previous version loaded into the form. Review and save to apply it.')}
+        </Alert>
+      )}
+
       {/* Error Alert */}
       {error && (
         <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError('')}>
@@ -824,6 +850,14 @@ const UserEdit = () => {
           </Button>
         </DialogActions>
       </Dialog>
+
+      <EntityHistoryDrawer
+        open={historyOpen}
+        onClose={() => setHistoryOpen(false)}
+        entityName="User"
+        entityId={isEditMode ? Number(userId) : undefined}
+        onRestore={handleRestoreVersion}
+      />
     </Box>
   );
 };
@@ -5,12 +5,14 @@
  * 
  * @author CHOUABBIA Amine
  * @created 01-25-2026
+ * @updated 10-19-2026 - Added active session listing and revocation (proposed endpoints)
  * @updated 02-02-2026 - Handle 401 gracefully during logout
  * @updated 02-01-2026 - Integrated with AuthorizationService and new auth types
  */
 
-import axiosInstance from '@/shared/config/axios';
-import type { LoginRequest, LoginResponse, UserProfile, TokenRefreshResponse } from '@/types/auth';
+import axiosInstance, { endSession } from '@/shared/config/axios';
+import type { PageResponse } from '@/shared/types/PageResponse';
+import type { LoginRequest, LoginResponse, UserProfile, TokenRefreshResponse, SessionInfo } from '@/types/auth';
 import { AuthorizationService } from './AuthorizationService';
 
 const BASE_URL = '/auth';
@@ -111,6 +113,54 @@ export class AuthService {
     return response.data.accessToken;
   }
   
+  /**
+   * Get active sessions of the current user
+   * Endpoint: GET /auth/sessions
+   * PROPOSED - the backend does not expose this endpoint yet
+   */
+  static async getMySessions(): Promise<SessionInfo[]> {
+    const response = await axiosInstance.get<SessionInfo[]>(`${BASE_URL}/sessions`);
+    return response.data;
+  }
+  
+  /**
+   * Get active sessions of all users (administrators only)
+   * Endpoint: GET /auth/sessions/all
+   * PROPOSED - the backend does not expose this endpoint yet
+   */
+  static async getAllSessions(page = 0, size = 10, search?: string): Promise<PageResponse<SessionInfo>> {
+    const response = await axiosInstance.get<PageResponse<SessionInfo>>(`${BASE_URL}/sessions/all`, {
+      params: { page, size, sort: 'lastActivityAt,desc', search: search || undefined },
+    });
+    return response.data;
+  }
+  
+  /**
+   * Revoke a single session
+   * Endpoint: DELETE /auth/sessions/{id}
+   * PROPOSED - the backend does not expose this endpoint yet
+   * Revoking the current session ends it locally as well
+   */
+  static async revokeSession(session: SessionInfo): Promise<void> {
+    await axiosInstance.delete(`${BASE_URL}/sessions/${session.id}`);
+    
+    if (session.current) {
+      AuthorizationService.clear();
+      endSession();
+    }
+  }
+  
+  /**
+   * Revoke every session of the current user, including this one
+   * Endpoint: POST /auth/sessions/revoke-all
+   * PROPOSED - the backend does not expose this endpoint yet
+   */
+  static async logoutEverywhere(): Promise<void> {
+    await axiosInstance.post(`${BASE_URL}/sessions/revoke-all`);
+    AuthorizationService.clear();
+    endSession();
+  }
+  
   /**
    * Check if user is authenticated
    */
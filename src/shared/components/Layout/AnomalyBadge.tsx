@@ -0,0 +1,32 @@
+/**
+ * Anomaly Badge Component
+ * Displays the number of unacknowledged flow anomalies and links to the
+ * anomaly review workspace
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import { IconButton, Badge, Tooltip } from '@mui/material';
+import { Insights as InsightsIcon } from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useUnacknowledgedAnomalyCount } from '@/modules/flow/intelligence/hooks';
+
+const AnomalyBadge = () => {
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+  const { count } = useUnacknowledgedAnomalyCount();
+
+  return (
+    <Tooltip title={t('flow.anomaly.badgeTooltip', { count })}>
+      <IconButton color="inherit" onClick={() => navigate('/flow/intelligence/anomalies')} sx={{ ml: 1 }}>
+        <Badge color="error" badgeContent={count} max={99}>
+          <InsightsIcon />
+        </Badge>
+      </IconButton>
+    </Tooltip>
+  );
+};
+
+export default AnomalyBadge;
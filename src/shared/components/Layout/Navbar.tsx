@@ -4,6 +4,7 @@
  * 
  * @author CHOUABBIA Amine
  * @created 12-22-2025
+ * @updated 10-19-2026 - Added AnomalyBadge for users allowed to review anomalies
  * @updated 02-02-2026 - Updated to use employee from UserProfile (embedded in user object)
  * @updated 02-01-2026 - Added NotificationBadge for VALIDATOR users
  * @updated 01-26-2026 - Removed fixed username text, kept tooltip on avatar hover only
@@ -39,6 +40,8 @@ import BusinessIcon from '@mui/icons-material/Business';
 import { useAuth } from '../../context/AuthContext';
 import LanguageSwitcher from '../LanguageSwitcher';
 import NotificationBadge from './NotificationBadge';
+import AnomalyBadge from './AnomalyBadge';
+import { usePermission } from '../../hooks/usePermission';
 import { FileService } from '../../../modules/system/utility/services';
 
 interface NavbarProps {
@@ -50,6 +53,7 @@ const Navbar = ({ onMenuClick, isAuthenticated = false }: NavbarProps) => {
   const navigate = useNavigate();
   const { t, i18n } = useTranslation();
   const { user, logout } = useAuth();
+  const { hasPermission } = usePermission();
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
   const [isLoggingOut, setIsLoggingOut] = useState(false);
   const [logoError, setLogoError] = useState(false);
@@ -251,6 +255,9 @@ const Navbar = ({ onMenuClick, isAuthenticated = false }: NavbarProps) => {
         {/* Notification Badge - Only for VALIDATOR users */}
         {isAuthenticated && isValidator && <NotificationBadge />}
 
+        {/* Anomaly Badge - Only for users allowed to review anomalies */}
+        {isAuthenticated && hasPermission('FLOW_ANOMALY:READ') && <AnomalyBadge />}
+
         {/* User Actions */}
         {isAuthenticated ? (
           <Box sx={{ display: 'flex', alignItems: 'center', ml: 1 }}>
@@ -4,6 +4,19 @@
  *
  * @author CHOUABBIA Amine
  * @created 12-22-2025
+ * @updated 10-19-2026 - Added Volume balance menu
+ * @updated 10-19-2026 - Added Coverage report menu
+ * @updated 10-19-2026 - Added Validator workload menu
+ * @updated 10-19-2026 - Added Slot heatmap menu
+ * @updated 10-19-2026 - Added Validation queue menu
+ * @updated 10-19-2026 - Added Reading import menu
+ * @updated 10-19-2026 - Added Reading slots menu
+ * @updated 10-19-2026 - Added Maintenance planning menu
+ * @updated 10-19-2026 - Added Equipment register menu
+ * @updated 10-19-2026 - Added Data quality menu
+ * @updated 10-19-2026 - Added Anomaly review menu
+ * @updated 10-19-2026 - Added Flow Alerts menu
+ * @updated 10-19-2026 - Added Flow Events menu
  * @updated 02-06-2026 - Simplified forecast menu to direct navigation
  * @updated 02-06-2026 - Reorganized workspace: removed readings submenu, threshold/operation navigate to list
  * @updated 02-04-2026 - Added Slot Monitoring menu
@@ -71,6 +84,19 @@ import SpeedIcon from '@mui/icons-material/Speed';
 import TrendingUpIcon from '@mui/icons-material/TrendingUp';
 import LocalShippingIcon from '@mui/icons-material/LocalShipping';
 import MonitorHeartIcon from '@mui/icons-material/MonitorHeart';
+import ScheduleIcon from '@mui/icons-material/Schedule';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import PlaylistAddCheckIcon from '@mui/icons-material/PlaylistAddCheck';
+import GridOnIcon from '@mui/icons-material/GridOn';
+import BalanceIcon from '@mui/icons-material/Balance';
+import AssessmentIcon from '@mui/icons-material/Assessment';
+import ScaleIcon from '@mui/icons-material/Scale';
+import ReportProblemIcon from '@mui/icons-material/ReportProblem';
+import NotificationsActiveIcon from '@mui/icons-material/NotificationsActive';
+import InsightsIcon from '@mui/icons-material/Insights';
+import FactCheckIcon from '@mui/icons-material/FactCheck';
+import BuildIcon from '@mui/icons-material/Build';
+import EventRepeatIcon from '@mui/icons-material/EventRepeat';
 import ExpandLess from '@mui/icons-material/ExpandLess';
 import ExpandMore from '@mui/icons-material/ExpandMore';
 
@@ -101,7 +127,7 @@ const Sidebar = ({ open }: SidebarProps) => {
   const [expandedItems, setExpandedItems] = useState<string[]>([]);
   const [isHovered, setIsHovered] = useState(false);
 
-  // Top-level order: Home, Workspace (Slot Monitoring, Thresholds, Forecasts, Operations, Maps, Statistics), General, Network, System
+  // Top-level order: Home, Workspace (Slot Monitoring, Thresholds, Forecasts, Operations, Events, Maps, Statistics), General, Network, System
   const menuItems: MenuItem[] = [
     {
       titleKey: 'nav.home',
@@ -118,6 +144,36 @@ const Sidebar = ({ open }: SidebarProps) => {
           path: '/flow/monitoring',
           anyPermission: ['FLOW_READING:READ', 'FLOW_READING:CREATE', 'FLOW_READING:VALIDATE'],
         },
+        {
+          titleKey: 'nav.slotHeatmap',
+          icon: <GridOnIcon />,
+          path: '/flow/slot-heatmap',
+          anyPermission: ['FLOW_READING:READ', 'FLOW_READING:CREATE', 'FLOW_READING:VALIDATE'],
+        },
+        {
+          titleKey: 'nav.readingSlot',
+          icon: <ScheduleIcon />,
+          path: '/flow/reading-slots',
+          permission: 'READING_SLOT:READ',
+        },
+        {
+          titleKey: 'nav.readingImport',
+          icon: <UploadFileIcon />,
+          path: '/flow/readings/import',
+          permission: 'FLOW_READING:CREATE',
+        },
+        {
+          titleKey: 'nav.validationQueue',
+          icon: <PlaylistAddCheckIcon />,
+          path: '/flow/validation-queue',
+          permission: 'FLOW_READING:VALIDATE',
+        },
+        {
+          titleKey: 'nav.validatorWorkload',
+          icon: <BalanceIcon />,
+          path: '/flow/intelligence/validator-workload',
+          permission: 'FLOW_READING:VALIDATE',
+        },
         {
           titleKey: 'nav.threshold',
           icon: <SpeedIcon />,
@@ -136,6 +192,42 @@ const Sidebar = ({ open }: SidebarProps) => {
           path: '/flow/operations',
           permission: 'FLOW_OPERATION:READ',
         },
+        {
+          titleKey: 'nav.event',
+          icon: <ReportProblemIcon />,
+          path: '/flow/events',
+          permission: 'FLOW_EVENT:READ',
+        },
+        {
+          titleKey: 'nav.alert',
+          icon: <NotificationsActiveIcon />,
+          path: '/flow/alerts',
+          permission: 'FLOW_ALERT:READ',
+        },
+        {
+          titleKey: 'nav.anomaly',
+          icon: <InsightsIcon />,
+          path: '/flow/intelligence/anomalies',
+          permission: 'FLOW_ANOMALY:READ',
+        },
+        {
+          titleKey: 'nav.dataQuality',
+          icon: <FactCheckIcon />,
+          path: '/flow/intelligence/data-quality',
+          permission: 'FLOW_DATA_QUALITY:READ',
+        },
+        {
+          titleKey: 'nav.coverageReport',
+          icon: <AssessmentIcon />,
+          path: '/flow/intelligence/coverage-report',
+          permission: 'FLOW_READING:READ',
+        },
+        {
+          titleKey: 'nav.volumeBalance',
+          icon: <ScaleIcon />,
+          path: '/flow/intelligence/volume-balance',
+          permission: 'FLOW_OPERATION:READ',
+        },
         {
           titleKey: 'nav.maps',
           icon: <MapIcon />,
@@ -257,6 +349,16 @@ const Sidebar = ({ open }: SidebarProps) => {
               icon: <FactoryIcon />,
               path: '/network/core/terminals',
             },
+            {
+              titleKey: 'nav.equipment',
+              icon: <BuildIcon />,
+              path: '/network/core/equipment',
+            },
+            {
+              titleKey: 'nav.maintenance',
+              icon: <EventRepeatIcon />,
+              path: '/network/core/maintenance',
+            },
           ],
         },
       ],
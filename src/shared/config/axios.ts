@@ -4,6 +4,7 @@
  * 
  * @author CHOUABBIA Amine
  * @created 12-22-2025
+ * @updated 10-19-2026 - Added endSession for revoked sessions and refresh failures
  * @updated 02-02-2026 - Updated to use correct localStorage keys (authToken, refreshToken, currentUser)
  * @updated 12-23-2025
  */
@@ -49,6 +50,23 @@ const clearRefreshState = () => {
   refreshAttempts = 0;
 };
 
+/**
+ * End the local session
+ * Drops stored tokens and pending refresh state, then sends the user to login.
+ * Used when the refresh token is rejected or the session has been revoked.
+ */
+export const endSession = () => {
+  clearRefreshState();
+  localStorage.removeItem('authToken');
+  localStorage.removeItem('refreshToken');
+  localStorage.removeItem('currentUser');
+
+  // Prevent redirect loop
+  if (window.location.pathname !== '/login') {
+    window.location.href = '/login';
+  }
+};
+
 /**
  * Refresh the access token using refresh token
  */
@@ -198,12 +216,8 @@ axiosInstance.interceptors.response.use(
           if (refreshError.response?.status === 401 || 
               refreshError.response?.status === 403 ||
               refreshAttempts >= MAX_REFRESH_ATTEMPTS) {
-            console.error('🚪 Redirecting to login...');
-            
-            // Prevent redirect loop
-            if (window.location.pathname !== '/login') {
-              window.location.href = '/login';
-            }
+            console.error('🚪 Session ended (refresh token rejected or revoked), redirecting to login...');
+            endSession();
           } else {
             // For server errors or network issues, just fail the request
             console.warn('⚠️ Request failed but keeping session (backend might be down)');
@@ -0,0 +1,40 @@
+/**
+ * Online Status Hook
+ * React hook tracking browser network connectivity (navigator.onLine)
+ *
+ * @author CHOUABBIA Amine
+ * @created 10-19-2026
+ */
+
+import { useEffect, useState } from 'react';
+
+/**
+ * Current connectivity, updated on window online/offline events
+ *
+ * @example
+ * ```tsx
+ * const isOnline = useOnlineStatus();
+ *
+ * if (!isOnline) {
+ *   return <OfflineBanner />;
+ * }
+ * ```
+ */
+export const useOnlineStatus = (): boolean => {
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  return isOnline;
+};
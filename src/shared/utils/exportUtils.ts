@@ -5,6 +5,7 @@
  * 
  * @author CHOUABBIA Amine
  * @created 01-16-2026
+ * @updated 10-19-2026 - Added company header for PDF reports
  * @description Provides reusable export functionality with dynamic column mapping
  */
 
@@ -178,6 +179,91 @@ export const exportToPDF = async <T extends Record<string, any>>(
   }
 };
 
+/**
+ * Company name printed in the header of PDF reports
+ */
+export const PDF_COMPANY_NAME = 'SONATRACH';
+
+const PDF_LOGO_URL = '/images/HyFlo_Full.png';
+
+/**
+ * Load an image as a data URL for jsPDF (null when unavailable)
+ */
+const loadImageDataUrl = async (url: string): Promise<string | null> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    // The SPA fallback answers missing assets with index.html
+    if (!blob.type.startsWith('image/')) return null;
+    return await new Promise((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => resolve(null);
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Draw the company header (logo, company and application name, report
+ * title and subtitle) at the top of the current page of a jsPDF document
+ * @param doc - jsPDF document
+ * @param title - Report title
+ * @param subtitle - Optional line below the title (period, structure...)
+ * @param appName - Application name printed next to the company name
+ * @returns Vertical position below the header
+ */
+export const addPdfCompanyHeader = async (
+  doc: any,
+  title: string,
+  subtitle?: string,
+  appName: string = 'HyFlo'
+): Promise<number> => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const logo = await loadImageDataUrl(PDF_LOGO_URL);
+  let textX = 14;
+
+  if (logo) {
+    try {
+      const { width, height } = doc.getImageProperties(logo);
+      const logoWidth = Math.min((16 * width) / height, 32);
+      doc.addImage(logo, 14, 10, logoWidth, 16);
+      textX = 14 + logoWidth + 4;
+    } catch (error) {
+      // A corrupt logo must not abort the export
+      console.warn('PDF logo skipped:', error);
+    }
+  }
+
+  doc.setFontSize(12);
+  doc.setFont(undefined, 'bold');
+  doc.text(PDF_COMPANY_NAME, textX, 16);
+  doc.setFont(undefined, 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(100);
+  doc.text(appName, textX, 22);
+  doc.text(`Generated: ${new Date().toLocaleString()}`, pageWidth - 14, 16, { align: 'right' });
+
+  doc.setDrawColor(37, 99, 235);
+  doc.setLineWidth(0.6);
+  doc.line(14, 29, pageWidth - 14, 29);
+
+  doc.setTextColor(0);
+  doc.setFontSize(16);
+  doc.text(title, 14, 39);
+
+  if (!subtitle) return 45;
+
+  doc.setFontSize(10);
+  doc.setTextColor(100);
+  doc.text(subtitle, 14, 46);
+  doc.setTextColor(0);
+  return 52;
+};
+
 /**
  * Helper function to get multi-language designation
  * @param item - Object with designationFr, designationEn, designationAr
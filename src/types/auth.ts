@@ -3,6 +3,7 @@
  * 
  * @author CHOUABBIA Amine
  * @created 02-01-2026
+ * @updated 10-19-2026 - Added SessionInfo for active session management
  * @updated 02-02-2026 - Added firstName, lastName for convenience (derived from employee)
  */
 
@@ -58,6 +59,22 @@ export interface TokenRefreshResponse {
   expiresIn: number;
 }
 
+/**
+ * Active refresh-token session
+ * `current` is set by the backend for the session backing the calling token
+ * PROPOSED CONTRACT - returned by the session endpoints the backend does not expose yet
+ */
+export interface SessionInfo {
+  id: number;
+  username: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: string;
+  lastActivityAt?: string;
+  expiresAt?: string;
+  current: boolean;
+}
+
 /**
  * Helper function to get user's first name
  * Checks firstName field first, then falls back to employee.firstNameLt
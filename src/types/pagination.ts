@@ -83,3 +83,23 @@ export const getNextPage = <T>(page: Page<T>): number | null => {
 export const getPreviousPage = <T>(page: Page<T>): number | null => {
   return page.first ? null : page.number - 1;
 };
+
+/**
+ * Helper function to load every page of a paginated query
+ * Pages are requested one after the other until totalElements is reached.
+ * Sort on a unique property (id) so rows are not repeated or skipped between pages.
+ */
+export const fetchAllPages = async <T>(
+  fetchPage: (pageable: Pageable) => Promise<Page<T>>,
+  size: number = 500,
+  sort?: string
+): Promise<T[]> => {
+  const items: T[] = [];
+  for (let page = 0; ; page++) {
+    const result = await fetchPage(createPageable(page, size, sort));
+    items.push(...result.content);
+    if (result.last || result.content.length === 0 || items.length >= result.totalElements) {
+      return items;
+    }
+  }
+};